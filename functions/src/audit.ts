@@ -0,0 +1,127 @@
+import * as admin from "firebase-admin";
+
+// Actor recorded for writes that no signed-in user initiated directly.
+export const SYSTEM_ACTOR = "system";
+
+export interface AuditActor {
+  uid: string;
+  email?: string | null;
+}
+
+export type AuditChanges =
+  Record<string, {oldValue: unknown; newValue: unknown}>;
+
+export type AuditEntity = "shipment" | "detail" | "dropdown" | "user" |
+  "settings" | "template" | "shipmentTemplate" | "departureSchedule" |
+  "seal" | "sealBatch" | "vehicle" | "driver" | "barcodeRule" | "manifest";
+
+export interface AuditEntryInput {
+  action: "create" | "update" | "delete";
+  entity: AuditEntity;
+  ref: admin.firestore.DocumentReference;
+  changes: AuditChanges;
+  details?: string;
+  // Set by the audit triggers: the commit time of the change, and a log ID
+  // derived from the event so that a redelivered event rewrites its entry.
+  timestamp?: admin.firestore.Timestamp;
+  logId?: string;
+}
+
+/**
+ * Queues an /audit_logs entry on the batch or transaction carrying the
+ * audited write. The auditTrail triggers use it for client writes.
+ * @param {admin.firestore.WriteBatch | admin.firestore.Transaction} batch
+ * The batch or transaction to add the entry to.
+ * @param {AuditActor} actor Who made the change.
+ * @param {AuditEntryInput} entry What was changed.
+ */
+export function addAuditLog(
+  batch: admin.firestore.WriteBatch | admin.firestore.Transaction,
+  actor: AuditActor,
+  entry: AuditEntryInput
+): void {
+  const logs = admin.firestore().collection("audit_logs");
+  const logRef = entry.logId ? logs.doc(entry.logId) : logs.doc();
+  const logData: admin.firestore.DocumentData = {
+    timestamp: entry.timestamp ??
+      admin.firestore.FieldValue.serverTimestamp(),
+    userId: actor.uid,
+    userEmail: actor.email ?? null,
+    action: `${entry.action}_${entry.entity}`,
+    collectionPath: entry.ref.parent.path,
+    collectionName: entry.ref.parent.id,
+    documentId: entry.ref.id,
+    changes: entry.changes,
+  };
+  if (entry.details) {
+    logData.details = entry.details;
+  }
+  (batch as admin.firestore.WriteBatch).set(logRef, logData);
+}
+
+/**
+ * Builds the "created" changes for a new document: every field, from null.
+ * @param {admin.firestore.DocumentData} data The new document's fields.
+ * @return {AuditChanges} The field changes.
+ */
+export function creationChanges(
+  data: admin.firestore.DocumentData
+): AuditChanges {
+  const changes: AuditChanges = {};
+  Object.entries(data).forEach(([field, value]) => {
+    if (value instanceof admin.firestore.FieldValue) return;
+    changes[field] = {oldValue: null, newValue: value ?? null};
+  });
+  return changes;
+}
+
+// Bookkeeping fields that change on every write and would drown the real
+// changes.
+const IGNORED_FIELDS = new Set(["createdAt", "lastUpdated", "lastLogin"]);
+
+/**
+ * Compares two stored field values. Timestamps, GeoPoints and references
+ * compare with isEqual, other objects and arrays by their JSON.
+ * @param {unknown} a One value.
+ * @param {unknown} b The other value.
+ * @return {boolean} Whether they are the same.
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a !== null && b !== null && typeof a === "object" &&
+    typeof b === "object") {
+    const comparable = a as {isEqual?: (other: unknown) => boolean};
+    if (typeof comparable.isEqual === "function") {
+      return a.constructor === b.constructor && comparable.isEqual(b);
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/**
+ * Builds the field-level changes between two stored versions of a document,
+ * skipping the bookkeeping timestamps. Pass null for `before` on create and
+ * for `after` on delete.
+ * @param {admin.firestore.DocumentData | null} before The fields before.
+ * @param {admin.firestore.DocumentData | null} after The fields after.
+ * @return {AuditChanges} The changed fields with their old and new values.
+ */
+export function diffChanges(
+  before: admin.firestore.DocumentData | null,
+  after: admin.firestore.DocumentData | null
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (!valuesEqual(oldValue, newValue)) {
+      changes[field] = {oldValue, newValue};
+    }
+  });
+  return changes;
+}
@@ -0,0 +1,99 @@
+import * as admin from "firebase-admin";
+import {
+  onDocumentWrittenWithAuthContext,
+} from "firebase-functions/v2/firestore";
+import {addAuditLog, AuditEntity, diffChanges} from "./audit";
+
+// Writers whose changes the triggers leave alone: the functions (Admin SDK)
+// record their own audit entries with addAuditLog, and "system" covers
+// Firestore itself, e.g. TTL deletions.
+const SERVER_AUTH_TYPES = new Set(["service_account", "system"]);
+
+/**
+ * Looks up the email of the user who made a change, for easier reading of
+ * the trail.
+ * @param {string} uid The user's UID.
+ * @return {Promise<string | null>} The email, or null if it is unknown.
+ */
+async function userEmail(uid: string): Promise<string | null> {
+  try {
+    const user = await admin.auth().getUser(uid);
+    return user.email ?? null;
+  } catch (error: unknown) {
+    console.warn(`Could not look up the email of user ${uid}:`,
+      error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+/**
+ * Creates the trigger that writes an /audit_logs entry for every change a
+ * client makes to the documents at a path. Updates that change nothing but
+ * the bookkeeping timestamps are not logged.
+ * @param {string} document The document path pattern, e.g. "drivers/{id}".
+ * @param {AuditEntity} entity The audited entity, as in the entry's action.
+ * @return {CloudFunction} The trigger.
+ */
+function auditTrigger<Document extends string>(
+  document: Document,
+  entity: AuditEntity
+) {
+  return onDocumentWrittenWithAuthContext(document, async (event) => {
+    if (!event.data || SERVER_AUTH_TYPES.has(event.authType)) return;
+
+    const {before, after} = event.data;
+    const action =
+      !before.exists ? "create" : !after.exists ? "delete" : "update";
+    const changes = diffChanges(before.data() ?? null, after.data() ?? null);
+    if (action === "update" && Object.keys(changes).length === 0) return;
+
+    const uid = event.authId ?? event.authType;
+    const batch = admin.firestore().batch();
+    addAuditLog(batch, {
+      uid,
+      email: event.authId ? await userEmail(event.authId) : null,
+    }, {
+      action,
+      entity,
+      ref: (after.exists ? after : before).ref,
+      changes,
+      timestamp: admin.firestore.Timestamp.fromDate(new Date(event.time)),
+      logId: event.id,
+    });
+    await batch.commit();
+  });
+}
+
+const dropdownTrigger = (collection: string) =>
+  auditTrigger(`${collection}/{itemId}`, "dropdown");
+
+// Deployed as auditTrail-<name>, one trigger per audited collection
+export const auditTrail = {
+  shipments: auditTrigger("shipments/{shipmentId}", "shipment"),
+  details: auditTrigger(
+    "shipments/{shipmentId}/details/{detailId}", "detail"),
+  users: auditTrigger("users/{userId}", "user"),
+  settings: auditTrigger("settings/{settingsId}", "settings"),
+  appSettings: auditTrigger("app_settings/{settingsId}", "settings"),
+  preAlertTemplates:
+    auditTrigger("pre_alert_templates/{templateId}", "template"),
+  shipmentTemplates:
+    auditTrigger("shipment_templates/{templateId}", "shipmentTemplate"),
+  departureSchedules:
+    auditTrigger("departure_schedules/{scheduleId}", "departureSchedule"),
+  seals: auditTrigger("seals/{sealId}", "seal"),
+  sealBatches: auditTrigger("seal_batches/{batchId}", "sealBatch"),
+  vehicles: auditTrigger("vehicles/{vehicleId}", "vehicle"),
+  drivers: auditTrigger("drivers/{driverId}", "driver"),
+  barcodeRules: auditTrigger("barcode_rules/{ruleId}", "barcodeRule"),
+  manifests: auditTrigger("manifests/{manifestId}", "manifest"),
+  carriers: dropdownTrigger("carriers"),
+  subcarriers: dropdownTrigger("subcarriers"),
+  customers: dropdownTrigger("customers"),
+  services: dropdownTrigger("services"),
+  doe: dropdownTrigger("doe"),
+  formats: dropdownTrigger("formats"),
+  formatsPrior: dropdownTrigger("formats_prior"),
+  formatsEco: dropdownTrigger("formats_eco"),
+  formatsS3c: dropdownTrigger("formats_s3c"),
+};
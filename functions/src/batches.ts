@@ -0,0 +1,28 @@
+import * as admin from "firebase-admin";
+
+// Firestore batches hold at most 500 writes.
+const WRITES_PER_BATCH = 450;
+
+/**
+ * Commits writes in as many batches as they need.
+ * @param {function} writes Each queues its writes on the batch it is given,
+ *   and returns how many it queued.
+ */
+export async function commitInBatches(
+  writes: ((batch: admin.firestore.WriteBatch) => number)[]
+): Promise<void> {
+  const db = admin.firestore();
+  let batch = db.batch();
+  let queued = 0;
+  for (const write of writes) {
+    if (queued >= WRITES_PER_BATCH) {
+      await batch.commit();
+      batch = db.batch();
+      queued = 0;
+    }
+    queued += write(batch);
+  }
+  if (queued > 0) {
+    await batch.commit();
+  }
+}
@@ -0,0 +1,239 @@
+import * as admin from "firebase-admin";
+import functionsTest from "firebase-functions-test";
+import {afterAll, beforeAll, beforeEach, describe, expect, it} from "vitest";
+import {
+  departuresToPlan,
+  lastPlannedDate,
+  plannedDepartures,
+  runDepartureSchedules,
+  SCHEDULE_TIME_ZONE,
+  zonedTimeToDate,
+} from "./departureSchedules";
+
+// The planning rules run anywhere; runDepartureSchedules runs against the
+// Firestore emulator, e.g.
+//   firebase emulators:exec --only firestore "npm --prefix functions test"
+// and is skipped without it.
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST;
+const PROJECT_ID = "demo-departure-schedules";
+
+// Monday 2 March 2026, 06:00 in London (GMT): the fake clock passed as `now`
+const NOW = "2026-03-02T06:00:00Z";
+
+const testEnv = functionsTest({projectId: PROJECT_ID});
+const runSchedules = testEnv.wrap(runDepartureSchedules);
+
+/**
+ * Removes every document from the emulator's database.
+ * @return {Promise<void>} Resolves once the database is empty.
+ */
+async function clearFirestore(): Promise<void> {
+  const response = await fetch(`http://${EMULATOR_HOST}/emulator/v1/` +
+    `projects/${PROJECT_ID}/databases/(default)/documents`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error(`Clearing the emulator failed: ${response.status}`);
+  }
+}
+
+const MONDAY = {weekday: 1, departureTime: "09:00"};
+const TUESDAY = {weekday: 2, departureTime: "07:30"};
+
+describe("zonedTimeToDate", () => {
+  const utc = (date: string, time: string) =>
+    zonedTimeToDate(date, time, SCHEDULE_TIME_ZONE).toISOString();
+
+  it("reads London times as GMT in winter and BST in summer", () => {
+    expect(utc("2026-03-02", "09:00")).toBe("2026-03-02T09:00:00.000Z");
+    expect(utc("2026-07-06", "09:00")).toBe("2026-07-06T08:00:00.000Z");
+    expect(utc("2026-07-06", "00:30")).toBe("2026-07-05T23:30:00.000Z");
+  });
+
+  it("changes offset on the day the clocks go forward", () => {
+    // Sunday 29 March 2026: 01:00 GMT becomes 02:00 BST
+    expect(utc("2026-03-29", "00:30")).toBe("2026-03-29T00:30:00.000Z");
+    expect(utc("2026-03-29", "02:00")).toBe("2026-03-29T01:00:00.000Z");
+    expect(utc("2026-03-29", "09:00")).toBe("2026-03-29T08:00:00.000Z");
+  });
+
+  it("changes offset on the day the clocks go back", () => {
+    // Sunday 25 October 2026: 02:00 BST becomes 01:00 GMT
+    expect(utc("2026-10-25", "00:30")).toBe("2026-10-24T23:30:00.000Z");
+    expect(utc("2026-10-25", "02:00")).toBe("2026-10-25T02:00:00.000Z");
+    expect(utc("2026-10-25", "09:00")).toBe("2026-10-25T09:00:00.000Z");
+  });
+
+  it("works in other time zones", () => {
+    expect(zonedTimeToDate("2026-07-06", "09:00", "Europe/Paris")
+      .toISOString()).toBe("2026-07-06T07:00:00.000Z");
+  });
+});
+
+describe("plannedDepartures", () => {
+  it("plans the schedule's weekday within the planning days", () => {
+    expect(plannedDepartures("monday", MONDAY, new Date(NOW))).toEqual([{
+      shipmentId: "schedule_monday_2026-03-02",
+      date: "2026-03-02",
+      departureDate: new Date("2026-03-02T09:00:00Z"),
+    }]);
+    expect(plannedDepartures("tuesday", TUESDAY, new Date(NOW))).toEqual([{
+      shipmentId: "schedule_tuesday_2026-03-03",
+      date: "2026-03-03",
+      departureDate: new Date("2026-03-03T07:30:00Z"),
+    }]);
+    expect(plannedDepartures("wednesday", {...MONDAY, weekday: 3},
+      new Date(NOW))).toEqual([]);
+  });
+
+  it("leaves out a departure at or before now", () => {
+    expect(plannedDepartures("monday", {...MONDAY, departureTime: "06:00"},
+      new Date(NOW))).toEqual([]);
+    expect(plannedDepartures("monday", {...MONDAY, departureTime: "06:01"},
+      new Date(NOW))).toHaveLength(1);
+  });
+
+  it("takes the weekday from the London date, not the UTC one", () => {
+    // Sunday 5 July 23:30 UTC is already Monday 6 July 00:30 in London
+    const departures =
+      plannedDepartures("monday", MONDAY, new Date("2026-07-05T23:30:00Z"));
+    expect(departures.map((departure) => departure.shipmentId))
+      .toEqual(["schedule_monday_2026-07-06"]);
+    expect(departures[0].departureDate.toISOString())
+      .toBe("2026-07-06T08:00:00.000Z");
+  });
+
+  it("plans a Sunday departure across the change to BST", () => {
+    // Saturday 28 March 2026, 12:00 GMT
+    const departures = plannedDepartures("sunday",
+      {weekday: 0, departureTime: "09:00"}, new Date("2026-03-28T12:00:00Z"));
+    expect(departures.map((departure) => departure.departureDate))
+      .toEqual([new Date("2026-03-29T08:00:00Z")]);
+  });
+});
+
+describe("departuresToPlan", () => {
+  it("plans through the last of the two planning days", () => {
+    expect(lastPlannedDate(new Date(NOW))).toBe("2026-03-03");
+    // 23:30 UTC on Monday 6 July is Tuesday in London
+    expect(lastPlannedDate(new Date("2026-07-06T23:30:00Z")))
+      .toBe("2026-07-08");
+  });
+
+  it("plans every departure when nothing is planned yet", () => {
+    expect(departuresToPlan("monday", MONDAY, "", new Date(NOW)))
+      .toEqual(plannedDepartures("monday", MONDAY, new Date(NOW)));
+  });
+
+  it("leaves out the days up to plannedThrough", () => {
+    expect(departuresToPlan("monday", MONDAY, "2026-03-02", new Date(NOW)))
+      .toEqual([]);
+    expect(departuresToPlan("tuesday", TUESDAY, "2026-03-02", new Date(NOW))
+      .map((departure) => departure.date)).toEqual(["2026-03-03"]);
+  });
+
+  it("plans nothing once plannedThrough covers the last day", () => {
+    expect(departuresToPlan("tuesday", TUESDAY, "2026-03-03", new Date(NOW)))
+      .toEqual([]);
+    expect(departuresToPlan("tuesday", TUESDAY, "2026-03-10", new Date(NOW)))
+      .toEqual([]);
+  });
+});
+
+describe.skipIf(!EMULATOR_HOST)("runDepartureSchedules", () => {
+  let db: admin.firestore.Firestore;
+
+  beforeAll(() => {
+    // The fake clock is only honoured in the Functions emulator
+    process.env.FUNCTIONS_EMULATOR = "true";
+    if (admin.apps.length === 0) admin.initializeApp({projectId: PROJECT_ID});
+    db = admin.firestore();
+  });
+
+  beforeEach(async () => {
+    await clearFirestore();
+    await db.collection("users").doc("admin-1").set({role: "admin"});
+    await db.collection("departure_schedules").doc("monday").set({
+      active: true,
+      lane: "LHR-CDG",
+      weekday: 1,
+      departureTime: "09:00",
+      carrierId: "road-carrier",
+    });
+    await db.collection("departure_schedules").doc("tuesday").set({
+      active: true,
+      lane: "LHR-AMS",
+      weekday: 2,
+      departureTime: "07:30",
+      carrierId: "road-carrier",
+      subcarrierId: "sub-carrier",
+    });
+  });
+
+  afterAll(async () => {
+    delete process.env.FUNCTIONS_EMULATOR;
+    testEnv.cleanup();
+    await Promise.all(admin.apps.map((app) => app?.delete()));
+  });
+
+  const run = () => runSchedules({now: NOW}, {auth: {uid: "admin-1"}});
+
+  it("plans the departures over the next two days as of `now`", async () => {
+    await expect(run()).resolves.toEqual({created: 2});
+
+    const monday = await db.doc("shipments/schedule_monday_2026-03-02").get();
+    expect(monday.data()).toMatchObject({
+      status: "Draft",
+      scheduleId: "monday",
+      carrierId: "road-carrier",
+      statusChangedBy: "system",
+    });
+    expect(monday.get("departureDate").toDate().toISOString())
+      .toBe("2026-03-02T09:00:00.000Z");
+    const tuesday = await db.doc("shipments/schedule_tuesday_2026-03-03").get();
+    expect(tuesday.get("subcarrierId")).toBe("sub-carrier");
+
+    const schedules = await db.collection("departure_schedules").get();
+    expect(schedules.docs.map((doc) => doc.get("plannedThrough")))
+      .toEqual(["2026-03-03", "2026-03-03"]);
+    const audit = await db.collection("audit_logs").get();
+    expect(audit.docs.map((doc) => doc.get("action")))
+      .toEqual(["create_shipment", "create_shipment"]);
+  });
+
+  it("skips a shipment that already exists and plans the other schedules",
+    async () => {
+      // As left by an overlapping run that had not yet recorded plannedThrough
+      await db.doc("shipments/schedule_monday_2026-03-02")
+        .set({status: "Loading", scheduleId: "monday"});
+
+      await expect(run()).resolves.toEqual({created: 1});
+
+      const monday = await db.doc("shipments/schedule_monday_2026-03-02").get();
+      expect(monday.data()).toEqual({status: "Loading", scheduleId: "monday"});
+      const tuesday =
+        await db.doc("shipments/schedule_tuesday_2026-03-03").get();
+      expect(tuesday.exists).toBe(true);
+      const mondaySchedule = await db.doc("departure_schedules/monday").get();
+      expect(mondaySchedule.get("plannedThrough")).toBe("2026-03-03");
+    });
+
+  it("creates nothing when run again for the same days", async () => {
+    await run();
+    await db.doc("shipments/schedule_monday_2026-03-02").delete();
+
+    await expect(run()).resolves.toEqual({created: 0});
+    const deleted = await db.doc("shipments/schedule_monday_2026-03-02").get();
+    expect(deleted.exists).toBe(false);
+  });
+
+  it("plans the next days once the clock moves on", async () => {
+    await run();
+
+    // Tuesday 3 March, after that day's 07:30 departure: only Wednesday is new
+    await expect(runSchedules({now: "2026-03-03T08:00:00Z"},
+      {auth: {uid: "admin-1"}})).resolves.toEqual({created: 0});
+    const schedule = await db.doc("departure_schedules/tuesday").get();
+    expect(schedule.get("plannedThrough")).toBe("2026-03-04");
+  });
+});
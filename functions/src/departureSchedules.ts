@@ -0,0 +1,329 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {addAuditLog, creationChanges, SYSTEM_ACTOR} from "./audit";
+import {assertAdmin} from "./roles";
+
+// Departure times on the timetable are local to the depot.
+export const SCHEDULE_TIME_ZONE = "Europe/London";
+
+// Days planned ahead on each run, starting with today.
+const PLANNING_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A departure the timetable asks for on one calendar day. */
+export interface PlannedDeparture {
+  shipmentId: string;
+  date: string;
+  departureDate: Date;
+}
+
+interface ScheduleData {
+  weekday: number;
+  departureTime: string;
+}
+
+/**
+ * The offset of a time zone from UTC at an instant, in milliseconds.
+ * @param {Date} instant The instant.
+ * @param {string} timeZone An IANA time zone, e.g. "Europe/London".
+ * @return {number} Local time minus UTC.
+ */
+function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour12: false,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant).forEach((part) => {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  });
+  const localAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day,
+    parts.hour % 24, parts.minute, parts.second);
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a local wall-clock time in a time zone to the instant it names.
+ * @param {string} date The local date, "YYYY-MM-DD".
+ * @param {string} time The local time, "HH:mm".
+ * @param {string} timeZone An IANA time zone.
+ * @return {Date} The instant.
+ */
+export function zonedTimeToDate(
+  date: string,
+  time: string,
+  timeZone: string
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Correct by the offset at the guess, then again in case that crossed a
+  // daylight saving change.
+  const guess = wallClock - timeZoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - timeZoneOffsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * The local calendar date of an instant in a time zone.
+ * @param {Date} instant The instant.
+ * @param {string} timeZone An IANA time zone.
+ * @return {string} The date, "YYYY-MM-DD".
+ */
+function localDate(instant: Date, timeZone: string): string {
+  const offsetInstant = new Date(
+    instant.getTime() + timeZoneOffsetMs(instant, timeZone)
+  );
+  return offsetInstant.toISOString().slice(0, 10);
+}
+
+/**
+ * The departures a schedule asks for from today on, over the planning days,
+ * leaving out any already past. Shipment IDs are derived from the schedule
+ * and date, so planning the same departure twice names the same document.
+ * @param {string} scheduleId The schedule's document ID.
+ * @param {ScheduleData} schedule Its weekday and departure time.
+ * @param {Date} now The current time.
+ * @return {PlannedDeparture[]} The departures, earliest first.
+ */
+export function plannedDepartures(
+  scheduleId: string,
+  schedule: ScheduleData,
+  now: Date
+): PlannedDeparture[] {
+  const today = localDate(now, SCHEDULE_TIME_ZONE);
+  const departures: PlannedDeparture[] = [];
+  for (let offset = 0; offset < PLANNING_DAYS; offset++) {
+    const day = new Date(Date.parse(today) + offset * DAY_MS);
+    if (day.getUTCDay() !== schedule.weekday) continue;
+    const date = day.toISOString().slice(0, 10);
+    const departureDate = zonedTimeToDate(
+      date,
+      schedule.departureTime,
+      SCHEDULE_TIME_ZONE
+    );
+    if (departureDate.getTime() <= now.getTime()) continue;
+    departures.push({
+      shipmentId: `schedule_${scheduleId}_${date}`,
+      date,
+      departureDate,
+    });
+  }
+  return departures;
+}
+
+/**
+ * The last day a run at an instant plans, the final of the planning days.
+ * @param {Date} now The time to plan from.
+ * @return {string} The date, "YYYY-MM-DD".
+ */
+export function lastPlannedDate(now: Date): string {
+  const today = localDate(now, SCHEDULE_TIME_ZONE);
+  return new Date(Date.parse(today) + (PLANNING_DAYS - 1) * DAY_MS)
+    .toISOString().slice(0, 10);
+}
+
+/**
+ * The departures a run plans for a schedule: those on days after its
+ * plannedThrough date, or none once that covers the run's last day.
+ * @param {string} scheduleId The schedule's document ID.
+ * @param {ScheduleData} schedule Its weekday and departure time.
+ * @param {string} plannedThrough The last day already planned, "YYYY-MM-DD",
+ *     or "" if none is.
+ * @param {Date} now The current time.
+ * @return {PlannedDeparture[]} The departures, earliest first.
+ */
+export function departuresToPlan(
+  scheduleId: string,
+  schedule: ScheduleData,
+  plannedThrough: string,
+  now: Date
+): PlannedDeparture[] {
+  if (plannedThrough >= lastPlannedDate(now)) return [];
+  return plannedDepartures(scheduleId, schedule, now)
+    .filter((departure) => departure.date > plannedThrough);
+}
+
+/**
+ * The Draft shipment a schedule plans for one departure.
+ * @param {string} scheduleId The schedule's document ID.
+ * @param {admin.firestore.DocumentData} schedule The schedule.
+ * @param {PlannedDeparture} departure The departure.
+ * @param {admin.firestore.Timestamp} at The planning time.
+ * @return {admin.firestore.DocumentData} The shipment document.
+ */
+function plannedShipmentData(
+  scheduleId: string,
+  schedule: admin.firestore.DocumentData,
+  departure: PlannedDeparture,
+  at: admin.firestore.Timestamp
+): admin.firestore.DocumentData {
+  const shipmentData: admin.firestore.DocumentData = {
+    carrierId: schedule.carrierId ?? "",
+    driverName: "",
+    departureDate: admin.firestore.Timestamp.fromDate(departure.departureDate),
+    arrivalDate: admin.firestore.Timestamp.fromMillis(
+      departure.departureDate.getTime() + DAY_MS
+    ),
+    status: "Draft",
+    statusHistory: [
+      {from: null, to: "Draft", at, by: SYSTEM_ACTOR, byEmail: null},
+    ],
+    statusChangedBy: SYSTEM_ACTOR,
+    statusChangedAt: admin.firestore.FieldValue.serverTimestamp(),
+    sealNumber: "",
+    truckRegistration: "",
+    trailerRegistration: "",
+    truckId: null,
+    trailerId: null,
+    senderAddress: schedule.senderAddress ?? "",
+    consigneeAddress: schedule.consigneeAddress ?? "",
+    descriptionOfGoods: "",
+    totalPallets: 0,
+    totalBags: 0,
+    totalGrossWeight: 0,
+    totalTareWeight: 0,
+    totalNetWeight: 0,
+    netWeightByBucket: {},
+    customerIds: [],
+    scheduleId,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  if (schedule.subcarrierId) {
+    shipmentData.subcarrierId = schedule.subcarrierId;
+  }
+  return shipmentData;
+}
+
+/**
+ * Plans one schedule in a transaction: re-reads its plannedThrough date and
+ * the shipments it would create, creates the missing ones and skips those
+ * already there (e.g. from an overlapping run), so one conflict neither
+ * fails the other departures nor the schedules planned after it.
+ * @param {admin.firestore.DocumentReference} scheduleRef The schedule.
+ * @param {Date} now The time to plan from.
+ * @param {string} lastDate The last day this run plans, "YYYY-MM-DD".
+ * @return {Promise<number>} The number of shipments created.
+ */
+async function planSchedule(
+  scheduleRef: admin.firestore.DocumentReference,
+  now: Date,
+  lastDate: string
+): Promise<number> {
+  const db = admin.firestore();
+  const at = admin.firestore.Timestamp.fromDate(now);
+  return db.runTransaction(async (transaction) => {
+    const scheduleSnap = await transaction.get(scheduleRef);
+    const schedule = scheduleSnap.data();
+    if (!schedule?.active) return 0;
+    const plannedThrough: string = schedule.plannedThrough ?? "";
+    if (plannedThrough >= lastDate) return 0;
+
+    const departures = departuresToPlan(scheduleRef.id, {
+      weekday: schedule.weekday,
+      departureTime: schedule.departureTime,
+    }, plannedThrough, now);
+    const shipmentRefs = departures.map((departure) =>
+      db.collection("shipments").doc(departure.shipmentId));
+    const existing = shipmentRefs.length > 0 ?
+      await transaction.getAll(...shipmentRefs) : [];
+
+    let created = 0;
+    departures.forEach((departure, index) => {
+      if (existing[index].exists) return;
+      const shipmentRef = shipmentRefs[index];
+      const shipmentData =
+        plannedShipmentData(scheduleRef.id, schedule, departure, at);
+      transaction.create(shipmentRef, shipmentData);
+      addAuditLog(transaction, {uid: SYSTEM_ACTOR}, {
+        action: "create",
+        entity: "shipment",
+        ref: shipmentRef,
+        changes: creationChanges(shipmentData),
+        details: `Planned from the ${schedule.lane} departure schedule.`,
+      });
+      created++;
+    });
+    transaction.update(scheduleRef, {plannedThrough: lastDate});
+    return created;
+  });
+}
+
+/**
+ * Creates the Draft shipments the active departure schedules ask for over
+ * the planning days. Safe to run any number of times: a schedule's
+ * plannedThrough date records the days already planned, so a planned
+ * shipment deleted by hand is not created again, and the shipment IDs are
+ * derived from schedule and date, so overlapping runs cannot both create one.
+ * Each schedule is planned on its own; one that fails is logged and the
+ * rest are still planned.
+ * @param {Date} now The time to plan from.
+ * @return {Promise<number>} The number of shipments created.
+ */
+export async function createPlannedShipments(now: Date): Promise<number> {
+  const db = admin.firestore();
+  const schedulesSnap = await db.collection("departure_schedules")
+    .where("active", "==", true)
+    .get();
+
+  const lastDate = lastPlannedDate(now);
+  let created = 0;
+  let failed = 0;
+  for (const scheduleDoc of schedulesSnap.docs) {
+    if ((scheduleDoc.get("plannedThrough") ?? "") >= lastDate) continue;
+    try {
+      created += await planSchedule(scheduleDoc.ref, now, lastDate);
+    } catch (error) {
+      failed++;
+      console.error(
+        `Error planning departure schedule ${scheduleDoc.id}:`, error
+      );
+    }
+  }
+  if (failed > 0) {
+    throw new Error(`${failed} departure schedule(s) could not be ` +
+      `planned; ${created} shipment(s) were created.`);
+  }
+  return created;
+}
+
+export const createPlannedShipmentsScheduled = functions.pubsub
+  .schedule("every day 03:00")
+  .timeZone(SCHEDULE_TIME_ZONE)
+  .onRun(async () => {
+    const created = await createPlannedShipments(new Date());
+    console.log(`Created ${created} planned shipment(s).`);
+  });
+
+// Runs the planning now for admins. In the Functions emulator the caller may
+// pass {now: ISO date} to plan as of another time.
+export const runDepartureSchedules = functions.https.onCall(
+  async (data, context) => {
+    await assertAdmin(context);
+    const fakeNow = process.env.FUNCTIONS_EMULATOR === "true" &&
+      typeof data?.now === "string" ? new Date(data.now) : null;
+    if (fakeNow && isNaN(fakeNow.getTime())) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "now must be an ISO date."
+      );
+    }
+    try {
+      const created = await createPlannedShipments(fakeNow ?? new Date());
+      return {created};
+    } catch (error: unknown) {
+      console.error("Error running departure schedules:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to create the planned shipments.",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+);
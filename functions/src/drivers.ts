@@ -0,0 +1,342 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {addAuditLog, AuditActor, AuditChanges} from "./audit";
+import {commitInBatches} from "./batches";
+import {assertAdmin} from "./roles";
+import {
+  buildShipmentDocuments,
+  loadDocumentBuildInput,
+  StoredDocument,
+  storeShipmentDocuments,
+} from "./shipmentDocuments";
+
+// Must match ERASED_DRIVER_NAME in src/lib/drivers.ts.
+export const ERASED_DRIVER_NAME = "ERASED DRIVER";
+
+// Written over erased values in the audit trail.
+const ERASED_VALUE = "[erased]";
+
+// The personal data fields of a /drivers document.
+const PERSONAL_FIELDS = ["name", "phone", "idNumber", "nationality"];
+
+// Generated documents that print the driver: the CMR with their name, phone
+// and ID number, and the e-CMR with their name.
+const DRIVER_DOCUMENT_TYPES: StoredDocument["type"][] = ["cmr", "ecmr"];
+
+/**
+ * Reads the driver a callable was asked about.
+ * @param {unknown} data The callable payload, {driverId}.
+ * @return {Promise<admin.firestore.DocumentSnapshot>} The driver document.
+ */
+async function getRequestedDriver(
+  data: unknown
+): Promise<admin.firestore.DocumentSnapshot> {
+  const driverId = (data as {driverId?: unknown} | null)?.driverId;
+  if (typeof driverId !== "string" || !driverId) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "The function must be called with a driverId."
+    );
+  }
+  const driverSnap = await admin.firestore()
+    .collection("drivers").doc(driverId).get();
+  if (!driverSnap.exists) {
+    throw new functions.https.HttpsError(
+      "not-found",
+      `Driver ${driverId} does not exist.`
+    );
+  }
+  return driverSnap;
+}
+
+/**
+ * Converts Firestore values to plain JSON, timestamps as ISO strings.
+ * @param {unknown} value The value to convert.
+ * @return {unknown} The JSON value.
+ */
+function toExportValue(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toExportValue);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value)
+      .map(([key, item]) => [key, toExportValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * Finds the audit entries of some documents of a collection.
+ * @param {string} collectionName The audited collection.
+ * @param {string[]} documentIds The audited documents.
+ * @return {Promise<admin.firestore.QueryDocumentSnapshot[]>} The entries.
+ */
+async function getAuditEntries(
+  collectionName: string,
+  documentIds: string[]
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const snapshots = await Promise.all(documentIds.map((documentId) =>
+    admin.firestore().collection("audit_logs")
+      .where("collectionName", "==", collectionName)
+      .where("documentId", "==", documentId)
+      .get()));
+  return snapshots.flatMap((snapshot) => snapshot.docs);
+}
+
+/**
+ * Redacts the given fields of an audit entry's changes, where they hold one
+ * of the given values (or any value, when none are given).
+ * @param {AuditChanges} changes The audit entry's changes.
+ * @param {string[]} fields The fields to redact.
+ * @param {string[]} [values] Only redact these values, compared case-blind.
+ * @return {AuditChanges | null} The redacted changes, or null if unchanged.
+ */
+function redactChanges(
+  changes: AuditChanges | undefined,
+  fields: string[],
+  values?: string[]
+): AuditChanges | null {
+  if (!changes) return null;
+  const matches = (value: unknown) => value !== null && value !== "" &&
+    (!values || (typeof value === "string" &&
+      values.includes(value.trim().toUpperCase())));
+  let redacted = false;
+  const result: AuditChanges = {...changes};
+  fields.filter((field) => result[field]).forEach((field) => {
+    const {oldValue, newValue} = result[field];
+    if (!matches(oldValue) && !matches(newValue)) return;
+    result[field] = {
+      oldValue: matches(oldValue) ? ERASED_VALUE : oldValue,
+      newValue: matches(newValue) ? ERASED_VALUE : newValue,
+    };
+    redacted = true;
+  });
+  return redacted ? result : null;
+}
+
+// Audit entries, the fields to redact in them, and the values to redact.
+type Redaction =
+  [admin.firestore.QueryDocumentSnapshot[], string[], string[] | undefined];
+
+// Everything stored about a driver, for a subject access request: the driver
+// record, the shipments and templates naming them, and the driver's audit
+// trail.
+export const exportDriverData = functions.https.onCall(
+  async (data, context) => {
+    await assertAdmin(context);
+    const driverSnap = await getRequestedDriver(data);
+    try {
+      const db = admin.firestore();
+      const [shipmentsSnap, templatesSnap, auditEntries] = await Promise.all([
+        db.collection("shipments").where("driverId", "==", driverSnap.id).get(),
+        db.collection("shipment_templates")
+          .where("driverId", "==", driverSnap.id).get(),
+        getAuditEntries("drivers", [driverSnap.id]),
+      ]);
+      return {
+        exportedAt: new Date().toISOString(),
+        driver: toExportValue({id: driverSnap.id, ...driverSnap.data()}),
+        shipments: shipmentsSnap.docs.map((shipmentDoc) => ({
+          id: shipmentDoc.id,
+          status: shipmentDoc.get("status") ?? "",
+          departureDate: toExportValue(shipmentDoc.get("departureDate")) ??
+            null,
+          driverName: shipmentDoc.get("driverName") ?? "",
+        })),
+        shipmentTemplates: templatesSnap.docs.map((templateDoc) => ({
+          id: templateDoc.id,
+          name: templateDoc.get("name") ?? "",
+        })),
+        auditTrail: auditEntries.map((entry) => toExportValue({
+          timestamp: entry.get("timestamp"),
+          action: entry.get("action"),
+          userEmail: entry.get("userEmail"),
+          changes: entry.get("changes"),
+        })),
+      };
+    } catch (error: unknown) {
+      console.error("Error exporting driver data:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to export the driver's data.",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+);
+
+/**
+ * Replaces the stored CMR and e-CMR of a shipment whose driver was erased:
+ * renders them again, now without the driver's personal data, and deletes
+ * the versions generated before.
+ * @param {admin.firestore.DocumentReference} shipmentRef The shipment.
+ * @param {AuditActor} actor The admin who erased the driver.
+ */
+async function reissueDriverDocuments(
+  shipmentRef: admin.firestore.DocumentReference,
+  actor: AuditActor
+): Promise<void> {
+  const shipmentSnap = await shipmentRef.get();
+  const stored: StoredDocument[] = shipmentSnap.get("documents") ?? [];
+  const earlier = stored.filter((entry) =>
+    DRIVER_DOCUMENT_TYPES.includes(entry.type));
+  if (earlier.length === 0) return;
+
+  const now = new Date();
+  const {input, templates} = await loadDocumentBuildInput(shipmentSnap, now);
+  await storeShipmentDocuments(shipmentRef,
+    buildShipmentDocuments(input, templates)
+      .filter((built) => DRIVER_DOCUMENT_TYPES.includes(built.type)),
+    now);
+
+  const bucket = admin.storage().bucket();
+  await Promise.all(earlier.map((entry) =>
+    bucket.file(entry.storagePath).delete({ignoreNotFound: true})));
+  const batch = admin.firestore().batch();
+  batch.update(shipmentRef, {
+    documents: admin.firestore.FieldValue.arrayRemove(...earlier),
+  });
+  addAuditLog(batch, actor, {
+    action: "update",
+    entity: "shipment",
+    ref: shipmentRef,
+    changes: {
+      documents: {
+        oldValue: earlier.map((entry) => entry.storagePath),
+        newValue: null,
+      },
+    },
+    details: "Documents naming the erased driver deleted and issued again.",
+  });
+  await batch.commit();
+}
+
+// Erases a driver's personal data on request. The driver record is kept as
+// a placeholder so shipments still point at it; the name on the driver's
+// shipments and templates is replaced, and the personal values in their
+// audit trails are redacted. The stored CMR and e-CMR of the shipments are
+// issued again without the driver and the earlier versions deleted; the
+// Pre-Alert does not print the driver. Runs with the Admin SDK because
+// sealed shipments are locked to client writes.
+export const eraseDriverData = functions.https.onCall(
+  async (data, context) => {
+    const callerUid = await assertAdmin(context);
+    const driverSnap = await getRequestedDriver(data);
+    const driver = driverSnap.data() ?? {};
+    if (driver.erasedAt) {
+      return {shipments: 0};
+    }
+    const actor = {uid: callerUid, email: context.auth?.token.email ?? null};
+    const names = typeof driver.name === "string" && driver.name.trim() ?
+      [driver.name.trim().toUpperCase()] : [];
+    try {
+      const db = admin.firestore();
+      const [shipmentsSnap, templatesSnap] = await Promise.all([
+        db.collection("shipments").where("driverId", "==", driverSnap.id).get(),
+        db.collection("shipment_templates")
+          .where("driverId", "==", driverSnap.id).get(),
+      ]);
+      const [driverEntries, shipmentEntries, templateEntries] =
+        await Promise.all([
+          getAuditEntries("drivers", [driverSnap.id]),
+          getAuditEntries("shipments", shipmentsSnap.docs.map((d) => d.id)),
+          getAuditEntries("shipment_templates",
+            templatesSnap.docs.map((d) => d.id)),
+        ]);
+
+      const writes: ((batch: admin.firestore.WriteBatch) => number)[] = [];
+      // Redact the trail first, so a failure part way never leaves new
+      // entries naming the driver.
+      const redactions: Redaction[] = [
+        [driverEntries, PERSONAL_FIELDS, undefined],
+        [shipmentEntries, ["driverName"], names],
+        [templateEntries, ["driverName"], names],
+      ];
+      redactions.forEach(([entries, fields, values]) => {
+        entries.forEach((entry) => {
+          const changes = redactChanges(entry.get("changes"), fields, values);
+          if (!changes) return;
+          writes.push((batch) => {
+            batch.update(entry.ref, {changes});
+            return 1;
+          });
+        });
+      });
+      const erasedName = {
+        driverName: {oldValue: ERASED_VALUE, newValue: ERASED_DRIVER_NAME},
+      };
+      shipmentsSnap.docs.forEach((shipmentDoc) => {
+        writes.push((batch) => {
+          batch.update(shipmentDoc.ref, {
+            driverName: ERASED_DRIVER_NAME,
+            lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          addAuditLog(batch, actor, {
+            action: "update",
+            entity: "shipment",
+            ref: shipmentDoc.ref,
+            changes: erasedName,
+            details: "Driver's personal data erased on request.",
+          });
+          return 2;
+        });
+      });
+      templatesSnap.docs.forEach((templateDoc) => {
+        writes.push((batch) => {
+          batch.update(templateDoc.ref, {
+            driverName: ERASED_DRIVER_NAME,
+            lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          addAuditLog(batch, actor, {
+            action: "update",
+            entity: "shipmentTemplate",
+            ref: templateDoc.ref,
+            changes: erasedName,
+            details: "Driver's personal data erased on request.",
+          });
+          return 2;
+        });
+      });
+      writes.push((batch) => {
+        batch.update(driverSnap.ref, {
+          name: ERASED_DRIVER_NAME,
+          phone: "",
+          idNumber: "",
+          nationality: "",
+          active: false,
+          erasedAt: admin.firestore.FieldValue.serverTimestamp(),
+          lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        const changes: AuditChanges = {};
+        PERSONAL_FIELDS.forEach((field) => {
+          changes[field] = {oldValue: ERASED_VALUE, newValue: null};
+        });
+        addAuditLog(batch, actor, {
+          action: "update",
+          entity: "driver",
+          ref: driverSnap.ref,
+          changes,
+          details: `Personal data erased on request, with the driver name on ${
+            shipmentsSnap.size} shipment(s).`,
+        });
+        return 2;
+      });
+      await commitInBatches(writes);
+      // After the erasure, so that the documents are rendered without it
+      for (const shipmentDoc of shipmentsSnap.docs) {
+        await reissueDriverDocuments(shipmentDoc.ref, actor);
+      }
+      return {shipments: shipmentsSnap.size};
+    } catch (error: unknown) {
+      console.error("Error erasing driver data:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to erase the driver's data.",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+);
@@ -1,5 +1,6 @@
-import * as functions from 'firebase-functions';
+import * as functions from 'firebase-functions/v1';
 import * as admin from 'firebase-admin';
+import { addAuditLog, creationChanges, SYSTEM_ACTOR } from './audit';
 
 admin.initializeApp();
 const db = admin.firestore();
@@ -51,14 +52,24 @@ export const createNewUser = functions.https.onCall(async (data, context) => {
     // 3. Set custom claims for the user's role
     await admin.auth().setCustomUserClaims(userRecord.uid, { role: role });
 
-    // 4. Create user document in Firestore
-    await db.collection('users').doc(userRecord.uid).set({
+    // 4. Create user document in Firestore, together with its audit entry
+    const userRef = db.collection('users').doc(userRecord.uid);
+    const userData = {
       uid: userRecord.uid,
       email: userRecord.email,
       role: role,
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       lastLogin: admin.firestore.FieldValue.serverTimestamp(), // Set initial lastLogin
+    };
+    const batch = db.batch();
+    batch.set(userRef, userData);
+    addAuditLog(batch, { uid: callerUid, email: callerUserRecord.email }, {
+      action: 'create',
+      entity: 'user',
+      ref: userRef,
+      changes: creationChanges(userData),
     });
+    await batch.commit();
 
     return { uid: userRecord.uid, email: userRecord.email, role: role };
 
@@ -92,14 +103,25 @@ export const onAuthUserCreate = functions.auth.user().onCreate(async (user) => {
     // Set custom claims for the user's role
     await admin.auth().setCustomUserClaims(user.uid, { role: defaultRole });
 
-    // Create user document in Firestore
-    await db.collection('users').doc(user.uid).set({
+    // Create user document in Firestore, together with its audit entry
+    const userRef = db.collection('users').doc(user.uid);
+    const userData = {
       uid: user.uid,
       email: user.email,
       role: defaultRole,
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       lastLogin: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    const batch = db.batch();
+    batch.set(userRef, userData);
+    addAuditLog(batch, { uid: SYSTEM_ACTOR }, {
+      action: 'create',
+      entity: 'user',
+      ref: userRef,
+      changes: creationChanges(userData),
+      details: 'Created by the sign-up trigger.',
     });
+    await batch.commit();
 
     console.log(`Firestore user document created for UID: ${user.uid} with role: ${defaultRole}`);
     return null; // Cloud Functions should return null or a Promise<any>
@@ -107,4 +129,36 @@ export const onAuthUserCreate = functions.auth.user().onCreate(async (user) => {
     console.error(`Error creating Firestore user document for UID: ${user.uid}`, error);
     return null;
   }
-});
\ No newline at end of file
+});
+
+// Shipment totals are aggregated server-side from the details subcollection
+export {
+  onShipmentDetailWrite,
+  onDetailBatchCreate,
+  rebuildShipmentTotals,
+} from './shipmentTotals';
+
+// In-app notifications created from shipment and user events
+export {
+  onShipmentSealedNotify,
+  onUserRoleChangedNotify,
+  notifyOverduePendingShipmentsScheduled,
+} from './notifications';
+
+// Moves Pending/Completed shipments onto the Draft-to-Delivered lifecycle
+export { migrateShipmentStatuses } from './statusMigration';
+
+// Creates the Draft shipments of the weekly departure timetable
+export {
+  createPlannedShipmentsScheduled,
+  runDepartureSchedules,
+} from './departureSchedules';
+
+// Export and erasure of a driver's personal data
+export { exportDriverData, eraseDriverData } from './drivers';
+
+// Issues and emails the Pre-Alert and CMR of sealed shipments
+export { onShipmentSealedSendDocuments } from './shipmentEmail';
+
+// Audit trail of every client write, with the user who made it
+export { auditTrail } from './auditTrail';
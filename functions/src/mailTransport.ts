@@ -0,0 +1,87 @@
+import * as nodemailer from "nodemailer";
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments: MailAttachment[];
+}
+
+export interface MailSendResult {
+  messageId: string;
+}
+
+/**
+ * Anything that can deliver a MailMessage. The SMTP implementation below is
+ * the default; tests and emulators can swap in their own with
+ * setMailTransport().
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<MailSendResult>;
+}
+
+/**
+ * Reads the SMTP settings from the environment (functions/.env or the
+ * emulator's environment). For local testing, point SMTP_HOST/SMTP_PORT at
+ * a stand-in such as Mailpit (localhost:1025) and leave SMTP_USER unset.
+ * @return {MailTransport} A transport that sends through SMTP.
+ */
+export function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.MAIL_FROM;
+  if (!host || !from) {
+    throw new Error("SMTP_HOST and MAIL_FROM must be configured.");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    } : undefined,
+  });
+
+  return {
+    async send(message: MailMessage): Promise<MailSendResult> {
+      const info = await transporter.sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        attachments: message.attachments,
+      });
+      return {messageId: info.messageId};
+    },
+  };
+}
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Returns the transport used to send mail, creating the SMTP transport on
+ * first use.
+ * @return {MailTransport} The active transport.
+ */
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    activeTransport = createSmtpTransport();
+  }
+  return activeTransport;
+}
+
+/**
+ * Replaces the transport, e.g. with an in-memory fake in tests.
+ * Pass null to go back to the SMTP transport.
+ * @param {MailTransport | null} transport The transport to use.
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  activeTransport = transport;
+}
@@ -0,0 +1,170 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {commitInBatches} from "./batches";
+
+// Must match DEFAULT_PENDING_ALERT_HOURS in src/lib/constants.ts.
+// Overridden by pendingAlertHours in settings/app.
+export const DEFAULT_PENDING_ALERT_HOURS = 24;
+
+export type NotificationType =
+  "shipment_sealed" | "shipment_overdue" | "role_changed";
+
+// Statuses of shipments that are still at the depot.
+const UNDEPARTED_STATUSES = ["Draft", "Loading", "Sealed"];
+
+interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body: string;
+  shipmentId?: string;
+}
+
+/**
+ * Builds the /notifications document for one recipient.
+ * @param {string} userId The recipient's UID.
+ * @param {NotificationInput} input The notification content.
+ * @return {admin.firestore.DocumentData} The document data.
+ */
+function notificationData(
+  userId: string,
+  input: NotificationInput
+): admin.firestore.DocumentData {
+  const data: admin.firestore.DocumentData = {
+    userId,
+    type: input.type,
+    title: input.title,
+    body: input.body,
+    read: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  if (input.shipmentId) {
+    data.shipmentId = input.shipmentId;
+  }
+  return data;
+}
+
+/**
+ * Lists the UIDs of every user with a /users document.
+ * @return {Promise<string[]>} The recipients' UIDs.
+ */
+async function getAllUserIds(): Promise<string[]> {
+  const usersSnap = await admin.firestore().collection("users").select().get();
+  return usersSnap.docs.map((doc) => doc.id);
+}
+
+/**
+ * Describes a shipment in notification text, e.g. "DHL - John (seal 123)".
+ * @param {admin.firestore.DocumentData} shipment The shipment data.
+ * @return {string} A short human-readable label.
+ */
+function describeShipment(shipment: admin.firestore.DocumentData): string {
+  const parts = [shipment.carrierId, shipment.driverName].filter(Boolean);
+  const label = parts.length ? parts.join(" - ") : "Shipment";
+  return shipment.sealNumber ? `${label} (seal ${shipment.sealNumber})` : label;
+}
+
+// Notifies every user when a shipment is sealed and its documents are issued.
+export const onShipmentSealedNotify = functions.firestore
+  .document("shipments/{shipmentId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    // Only a load being sealed: the status migration also moves shipments
+    // into Sealed, from Completed, and those must not notify anyone.
+    if (before.status !== "Loading" || after.status !== "Sealed") {
+      return;
+    }
+
+    const {shipmentId} = context.params;
+    const userIds = await getAllUserIds();
+    const db = admin.firestore();
+    await commitInBatches(userIds.map((userId) => (batch) => {
+      batch.set(db.collection("notifications").doc(), notificationData(userId, {
+        type: "shipment_sealed",
+        title: "Shipment sealed",
+        body: `${describeShipment(after)} was sealed and is ready to depart.`,
+        shipmentId,
+      }));
+      return 1;
+    }));
+  });
+
+// Tells a user when an admin changes their role.
+export const onUserRoleChangedNotify = functions.firestore
+  .document("users/{userId}")
+  .onUpdate(async (change, context) => {
+    const beforeRole = change.before.data().role;
+    const afterRole = change.after.data().role;
+    if (!beforeRole || beforeRole === afterRole) {
+      return;
+    }
+
+    const {userId} = context.params;
+    await admin.firestore().collection("notifications").add(
+      notificationData(userId, {
+        type: "role_changed",
+        title: "Your role was changed",
+        body: `Your role changed from ${beforeRole} to ${afterRole}.`,
+      })
+    );
+  });
+
+/**
+ * Notifies every user about shipments not yet departed more than the configured
+ * number of hours after their departure date. Each shipment is reported once
+ * per user: notification IDs are derived from the shipment and user, and
+ * existing ones are left untouched so their read state is kept.
+ * @param {Date} now The time to measure overdue shipments against.
+ * @return {Promise<number>} The number of notifications created.
+ */
+export async function notifyOverduePendingShipments(
+  now: Date
+): Promise<number> {
+  const db = admin.firestore();
+  const settingsSnap = await db.collection("settings").doc("app").get();
+  const configuredHours = settingsSnap.data()?.pendingAlertHours;
+  const alertHours = typeof configuredHours === "number" &&
+    configuredHours > 0 ? configuredHours : DEFAULT_PENDING_ALERT_HOURS;
+  const cutoff = admin.firestore.Timestamp.fromMillis(
+    now.getTime() - alertHours * 60 * 60 * 1000
+  );
+
+  const overdueSnap = await db.collection("shipments")
+    .where("status", "in", UNDEPARTED_STATUSES)
+    .where("departureDate", "<=", cutoff)
+    .get();
+  if (overdueSnap.empty) {
+    return 0;
+  }
+
+  const userIds = await getAllUserIds();
+  let created = 0;
+  for (const shipmentDoc of overdueSnap.docs) {
+    const refs = userIds.map((userId) => db.collection("notifications")
+      .doc(`overdue_${shipmentDoc.id}_${userId}`));
+    if (refs.length === 0) continue;
+    const existing = await db.getAll(...refs);
+    const writes = existing.flatMap((snap, index) => snap.exists ? [] : [
+      (batch: admin.firestore.WriteBatch) => {
+        batch.set(snap.ref, notificationData(userIds[index], {
+          type: "shipment_overdue",
+          title: "Shipment not departed",
+          body: `${describeShipment(shipmentDoc.data())} has not departed ` +
+            `more than ${alertHours} hours after its departure date.`,
+          shipmentId: shipmentDoc.id,
+        }));
+        return 1;
+      },
+    ]);
+    await commitInBatches(writes);
+    created += writes.length;
+  }
+  return created;
+}
+
+export const notifyOverduePendingShipmentsScheduled = functions.pubsub
+  .schedule("every 60 minutes")
+  .onRun(async () => {
+    const created = await notifyOverduePendingShipments(new Date());
+    console.log(`Created ${created} overdue shipment notification(s).`);
+  });
@@ -0,0 +1,32 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+
+/**
+ * Ensures a callable request comes from a signed-in admin.
+ * The role is read from the caller's /users document, which is the same
+ * source of truth the Firestore rules use.
+ * @param {functions.https.CallableContext} context The callable context.
+ * @return {Promise<string>} The caller's UID.
+ */
+export async function assertAdmin(
+  context: functions.https.CallableContext
+): Promise<string> {
+  if (!context.auth) {
+    throw new functions.https.HttpsError(
+      "unauthenticated",
+      "The function must be called while authenticated."
+    );
+  }
+
+  const callerDoc = await admin.firestore()
+    .collection("users")
+    .doc(context.auth.uid)
+    .get();
+  if (callerDoc.data()?.role !== "admin") {
+    throw new functions.https.HttpsError(
+      "permission-denied",
+      "Only administrators can perform this action."
+    );
+  }
+  return context.auth.uid;
+}
@@ -0,0 +1,267 @@
+import * as admin from "firebase-admin";
+import {getDownloadURL} from "firebase-admin/storage";
+import type {
+  BuiltDocument,
+  DocumentBuildInput,
+  Driver,
+  LabelMaps,
+  PreAlertTemplate,
+  Shipment,
+  ShipmentDetail,
+} from "@/lib/types";
+import {DEFAULT_WEIGHT_BUCKETS} from "@/lib/constants";
+import {netWeightByBucketFromFirestore} from "@/lib/utils";
+import {cmrFromFirestore} from "@/lib/documents/cmrData";
+import {buildCmrPdf, CMR_LABEL_COLLECTIONS} from "@/lib/documents/cmr";
+import {buildEcmrJson, ECMR_LABEL_COLLECTIONS} from "@/lib/documents/ecmr";
+import {
+  buildPreAlertPdf,
+  PRE_ALERT_LABEL_COLLECTIONS,
+} from "@/lib/documents/preAlert";
+import {
+  preAlertTemplateFromFirestore,
+  selectPreAlertTemplate,
+} from "@/lib/documents/preAlertTemplates";
+import {addAuditLog, SYSTEM_ACTOR} from "./audit";
+
+// The parts of a Shipment.documents entry, as stored by the Admin SDK.
+export interface StoredDocument {
+  type: BuiltDocument["type"];
+  filename: string;
+  storagePath: string;
+  url: string;
+  generatedAt: admin.firestore.Timestamp;
+  generatedBy: string;
+}
+
+const LABEL_COLLECTIONS = [...new Set([
+  ...PRE_ALERT_LABEL_COLLECTIONS,
+  ...CMR_LABEL_COLLECTIONS,
+  ...ECMR_LABEL_COLLECTIONS,
+])];
+
+const asNumber = (value: unknown): number =>
+  typeof value === "number" && !isNaN(value) ? value : 0;
+
+/**
+ * Reads a shipment for the document builders, the way the client's
+ * shipmentFromFirestore does. Admin SDK Timestamps have the toDate() the
+ * builders call, so they are passed through as they are.
+ * @param {string} id The shipment ID.
+ * @param {admin.firestore.DocumentData} data The shipment document.
+ * @return {Shipment} The shipment.
+ */
+export function shipmentForDocuments(
+  id: string,
+  data: admin.firestore.DocumentData
+): Shipment {
+  return {
+    ...data,
+    id,
+    sealNumber: data.sealNumber || undefined,
+    totalPallets: asNumber(data.totalPallets),
+    totalBags: asNumber(data.totalBags),
+    totalGrossWeight: asNumber(data.totalGrossWeight),
+    totalTareWeight: asNumber(data.totalTareWeight),
+    totalNetWeight: asNumber(data.totalNetWeight),
+    netWeightByBucket: netWeightByBucketFromFirestore(data),
+    cmr: cmrFromFirestore(data.cmr),
+  } as unknown as Shipment;
+}
+
+/**
+ * Reads an item for the document builders, deriving its net weight from
+ * gross - tare like the client's detailFromFirestore.
+ * @param {admin.firestore.QueryDocumentSnapshot} snap The detail document.
+ * @param {string} shipmentId The shipment it belongs to.
+ * @return {ShipmentDetail} The item.
+ */
+function detailForDocuments(
+  snap: admin.firestore.QueryDocumentSnapshot,
+  shipmentId: string
+): ShipmentDetail {
+  const data = snap.data();
+  const grossWeight = asNumber(data.grossWeight);
+  const tareWeight = asNumber(data.tareWeight);
+  return {
+    ...data,
+    id: snap.id,
+    shipmentId,
+    numPallets: asNumber(data.numPallets),
+    numBags: asNumber(data.numBags),
+    customerId: data.customerId || "",
+    serviceId: data.serviceId || "",
+    formatId: data.formatId || "",
+    grossWeight,
+    tareWeight,
+    netWeight: parseFloat((grossWeight - tareWeight).toFixed(3)),
+  } as unknown as ShipmentDetail;
+}
+
+/**
+ * Reads the dropdown labels the documents print, keyed by collection and
+ * then by item value, like the client's getDropdownOptionsMap.
+ * @param {admin.firestore.Firestore} db The database.
+ * @return {Promise<LabelMaps>} The labels.
+ */
+async function loadLabels(db: admin.firestore.Firestore): Promise<LabelMaps> {
+  const labels: LabelMaps = {};
+  await Promise.all(LABEL_COLLECTIONS.map(async (name) => {
+    const snap = await db.collection(name).get();
+    labels[name] = {};
+    snap.docs.forEach((doc) => {
+      const {value, label} = doc.data();
+      if (typeof value === "string" && value) {
+        labels[name][value] = typeof label === "string" ? label : value;
+      }
+    });
+  }));
+  return labels;
+}
+
+/**
+ * Reads everything the document builders need for a shipment.
+ * @param {admin.firestore.DocumentSnapshot} shipmentSnap The shipment.
+ * @param {Date} generatedAt The time stamped on the documents.
+ * @return {Promise<{input: DocumentBuildInput, templates:
+ * PreAlertTemplate[]}>} The builder input and the Pre-Alert templates.
+ */
+export async function loadDocumentBuildInput(
+  shipmentSnap: admin.firestore.DocumentSnapshot,
+  generatedAt: Date
+): Promise<{input: DocumentBuildInput; templates: PreAlertTemplate[]}> {
+  const db = admin.firestore();
+  const shipment = shipmentForDocuments(
+    shipmentSnap.id, shipmentSnap.data() ?? {}
+  );
+  const [detailsSnap, labels, settingsSnap, driverSnap, templatesSnap] =
+    await Promise.all([
+      shipmentSnap.ref.collection("details").orderBy("createdAt", "asc").get(),
+      loadLabels(db),
+      db.collection("settings").doc("app").get(),
+      shipment.driverId ?
+        db.collection("drivers").doc(shipment.driverId).get() : null,
+      db.collection("pre_alert_templates").orderBy("name", "asc").get(),
+    ]);
+  const weightBuckets = settingsSnap.get("weightBuckets");
+  const driver = driverSnap?.exists ?
+    {...driverSnap.data(), id: driverSnap.id} as Driver : null;
+  return {
+    input: {
+      shipment,
+      details: detailsSnap.docs.map((doc) =>
+        detailForDocuments(doc, shipment.id)),
+      labels,
+      weightBuckets: Array.isArray(weightBuckets) && weightBuckets.length ?
+        weightBuckets : DEFAULT_WEIGHT_BUCKETS,
+      driver,
+      generatedAt,
+    },
+    templates: templatesSnap.docs.map((doc) =>
+      preAlertTemplateFromFirestore(doc.id, doc.data())),
+  };
+}
+
+/**
+ * Renders the Pre-Alert (with the template matching the shipment), the CMR
+ * and the e-CMR with the same builders the client uses.
+ * @param {DocumentBuildInput} input The builder input.
+ * @param {PreAlertTemplate[]} templates The stored Pre-Alert templates.
+ * @return {BuiltDocument[]} The Pre-Alert, CMR and e-CMR, in that order.
+ */
+export function buildShipmentDocuments(
+  input: DocumentBuildInput,
+  templates: PreAlertTemplate[]
+): BuiltDocument[] {
+  return [
+    buildPreAlertPdf(input, selectPreAlertTemplate(templates, input.shipment)),
+    buildCmrPdf(input),
+    buildEcmrJson(input),
+  ];
+}
+
+/**
+ * Storage path of one generated version; must match storage.rules.
+ * @param {string} shipmentId The shipment.
+ * @param {BuiltDocument} built The document.
+ * @param {Date} generatedAt When it was generated.
+ * @return {string} The object path.
+ */
+function documentStoragePath(
+  shipmentId: string,
+  built: BuiltDocument,
+  generatedAt: Date
+): string {
+  // e.g. 20240923T142501123, so versions sort by generation time
+  const stamp = generatedAt.toISOString()
+    .replace(/[-:]/g, "").replace(/\.(\d{3})Z$/, "$1");
+  return `shipments/${shipmentId}/documents/${built.type}/` +
+    `${stamp}_${built.filename}`;
+}
+
+/**
+ * Uploads the generated documents to Storage and links them from the
+ * shipment (pdfUrls and the documents history), with one audit entry.
+ * @param {admin.firestore.DocumentReference} shipmentRef The shipment.
+ * @param {BuiltDocument[]} documents The generated documents.
+ * @param {Date} generatedAt When they were generated.
+ * @return {Promise<StoredDocument[]>} The stored entries, in order.
+ */
+export async function storeShipmentDocuments(
+  shipmentRef: admin.firestore.DocumentReference,
+  documents: BuiltDocument[],
+  generatedAt: Date
+): Promise<StoredDocument[]> {
+  const bucket = admin.storage().bucket();
+  const stored = await Promise.all(documents.map(async (built) => {
+    const file = bucket.file(
+      documentStoragePath(shipmentRef.id, built, generatedAt)
+    );
+    await file.save(Buffer.from(built.bytes), {
+      contentType: built.contentType,
+      metadata: {
+        metadata: {
+          shipmentId: shipmentRef.id,
+          type: built.type,
+          generatedBy: SYSTEM_ACTOR,
+        },
+      },
+    });
+    const entry: StoredDocument = {
+      type: built.type,
+      filename: built.filename,
+      storagePath: file.name,
+      url: await getDownloadURL(file),
+      generatedAt: admin.firestore.Timestamp.fromDate(generatedAt),
+      generatedBy: SYSTEM_ACTOR,
+    };
+    return entry;
+  }));
+
+  const before = (await shipmentRef.get()).get("pdfUrls") ?? {};
+  const updates: admin.firestore.DocumentData = {
+    documents: admin.firestore.FieldValue.arrayUnion(...stored),
+  };
+  stored.forEach((entry) => {
+    updates[`pdfUrls.${entry.type}`] = entry.url;
+  });
+  const batch = admin.firestore().batch();
+  batch.update(shipmentRef, updates);
+  addAuditLog(batch, {uid: SYSTEM_ACTOR}, {
+    action: "update",
+    entity: "shipment",
+    ref: shipmentRef,
+    changes: {
+      pdfUrls: {
+        oldValue: before,
+        newValue: {
+          ...before,
+          ...Object.fromEntries(stored.map((entry) => [entry.type, entry.url])),
+        },
+      },
+    },
+    details: `Generated ${stored.map((entry) => entry.filename).join(", ")}`,
+  });
+  await batch.commit();
+  return stored;
+}
@@ -0,0 +1,172 @@
+import * as net from "net";
+import * as admin from "firebase-admin";
+import {afterAll, afterEach, beforeAll, describe, expect, it} from "vitest";
+import {createSmtpTransport, setMailTransport} from "./mailTransport";
+import {emailShipmentDocuments} from "./shipmentEmail";
+import {
+  buildShipmentDocuments,
+  shipmentForDocuments,
+} from "./shipmentDocuments";
+
+interface SmtpStandIn {
+  port: number;
+  messages: {recipients: string[]; data: string}[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a minimal SMTP server on a free local port that accepts every
+ * message and keeps what it was sent, standing in for Mailpit or the like.
+ * @return {Promise<SmtpStandIn>} The running server.
+ */
+function startSmtpStandIn(): Promise<SmtpStandIn> {
+  const messages: SmtpStandIn["messages"] = [];
+  const server = net.createServer((socket) => {
+    let buffered = "";
+    let recipients: string[] = [];
+    let data: string[] | null = null;
+    socket.write("220 localhost SMTP stand-in\r\n");
+    socket.on("data", (chunk) => {
+      buffered += chunk.toString("utf8");
+      let end = buffered.indexOf("\r\n");
+      while (end >= 0) {
+        const line = buffered.slice(0, end);
+        buffered = buffered.slice(end + 2);
+        end = buffered.indexOf("\r\n");
+        if (data) {
+          if (line === ".") {
+            messages.push({recipients, data: data.join("\r\n")});
+            data = null;
+            recipients = [];
+            socket.write("250 OK: queued\r\n");
+          } else {
+            data.push(line.startsWith("..") ? line.slice(1) : line);
+          }
+          continue;
+        }
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "EHLO" || command === "HELO") {
+          socket.write("250 localhost\r\n");
+        } else if (command === "RCPT") {
+          recipients.push(line.replace(/^RCPT TO:\s*<?([^>]*)>?.*$/i, "$1"));
+          socket.write("250 OK\r\n");
+        } else if (command === "DATA") {
+          data = [];
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (command === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        messages,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+const NOW = new Date("2026-03-02T06:30:00Z");
+
+const SHIPMENT = {
+  status: "Sealed",
+  carrierId: "carrier-1",
+  driverName: "J. SMITH",
+  departureDate: admin.firestore.Timestamp.fromDate(NOW),
+  arrivalDate: admin.firestore.Timestamp.fromDate(NOW),
+  sealNumber: "SEAL123",
+  truckRegistration: "AB12CDE",
+  senderAddress: "Depot\nLondon",
+  consigneeAddress: "Hub\nParis",
+  totalPallets: 1,
+  totalBags: 2,
+  totalGrossWeight: 30.5,
+  totalTareWeight: 0.5,
+  totalNetWeight: 30,
+};
+
+/**
+ * Renders the Pre-Alert and CMR of SHIPMENT.
+ * @return {BuiltDocument[]} The two PDFs.
+ */
+function buildPdfs() {
+  const documents = buildShipmentDocuments({
+    shipment: shipmentForDocuments("shipment-1", SHIPMENT),
+    details: [],
+    labels: {carriers: {"carrier-1": "Road Carrier Ltd"}},
+    weightBuckets: [],
+    driver: null,
+    generatedAt: NOW,
+  }, []);
+  return documents.filter((d) => d.contentType === "application/pdf");
+}
+
+describe("emailShipmentDocuments", () => {
+  let smtp: SmtpStandIn;
+
+  beforeAll(async () => {
+    smtp = await startSmtpStandIn();
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtp.port);
+    process.env.MAIL_FROM = "dispatch@example.com";
+    setMailTransport(createSmtpTransport());
+  });
+
+  afterEach(() => {
+    smtp.messages.length = 0;
+  });
+
+  afterAll(async () => {
+    setMailTransport(null);
+    await smtp.close();
+  });
+
+  it("sends the rendered Pre-Alert and CMR over SMTP", async () => {
+    const pdfs = buildPdfs();
+    const attempt = await emailShipmentDocuments(SHIPMENT, {
+      recipients: ["ops@example.com", "hub@example.com"],
+      emailSubjectTemplate: "Pre-Alert {seal} departing {departure}",
+    }, pdfs, "user-1", NOW);
+
+    expect(attempt).toMatchObject({
+      status: "sent",
+      recipients: ["ops@example.com", "hub@example.com"],
+      subject: "Pre-Alert SEAL123 departing 2026-03-02",
+      attachmentNames: pdfs.map((d) => d.filename),
+      triggeredBy: "user-1",
+    });
+    expect(attempt.messageId).toBeTruthy();
+    expect(smtp.messages).toHaveLength(1);
+    const [message] = smtp.messages;
+    expect(message.recipients).toEqual(["ops@example.com", "hub@example.com"]);
+    expect(message.data).toContain(
+      "Subject: Pre-Alert SEAL123 departing 2026-03-02"
+    );
+    expect(message.data).toContain(
+      "Please find attached the Pre-Alert and CMR for this dispatch."
+    );
+    expect(message.data.match(/Content-Type: application\/pdf/g))
+      .toHaveLength(2);
+    // Both attachments are the PDFs as rendered, base64 encoded
+    expect(message.data.match(/^JVBERi0/gm)).toHaveLength(2);
+  });
+
+  it("records a failed attempt and sends nothing without recipients",
+    async () => {
+      const attempt = await emailShipmentDocuments(
+        SHIPMENT, {}, buildPdfs(), "user-1", NOW
+      );
+
+      expect(attempt.status).toBe("failed");
+      expect(attempt.error).toBe(
+        "No email recipients are configured in App Settings."
+      );
+      expect(smtp.messages).toHaveLength(0);
+    });
+});
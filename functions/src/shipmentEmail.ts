@@ -0,0 +1,184 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import type {BuiltDocument} from "@/lib/types";
+import {getMailTransport} from "./mailTransport";
+import {
+  buildShipmentDocuments,
+  loadDocumentBuildInput,
+  storeShipmentDocuments,
+} from "./shipmentDocuments";
+import {SYSTEM_ACTOR} from "./audit";
+
+// Must match the defaults the settings page shows as placeholders.
+const DEFAULT_SUBJECT_TEMPLATE = "Dispatch Pre-Alert – Truck {seal}";
+const DEFAULT_BODY_TEMPLATE =
+  "Please find attached the Pre-Alert and CMR for this dispatch.";
+
+// Keeps the message under the size most mail servers accept.
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+export type EmailAttemptStatus = "sent" | "failed";
+
+export interface EmailAttempt {
+  attemptedAt: admin.firestore.Timestamp;
+  status: EmailAttemptStatus;
+  recipients: string[];
+  subject: string;
+  attachmentNames: string[];
+  messageId?: string;
+  error?: string;
+  triggeredBy: string;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD (UTC), the format used in email templates.
+ * @param {Date} date The date to format.
+ * @return {string} The formatted date.
+ */
+function isoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Builds the placeholder values available to the subject/body templates.
+ * @param {admin.firestore.DocumentData} shipment The shipment data.
+ * @param {Date} now The send time, used for {date}.
+ * @return {Record<string, string>} Placeholder name to value.
+ */
+export function emailPlaceholders(
+  shipment: admin.firestore.DocumentData,
+  now: Date
+): Record<string, string> {
+  const departure = shipment.departureDate instanceof
+    admin.firestore.Timestamp ? isoDate(shipment.departureDate.toDate()) : "";
+  return {
+    consignee: shipment.consigneeAddress || "",
+    date: isoDate(now),
+    seal: shipment.sealNumber || "",
+    prealert: "Pre-Alert",
+    departure,
+    truck: shipment.truckRegistration || "",
+    trailer: shipment.trailerRegistration || "",
+    pallets: String(shipment.totalPallets ?? 0),
+    bags: String(shipment.totalBags ?? 0),
+  };
+}
+
+/**
+ * Replaces {placeholder} tokens in a template. Unknown tokens are left as-is
+ * so typos are visible in the sent email rather than silently dropped.
+ * @param {string} template The subject or body template.
+ * @param {Record<string, string>} values Placeholder values.
+ * @return {string} The rendered text.
+ */
+export function renderEmailTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (token, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token
+  );
+}
+
+/**
+ * Emails documents to the recipients in App Settings. Failures, including
+ * missing recipients, are returned as a failed attempt rather than thrown,
+ * so every attempt can be recorded on the shipment.
+ * @param {admin.firestore.DocumentData} shipment The shipment data.
+ * @param {admin.firestore.DocumentData} settings settings/app.
+ * @param {BuiltDocument[]} documents The documents to attach.
+ * @param {string} triggeredBy UID of the user who sealed the shipment.
+ * @param {Date} now The send time.
+ * @return {Promise<EmailAttempt>} The attempt.
+ */
+export async function emailShipmentDocuments(
+  shipment: admin.firestore.DocumentData,
+  settings: admin.firestore.DocumentData,
+  documents: BuiltDocument[],
+  triggeredBy: string,
+  now: Date
+): Promise<EmailAttempt> {
+  const recipients: string[] = Array.isArray(settings.recipients) ?
+    settings.recipients.filter((r: unknown) => typeof r === "string") : [];
+  const values = emailPlaceholders(shipment, now);
+  const subject = renderEmailTemplate(
+    settings.emailSubjectTemplate || DEFAULT_SUBJECT_TEMPLATE, values
+  );
+  const text = renderEmailTemplate(
+    settings.emailBodyTemplate || DEFAULT_BODY_TEMPLATE, values
+  );
+
+  const attempt: EmailAttempt = {
+    attemptedAt: admin.firestore.Timestamp.fromDate(now),
+    status: "sent",
+    recipients,
+    subject,
+    attachmentNames: documents.map((d) => d.filename),
+    triggeredBy,
+  };
+  const totalBytes = documents.reduce((sum, d) => sum + d.bytes.length, 0);
+  try {
+    if (recipients.length === 0) {
+      throw new Error("No email recipients are configured in App Settings.");
+    }
+    if (totalBytes > MAX_ATTACHMENT_BYTES) {
+      throw new Error("Attachments are too large to email.");
+    }
+    const result = await getMailTransport().send({
+      to: recipients,
+      subject,
+      text,
+      attachments: documents.map((d) => ({
+        filename: d.filename,
+        content: Buffer.from(d.bytes),
+        contentType: d.contentType,
+      })),
+    });
+    attempt.messageId = result.messageId;
+  } catch (error) {
+    attempt.status = "failed";
+    attempt.error = error instanceof Error ? error.message : String(error);
+  }
+  return attempt;
+}
+
+// Issues the documents when a loaded shipment is sealed: renders the
+// Pre-Alert, CMR and e-CMR, stores them on the shipment, emails the two PDFs
+// to AppSettings.recipients and records the attempt, whether it succeeded or
+// not.
+export const onShipmentSealedSendDocuments = functions
+  .runWith({memory: "512MB", timeoutSeconds: 120})
+  .firestore.document("shipments/{shipmentId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    // Pending/Completed shipments migrated to Sealed were issued long ago
+    if (before.status !== "Loading" || after.status !== "Sealed") {
+      return;
+    }
+
+    const {shipmentId} = context.params;
+    const now = new Date();
+    const {input, templates} = await loadDocumentBuildInput(change.after, now);
+    const documents = buildShipmentDocuments(input, templates);
+    await storeShipmentDocuments(change.after.ref, documents, now);
+
+    // The e-CMR is stored for e-CMR platforms; only the PDFs are emailed
+    const settingsSnap = await admin.firestore()
+      .collection("settings").doc("app").get();
+    const attempt = await emailShipmentDocuments(
+      after,
+      settingsSnap.data() ?? {},
+      documents.filter((d) => d.contentType === "application/pdf"),
+      after.statusChangedBy || SYSTEM_ACTOR,
+      now
+    );
+    if (attempt.status === "failed") {
+      console.error(
+        `Error emailing documents for ${shipmentId}: ${attempt.error}`
+      );
+    }
+    await change.after.ref.update({
+      emailAttempts: admin.firestore.FieldValue.arrayUnion(attempt),
+    });
+  });
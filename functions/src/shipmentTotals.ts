@@ -0,0 +1,299 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {assertAdmin} from "./roles";
+
+export interface WeightBucket {
+  id: string;
+  label: string;
+  customerIds: string[];
+}
+
+// Must match DEFAULT_WEIGHT_BUCKETS / OTHER_WEIGHT_BUCKET_ID in
+// src/lib/constants.ts. Used until an admin configures settings/app.
+export const DEFAULT_WEIGHT_BUCKETS: WeightBucket[] = [
+  {id: "asendia-ac", label: "Asendia A/C", customerIds: ["2"]},
+];
+export const OTHER_WEIGHT_BUCKET_ID = "other";
+
+// Fixed breakdown fields written before buckets became configurable.
+const LEGACY_BREAKDOWN_FIELDS = [
+  "asendiaACNetWeight",
+  "asendiaUKNetWeight",
+  "transitLightNetWeight",
+  "remainingCustomersNetWeight",
+];
+
+export interface ShipmentTotals {
+  totalPallets: number;
+  totalBags: number;
+  totalGrossWeight: number;
+  totalTareWeight: number;
+  totalNetWeight: number;
+  netWeightByBucket: Record<string, number>;
+  // Distinct customers of the details, sorted; lets the client filter
+  // shipments by customer with an array-contains query.
+  customerIds: string[];
+}
+
+const round3 = (value: number): number => parseFloat(value.toFixed(3));
+
+const asNumber = (value: unknown): number =>
+  typeof value === "number" && !isNaN(value) ? value : 0;
+
+/**
+ * Reads the configured weight buckets, falling back to the defaults.
+ * Malformed entries are dropped rather than failing the aggregation.
+ * @param {admin.firestore.DocumentData | undefined} settings settings/app.
+ * @return {WeightBucket[]} The buckets to aggregate into.
+ */
+export function weightBucketsFromSettings(
+  settings: admin.firestore.DocumentData | undefined
+): WeightBucket[] {
+  const raw = settings?.weightBuckets;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return DEFAULT_WEIGHT_BUCKETS;
+  }
+  return raw
+    .filter((bucket) => typeof bucket?.id === "string" && bucket.id)
+    .map((bucket) => ({
+      id: bucket.id,
+      label: typeof bucket.label === "string" ? bucket.label : bucket.id,
+      customerIds: Array.isArray(bucket.customerIds) ?
+        bucket.customerIds.filter((id: unknown) => typeof id === "string") :
+        [],
+    }));
+}
+
+/**
+ * Aggregates the detail rows of a shipment into its stored totals.
+ * Net weight is derived from gross - tare, the same way the client's
+ * detailFromFirestore does, so a stale netWeight field cannot skew totals.
+ * Customers not assigned to any bucket are summed under "other".
+ * Also collects the distinct customer IDs for customer search.
+ * @param {admin.firestore.DocumentData[]} details Raw detail documents.
+ * @param {WeightBucket[]} buckets The customer weight buckets.
+ * @return {ShipmentTotals} The aggregated totals.
+ */
+export function computeShipmentTotals(
+  details: admin.firestore.DocumentData[],
+  buckets: WeightBucket[] = DEFAULT_WEIGHT_BUCKETS
+): ShipmentTotals {
+  let totalPallets = 0;
+  let totalBags = 0;
+  let totalGrossWeight = 0;
+  let totalTareWeight = 0;
+  let totalNetWeight = 0;
+
+  const customerIds = new Set<string>();
+  const bucketByCustomer = new Map<string, string>();
+  const byBucket: Record<string, number> = {[OTHER_WEIGHT_BUCKET_ID]: 0};
+  buckets.forEach((bucket) => {
+    byBucket[bucket.id] = 0;
+    bucket.customerIds.forEach((customerId) => {
+      // First bucket wins if a customer was assigned twice.
+      if (!bucketByCustomer.has(customerId)) {
+        bucketByCustomer.set(customerId, bucket.id);
+      }
+    });
+  });
+
+  details.forEach((detail) => {
+    const grossWeight = asNumber(detail.grossWeight);
+    const tareWeight = asNumber(detail.tareWeight);
+    const netWeight = round3(grossWeight - tareWeight);
+
+    totalPallets += asNumber(detail.numPallets);
+    totalBags += asNumber(detail.numBags);
+    totalGrossWeight += grossWeight;
+    totalTareWeight += tareWeight;
+    totalNetWeight += netWeight;
+
+    const customerId = String(detail.customerId ?? "");
+    if (customerId) {
+      customerIds.add(customerId);
+    }
+    const bucketId = bucketByCustomer.get(customerId) ??
+      OTHER_WEIGHT_BUCKET_ID;
+    byBucket[bucketId] += netWeight;
+  });
+
+  const netWeightByBucket: Record<string, number> = {};
+  Object.entries(byBucket).forEach(([bucketId, weight]) => {
+    netWeightByBucket[bucketId] = round3(weight);
+  });
+
+  return {
+    totalPallets,
+    totalBags,
+    totalGrossWeight: round3(totalGrossWeight),
+    totalTareWeight: round3(totalTareWeight),
+    totalNetWeight: round3(totalNetWeight),
+    netWeightByBucket,
+    customerIds: [...customerIds].sort(),
+  };
+}
+
+/**
+ * Recomputes and stores the totals of one shipment.
+ * The details query runs inside the transaction, so concurrent detail
+ * writes force a retry instead of producing drifted totals.
+ * @param {string} shipmentId The shipment to recompute.
+ * @return {Promise<ShipmentTotals | null>} The stored totals, or null if
+ * the shipment no longer exists (e.g. it was deleted with its details).
+ */
+export async function recalculateShipmentTotals(
+  shipmentId: string
+): Promise<ShipmentTotals | null> {
+  const db = admin.firestore();
+  const shipmentRef = db.collection("shipments").doc(shipmentId);
+
+  return db.runTransaction(async (transaction) => {
+    const shipmentSnap = await transaction.get(shipmentRef);
+    if (!shipmentSnap.exists) {
+      return null;
+    }
+    const [detailsSnap, settingsSnap] = await Promise.all([
+      transaction.get(shipmentRef.collection("details")),
+      transaction.get(db.collection("settings").doc("app")),
+    ]);
+    const totals = computeShipmentTotals(
+      detailsSnap.docs.map((doc) => doc.data()),
+      weightBucketsFromSettings(settingsSnap.data())
+    );
+    const legacyFieldDeletes: Record<string, admin.firestore.FieldValue> = {};
+    LEGACY_BREAKDOWN_FIELDS.forEach((field) => {
+      legacyFieldDeletes[field] = admin.firestore.FieldValue.delete();
+    });
+    transaction.update(shipmentRef, {
+      ...totals,
+      ...legacyFieldDeletes,
+      lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return totals;
+  });
+}
+
+// Keeps the aggregated fields on /shipments/{shipmentId} in sync with its
+// details subcollection. Items created by a continuous scan batch are
+// left to onDetailBatchCreate, which recalculates once for the batch.
+export const onShipmentDetailWrite = functions.firestore
+  .document("shipments/{shipmentId}/details/{detailId}")
+  .onWrite(async (change, context) => {
+    const {shipmentId} = context.params;
+    if (!change.before.exists && change.after.get("scanBatchId")) {
+      return;
+    }
+    try {
+      const totals = await recalculateShipmentTotals(shipmentId);
+      if (!totals) {
+        console.log(`Shipment ${shipmentId} no longer exists. ` +
+          "Skipping totals recalculation.");
+      }
+    } catch (error) {
+      console.error(
+        `Error recalculating totals for shipment ${shipmentId}:`, error
+      );
+      throw error; // Let the platform retry if retries are enabled.
+    }
+  });
+
+// The client writes one detail_batches marker for a scan session, with its
+// last chunk of items (or, if a chunk fails, once the items saved so far
+// are in). Totals are recalculated once, then the marker is removed.
+export const onDetailBatchCreate = functions.firestore
+  .document("shipments/{shipmentId}/detail_batches/{batchId}")
+  .onCreate(async (snapshot, context) => {
+    const {shipmentId, batchId} = context.params;
+    try {
+      await recalculateShipmentTotals(shipmentId);
+      await snapshot.ref.delete();
+    } catch (error) {
+      console.error(
+        `Error recalculating totals for batch ${batchId} of shipment ` +
+        `${shipmentId}:`, error
+      );
+      throw error;
+    }
+  });
+
+// Shipments recalculated per rebuildShipmentTotals call, so one call stays
+// well within the function timeout however many shipments there are.
+const SHIPMENTS_PER_REBUILD_PAGE = 100;
+
+export interface RebuildPage {
+  rebuilt: number;
+  // Passed back as pageToken for the next page; null after the last page.
+  nextPageToken: string | null;
+}
+
+/**
+ * Recalculates the totals of one page of shipments, in document ID order.
+ * @param {string} pageToken The nextPageToken of the previous page, or ""
+ * for the first page.
+ * @return {Promise<RebuildPage>} The number of shipments rebuilt, and the
+ * token of the next page.
+ */
+export async function rebuildShipmentTotalsPage(
+  pageToken: string
+): Promise<RebuildPage> {
+  let pageQuery = admin.firestore()
+    .collection("shipments")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .select()
+    .limit(SHIPMENTS_PER_REBUILD_PAGE);
+  if (pageToken) {
+    pageQuery = pageQuery.startAfter(pageToken);
+  }
+  const shipmentsSnap = await pageQuery.get();
+  let rebuilt = 0;
+  for (const shipmentDoc of shipmentsSnap.docs) {
+    if (await recalculateShipmentTotals(shipmentDoc.id)) {
+      rebuilt++;
+    }
+  }
+  const lastDoc = shipmentsSnap.docs[shipmentsSnap.docs.length - 1];
+  return {
+    rebuilt,
+    nextPageToken: shipmentsSnap.size === SHIPMENTS_PER_REBUILD_PAGE ?
+      lastDoc.id : null,
+  };
+}
+
+// Admin callable that rebuilds drifted totals, either for one shipment
+// ({shipmentId}) or for every shipment when no ID is given. Every shipment
+// is rebuilt a page at a time: call again with {pageToken: nextPageToken}
+// until nextPageToken is null.
+export const rebuildShipmentTotals = functions.https.onCall(
+  async (data, context) => {
+    await assertAdmin(context);
+
+    const shipmentId = typeof data?.shipmentId === "string" ?
+      data.shipmentId.trim() : "";
+    const pageToken = typeof data?.pageToken === "string" ?
+      data.pageToken : "";
+
+    try {
+      if (shipmentId) {
+        const totals = await recalculateShipmentTotals(shipmentId);
+        if (!totals) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            `Shipment ${shipmentId} does not exist.`
+          );
+        }
+        return {rebuilt: 1, nextPageToken: null};
+      }
+      return await rebuildShipmentTotalsPage(pageToken);
+    } catch (error: unknown) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error("Error rebuilding shipment totals:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to rebuild shipment totals.",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+);
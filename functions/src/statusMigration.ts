@@ -0,0 +1,104 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {addAuditLog, SYSTEM_ACTOR} from "./audit";
+import {assertAdmin} from "./roles";
+
+// Statuses used before the Draft-to-Delivered lifecycle.
+const LEGACY_STATUSES = ["Pending", "Completed"];
+
+// Firestore batches hold at most 500 writes; each shipment takes two.
+const SHIPMENTS_PER_BATCH = 200;
+
+/**
+ * Maps a pre-lifecycle status onto the lifecycle: Pending shipments were
+ * being loaded, and Completed ones count as Departed once their departure
+ * date has passed, otherwise Sealed. Must match normalizeShipmentStatus in
+ * src/lib/shipmentStatus.ts.
+ * @param {string} status The stored Pending or Completed status.
+ * @param {admin.firestore.Timestamp | undefined} departureDate The departure.
+ * @param {Date} now The time to compare the departure date with.
+ * @return {string} The lifecycle status.
+ */
+export function legacyShipmentStatus(
+  status: string,
+  departureDate: admin.firestore.Timestamp | undefined,
+  now: Date
+): string {
+  if (status !== "Completed") {
+    return "Loading";
+  }
+  return departureDate && departureDate.toMillis() <= now.getTime() ?
+    "Departed" : "Sealed";
+}
+
+/**
+ * Rewrites every Pending/Completed shipment to its lifecycle status, records
+ * the change as the first statusHistory entry and audits it. Shipments
+ * already on the lifecycle are left alone, so it is safe to run again.
+ * @param {string} callerUid The admin who started the migration.
+ * @param {Date} now The time to compare departure dates with.
+ * @return {Promise<number>} The number of shipments migrated.
+ */
+export async function migrateLegacyShipmentStatuses(
+  callerUid: string,
+  now: Date
+): Promise<number> {
+  const db = admin.firestore();
+  const legacySnap = await db.collection("shipments")
+    .where("status", "in", LEGACY_STATUSES)
+    .get();
+
+  const at = admin.firestore.Timestamp.fromDate(now);
+  for (let i = 0; i < legacySnap.docs.length; i += SHIPMENTS_PER_BATCH) {
+    const batch = db.batch();
+    legacySnap.docs.slice(i, i + SHIPMENTS_PER_BATCH).forEach((shipmentDoc) => {
+      const before = shipmentDoc.data();
+      const status = legacyShipmentStatus(
+        before.status,
+        before.departureDate,
+        now
+      );
+      batch.update(shipmentDoc.ref, {
+        status,
+        statusHistory: admin.firestore.FieldValue.arrayUnion({
+          from: null,
+          to: status,
+          at,
+          by: SYSTEM_ACTOR,
+          byEmail: null,
+        }),
+        statusChangedBy: SYSTEM_ACTOR,
+        statusChangedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      addAuditLog(batch, {uid: SYSTEM_ACTOR}, {
+        action: "update",
+        entity: "shipment",
+        ref: shipmentDoc.ref,
+        changes: {status: {oldValue: before.status, newValue: status}},
+        details: `Status migrated to the shipment lifecycle by ${callerUid}.`,
+      });
+    });
+    await batch.commit();
+  }
+  return legacySnap.size;
+}
+
+export const migrateShipmentStatuses = functions.https.onCall(
+  async (_data, context) => {
+    const callerUid = await assertAdmin(context);
+    try {
+      const migrated = await migrateLegacyShipmentStatuses(
+        callerUid,
+        new Date()
+      );
+      return {migrated};
+    } catch (error: unknown) {
+      console.error("Error migrating shipment statuses:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to migrate shipment statuses.",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+);
@@ -0,0 +1,13 @@
+import * as path from "path";
+import {defineConfig} from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // The document builders are shared with the web app (see tsconfig.json).
+    alias: {"@": path.resolve(__dirname, "../src")},
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+});
@@ -0,0 +1,26 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { History } from "lucide-react";
+import AuditLogTable from "@/components/admin/audit-log-table";
+
+export default function AuditLogPage() {
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <History className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Audit Log</CardTitle>
+          </div>
+          <CardDescription>
+            Every create, update and delete of shipments, shipment details, dropdown items, users and settings, with the user who made it and the fields that changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AuditLogTable />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ScanBarcode, PlusCircle, Edit, Copy, Trash2, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { BarcodeRule } from '@/lib/types';
+import { DEFAULT_BARCODE_RULES, effectiveBarcodeRules } from '@/lib/barcodeRules';
+import { getBarcodeRules, deleteBarcodeRule, type BarcodeRuleInput } from '@/lib/firebase/barcodeRulesService';
+import BarcodeRuleDialog from '@/components/admin/barcode-rule-dialog';
+import BarcodeTestBench from '@/components/admin/barcode-test-bench';
+
+export default function BarcodeRulesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ rule: BarcodeRule | null; defaults?: BarcodeRuleInput } | null>(null);
+
+  const { data: rules = [], isLoading, error } = useQuery<BarcodeRule[], Error>({
+    queryKey: ['barcodeRules'],
+    queryFn: getBarcodeRules,
+  });
+
+  const scanRules = useMemo(() => effectiveBarcodeRules(rules), [rules]);
+  // Until a rule is configured, scanning uses the built-in rules, listed here to copy
+  const isUsingBuiltInRules = !isLoading && !error && rules.length === 0;
+  const listedRules = isUsingBuiltInRules ? DEFAULT_BARCODE_RULES : rules;
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteBarcodeRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['barcodeRules'] });
+      toast({ title: "Barcode Rule Deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Deletion Failed", description: err.message });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <ScanBarcode className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Barcode Rules</CardTitle>
+          </div>
+          <CardDescription>
+            How scanned receptacle barcodes fill in the DOE, dispatch number and gross weight of a shipment item. When a customer changes its label format, add or adjust a rule and check it on the test bench.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Error Loading Barcode Rules</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-4">
+              {isUsingBuiltInRules && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Using the Built-in Rules</AlertTitle>
+                  <AlertDescription>
+                    No rules are configured, so scanning uses these. Once a rule is added, only the configured rules are used; copy the built-in ones you still need.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Pattern</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {listedRules.map(rule => (
+                    <TableRow key={rule.id} className={rule.active ? undefined : 'text-muted-foreground'}>
+                      <TableCell>{rule.priority}</TableCell>
+                      <TableCell className="font-medium">
+                        {rule.name}
+                        {!rule.active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{rule.pattern}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        {isUsingBuiltInRules ? (
+                          <Button variant="ghost" size="icon" onClick={() => setEditing({ rule: null, defaults: rule })} aria-label={`Copy ${rule.name}`}>
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <>
+                            <Button variant="ghost" size="icon" onClick={() => setEditing({ rule })} aria-label={`Edit ${rule.name}`}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} aria-label={`Delete ${rule.name}`}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {rule.name}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Barcodes it decodes will have to be typed in, unless another rule applies. Items already saved keep their fields. To stop using it for now, edit it and make it inactive instead.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => deleteMutation.mutate(rule.id)}>Delete</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button onClick={() => setEditing({ rule: null })}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <BarcodeTestBench rules={scanRules} />
+      <BarcodeRuleDialog
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        rule={editing?.rule ?? null}
+        defaults={editing?.defaults}
+      />
+    </div>
+  );
+}
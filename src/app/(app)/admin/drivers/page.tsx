@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { IdCard, PlusCircle, Edit, Download, UserX, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { Driver } from '@/lib/types';
+import { getDrivers, exportDriverData, eraseDriverData } from '@/lib/firebase/driversService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { downloadDocument } from '@/lib/pdfService';
+import DriverDialog from '@/components/admin/driver-dialog';
+
+export default function DriversPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ driver: Driver | null } | null>(null);
+
+  const { data: drivers = [], isLoading, error } = useQuery<Driver[], Error>({
+    queryKey: ['drivers'],
+    queryFn: getDrivers,
+  });
+
+  const { data: carriers = [] } = useQuery({
+    queryKey: ['carriers'],
+    queryFn: () => getDropdownOptions('carriers'),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: exportDriverData,
+    onSuccess: (data, driverId) => {
+      downloadDocument({
+        filename: `driver-${driverId}-${format(new Date(), 'yyyyMMdd')}.json`,
+        contentType: 'application/json',
+        bytes: new TextEncoder().encode(JSON.stringify(data, null, 2)),
+      });
+      toast({ title: "Driver Data Exported" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Export Failed", description: err.message });
+    },
+  });
+
+  const eraseMutation = useMutation({
+    mutationFn: eraseDriverData,
+    onSuccess: (shipments) => {
+      queryClient.invalidateQueries({ queryKey: ['drivers'] });
+      queryClient.invalidateQueries({ queryKey: ['shipmentTemplates'] });
+      toast({ title: "Driver Data Erased", description: `The driver's name was also removed from ${shipments} shipment(s).` });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erase Failed", description: err.message });
+    },
+  });
+
+  const carrierLabel = (carrierId: string) => carriers.find(c => c.value === carrierId)?.label ?? carrierId;
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <IdCard className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Drivers</CardTitle>
+          </div>
+          <CardDescription>
+            Registered drivers and their contact details, printed on the CMR. For a data subject request, export everything stored about a driver, or erase their personal data.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Error Loading Drivers</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Carrier</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Licence / ID</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drivers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No drivers registered yet.</TableCell>
+                    </TableRow>
+                  ) : drivers.map(driver => (
+                    <TableRow key={driver.id} className={driver.active ? undefined : 'text-muted-foreground'}>
+                      <TableCell className="font-medium">
+                        {driver.name}
+                        {driver.erasedAt
+                          ? <Badge variant="secondary" className="ml-2">Erased {format(driver.erasedAt.toDate(), "PP")}</Badge>
+                          : !driver.active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell>{carrierLabel(driver.carrierId)}</TableCell>
+                      <TableCell>{driver.phone || '—'}</TableCell>
+                      <TableCell>{[driver.idNumber, driver.nationality && `(${driver.nationality})`].filter(Boolean).join(' ') || '—'}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        {!driver.erasedAt && (
+                          <>
+                            <Button variant="ghost" size="icon" onClick={() => setEditing({ driver })} aria-label={`Edit ${driver.name}`}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => exportMutation.mutate(driver.id)} disabled={exportMutation.isPending} aria-label={`Export the data of ${driver.name}`}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" disabled={eraseMutation.isPending} aria-label={`Erase the data of ${driver.name}`}>
+                                  <UserX className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Erase the personal data of {driver.name}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Their name, phone, ID number and nationality are removed from the driver record, their shipments and templates, and the audit log. The CMR and e-CMR of their shipments are issued again without them, and the earlier versions deleted. This cannot be undone; export the data first if it was requested.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => eraseMutation.mutate(driver.id)}>Erase</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button onClick={() => setEditing({ driver: null })}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Register Driver
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <DriverDialog
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        driver={editing?.driver ?? null}
+      />
+    </div>
+  );
+}
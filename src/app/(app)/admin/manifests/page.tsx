@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileSpreadsheet, AlertTriangle, Trash2 } from 'lucide-react';
+import type { DropdownItem, Manifest } from '@/lib/types';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { deleteManifest, getManifests } from '@/lib/firebase/preAdviceService';
+import { useToast } from '@/hooks/use-toast';
+import ManifestImportForm from '@/components/admin/manifest-import-form';
+import PreAdviceReport from '@/components/admin/pre-advice-report';
+
+export default function ManifestsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState('manifests');
+  const [manifestToDelete, setManifestToDelete] = useState<Manifest | null>(null);
+
+  const manifestsQuery = useQuery<Manifest[], Error>({ queryKey: ['manifests'], queryFn: () => getManifests() });
+  const { data: customers = [] } = useQuery<DropdownItem[]>({
+    queryKey: ['customers'],
+    queryFn: () => getDropdownOptions('customers'),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const customerLabel = (customerId: string) => customers.find(customer => customer.value === customerId)?.label ?? customerId;
+
+  const deleteMutation = useMutation({
+    mutationFn: (manifest: Manifest) => deleteManifest(manifest.id),
+    onSuccess: (_, manifest) => {
+      queryClient.invalidateQueries({ queryKey: ['manifests'] });
+      queryClient.invalidateQueries({ queryKey: ['preAdviceDay'] });
+      toast({ title: "Manifest Deleted", description: `${manifest.fileName} and its ${manifest.receptacleCount} receptacle(s) were removed.` });
+      setManifestToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Delete Failed", description: error.message });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <FileSpreadsheet className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Pre-Advice</CardTitle>
+          </div>
+          <CardDescription>
+            Manifests customers send ahead of their mail, uploaded against the customer and the day it is due to leave. Items are matched with the pre-advised receptacles by dispatch number, DOE and weight.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList>
+              <TabsTrigger value="manifests">Manifests</TabsTrigger>
+              <TabsTrigger value="upload">Upload</TabsTrigger>
+              <TabsTrigger value="report">Reconciliation</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="manifests" className="space-y-4 pt-4">
+              {manifestsQuery.isLoading ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </div>
+              ) : manifestsQuery.error ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Error Loading Manifests</AlertTitle>
+                  <AlertDescription>{manifestsQuery.error.message}</AlertDescription>
+                </Alert>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Departure Date</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead className="text-right">Receptacles</TableHead>
+                      <TableHead className="text-right">Gross (kg)</TableHead>
+                      <TableHead>Uploaded</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {manifestsQuery.data?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">No manifests uploaded.</TableCell>
+                      </TableRow>
+                    ) : manifestsQuery.data?.map(manifest => (
+                      <TableRow key={manifest.id}>
+                        <TableCell>{format(manifest.manifestDate.toDate(), "PP")}</TableCell>
+                        <TableCell>{customerLabel(manifest.customerId)}</TableCell>
+                        <TableCell className="font-medium">{manifest.fileName}</TableCell>
+                        <TableCell className="text-right">{manifest.receptacleCount}</TableCell>
+                        <TableCell className="text-right">{manifest.totalGrossWeight.toFixed(3)}</TableCell>
+                        <TableCell>{manifest.createdAt ? format(manifest.createdAt.toDate(), "PPp") : '—'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" onClick={() => setManifestToDelete(manifest)} aria-label={`Delete ${manifest.fileName}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="upload" className="pt-4">
+              <ManifestImportForm />
+            </TabsContent>
+
+            <TabsContent value="report" className="pt-4">
+              <PreAdviceReport customers={customers} />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+      <AlertDialog open={!!manifestToDelete} onOpenChange={(open) => { if (!open) setManifestToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Manifest?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {manifestToDelete?.fileName} and its {manifestToDelete?.receptacleCount} pre-advised receptacle(s) are removed. Items already loaded are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => manifestToDelete && deleteMutation.mutate(manifestToDelete)} disabled={deleteMutation.isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
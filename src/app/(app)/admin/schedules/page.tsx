@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CalendarClock, PlusCircle, Edit, Trash2, AlertTriangle, Play, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { DepartureSchedule } from '@/lib/types';
+import { WEEKDAY_NAMES } from '@/lib/constants';
+import { getDepartureSchedules, deleteDepartureSchedule, runDepartureSchedules } from '@/lib/firebase/schedulesService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import DepartureScheduleDialog from '@/components/admin/departure-schedule-dialog';
+
+export default function DepartureSchedulesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ schedule: DepartureSchedule | null } | null>(null);
+
+  const { data: schedules = [], isLoading, error } = useQuery<DepartureSchedule[], Error>({
+    queryKey: ['departureSchedules'],
+    queryFn: getDepartureSchedules,
+  });
+
+  const { data: carriers = [] } = useQuery({
+    queryKey: ['carriers'],
+    queryFn: () => getDropdownOptions('carriers'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteDepartureSchedule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['departureSchedules'] });
+      toast({ title: "Departure Deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Deletion Failed", description: err.message });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: runDepartureSchedules,
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['departureSchedules'] });
+      toast({ title: "Schedule Run", description: `${created} planned shipment(s) created.` });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Run Failed", description: err.message });
+    },
+  });
+
+  const carrierLabel = (carrierId: string) => carriers.find(c => c.value === carrierId)?.label ?? carrierId;
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <CalendarClock className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Departure Schedule</CardTitle>
+          </div>
+          <CardDescription>
+            The weekly truck timetable. Every night a Draft shipment is created for each active departure today and tomorrow, so operators no longer create trucks by hand. Times are UK local time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Error Loading Schedule</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Departure</TableHead>
+                    <TableHead>Lane</TableHead>
+                    <TableHead>Carrier</TableHead>
+                    <TableHead>Planned Through</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No departures yet.</TableCell>
+                    </TableRow>
+                  ) : schedules.map(schedule => (
+                    <TableRow key={schedule.id} className={schedule.active ? undefined : 'text-muted-foreground'}>
+                      <TableCell className="font-medium">
+                        {WEEKDAY_NAMES[schedule.weekday]} {schedule.departureTime}
+                        {!schedule.active && <Badge variant="secondary" className="ml-2">Paused</Badge>}
+                      </TableCell>
+                      <TableCell>{schedule.lane}</TableCell>
+                      <TableCell>{carrierLabel(schedule.carrierId)}</TableCell>
+                      <TableCell>{schedule.plannedThrough ?? '—'}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing({ schedule })} aria-label={`Edit ${schedule.lane}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} aria-label={`Delete ${schedule.lane}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete the {WEEKDAY_NAMES[schedule.weekday]} {schedule.departureTime} departure?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                No more shipments will be planned for it. Shipments already planned are kept.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteMutation.mutate(schedule.id)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => setEditing({ schedule: null })}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add Departure
+                </Button>
+                <Button variant="outline" onClick={() => runMutation.mutate()} disabled={runMutation.isPending || schedules.length === 0}>
+                  {runMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                  Plan Now
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <DepartureScheduleDialog
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        schedule={editing?.schedule ?? null}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ShieldCheck, Ban, AlertTriangle } from 'lucide-react';
+import type { Seal, SealStatus } from '@/lib/types';
+import { getSeals, getSealBatches, getSealAuditReport } from '@/lib/firebase/sealsService';
+import { SEAL_STATUSES, SEAL_STATUS_BADGE_CLASSES, SEAL_STATUS_LABELS } from '@/lib/seals';
+import SealImportForm from '@/components/admin/seal-import-form';
+import VoidSealDialog from '@/components/admin/void-seal-dialog';
+
+const ALL = '__all__';
+
+const formatTimestamp = (seal: Seal, field: 'issuedAt' | 'usedAt' | 'voidedAt') => {
+  const value = seal[field];
+  return value ? format(value.toDate(), "PPp") : '—';
+};
+
+const ShipmentLink = ({ shipmentId }: { shipmentId: string | null }) =>
+  shipmentId ? <Link href={`/shipments/${shipmentId}`} className="font-mono text-primary hover:underline">{shipmentId}</Link> : <>—</>;
+
+const ErrorAlert = ({ title, error }: { title: string; error: Error }) => (
+  <Alert variant="destructive">
+    <AlertTriangle className="h-4 w-4" />
+    <AlertTitle>{title}</AlertTitle>
+    <AlertDescription>{error.message}</AlertDescription>
+  </Alert>
+);
+
+const LoadingRows = () => (
+  <div className="space-y-2">
+    <Skeleton className="h-10 w-full" />
+    <Skeleton className="h-10 w-full" />
+  </div>
+);
+
+export default function SealsPage() {
+  const [statusFilter, setStatusFilter] = useState<SealStatus | typeof ALL>('in_stock');
+  const [sealToVoid, setSealToVoid] = useState<Seal | null>(null);
+  const [tab, setTab] = useState('stock');
+
+  const sealsQuery = useQuery<Seal[], Error>({
+    queryKey: ['seals', statusFilter],
+    queryFn: () => getSeals(statusFilter === ALL ? undefined : statusFilter),
+  });
+  const batchesQuery = useQuery({ queryKey: ['sealBatches'], queryFn: getSealBatches });
+  const reportQuery = useQuery({ queryKey: ['sealAuditReport'], queryFn: getSealAuditReport, enabled: tab === 'report' });
+
+  const batchReference = (batchId: string) => batchesQuery.data?.find(batch => batch.id === batchId)?.reference ?? batchId;
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Seals</CardTitle>
+          </div>
+          <CardDescription>
+            Numbered security seals. Imported seals are in stock until a shipment takes one, and used once that shipment is sealed. Each seal can be on one shipment only.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList>
+              <TabsTrigger value="stock">Registry</TabsTrigger>
+              <TabsTrigger value="import">Import Batch</TabsTrigger>
+              <TabsTrigger value="report">Security Report</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="stock" className="space-y-4 pt-4">
+              <div className="max-w-xs">
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SealStatus | typeof ALL)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All statuses</SelectItem>
+                    {SEAL_STATUSES.map(status => <SelectItem key={status} value={status}>{SEAL_STATUS_LABELS[status]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              {sealsQuery.isLoading ? <LoadingRows /> : sealsQuery.error ? <ErrorAlert title="Error Loading Seals" error={sealsQuery.error} /> : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Seal</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Shipment</TableHead>
+                      <TableHead>Issued</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sealsQuery.data?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">No seals.</TableCell>
+                      </TableRow>
+                    ) : sealsQuery.data?.map(seal => (
+                      <TableRow key={seal.id}>
+                        <TableCell className="font-mono">{seal.number}</TableCell>
+                        <TableCell><Badge variant="outline" className={SEAL_STATUS_BADGE_CLASSES[seal.status]}>{SEAL_STATUS_LABELS[seal.status]}</Badge></TableCell>
+                        <TableCell>{batchReference(seal.batchId)}</TableCell>
+                        <TableCell><ShipmentLink shipmentId={seal.shipmentId} /></TableCell>
+                        <TableCell>{formatTimestamp(seal, 'issuedAt')}</TableCell>
+                        <TableCell className="text-right">
+                          {seal.status === 'in_stock' && (
+                            <Button variant="ghost" size="sm" onClick={() => setSealToVoid(seal)}>
+                              <Ban className="mr-2 h-4 w-4" /> Void
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="import" className="space-y-6 pt-4">
+              <SealImportForm />
+              {batchesQuery.data && batchesQuery.data.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reference</TableHead>
+                      <TableHead>Seals</TableHead>
+                      <TableHead>Range</TableHead>
+                      <TableHead>Imported</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batchesQuery.data.map(batch => (
+                      <TableRow key={batch.id}>
+                        <TableCell className="font-medium">{batch.reference}</TableCell>
+                        <TableCell>{batch.count}</TableCell>
+                        <TableCell className="font-mono">{batch.firstNumber} – {batch.lastNumber}</TableCell>
+                        <TableCell>{batch.createdAt ? format(batch.createdAt.toDate(), "PPp") : '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="report" className="space-y-6 pt-4">
+              {reportQuery.isLoading ? <LoadingRows /> : reportQuery.error ? <ErrorAlert title="Error Building Report" error={reportQuery.error} /> : reportQuery.data && (
+                <>
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">Missing Seals ({reportQuery.data.missing.length})</h3>
+                    <p className="text-sm text-muted-foreground">Issued or used seals no shipment accounts for.</p>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Seal</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Shipment</TableHead>
+                          <TableHead>Problem</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {reportQuery.data.missing.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center text-muted-foreground">Every issued and used seal is on its shipment.</TableCell>
+                          </TableRow>
+                        ) : reportQuery.data.missing.map(({ seal, problem }) => (
+                          <TableRow key={seal.id}>
+                            <TableCell className="font-mono">{seal.number}</TableCell>
+                            <TableCell>{SEAL_STATUS_LABELS[seal.status]}</TableCell>
+                            <TableCell><ShipmentLink shipmentId={seal.shipmentId} /></TableCell>
+                            <TableCell>{problem}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">Voided Seals ({reportQuery.data.voided.length})</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Seal</TableHead>
+                          <TableHead>Batch</TableHead>
+                          <TableHead>Voided</TableHead>
+                          <TableHead>Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {reportQuery.data.voided.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center text-muted-foreground">No voided seals.</TableCell>
+                          </TableRow>
+                        ) : reportQuery.data.voided.map(seal => (
+                          <TableRow key={seal.id}>
+                            <TableCell className="font-mono">{seal.number}</TableCell>
+                            <TableCell>{batchReference(seal.batchId)}</TableCell>
+                            <TableCell>{formatTimestamp(seal, 'voidedAt')}</TableCell>
+                            <TableCell>{seal.voidReason ?? '—'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+      <VoidSealDialog seal={sealToVoid} onClose={() => setSealToVoid(null)} />
+    </div>
+  );
+}
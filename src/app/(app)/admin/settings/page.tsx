@@ -9,13 +9,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { UserCog, Save, Loader2, AlertTriangle, Clock, Mail, Trash2 } from "lucide-react";
+import { UserCog, Save, Loader2, AlertTriangle, Clock, Mail, Trash2, RefreshCw, Bell, ListChecks } from "lucide-react";
 import { getAppSettings, updateAppSettings, getRecipients, updateRecipients } from '@/lib/firebase/settingsService';
+import { migrateShipmentStatuses, rebuildShipmentTotals } from '@/lib/firebase/shipmentsService';
 import type { AppSettings } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
-import { DEFAULT_SENDER_ADDRESS, DEFAULT_CONSIGNEE_ADDRESS } from '@/lib/constants';
+import { DEFAULT_SENDER_ADDRESS, DEFAULT_CONSIGNEE_ADDRESS, DEFAULT_PENDING_ALERT_HOURS } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import WeightBucketsEditor from '@/components/admin/weight-buckets-editor';
 
 const settingsFormSchema = z.object({
   defaultSenderAddress: z.string().min(10, "Sender address must be at least 10 characters."),
@@ -25,6 +27,10 @@ const settingsFormSchema = z.object({
     .min(0, "Logout duration must be 0 or greater (0 to disable).")
     .optional()
     .default(0), // Default to 0 (disabled) if not provided
+  pendingAlertHours: z.coerce
+    .number({ invalid_type_error: "Must be a number" })
+    .min(1, "Alert threshold must be at least 1 hour.")
+    .default(DEFAULT_PENDING_ALERT_HOURS),
   emailSubjectTemplate: z.string().optional(),
   emailBodyTemplate: z.string().optional(),
 });
@@ -39,6 +45,8 @@ export default function AdminSettingsPage() {
   const [recipients, setRecipients] = useState<string[]>([]);
   const [newRecipient, setNewRecipient] = useState("");
   const [isRecipientsLoading, setIsRecipientsLoading] = useState(true);
+  const [isRebuildingTotals, setIsRebuildingTotals] = useState(false);
+  const [isMigratingStatuses, setIsMigratingStatuses] = useState(false);
 
   const form = useForm<SettingsFormValues>({
     resolver: zodResolver(settingsFormSchema),
@@ -46,6 +54,7 @@ export default function AdminSettingsPage() {
       defaultSenderAddress: '',
       defaultConsigneeAddress: '',
       logoutAfterMinutes: 0, // Initialize with 0
+      pendingAlertHours: DEFAULT_PENDING_ALERT_HOURS,
       emailSubjectTemplate: '',
       emailBodyTemplate: '',
     },
@@ -63,6 +72,7 @@ export default function AdminSettingsPage() {
             defaultSenderAddress: settings?.defaultSenderAddress || DEFAULT_SENDER_ADDRESS,
             defaultConsigneeAddress: settings?.defaultConsigneeAddress || DEFAULT_CONSIGNEE_ADDRESS,
             logoutAfterMinutes: settings?.logoutAfterMinutes ?? 0, // Use ?? 0 to ensure a number
+            pendingAlertHours: settings?.pendingAlertHours ?? DEFAULT_PENDING_ALERT_HOURS,
             emailSubjectTemplate: settings?.emailSubjectTemplate || '',
             emailBodyTemplate: settings?.emailBodyTemplate || '',
           });
@@ -75,6 +85,7 @@ export default function AdminSettingsPage() {
             defaultSenderAddress: DEFAULT_SENDER_ADDRESS,
             defaultConsigneeAddress: DEFAULT_CONSIGNEE_ADDRESS,
             logoutAfterMinutes: 0,
+            pendingAlertHours: DEFAULT_PENDING_ALERT_HOURS,
           });
         }
       } finally {
@@ -114,6 +125,46 @@ export default function AdminSettingsPage() {
     updateRecipients(updatedRecipients);
   };
 
+  const handleRebuildTotals = async () => {
+    setIsRebuildingTotals(true);
+    try {
+      const rebuilt = await rebuildShipmentTotals();
+      toast({
+        title: "Totals Rebuilt",
+        description: `Recalculated totals for ${rebuilt} shipment(s).`,
+      });
+    } catch (err) {
+      console.error("Error rebuilding shipment totals:", err);
+      toast({
+        variant: "destructive",
+        title: "Rebuild Failed",
+        description: err instanceof Error ? err.message : "Could not rebuild shipment totals.",
+      });
+    } finally {
+      setIsRebuildingTotals(false);
+    }
+  };
+
+  const handleMigrateStatuses = async () => {
+    setIsMigratingStatuses(true);
+    try {
+      const migrated = await migrateShipmentStatuses();
+      toast({
+        title: "Statuses Migrated",
+        description: `Moved ${migrated} Pending/Completed shipment(s) onto the new lifecycle.`,
+      });
+    } catch (err) {
+      console.error("Error migrating shipment statuses:", err);
+      toast({
+        variant: "destructive",
+        title: "Migration Failed",
+        description: err instanceof Error ? err.message : "Could not migrate shipment statuses.",
+      });
+    } finally {
+      setIsMigratingStatuses(false);
+    }
+  };
+
   const onSubmit = async (data: SettingsFormValues) => {
     setIsSaving(true);
     setError(null);
@@ -122,6 +173,7 @@ export default function AdminSettingsPage() {
       const dataToSave: Partial<AppSettings> = {
         ...data,
         logoutAfterMinutes: Number(data.logoutAfterMinutes),
+        pendingAlertHours: Number(data.pendingAlertHours),
       };
       await updateAppSettings(dataToSave);
       toast({
@@ -237,6 +289,33 @@ export default function AdminSettingsPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="pendingAlertHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">
+                        <Bell className="h-4 w-4" />
+                        Undeparted Shipment Alert (hours past departure)
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          placeholder="e.g., 24"
+                          {...field}
+                          value={field.value ?? DEFAULT_PENDING_ALERT_HOURS}
+                          onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)}
+                          disabled={isSaving}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Everyone is notified when a shipment is still Draft, Loading or Sealed this many hours after its departure date.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
                 <FormField
                   control={form.control}
@@ -252,7 +331,7 @@ export default function AdminSettingsPage() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Supported placeholders: `consignee`, `date`, `seal`
+                        {'Supported placeholders: {consignee}, {date}, {seal}, {departure}, {truck}, {trailer}, {pallets}, {bags}'}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -274,7 +353,7 @@ export default function AdminSettingsPage() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Supported placeholders: `consignee`, `date`, `seal`
+                        {'Supported placeholders: {consignee}, {date}, {seal}, {departure}, {truck}, {trailer}, {pallets}, {bags}'}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -307,7 +386,7 @@ export default function AdminSettingsPage() {
 
           {/* Email Recipients Section */}
 <div className="space-y-4 pt-6">
-  <h3 className="text-lg font-medium">Email Recipients for Completed Shipments</h3>
+  <h3 className="text-lg font-medium">Email Recipients for Sealed Shipments</h3>
   <div className="flex w-full max-w-sm items-center space-x-2">
     <Input
       type="email"
@@ -339,6 +418,48 @@ export default function AdminSettingsPage() {
     )}
   </div>
 </div>
+
+          {/* Weight Breakdown Buckets Section */}
+          <div className="space-y-4 pt-6 border-t mt-6">
+            <h3 className="text-lg font-medium">Net Weight Breakdown</h3>
+            <p className="text-sm text-muted-foreground">
+              Group customers into the buckets shown on the dashboard, shipment summary and Pre-Alert. Existing shipments pick up changes after their totals are rebuilt.
+            </p>
+            <WeightBucketsEditor />
+          </div>
+
+          {/* Maintenance Section */}
+          <div className="space-y-4 pt-6 border-t mt-6">
+            <h3 className="text-lg font-medium">Maintenance</h3>
+            <p className="text-sm text-muted-foreground">
+              Shipment totals are recalculated on the server whenever an item changes. If totals look wrong, rebuild them from the stored items.
+            </p>
+            <Button type="button" variant="outline" onClick={handleRebuildTotals} disabled={isRebuildingTotals}>
+              {isRebuildingTotals ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Rebuilding...
+                </>
+              ) : (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4" /> Rebuild All Shipment Totals
+                </>
+              )}
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Shipments saved before the Draft to Delivered lifecycle still show Pending or Completed in the database. Migrate them once: Pending becomes Loading, and Completed becomes Departed, or Sealed if the departure date is still ahead.
+            </p>
+            <Button type="button" variant="outline" onClick={handleMigrateStatuses} disabled={isMigratingStatuses}>
+              {isMigratingStatuses ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Migrating...
+                </>
+              ) : (
+                <>
+                  <ListChecks className="mr-2 h-4 w-4" /> Migrate Shipment Statuses
+                </>
+              )}
+            </Button>
+          </div>
         </CardContent>
       </Card>
     </div>
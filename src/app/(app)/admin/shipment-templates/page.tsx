@@ -0,0 +1,136 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Truck, Trash2, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { DropdownItem, ShipmentTemplate } from '@/lib/types';
+import { getShipmentTemplates, deleteShipmentTemplate } from '@/lib/firebase/templatesService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+
+export default function ShipmentTemplatesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: templates = [], isLoading, error } = useQuery<ShipmentTemplate[], Error>({
+    queryKey: ['shipmentTemplates'],
+    queryFn: getShipmentTemplates,
+  });
+
+  const { data: carriers = [] } = useQuery<DropdownItem[], Error>({
+    queryKey: ['carriers'],
+    queryFn: () => getDropdownOptions('carriers'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteShipmentTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shipmentTemplates'] });
+      toast({ title: "Template Deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Deletion Failed", description: err.message });
+    },
+  });
+
+  const carrierLabel = (carrierId: string) => carriers.find(c => c.value === carrierId)?.label ?? carrierId;
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <Truck className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Shipment Templates</CardTitle>
+          </div>
+          <CardDescription>
+            Header details of recurring trucks. Save a template with &quot;Save as Template&quot; on a shipment, then pick it when adding a new shipment.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Error Loading Templates</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Carrier</TableHead>
+                  <TableHead>Driver</TableHead>
+                  <TableHead>Truck / Trailer</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No templates yet.</TableCell>
+                  </TableRow>
+                ) : templates.map(template => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">{template.name}</TableCell>
+                    <TableCell>{template.carrierId ? carrierLabel(template.carrierId) : '—'}</TableCell>
+                    <TableCell>{template.driverName || '—'}</TableCell>
+                    <TableCell>{[template.truckRegistration, template.trailerRegistration].filter(Boolean).join(' / ') || '—'}</TableCell>
+                    <TableCell className="text-right">
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} aria-label={`Delete ${template.name}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete &quot;{template.name}&quot;?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              It will no longer be offered for new shipments. Shipments already created from it are not affected.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteMutation.mutate(template.id)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { FileText, PlusCircle, Edit, Copy, Trash2, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { PreAlertTemplate } from '@/lib/types';
+import { getPreAlertTemplates, deletePreAlertTemplate } from '@/lib/firebase/templatesService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { DEFAULT_PRE_ALERT_TEMPLATE } from '@/lib/documents/preAlertTemplates';
+import PreAlertTemplateEditor from '@/components/admin/pre-alert-template-editor';
+
+export default function PreAlertTemplatesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ template: PreAlertTemplate; isNew: boolean } | null>(null);
+
+  const { data: templates = [], isLoading, error } = useQuery<PreAlertTemplate[], Error>({
+    queryKey: ['preAlertTemplates'],
+    queryFn: getPreAlertTemplates,
+  });
+  const { data: customers = [] } = useQuery({
+    queryKey: ['dropdownOptions', 'customers'],
+    queryFn: () => getDropdownOptions('customers'),
+  });
+  const customerLabel = (customerId: string) => customers.find(customer => customer.value === customerId)?.label ?? customerId;
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePreAlertTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['preAlertTemplates'] });
+      toast({ title: "Template Deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Deletion Failed", description: err.message });
+    },
+  });
+
+  // New templates start from the default layout so admins only change what differs
+  const handleNew = () => {
+    const base = templates.find(t => t.isDefault) ?? DEFAULT_PRE_ALERT_TEMPLATE;
+    setEditing({ template: { ...base, id: '', name: '', isDefault: false, customerIds: [], consigneeKeywords: [] }, isNew: true });
+  };
+
+  const handleDuplicate = (template: PreAlertTemplate) => {
+    setEditing({ template: { ...template, id: '', name: `${template.name} (copy)`, isDefault: false }, isNew: true });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <FileText className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">
+              {editing ? (editing.isNew ? 'New Pre-Alert Template' : `Edit Template: ${editing.template.name}`) : 'Pre-Alert Templates'}
+            </CardTitle>
+          </div>
+          <CardDescription>
+            Layouts for the Pre-Alert PDF. A shipment uses the template for one of its customers, else the one whose consignee keywords appear in its consignee address, otherwise the default template.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {editing ? (
+            <PreAlertTemplateEditor
+              key={editing.template.id || 'new'}
+              template={editing.template}
+              isNew={editing.isNew}
+              onDone={() => setEditing(null)}
+            />
+          ) : isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Error Loading Templates</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-4">
+              {!templates.some(t => t.isDefault) && (
+                <p className="text-sm text-muted-foreground">
+                  No template is marked default, so unmatched shipments use the built-in &quot;{DEFAULT_PRE_ALERT_TEMPLATE.name}&quot; layout.
+                </p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Customers</TableHead>
+                    <TableHead>Consignee Keywords</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No templates yet.</TableCell>
+                    </TableRow>
+                  ) : templates.map(template => (
+                    <TableRow key={template.id}>
+                      <TableCell className="font-medium">
+                        {template.name} {template.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                      </TableCell>
+                      <TableCell>{template.customerIds.map(customerLabel).join(', ') || '—'}</TableCell>
+                      <TableCell>{template.consigneeKeywords.join(', ') || '—'}</TableCell>
+                      <TableCell>{template.header.title}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing({ template, isNew: false })} aria-label={`Edit ${template.name}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDuplicate(template)} aria-label={`Duplicate ${template.name}`}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} aria-label={`Delete ${template.name}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete &quot;{template.name}&quot;?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Shipments that matched this template will fall back to the default layout. Already generated PDFs are not affected.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteMutation.mutate(template.id)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button onClick={handleNew}>
+                <PlusCircle className="mr-2 h-4 w-4" /> New Template
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Container, PlusCircle, Edit, Trash2, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { Vehicle } from '@/lib/types';
+import { VEHICLE_TYPE_LABELS } from '@/lib/vehicles';
+import { getVehicles, deleteVehicle } from '@/lib/firebase/vehiclesService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import VehicleDialog from '@/components/admin/vehicle-dialog';
+
+export default function VehiclesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ vehicle: Vehicle | null } | null>(null);
+
+  const { data: vehicles = [], isLoading, error } = useQuery<Vehicle[], Error>({
+    queryKey: ['vehicles'],
+    queryFn: getVehicles,
+  });
+
+  const { data: carriers = [] } = useQuery({
+    queryKey: ['carriers'],
+    queryFn: () => getDropdownOptions('carriers'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteVehicle,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+      toast({ title: "Vehicle Deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Deletion Failed", description: err.message });
+    },
+  });
+
+  const carrierLabel = (carrierId: string) => carriers.find(c => c.value === carrierId)?.label ?? carrierId;
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-xl border">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <Container className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Vehicles</CardTitle>
+          </div>
+          <CardDescription>
+            Registered trucks and trailers. The shipment form suggests the active vehicles of the shipment&apos;s carrier, and links the shipment to the vehicle whose plate is entered.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Error Loading Vehicles</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plate</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Carrier</TableHead>
+                    <TableHead>Max Payload</TableHead>
+                    <TableHead>Pallet Positions</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {vehicles.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">No vehicles registered yet.</TableCell>
+                    </TableRow>
+                  ) : vehicles.map(vehicle => (
+                    <TableRow key={vehicle.id} className={vehicle.active ? undefined : 'text-muted-foreground'}>
+                      <TableCell className="font-mono font-medium">
+                        {vehicle.plate} <span className="text-muted-foreground">({vehicle.countryCode})</span>
+                        {!vehicle.active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell>{VEHICLE_TYPE_LABELS[vehicle.type]}</TableCell>
+                      <TableCell>{carrierLabel(vehicle.carrierId)}</TableCell>
+                      <TableCell>{vehicle.maxPayloadKg !== null ? `${vehicle.maxPayloadKg} kg` : '—'}</TableCell>
+                      <TableCell>{vehicle.maxPalletPositions ?? '—'}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing({ vehicle })} aria-label={`Edit ${vehicle.plate}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} aria-label={`Delete ${vehicle.plate}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete {vehicle.plate}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                It will no longer be suggested. Shipments that used it keep their plate. To stop suggesting it but keep the record, edit it and make it inactive instead.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteMutation.mutate(vehicle.id)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button onClick={() => setEditing({ vehicle: null })}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Register Vehicle
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <VehicleDialog
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        vehicle={editing?.vehicle ?? null}
+      />
+    </div>
+  );
+}
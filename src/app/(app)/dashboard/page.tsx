@@ -13,7 +13,12 @@ import { Button } from '@/components/ui/button';
 import { CheckCircle2, AlertTriangle, Loader2, CalendarDays, ChevronDown, ChevronUp, ShoppingCart, Users, Anchor, Plane } from 'lucide-react';
 import type { Shipment } from '@/lib/types';
 import { shipmentFromFirestore, getDashboardStats } from '@/lib/firebase/shipmentsService';
+import { getWeightBuckets } from '@/lib/firebase/settingsService';
+import { getNetWeightBreakdown } from '@/lib/utils';
+import { DEFAULT_WEIGHT_BUCKETS } from '@/lib/constants';
+import { useQuery } from '@tanstack/react-query';
 import { DASHBOARD_STATS_MAP } from '@/lib/constants'; 
+import { DISPATCHED_SHIPMENT_STATUSES, IN_PROGRESS_SHIPMENT_STATUSES, SHIPMENT_STATUS_BADGE_CLASSES } from '@/lib/shipmentStatus';
 import { format } from 'date-fns';
 
 // Helper function to format date/time or return 'N/A'
@@ -60,23 +65,29 @@ const StatCard = ({ title, value, icon: Icon, unit, bgColorClass, textColorClass
 
 export default function DashboardPage() {
   const { currentUser } = useAuth();
-  const [pendingShipments, setPendingShipments] = useState<Shipment[]>([]);
-  const [completedShipments, setCompletedShipments] = useState<Shipment[]>([]);
+  const [inProgressShipments, setInProgressShipments] = useState<Shipment[]>([]);
+  const [dispatchedShipments, setDispatchedShipments] = useState<Shipment[]>([]);
   const [dashboardStats, setDashboardStats] = useState<{
       lastUpdateTimestamp: Timestamp | null;
   }>({ 
       lastUpdateTimestamp: null, 
   });
 
-  const [isLoadingPending, setIsLoadingPending] = useState(true);
-  const [isLoadingCompleted, setIsLoadingCompleted] = useState(true);
+  const [isLoadingInProgress, setIsLoadingInProgress] = useState(true);
+  const [isLoadingDispatched, setIsLoadingDispatched] = useState(true);
   const [isLoadingStats, setIsLoadingStats] = useState(true);
-  const [errorPending, setErrorPending] = useState<string | null>(null);
-  const [errorCompleted, setErrorCompleted] = useState<string | null>(null);
+  const [errorInProgress, setErrorInProgress] = useState<string | null>(null);
+  const [errorDispatched, setErrorDispatched] = useState<string | null>(null);
   const [errorStats, setErrorStats] = useState<string | null>(null);
 
-  const [showAllPending, setShowAllPending] = useState(false);
-  const [showAllCompleted, setShowAllCompleted] = useState(false);
+  const [showAllInProgress, setShowAllInProgress] = useState(false);
+  const [showAllDispatched, setShowAllDispatched] = useState(false);
+
+  const { data: weightBuckets = DEFAULT_WEIGHT_BUCKETS } = useQuery({
+    queryKey: ['weightBuckets'],
+    queryFn: getWeightBuckets,
+    staleTime: 15 * 60 * 1000,
+  });
 
    useEffect(() => {
     setIsLoadingStats(true);
@@ -96,43 +107,43 @@ export default function DashboardPage() {
   }, []);
 
   useEffect(() => {
-    setIsLoadingPending(true);
-    setErrorPending(null);
+    setIsLoadingInProgress(true);
+    setErrorInProgress(null);
     const q = query(
         collection(db, 'shipments'),
-        where('status', '==', 'Pending'),
+        where('status', 'in', IN_PROGRESS_SHIPMENT_STATUSES),
         orderBy('lastUpdated', 'desc'),
         limit(5) 
     );
     const unsubscribe = onSnapshot(q, (snapshot) => {
       const data = snapshot.docs.map(doc => shipmentFromFirestore(doc as QueryDocumentSnapshot<DocumentData>));
-      setPendingShipments(data);
-      setIsLoadingPending(false);
+      setInProgressShipments(data);
+      setIsLoadingInProgress(false);
     }, (error) => {
-      console.error("Error fetching pending shipments:", error);
-      setErrorPending("Failed to load pending shipments.");
-      setIsLoadingPending(false);
+      console.error("Error fetching in-progress shipments:", error);
+      setErrorInProgress("Failed to load in-progress shipments.");
+      setIsLoadingInProgress(false);
     });
     return () => unsubscribe(); 
   }, []);
 
    useEffect(() => {
-    setIsLoadingCompleted(true);
-    setErrorCompleted(null);
+    setIsLoadingDispatched(true);
+    setErrorDispatched(null);
     const q = query(
         collection(db, 'shipments'),
-        where('status', '==', 'Completed'),
+        where('status', 'in', DISPATCHED_SHIPMENT_STATUSES),
         orderBy('lastUpdated', 'desc'),
         limit(5) 
      );
     const unsubscribe = onSnapshot(q, (snapshot) => {
       const data = snapshot.docs.map(doc => shipmentFromFirestore(doc as QueryDocumentSnapshot<DocumentData>));
-      setCompletedShipments(data);
-      setIsLoadingCompleted(false);
+      setDispatchedShipments(data);
+      setIsLoadingDispatched(false);
     }, (error) => {
-      console.error("Error fetching completed shipments:", error);
-      setErrorCompleted("Failed to load completed shipments.");
-      setIsLoadingCompleted(false);
+      console.error("Error fetching dispatched shipments:", error);
+      setErrorDispatched("Failed to load dispatched shipments.");
+      setIsLoadingDispatched(false);
     });
     return () => unsubscribe(); 
   }, []);
@@ -141,7 +152,7 @@ export default function DashboardPage() {
     shipments: Shipment[], 
     isLoading: boolean, 
     error: string | null, 
-    status: 'Pending' | 'Completed',
+    listName: string,
     showAll: boolean,
     toggleShowAll: () => void
   ) => {
@@ -170,15 +181,14 @@ export default function DashboardPage() {
     return (
       <>
         {itemsToShow.length === 0 && shipments.length === 0 ? ( 
-            <p className="text-muted-foreground text-center py-4">No {status.toLowerCase()} shipments found.</p>
+            <p className="text-muted-foreground text-center py-4">No {listName} shipments found.</p>
         ) : itemsToShow.length === 0 && shipments.length > 0 ? ( 
              <p className="text-muted-foreground text-center py-4">Click &quot;View All&quot; to see shipments.</p>
         ) : (
           <ul className="space-y-3">
             {itemsToShow.map((shipment) => {
               // Use pre-calculated net weights directly from the shipment object
-              const shipmentOtherNetWeight = shipment.remainingCustomersNetWeight || 0;
-              const shipmentAsendiaACNetWeight = shipment.asendiaACNetWeight || 0;
+              const netWeightBreakdown = getNetWeightBreakdown(shipment, weightBuckets);
               return (
                 <li key={shipment.id}>
                   <Link href={`/shipments/${shipment.id}`}>
@@ -188,26 +198,24 @@ export default function DashboardPage() {
                           <div>
                             <p className="font-semibold text-sm truncate">{shipment.carrierId} - {shipment.driverName}</p>
                             <p className="text-xs text-muted-foreground">
-                                Departed: {formatTimestamp(shipment.departureDate)}
+                                Departure: {formatTimestamp(shipment.departureDate)}
                             </p>
                             <p className="text-xs text-muted-foreground">
                                 Last Update: {formatTimestamp(shipment.lastUpdated)}
                             </p>
                           </div>
-                          <Badge variant={status === 'Completed' ? 'default' : 'secondary'} className={status === 'Completed' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}>
+                          <Badge variant="outline" className={SHIPMENT_STATUS_BADGE_CLASSES[shipment.status]}>
                             {shipment.status}
                           </Badge>
                         </div>
                         {/* Net weight breakdown per shipment card */}
                         <div className="mt-2 pt-2 border-t border-muted/50 text-xs space-y-1">
-                          <div className="flex justify-between">
-                            <span className="text-muted-foreground flex items-center"><ShoppingCart className="mr-1.5 h-3.5 w-3.5 text-primary/70" /> Other Net Weight:</span>
-                            <span className="font-medium">{shipmentOtherNetWeight.toFixed(2)} kg</span>
-                          </div>
-                           <div className="flex justify-between">
-                            <span className="text-muted-foreground flex items-center"><ShoppingCart className="mr-1.5 h-3.5 w-3.5 text-primary/70" /> Asendia A/C Net:</span>
-                            <span className="font-medium">{shipmentAsendiaACNetWeight.toFixed(2)} kg</span>
-                          </div>
+                          {netWeightBreakdown.map((row) => (
+                            <div key={row.id} className="flex justify-between">
+                              <span className="text-muted-foreground flex items-center"><ShoppingCart className="mr-1.5 h-3.5 w-3.5 text-primary/70" /> {row.label}:</span>
+                              <span className="font-medium">{row.netWeight.toFixed(2)} kg</span>
+                            </div>
+                          ))}
                         </div>
                       </CardContent>
                     </Card>
@@ -263,12 +271,12 @@ export default function DashboardPage() {
                 <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                     <AlertTriangle className="h-5 w-5 text-amber-500" />
-                    Pending Shipments (Recent {pendingShipments.length})
+                    In Progress (Recent {inProgressShipments.length})
                 </CardTitle>
-                <CardDescription>Shipments awaiting completion.</CardDescription>
+                <CardDescription>Shipments still being prepared, loaded or sealed at the depot.</CardDescription>
                 </CardHeader>
                 <CardContent>
-                {renderShipmentList(pendingShipments, isLoadingPending, errorPending, 'Pending', showAllPending, () => setShowAllPending(!showAllPending))}
+                {renderShipmentList(inProgressShipments, isLoadingInProgress, errorInProgress, 'in-progress', showAllInProgress, () => setShowAllInProgress(!showAllInProgress))}
                 </CardContent>
             </Card>
 
@@ -276,12 +284,12 @@ export default function DashboardPage() {
                 <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                     <CheckCircle2 className="h-5 w-5 text-green-500" />
-                    Completed Shipments (Recent {completedShipments.length})
+                    Dispatched (Recent {dispatchedShipments.length})
                 </CardTitle>
-                <CardDescription>Recently finalized shipments.</CardDescription>
+                <CardDescription>Shipments that have departed, arrived or been delivered.</CardDescription>
                 </CardHeader>
                 <CardContent>
-                {renderShipmentList(completedShipments, isLoadingCompleted, errorCompleted, 'Completed', showAllCompleted, () => setShowAllCompleted(!showAllCompleted))}
+                {renderShipmentList(dispatchedShipments, isLoadingDispatched, errorDispatched, 'dispatched', showAllDispatched, () => setShowAllDispatched(!showAllDispatched))}
                 </CardContent>
             </Card>
         </div>
@@ -1,27 +1,28 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter, notFound } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { getShipmentById, updateShipment } from '@/lib/firebase/shipmentsService';
-import { getAppSettings } from '@/lib/firebase/settingsService';
-import type { Shipment, ShipmentStatus } from '@/lib/types';
+import type { Shipment } from '@/lib/types';
+import { isShipmentLoadEditable, SHIPMENT_STATUS_TRANSITIONS } from '@/lib/shipmentStatus';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, AlertTriangle, Loader2, Edit, XCircle, Eye, EyeOff } from 'lucide-react';
+import { ArrowLeft, AlertTriangle, Loader2, Edit, XCircle, Eye, EyeOff, LockOpen, Copy, Save } from 'lucide-react';
 import ShipmentForm from '@/components/shipments/shipment-form';
 import ShipmentSummary from '@/components/shipments/shipment-summary';
 import ShipmentDetailsList from '@/components/shipments/shipment-details-list';
+import LoadVerificationPanel from '@/components/shipments/load-verification-panel';
+import ReopenShipmentDialog from '@/components/shipments/reopen-shipment-dialog';
+import DuplicateShipmentDialog from '@/components/shipments/duplicate-shipment-dialog';
+import SaveShipmentTemplateDialog from '@/components/shipments/save-shipment-template-dialog';
 import type { Timestamp } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
-import { generatePreAlertPdf, generateCmrPdf } from '@/lib/pdfService';
 
 console.log("[ShipmentDetailPage] Top-level: Script loaded.");
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 export default function ShipmentDetailPage() {
   console.log("[ShipmentDetailPage] Component rendering or re-rendering...");
   const params = useParams();
@@ -38,8 +39,10 @@ export default function ShipmentDetailPage() {
   const [isEditing, setIsEditing] = useState(false);
   const [isShowingFullDetails, setIsShowingFullDetails] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  const previousShipmentStatusRef = useRef<ShipmentStatus | undefined | 'processing_pdf'>(undefined);
+  const [isReopenDialogOpen, setIsReopenDialogOpen] = useState(false);
+  const [isDuplicateDialogOpen, setIsDuplicateDialogOpen] = useState(false);
+  const [isSaveTemplateDialogOpen, setIsSaveTemplateDialogOpen] = useState(false);
+  const [isVerifyingLoad, setIsVerifyingLoad] = useState(false);
 
   const isAdmin = currentUser?.role === 'admin';
   const canEditForm = isEditing && isShowingFullDetails;
@@ -102,16 +105,14 @@ export default function ShipmentDetailPage() {
     console.log('[ShipmentDetailPage] handleUpdateShipment: Initiated. Data to save:', JSON.parse(JSON.stringify(data)));
     console.log(`[ShipmentDetailPage] handleUpdateShipment: Current shipment status (before this update attempt): ${shipment.status}`);
     
-    if (data.status && data.status !== shipment.status) {
-      console.log(`[ShipmentDetailPage] handleUpdateShipment: Status change detected. FROM ${shipment.status} TO ${data.status}. Setting previousShipmentStatusRef.current to: ${shipment.status}`);
-      previousShipmentStatusRef.current = shipment.status;
-    } else {
-      console.log(`[ShipmentDetailPage] handleUpdateShipment: No status change or status field not present. previousShipmentStatusRef remains: ${previousShipmentStatusRef.current}`);
-    }
-    
     try {
       await updateShipment(shipmentId, data);
-      toast({ title: "Shipment Updated", description: "Main shipment details saved successfully." });
+      // The Pre-Alert and CMR are issued by a Cloud Function once the shipment is sealed
+      if (data.status === 'Sealed' && shipment.status !== 'Sealed') {
+        toast({ title: "Shipment Sealed", description: "The Pre-Alert and CMR are being generated and emailed; they appear on the shipment shortly.", duration: 7000 });
+      } else {
+        toast({ title: "Shipment Updated", description: "Main shipment details saved successfully." });
+      }
       
       console.log('[ShipmentDetailPage] handleUpdateShipment: Update successful. Refetching shipment...');
       const updatedShipment = await fetchShipment(false);
@@ -122,104 +123,9 @@ export default function ShipmentDetailPage() {
     } catch (err) {
       console.error("[ShipmentDetailPage] handleUpdateShipment: Error updating shipment:", err);
       toast({ variant: "destructive", title: "Update Failed", description: err instanceof Error ? err.message : "Could not save shipment changes." });
-      console.log(`[ShipmentDetailPage] handleUpdateShipment: Error during update. previousShipmentStatusRef.current is still: ${previousShipmentStatusRef.current}`);
     }
   };
 
-  useEffect(() => {
-    console.log(`[ShipmentDetailPage] PDF Effect triggered. Current shipment: ${shipment ? `ID: ${shipment.id}, Status: ${shipment.status}` : 'null'}. previousShipmentStatusRef.current was: ${previousShipmentStatusRef.current}`);
-
-    const wasPending = previousShipmentStatusRef.current === 'Pending';
-    const isNowCompleted = shipment?.status === 'Completed';
-
-    const shouldGeneratePdfs = shipment && wasPending && isNowCompleted;
-    
-    console.log(`[ShipmentDetailPage] PDF Effect: Condition check: shouldGeneratePdfs=${shouldGeneratePdfs}`);
-
-    if (shouldGeneratePdfs && shipment) {
-      previousShipmentStatusRef.current = 'processing_pdf'; 
-      console.log(`[ShipmentDetailPage] PDF Effect: Generating PDFs for shipment ID ${shipment.id}`);
-
-      toast({
-        title: 'Generating PDFs',
-        description: 'Shipment completed. PDFs will be downloaded shortly.',
-        duration: 7000,
-      });
-
-      (async () => {
-        try {
-          console.log('[ShipmentDetailPage] PDF Effect: Calling generatePreAlertPdf...');
-          await generatePreAlertPdf(shipment); 
-          
-          await delay(1000); 
-
-          console.log('[ShipmentDetailPage] PDF Effect: Calling generateCmrPdf...');
-          await generateCmrPdf(shipment); 
-          
-          const appSettings = await getAppSettings();
-          console.log("appSettings:", appSettings);
-
-          const recipients = appSettings?.recipients?.join(',') || '';
-
-          const today = new Date();
-          const date = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
-
-          const departureDate = shipment.departureDate.toDate().toISOString().split('T')[0];
-
-          const subjectTemplate = appSettings?.emailSubjectTemplate || 'Dispatch Pre-Alert – Truck {seal}';
-          console.log("subjectTemplate:", subjectTemplate);
-
-          const bodyTemplate = appSettings?.emailBodyTemplate || 'Please find attached the Pre-Alert and CMR for this dispatch.';
-
-          const placeholders = {
-            '{consignee}': shipment.consigneeAddress,
-            '{date}': date,
-            '{seal}': shipment.sealNumber || '',
-            '{prealert}': 'Pre-Alert',
-            '{departure}': departureDate,
-            '{truck}': shipment.truckRegistration || '',
-            '{trailer}': shipment.trailerRegistration || '',
-            '{pallets}': shipment.totalPallets?.toString() || '0',
-            '{bags}': shipment.totalBags?.toString() || '0',
-          };
-
-          const replacePlaceholders = (template: string) => {
-            return Object.entries(placeholders).reduce((acc, [placeholder, value]) => {
-              return acc.replace(new RegExp(placeholder, 'g'), value);
-            }, template);
-          };
-
-          const subject = replacePlaceholders(subjectTemplate);
-          console.log("final subject:", subject);
-
-          const body = replacePlaceholders(bodyTemplate);
-
-          const mailtoUrl = `mailto:${recipients}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-          
-          console.log('[ShipmentDetailPage] PDF Effect: Opening email client with mailto URL:', mailtoUrl);
-          window.open(mailtoUrl);
-          
-        } catch(pdfError) {
-          console.error("[ShipmentDetailPage] PDF Effect: PDF generation error:", pdfError);
-          toast({
-            variant: "destructive",
-            title: "PDF Generation Failed",
-            description: pdfError instanceof Error ? pdfError.message : "Could not generate PDFs."
-          });
-        } finally {
-          console.log('[ShipmentDetailPage] PDF Effect: Resetting previousShipmentStatusRef.current to undefined.');
-          previousShipmentStatusRef.current = undefined;
-        }
-      })();
-    } else {
-      console.log(`[ShipmentDetailPage] PDF Effect: Condition NOT MET.`);
-      if (previousShipmentStatusRef.current === 'processing_pdf' || 
-          (previousShipmentStatusRef.current === 'Pending' && shipment?.status !== 'Completed')) {
-        previousShipmentStatusRef.current = undefined;
-      }
-    }
-  }, [shipment, toast]);
-
   const handleToggleFullDetails = () => {
     setIsShowingFullDetails(prev => !prev);
     if (isEditing && isShowingFullDetails) setIsEditing(false);
@@ -294,11 +200,11 @@ export default function ShipmentDetailPage() {
             <CardTitle className="text-xl md:text-2xl">
               Shipment: <span className="font-mono text-lg text-muted-foreground bg-muted px-1.5 py-0.5 rounded">{shipment?.id}</span>
             </CardTitle>
-            {shipment?.status === 'Completed' && !isEditing && (
-              <p className="text-sm text-green-600 mt-1 italic">This shipment is completed.</p>
+            {shipment && !isShipmentLoadEditable(shipment.status) && !isEditing && (
+              <p className="text-sm text-green-600 mt-1 italic">This shipment is {shipment.status.toLowerCase()} and locked.</p>
             )}
-            {shipment?.status === 'Completed' && isEditing && isAdmin && (
-              <p className="text-sm text-amber-600 mt-1 italic">Shipment is completed. Editing enabled for Admin.</p>
+            {shipment && !isShipmentLoadEditable(shipment.status) && isEditing && (
+              <p className="text-sm text-amber-600 mt-1 italic">Shipment is {shipment.status.toLowerCase()}. Only its status can change{isAdmin ? '; reopen it to edit the rest' : ''}.</p>
             )}
           </div>
           <div className="flex flex-wrap gap-2 items-center">
@@ -306,7 +212,7 @@ export default function ShipmentDetailPage() {
               {isShowingFullDetails ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
               {isShowingFullDetails ? 'Hide Main Details' : 'View Main Details'}
             </Button>
-            { (shipment?.status === 'Pending' || shipment?.status === 'Completed' || isAdmin) && (
+            { shipment && SHIPMENT_STATUS_TRANSITIONS[shipment.status].length > 0 && (
               <Button
                 onClick={handleEditMainInfo} 
                 variant="default" 
@@ -316,6 +222,21 @@ export default function ShipmentDetailPage() {
                 <Edit className="mr-2 h-4 w-4" /> Edit Main Info
               </Button>
             )}
+            {shipment && isAdmin && !isShipmentLoadEditable(shipment.status) && (
+              <Button onClick={() => setIsReopenDialogOpen(true)} variant="outline" size="sm">
+                <LockOpen className="mr-2 h-4 w-4" /> Reopen
+              </Button>
+            )}
+            {shipment && isAdmin && (
+              <Button onClick={() => setIsDuplicateDialogOpen(true)} variant="outline" size="sm">
+                <Copy className="mr-2 h-4 w-4" /> Duplicate
+              </Button>
+            )}
+            {shipment && isAdmin && (
+              <Button onClick={() => setIsSaveTemplateDialogOpen(true)} variant="outline" size="sm">
+                <Save className="mr-2 h-4 w-4" /> Save as Template
+              </Button>
+            )}
             {isEditing && isShowingFullDetails && (
               <Button onClick={handleCancelEdit} variant="ghost" size="sm">
                 <XCircle className="mr-2 h-4 w-4" /> Cancel Edit
@@ -340,8 +261,39 @@ export default function ShipmentDetailPage() {
           )}
         </CardContent>
       </Card>
-
-      {shipment && <ShipmentDetailsList shipmentId={shipment.id} parentStatus={shipment.status} />}
+      {shipment && isAdmin && (
+        <ReopenShipmentDialog
+          isOpen={isReopenDialogOpen}
+          onClose={() => setIsReopenDialogOpen(false)}
+          shipment={shipment}
+          onReopened={() => { setIsEditing(false); void fetchShipment(false); }}
+        />
+      )}
+      {shipment && isAdmin && (
+        <DuplicateShipmentDialog
+          isOpen={isDuplicateDialogOpen}
+          onClose={() => setIsDuplicateDialogOpen(false)}
+          shipment={shipment}
+        />
+      )}
+      {shipment && isAdmin && (
+        <SaveShipmentTemplateDialog
+          isOpen={isSaveTemplateDialogOpen}
+          onClose={() => setIsSaveTemplateDialogOpen(false)}
+          shipment={shipment}
+        />
+      )}
+
+      {shipment && (
+        <LoadVerificationPanel
+          shipment={shipment}
+          isAdmin={isAdmin}
+          isScanning={isVerifyingLoad}
+          onScanningChange={setIsVerifyingLoad}
+          onChanged={() => void fetchShipment(false)}
+        />
+      )}
+      {shipment && <ShipmentDetailsList shipmentId={shipment.id} parentStatus={shipment.status} listenForScans={!isVerifyingLoad} />}
     </div>
   );
 }
@@ -2,15 +2,21 @@
 "use client";
 
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import ShipmentForm from '@/components/shipments/shipment-form';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { addShipment } from '@/lib/firebase/shipmentsService';
-import type { Shipment } from '@/lib/types';
+import { getShipmentTemplates } from '@/lib/firebase/templatesService';
+import type { Shipment, ShipmentTemplate } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const NO_TEMPLATE = '__none__';
 
 export default function NewShipmentPage() {
   const { toast } = useToast();
@@ -19,6 +25,13 @@ export default function NewShipmentPage() {
 
   // Determine if the current user is an admin
   const isAdmin = currentUser?.role === 'admin';
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>(NO_TEMPLATE);
+
+  const { data: templates = [] } = useQuery<ShipmentTemplate[], Error>({
+    queryKey: ['shipmentTemplates'],
+    queryFn: getShipmentTemplates,
+  });
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) ?? null;
 
   const handleCreateShipment = async (data: Partial<Shipment>): Promise<string | void> => {
     try {
@@ -58,11 +71,28 @@ export default function NewShipmentPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {templates.length > 0 && (
+            <div className="mb-6 max-w-sm space-y-2">
+              <Label htmlFor="shipment-template">Start from Template</Label>
+              <Select value={selectedTemplateId} onValueChange={setSelectedTemplateId}>
+                <SelectTrigger id="shipment-template">
+                  <SelectValue placeholder="No template" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEMPLATE}>No template</SelectItem>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           {/* Pass isAdmin prop and the creation handler */}
           {/* InitialData is null/undefined for new shipments */}
           {/* isEditing is true by default for new shipments */}
           <ShipmentForm
             isAdmin={isAdmin}
+            templateData={selectedTemplate}
             onSubmit={handleCreateShipment}
             // onSaveSuccess is handled by the redirect within handleCreateShipment
           />
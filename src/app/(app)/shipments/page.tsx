@@ -1,17 +1,25 @@
 
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
-import { getAllShipments, deleteShipment, getShipmentDetailsCount } from '@/lib/firebase/shipmentsService'; 
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  queryShipments,
+  deleteShipment,
+  getShipmentDetailsCount,
+  type ShipmentCursor,
+  type ShipmentPage,
+  type ShipmentQueryFilters,
+} from '@/lib/firebase/shipmentsService';
 import type { Shipment } from '@/lib/types';
+import { isShipmentLoadEditable, SHIPMENT_STATUS_BADGE_CLASSES } from '@/lib/shipmentStatus';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { PlusCircle, Eye, Trash2, AlertTriangle, Loader2 } from 'lucide-react';
+import { PlusCircle, Eye, Trash2, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import SearchFilterBar from '@/components/shipments/search-filter-bar';
+import SearchFilterBar, { type ShipmentSearchFilters } from '@/components/shipments/search-filter-bar';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
@@ -43,8 +51,10 @@ const formatDate = (timestamp: Timestamp | Date | undefined): string => {
 
 
 export default function ShipmentsPage() {
-  const [allShipments, setAllShipments] = useState<Shipment[]>([]); 
-  const [filteredShipments, setFilteredShipments] = useState<Shipment[]>([]); 
+  const [serverFilters, setServerFilters] = useState<ShipmentQueryFilters>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [page, setPage] = useState<ShipmentPage | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
@@ -53,76 +63,64 @@ export default function ShipmentsPage() {
 
   const isAdmin = currentUser?.role === 'admin';
 
-  const fetchShipments = useCallback(async () => {
+  const fetchShipments = useCallback(async (cursor: { after?: ShipmentCursor; before?: ShipmentCursor } = {}) => {
     setIsLoading(true);
     setError(null);
     try {
-      const data = await getAllShipments();
-      setAllShipments(data);
-      setFilteredShipments(data); 
+      setPage(await queryShipments(serverFilters, cursor));
     } catch (err) {
       console.error("Error fetching shipments:", err);
       setError(err instanceof Error ? err.message : "Failed to load shipments.");
-      setAllShipments([]); 
-      setFilteredShipments([]);
+      setPage(null);
     } finally {
       setIsLoading(false);
     }
-  }, []); 
+  }, [serverFilters]); 
 
+  // Any change to the Firestore filters starts again from the first page
   useEffect(() => {
+    setPageNumber(1);
     fetchShipments();
   }, [fetchShipments]); 
 
-  const handleFilter = useCallback((filters: any) => {
-    let result = allShipments;
-
-    if (filters.status) {
-      result = result.filter(s => s.status === filters.status);
-    }
-
-    if (filters.searchTerm) {
-      const term = filters.searchTerm.toLowerCase().trim();
-      if (term) {
-        result = result.filter(s =>
-          (s.id || '').toLowerCase().includes(term) ||
-          (s.carrierId || '').toLowerCase().includes(term) ||
-          (s.driverName || '').toLowerCase().includes(term)
-        );
-      }
-    }
-
-     if (filters.startDate) {
-         const start = filters.startDate.getTime();
-         result = result.filter(s => s.departureDate && s.departureDate.toDate().getTime() >= start);
-     }
-     if (filters.endDate) {
-         const end = new Date(filters.endDate);
-         end.setHours(23, 59, 59, 999);
-         const endTime = end.getTime();
-         result = result.filter(s => s.departureDate && s.departureDate.toDate().getTime() <= endTime);
-     }
+  const handleFilter = useCallback(({ searchTerm: term, ...filters }: ShipmentSearchFilters) => {
+    setSearchTerm(term ?? '');
+    setServerFilters(current => JSON.stringify(current) === JSON.stringify(filters) ? current : filters);
+  }, []);
 
-     if (filters.customerId) {
-         console.warn("Client-side filtering by customer is not implemented due to performance concerns.");
-     }
+  const goToNextPage = () => {
+    if (!page?.lastCursor) return;
+    setPageNumber(n => n + 1);
+    fetchShipments({ after: page.lastCursor });
+  };
 
-      if (filters.carrierId) {
-        result = result.filter(s => s.carrierId === filters.carrierId);
-      }
+  const goToPreviousPage = () => {
+    if (!page?.firstCursor) return;
+    setPageNumber(n => Math.max(1, n - 1));
+    fetchShipments({ before: page.firstCursor });
+  };
 
-    setFilteredShipments(result);
-  }, [allShipments]); 
+  // The free-text search only narrows the loaded page
+  const filteredShipments = useMemo(() => {
+    const shipments = page?.shipments ?? [];
+    const term = searchTerm.toLowerCase().trim();
+    if (!term) return shipments;
+    return shipments.filter(s =>
+      (s.id || '').toLowerCase().includes(term) ||
+      (s.carrierId || '').toLowerCase().includes(term) ||
+      (s.driverName || '').toLowerCase().includes(term)
+    );
+  }, [page, searchTerm]);
 
  const handleDelete = async (shipmentToConfirmDelete: Shipment) => {
     if (!shipmentToConfirmDelete) return;
     const { id, status } = shipmentToConfirmDelete;
 
-    if (status === 'Completed' && !isAdmin) {
+    if (!isShipmentLoadEditable(status) && !isAdmin) {
       toast({
         variant: "destructive",
         title: "Deletion Denied",
-        description: "Completed shipments can only be deleted by an administrator.",
+        description: `${status} shipments can only be deleted by an administrator.`,
       });
       return;
     }
@@ -140,8 +138,7 @@ export default function ShipmentsPage() {
 
       await deleteShipment(id);
       toast({ title: "Shipment Deleted", description: `Shipment ${id} removed successfully.` });
-      setAllShipments(prev => prev.filter(s => s.id !== id));
-      setFilteredShipments(prev => prev.filter(s => s.id !== id)); 
+      setPage(prev => prev && { ...prev, shipments: prev.shipments.filter(s => s.id !== id) });
     } catch (error: any) {
       console.error("Error deleting shipment:", error);
       toast({
@@ -184,7 +181,7 @@ export default function ShipmentsPage() {
                     <AlertTriangle className="h-4 w-4" />
                     <AlertTitle>Error Loading Shipments</AlertTitle>
                     <AlertDescription>{error}</AlertDescription>
-                     <Button variant="outline" size="sm" onClick={fetchShipments} className="mt-4">
+                     <Button variant="outline" size="sm" onClick={() => fetchShipments()} className="mt-4">
                          Retry
                      </Button>
                  </Alert>
@@ -224,7 +221,7 @@ export default function ShipmentsPage() {
                                 <TableCell>{formatDate(shipment.departureDate)}</TableCell>
                                 <TableCell>{formatDate(shipment.arrivalDate)}</TableCell>
                                 <TableCell>
-                                <Badge variant={shipment.status === 'Completed' ? 'default' : 'secondary'} className={shipment.status === 'Completed' ? 'bg-green-100 text-green-700 border-green-200' : 'bg-amber-100 text-amber-700 border-amber-200'}>
+                                <Badge variant="outline" className={SHIPMENT_STATUS_BADGE_CLASSES[shipment.status]}>
                                     {shipment.status}
                                 </Badge>
                                 </TableCell>
@@ -243,7 +240,7 @@ export default function ShipmentsPage() {
                                               size="icon" 
                                               className="text-destructive hover:text-destructive hover:bg-destructive/10" 
                                               title="Delete"
-                                              disabled={(shipment.status === 'Completed' && !isAdmin)}
+                                              disabled={!isShipmentLoadEditable(shipment.status) && !isAdmin}
                                             >
                                                 <Trash2 className="h-4 w-4" />
                                                  <span className="sr-only">Delete</span>
@@ -254,8 +251,8 @@ export default function ShipmentsPage() {
                                                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                                                 <AlertDialogDescription>
                                                     This action cannot be undone. This will permanently delete the shipment referred to as &apos;{shipment.driverName} - {shipment.carrierId}&apos;.
-                                                    {(shipment.status === 'Completed' && !isAdmin) && " Regular users cannot delete completed shipments."}
-                                                    {(shipment.status === 'Completed' && isAdmin) && " This is a completed shipment."}
+                                                    {(!isShipmentLoadEditable(shipment.status) && !isAdmin) && ` Regular users cannot delete ${shipment.status.toLowerCase()} shipments.`}
+                                                    {(!isShipmentLoadEditable(shipment.status) && isAdmin) && ` This shipment is ${shipment.status.toLowerCase()}.`}
                                                 </AlertDialogDescription>
                                             </AlertDialogHeader>
                                             <AlertDialogFooter>
@@ -263,7 +260,7 @@ export default function ShipmentsPage() {
                                                 <AlertDialogAction
                                                     onClick={() => handleDelete(shipment)}
                                                     className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                                    disabled={(shipment.status === 'Completed' && !isAdmin)}
+                                                    disabled={!isShipmentLoadEditable(shipment.status) && !isAdmin}
                                                 >
                                                     Delete Shipment
                                                 </AlertDialogAction>
@@ -277,6 +274,15 @@ export default function ShipmentsPage() {
                         )}
                     </TableBody>
                     </Table>
+                    <div className="flex items-center justify-end gap-2 pt-4">
+                        <span className="text-sm text-muted-foreground mr-2">Page {pageNumber}</span>
+                        <Button variant="outline" size="sm" onClick={goToPreviousPage} disabled={!page?.hasPreviousPage}>
+                            <ChevronLeft className="mr-1 h-4 w-4" /> Previous
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={goToNextPage} disabled={!page?.hasNextPage}>
+                            Next <ChevronRight className="ml-1 h-4 w-4" />
+                        </Button>
+                    </div>
                 </div>
            )}
         </CardContent>
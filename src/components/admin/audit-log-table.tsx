@@ -0,0 +1,259 @@
+"use client";
+
+import { Fragment, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { getAuditLogs, type AuditLogFilters } from '@/lib/firebase/auditService';
+import { getAllUsers } from '@/lib/firebase/users';
+import type { AuditLog } from '@/lib/types';
+import { MANAGED_DROPDOWN_COLLECTIONS } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, ChevronDown, ChevronRight, Search, X } from 'lucide-react';
+
+const ALL = '__all__';
+
+const AUDITED_COLLECTIONS: { id: string; name: string }[] = [
+  { id: 'shipments', name: 'Shipments' },
+  { id: 'details', name: 'Shipment Details' },
+  ...MANAGED_DROPDOWN_COLLECTIONS.map(({ id, name }) => ({ id, name })),
+  { id: 'users', name: 'Users' },
+  { id: 'settings', name: 'Settings' },
+  { id: 'pre_alert_templates', name: 'Pre-Alert Templates' },
+  { id: 'shipment_templates', name: 'Shipment Templates' },
+  { id: 'departure_schedules', name: 'Departure Schedules' },
+  { id: 'seals', name: 'Seals' },
+  { id: 'vehicles', name: 'Vehicles' },
+  { id: 'drivers', name: 'Drivers' },
+  { id: 'barcode_rules', name: 'Barcode Rules' },
+  { id: 'seal_batches', name: 'Seal Batches' },
+  { id: 'manifests', name: 'Manifests' },
+];
+
+interface FilterFormState {
+  userId: string;
+  collectionName: string;
+  documentId: string;
+  from: string; // yyyy-MM-dd from <input type="date">
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterFormState = { userId: ALL, collectionName: ALL, documentId: '', from: '', to: '' };
+
+const toQueryFilters = (form: FilterFormState): AuditLogFilters => ({
+  userId: form.userId !== ALL ? form.userId : undefined,
+  collectionName: form.collectionName !== ALL ? form.collectionName : undefined,
+  documentId: form.documentId.trim() || undefined,
+  from: form.from ? new Date(`${form.from}T00:00:00`) : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`) : undefined,
+});
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (value instanceof Timestamp) return format(value.toDate(), "PPpp");
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const actionBadgeClass = (action: string): string => {
+  if (action.startsWith('create_')) return 'bg-green-100 text-green-700 border-green-200';
+  if (action.startsWith('delete_')) return 'bg-red-100 text-red-700 border-red-200';
+  return 'bg-amber-100 text-amber-700 border-amber-200';
+};
+
+export default function AuditLogTable() {
+  const [formFilters, setFormFilters] = useState<FilterFormState>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<FilterFormState>(EMPTY_FILTERS);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['allUsers'],
+    queryFn: getAllUsers,
+  });
+
+  const { data: logs = [], isLoading, error, refetch } = useQuery<AuditLog[], Error>({
+    queryKey: ['auditLogs', appliedFilters],
+    queryFn: () => getAuditLogs(toQueryFilters(appliedFilters)),
+  });
+
+  const updateFilter = (changes: Partial<FilterFormState>) => {
+    setFormFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(formFilters);
+  };
+
+  const handleReset = () => {
+    setFormFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleApply} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="audit-user">User</Label>
+          <Select value={formFilters.userId} onValueChange={(userId) => updateFilter({ userId })}>
+            <SelectTrigger id="audit-user"><SelectValue placeholder="All users" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              <SelectItem value="system">System</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.uid} value={user.uid}>{user.email || user.uid}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-collection">Collection</Label>
+          <Select value={formFilters.collectionName} onValueChange={(collectionName) => updateFilter({ collectionName })}>
+            <SelectTrigger id="audit-collection"><SelectValue placeholder="All collections" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All collections</SelectItem>
+              {AUDITED_COLLECTIONS.map(col => (
+                <SelectItem key={col.id} value={col.id}>{col.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-document">Document ID</Label>
+          <Input
+            id="audit-document"
+            placeholder="e.g. shipment ID"
+            value={formFilters.documentId}
+            onChange={(e) => updateFilter({ documentId: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={formFilters.from} onChange={(e) => updateFilter({ from: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={formFilters.to} onChange={(e) => updateFilter({ to: e.target.value })} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" className="flex-1">
+            <Search className="mr-2 h-4 w-4" /> Apply
+          </Button>
+          <Button type="button" variant="outline" onClick={handleReset} title="Clear filters">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Audit Log</AlertTitle>
+          <AlertDescription>
+            {error.message || "Could not load audit log entries."}
+            <Button variant="secondary" size="sm" onClick={() => refetch()} className="ml-4 mt-2 sm:mt-0 sm:ml-2">
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="border rounded-md overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[32px]" />
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead className="text-right">Fields Changed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {logs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No audit log entries match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                logs.map(log => {
+                  const changeEntries = Object.entries(log.changes ?? {});
+                  const isExpanded = expandedLogId === log.id;
+                  return (
+                    <Fragment key={log.id}>
+                      <TableRow className="cursor-pointer" onClick={() => setExpandedLogId(isExpanded ? null : log.id)}>
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">{format(log.timestamp.toDate(), "PPpp")}</TableCell>
+                        <TableCell className="text-xs break-all">{log.userEmail || log.userId}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={`text-xs ${actionBadgeClass(log.action)}`}>{log.action}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs break-all">{log.collectionPath}/{log.documentId}</TableCell>
+                        <TableCell className="text-right text-xs">{changeEntries.length}</TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="bg-muted/30 hover:bg-muted/30">
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            {log.details && <p className="text-xs text-muted-foreground mb-2">{log.details}</p>}
+                            {changeEntries.length === 0 ? (
+                              <p className="text-xs text-muted-foreground">No field changes recorded.</p>
+                            ) : (
+                              <table className="text-xs w-full">
+                                <thead>
+                                  <tr className="text-left text-muted-foreground">
+                                    <th className="pr-4 font-medium">Field</th>
+                                    <th className="pr-4 font-medium">Old Value</th>
+                                    <th className="font-medium">New Value</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changeEntries.map(([field, change]) => (
+                                    <tr key={field}>
+                                      <td className="pr-4 font-mono">{field}</td>
+                                      <td className="pr-4 break-all">{formatAuditValue(change.oldValue)}</td>
+                                      <td className="break-all">{formatAuditValue(change.newValue)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
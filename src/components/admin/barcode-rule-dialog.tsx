@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { addBarcodeRule, updateBarcodeRule, type BarcodeRuleInput } from '@/lib/firebase/barcodeRulesService';
+import type { BarcodeFieldRule, BarcodeRule, BarcodeRuleField } from '@/lib/types';
+import { BARCODE_RULE_FIELDS, isValidBarcodePattern, traceBarcodeRule } from '@/lib/barcodeRules';
+import BarcodeRuleTrace from './barcode-rule-trace';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface BarcodeRuleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rule: BarcodeRule | null; // null to add a new one
+  defaults?: BarcodeRuleInput; // Prefills a new rule, e.g. from a built-in rule
+}
+
+// Numbers are typed as text so the optional ones can be left empty
+const isWholeNumber = (value: string) => value !== '' && Number.isInteger(Number(value));
+
+const fieldRuleSchema = z.object({
+  segment: z.string().trim().refine(value => value === '' || (isWholeNumber(value) && Number(value) >= 0), "0 or more, or empty."),
+  start: z.string().trim().refine(isWholeNumber, "A whole number."),
+  length: z.string().trim().refine(value => value === '' || (isWholeNumber(value) && Number(value) > 0), "Above 0, or empty."),
+  stripZeros: z.boolean(),
+  divideBy: z.string().trim().refine(value => value === '' || Number(value) > 0, "Above 0, or empty."),
+});
+
+const barcodeRuleFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required."),
+  pattern: z.string().min(1, "Pattern is required.").refine(isValidBarcodePattern, "Not a valid regular expression."),
+  separator: z.string(),
+  priority: z.string().trim().refine(isWholeNumber, "Enter a whole number."),
+  active: z.boolean(),
+  fields: z.object({
+    doe: fieldRuleSchema,
+    dispatchNumber: fieldRuleSchema,
+    grossWeight: fieldRuleSchema,
+  }),
+});
+
+type BarcodeRuleFormValues = z.infer<typeof barcodeRuleFormSchema>;
+type FieldRuleFormValues = BarcodeRuleFormValues['fields'][BarcodeRuleField];
+
+const numberOrNull = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+const fieldRuleToFormValues = (rule: BarcodeFieldRule | undefined): FieldRuleFormValues => ({
+  segment: rule?.segment?.toString() ?? '',
+  start: rule?.start.toString() ?? '0',
+  length: rule?.length?.toString() ?? '',
+  stripZeros: rule?.stripZeros ?? false,
+  divideBy: rule?.divideBy?.toString() ?? '',
+});
+
+const fieldRuleFromFormValues = (values: FieldRuleFormValues): BarcodeFieldRule => ({
+  segment: numberOrNull(values.segment),
+  start: Number(values.start) || 0,
+  length: numberOrNull(values.length),
+  stripZeros: values.stripZeros,
+  divideBy: numberOrNull(values.divideBy),
+});
+
+const ruleFromFormValues = (values: BarcodeRuleFormValues): BarcodeRuleInput => ({
+  name: values.name.trim(),
+  pattern: values.pattern,
+  separator: values.separator,
+  priority: Number(values.priority) || 0,
+  active: values.active,
+  fields: {
+    doe: fieldRuleFromFormValues(values.fields.doe),
+    dispatchNumber: fieldRuleFromFormValues(values.fields.dispatchNumber),
+    grossWeight: fieldRuleFromFormValues(values.fields.grossWeight),
+  },
+});
+
+export default function BarcodeRuleDialog({ isOpen, onClose, rule, defaults }: BarcodeRuleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sample, setSample] = useState('');
+
+  const form = useForm<BarcodeRuleFormValues>({
+    resolver: zodResolver(barcodeRuleFormSchema),
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const source = rule ?? defaults;
+    form.reset({
+      name: source?.name ?? '',
+      pattern: source?.pattern ?? '',
+      separator: source?.separator ?? '-',
+      priority: source?.priority.toString() ?? '100',
+      active: source?.active ?? true,
+      fields: {
+        doe: fieldRuleToFormValues(source?.fields.doe),
+        dispatchNumber: fieldRuleToFormValues(source?.fields.dispatchNumber),
+        grossWeight: fieldRuleToFormValues(source?.fields.grossWeight),
+      },
+    });
+    setSample('');
+  }, [isOpen, rule, defaults, form]);
+
+  // The rule as currently typed, tried on the sample barcode
+  const values = form.watch();
+  const sampleTrace = sample.trim() && values.fields
+    ? traceBarcodeRule({ id: rule?.id ?? 'draft', ...ruleFromFormValues(values) }, sample)
+    : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async (formValues: BarcodeRuleFormValues): Promise<void> => {
+      const input = ruleFromFormValues(formValues);
+      if (rule) {
+        await updateBarcodeRule(rule.id, input);
+      } else {
+        await addBarcodeRule(input);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['barcodeRules'] });
+      toast({ title: rule ? "Barcode Rule Updated" : "Barcode Rule Added" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Save Failed", description: error.message || "Could not save the barcode rule." });
+    },
+  });
+
+  const isSaving = saveMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? `Edit Barcode Rule: ${rule.name}` : 'Add Barcode Rule'}</DialogTitle>
+          <DialogDescription>
+            Barcodes matching the pattern are read field by field: from a segment between separators, or the whole barcode, take the characters from the start position (negative counts from the end).
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(formValues => saveMutation.mutate(formValues))} className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Customer X labels" {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormDescription>Lower is tried first.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Match Pattern</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono" placeholder="^[0-9]{15,}$" {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormDescription>A regular expression the barcode must match.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="separator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Segment Separator</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono" maxLength={3} {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormDescription>Empty when no field reads a segment.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-[8rem_repeat(5,1fr)] items-start gap-2 text-sm">
+              <span />
+              <Label>Segment</Label>
+              <Label>Start</Label>
+              <Label>Length</Label>
+              <Label>Divide By</Label>
+              <Label>Strip Zeros</Label>
+              {BARCODE_RULE_FIELDS.map(({ key, label }) => (
+                <div key={key} className="contents">
+                  <span className="pt-2 font-medium">{label}</span>
+                  {(['segment', 'start', 'length', 'divideBy'] as const).map(part => (
+                    <FormField
+                      key={part}
+                      control={form.control}
+                      name={`fields.${key}.${part}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input inputMode="numeric" placeholder={part === 'start' ? '0' : '—'} {...field} value={field.value ?? ''} disabled={isSaving} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <FormField
+                    control={form.control}
+                    name={`fields.${key}.stripZeros`}
+                    render={({ field }) => (
+                      <FormItem className="pt-2">
+                        <FormControl>
+                          <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} disabled={isSaving} aria-label={`Strip leading zeros from the ${label}`} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSaving} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Active (used when scanning)</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2 rounded-md border p-3">
+              <Label htmlFor="barcode-rule-sample">Try It</Label>
+              <Input id="barcode-rule-sample" className="font-mono" placeholder="Paste a barcode" value={sample} onChange={(e) => setSample(e.target.value)} />
+              {sampleTrace && <BarcodeRuleTrace trace={sampleTrace} />}
+            </div>
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+                  </>
+                ) : 'Save Rule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import type { BarcodeRuleTrace as Trace } from '@/lib/barcodeRules';
+import { BARCODE_RULE_FIELDS } from '@/lib/barcodeRules';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// What each field of one rule read from a barcode
+export default function BarcodeRuleTrace({ trace }: { trace: Trace }) {
+  if (trace.error) return <p className="text-sm text-destructive">{trace.error}</p>;
+  if (!trace.matched) return <p className="text-sm text-muted-foreground">The barcode does not match the pattern.</p>;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead>Read</TableHead>
+          <TableHead>Value</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {trace.fields.map(field => (
+          <TableRow key={field.field}>
+            <TableCell>{BARCODE_RULE_FIELDS.find(({ key }) => key === field.field)?.label}</TableCell>
+            <TableCell className="font-mono">{field.raw ?? '—'}</TableCell>
+            <TableCell className={field.error ? 'text-destructive' : 'font-mono'}>{field.error ?? field.value}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { BarcodeRule, DropdownItem } from '@/lib/types';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { traceBarcodeRule } from '@/lib/barcodeRules';
+import { parseUpuReceptacleId, UPU_RECEPTACLE_ID_FIELD_LABELS } from '@/lib/receptacles';
+import { findDoeValue, parseBarcode } from '@/lib/utils';
+import BarcodeRuleTrace from './barcode-rule-trace';
+import { BarcodeScannerDialog } from '@/components/shipments/BarcodeScannerDialog';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Scan } from 'lucide-react';
+
+interface BarcodeTestBenchProps {
+  rules: BarcodeRule[]; // The rules scanning uses, in order
+}
+
+// Shows how the shipment item form would decode a pasted or scanned barcode
+export default function BarcodeTestBench({ rules }: BarcodeTestBenchProps) {
+  const [barcode, setBarcode] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const { data: doeOptions } = useQuery<DropdownItem[]>({
+    queryKey: ['doe'], queryFn: () => getDropdownOptions('doe'), staleTime: 5 * 60 * 1000 });
+
+  const trimmed = barcode.trim();
+  const upuId = trimmed ? parseUpuReceptacleId(trimmed) : null;
+  const traces = trimmed && !upuId?.ok ? rules.map(rule => traceBarcodeRule(rule, trimmed)) : [];
+  const usedRuleId = traces.find(trace => trace.identity)?.rule.id;
+  const decoded = trimmed ? parseBarcode(trimmed, rules) : null;
+  // The item form rejects a barcode whose DOE is not in the list
+  const unknownDoe = !!decoded && !!doeOptions && !findDoeValue(decoded.doe, doeOptions.map(option => option.value));
+
+  return (
+    <Card className="shadow-lg rounded-xl border">
+      <CardHeader>
+        <CardTitle className="text-xl">Test Bench</CardTitle>
+        <CardDescription>
+          UPU S9 receptacle IDs are decoded first; other barcodes by the first active rule, in priority order, that reads every field.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex space-x-2">
+          <Input className="font-mono" placeholder="Paste or scan a barcode" value={barcode} onChange={(e) => setBarcode(e.target.value)} />
+          <Button type="button" variant="outline" size="icon" onClick={() => setIsScannerOpen(true)} aria-label="Scan Barcode">
+            <Scan className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {trimmed && (
+          <div className="rounded-md border p-3 text-sm">
+            {decoded ? (
+              <p>
+                Decoded as <span className="font-medium">{decoded.format === 's9' ? 'UPU S9' : rules.find(rule => rule.id === decoded.format)?.name ?? decoded.format}</span>:
+                DOE <span className="font-mono">{decoded.doe}</span>, dispatch <span className="font-mono">{decoded.dispatchNumber}</span>, gross weight <span className="font-mono">{decoded.grossWeight}</span> kg.
+              </p>
+            ) : (
+              <p className="text-destructive">No rule decodes this barcode; the item form will leave its fields to be typed.</p>
+            )}
+            {decoded && unknownDoe && (
+              <p className="text-destructive">DOE {decoded.doe} is not in the DOE list; the item form rejects this barcode until an admin adds it.</p>
+            )}
+          </div>
+        )}
+
+        {upuId && (
+          <div className="space-y-2">
+            <h3 className="font-medium">UPU S9 Receptacle ID</h3>
+            {upuId.ok ? (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm sm:grid-cols-3">
+                {Object.entries(upuId.id).map(([field, value]) => (
+                  <div key={field}>
+                    <dt className="text-muted-foreground">{UPU_RECEPTACLE_ID_FIELD_LABELS[field as keyof typeof upuId.id]}</dt>
+                    <dd className="font-mono">{typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <ul className="list-disc pl-4 text-sm text-muted-foreground">
+                {upuId.errors.map(error => <li key={error.field}>{error.message}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {traces.map(trace => (
+          <div key={trace.rule.id} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="font-medium">{trace.rule.name}</h3>
+              <span className="text-xs text-muted-foreground">priority {trace.rule.priority}</span>
+              {trace.rule.id === usedRuleId
+                ? <Badge>Used</Badge>
+                : trace.matched && <Badge variant="secondary">Matched, not every field read</Badge>}
+            </div>
+            <BarcodeRuleTrace trace={trace} />
+          </div>
+        ))}
+      </CardContent>
+      <BarcodeScannerDialog
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={setBarcode}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDepartureSchedule, updateDepartureSchedule, type DepartureScheduleInput } from '@/lib/firebase/schedulesService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { getAppSettings } from '@/lib/firebase/settingsService';
+import type { DepartureSchedule } from '@/lib/types';
+import { DEFAULT_SENDER_ADDRESS, DEFAULT_CONSIGNEE_ADDRESS, WEEKDAY_NAMES } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface DepartureScheduleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  schedule: DepartureSchedule | null; // null to add a new one
+}
+
+const NO_SUBCARRIER = '__none__';
+
+const departureScheduleFormSchema = z.object({
+  lane: z.string().trim().min(1, "Lane name is required."),
+  carrierId: z.string().min(1, "Carrier is required."),
+  subcarrierId: z.string(),
+  weekday: z.string(),
+  departureTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour time, e.g. 18:30."),
+  senderAddress: z.string().trim().min(1, "Sender address is required."),
+  consigneeAddress: z.string().trim().min(1, "Consignee address is required."),
+  active: z.boolean(),
+});
+
+type DepartureScheduleFormValues = z.infer<typeof departureScheduleFormSchema>;
+
+export default function DepartureScheduleDialog({ isOpen, onClose, schedule }: DepartureScheduleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: carriers = [] } = useQuery({ queryKey: ['carriers'], queryFn: () => getDropdownOptions('carriers') });
+  const { data: subcarriers = [] } = useQuery({ queryKey: ['subcarriers'], queryFn: () => getDropdownOptions('subcarriers') });
+  const { data: appSettings } = useQuery({ queryKey: ['appSettings'], queryFn: getAppSettings, enabled: isOpen && !schedule });
+
+  const form = useForm<DepartureScheduleFormValues>({
+    resolver: zodResolver(departureScheduleFormSchema),
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({
+      lane: schedule?.lane ?? '',
+      carrierId: schedule?.carrierId ?? '',
+      subcarrierId: schedule?.subcarrierId ?? NO_SUBCARRIER,
+      weekday: String(schedule?.weekday ?? 1),
+      departureTime: schedule?.departureTime ?? '',
+      senderAddress: schedule?.senderAddress ?? appSettings?.defaultSenderAddress ?? DEFAULT_SENDER_ADDRESS,
+      consigneeAddress: schedule?.consigneeAddress ?? appSettings?.defaultConsigneeAddress ?? DEFAULT_CONSIGNEE_ADDRESS,
+      active: schedule?.active ?? true,
+    });
+  }, [isOpen, schedule, appSettings, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: DepartureScheduleFormValues): Promise<void> => {
+      const input: DepartureScheduleInput = {
+        lane: values.lane,
+        carrierId: values.carrierId,
+        subcarrierId: values.subcarrierId === NO_SUBCARRIER ? null : values.subcarrierId,
+        weekday: Number(values.weekday),
+        departureTime: values.departureTime,
+        senderAddress: values.senderAddress,
+        consigneeAddress: values.consigneeAddress,
+        active: values.active,
+      };
+      if (schedule) {
+        await updateDepartureSchedule(schedule.id, input);
+      } else {
+        await addDepartureSchedule(input);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['departureSchedules'] });
+      toast({ title: schedule ? "Departure Updated" : "Departure Added" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Save Failed", description: error.message || "Could not save the departure." });
+    },
+  });
+
+  const isSaving = saveMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>{schedule ? `Edit Departure: ${schedule.lane}` : 'Add Departure'}</DialogTitle>
+          <DialogDescription>
+            A Draft shipment is created automatically ahead of each departure. Changes apply to days not yet planned.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="lane"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lane</FormLabel>
+                  <FormControl>
+                    <Input placeholder="E.g. Fareham - Dublin" {...field} value={field.value ?? ''} disabled={isSaving} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="carrierId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Carrier</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || ''} disabled={isSaving}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Select a carrier" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {carriers.map(option => <SelectItem key={option.id} value={option.value}>{option.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="subcarrierId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subcarrier (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || NO_SUBCARRIER} disabled={isSaving}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_SUBCARRIER}>None</SelectItem>
+                        {subcarriers.map(option => <SelectItem key={option.id} value={option.value}>{option.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weekday"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weekday</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isSaving}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {WEEKDAY_NAMES.map((name, index) => <SelectItem key={name} value={String(index)}>{name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="departureTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Departure Time</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="senderAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sender Address</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value ?? ''} disabled={isSaving} rows={3} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="consigneeAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Consignee Address</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value ?? ''} disabled={isSaving} rows={3} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSaving} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Active (plan shipments for this departure)</FormLabel>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+                  </>
+                ) : 'Save Departure'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
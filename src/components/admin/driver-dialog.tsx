@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDriver, updateDriver, type DriverInput } from '@/lib/firebase/driversService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import type { Driver } from '@/lib/types';
+import { countryCodeSchema } from '@/components/shipments/cmr-party-fields';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface DriverDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  driver: Driver | null; // null to register a new one
+  defaults?: { name?: string; carrierId?: string }; // Prefills a new driver, e.g. from the shipment form
+  onSaved?: (driver: Driver) => void;
+}
+
+const driverFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required."),
+  carrierId: z.string().min(1, "Carrier is required."),
+  phone: z.string().trim().refine(value => value === '' || /^\+?[0-9 ()-]{6,20}$/.test(value), "Enter a phone number, e.g. +44 7700 900123."),
+  idNumber: z.string().trim(),
+  nationality: countryCodeSchema,
+  active: z.boolean(),
+});
+
+type DriverFormValues = z.infer<typeof driverFormSchema>;
+
+export default function DriverDialog({ isOpen, onClose, driver, defaults, onSaved }: DriverDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: carriers = [] } = useQuery({ queryKey: ['carriers'], queryFn: () => getDropdownOptions('carriers') });
+
+  const form = useForm<DriverFormValues>({
+    resolver: zodResolver(driverFormSchema),
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({
+      name: driver?.name ?? defaults?.name ?? '',
+      carrierId: driver?.carrierId ?? defaults?.carrierId ?? '',
+      phone: driver?.phone ?? '',
+      idNumber: driver?.idNumber ?? '',
+      nationality: driver?.nationality ?? '',
+      active: driver?.active ?? true,
+    });
+  }, [isOpen, driver, defaults?.name, defaults?.carrierId, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: DriverFormValues): Promise<Driver> => {
+      const input: DriverInput = { ...values };
+      if (driver) {
+        await updateDriver(driver.id, input);
+        return { ...driver, ...input };
+      }
+      return addDriver(input);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['drivers'] });
+      toast({ title: driver ? "Driver Updated" : "Driver Registered" });
+      onSaved?.(saved);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Save Failed", description: error.message || "Could not save the driver." });
+    },
+  });
+
+  const isSaving = saveMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{driver ? `Edit Driver: ${driver.name}` : 'Register Driver'}</DialogTitle>
+          <DialogDescription>
+            The phone, ID number and nationality are printed with the driver&apos;s name on the CMR. This is personal data: only record what the documents need.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} onChange={(e) => field.onChange(e.target.value.toUpperCase())} disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="carrierId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Carrier</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || ''} disabled={isSaving}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Select a carrier" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {carriers.map(option => <SelectItem key={option.id} value={option.value}>{option.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="+44 7700 900123" {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="nationality"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nationality</FormLabel>
+                    <FormControl>
+                      <Input placeholder="GB" maxLength={2} {...field} value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="idNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Licence or ID Number</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ''} disabled={isSaving} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSaving} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Active (suggested on shipments)</FormLabel>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+                  </>
+                ) : 'Save Driver'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
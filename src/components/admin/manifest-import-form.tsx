@@ -0,0 +1,133 @@
+"use client";
+
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { importManifest } from '@/lib/firebase/preAdviceService';
+import { parseManifestRows, type ParsedManifest } from '@/lib/preAdvice';
+import { readSpreadsheetFile } from '@/lib/spreadsheet';
+import type { DropdownItem } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, Upload } from 'lucide-react';
+
+// Enough rejected rows to see what is wrong with a file without a wall of text
+const ERRORS_SHOWN = 10;
+
+export default function ManifestImportForm() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [customerId, setCustomerId] = useState('');
+  const [day, setDay] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [file, setFile] = useState<{ name: string; manifest: ParsedManifest } | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<DropdownItem[]>({
+    queryKey: ['customers'],
+    queryFn: () => getDropdownOptions('customers'),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setFile(null);
+    setReadError(null);
+    if (!selected) return;
+    setIsReading(true);
+    try {
+      setFile({ name: selected.name, manifest: parseManifestRows(await readSpreadsheetFile(selected)) });
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () => importManifest(customerId, new Date(`${day}T00:00:00`), file?.name ?? '', file?.manifest.lines ?? []),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['manifests'] });
+      queryClient.invalidateQueries({ queryKey: ['preAdviceDay'] });
+      toast({ title: "Manifest Uploaded", description: `${file?.manifest.lines.length} pre-advised receptacle(s) stored.` });
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Upload Failed", description: error.message });
+    },
+  });
+
+  const isImporting = importMutation.isPending;
+  const lines = file?.manifest.lines ?? [];
+  const errors = file?.manifest.errors ?? [];
+  const totalWeight = lines.reduce((sum, line) => sum + line.grossWeight, 0);
+  const canImport = !!customerId && !!day && lines.length > 0 && errors.length === 0 && !isImporting;
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="manifest-customer">Customer</Label>
+          <Select value={customerId} onValueChange={setCustomerId} disabled={isImporting || isLoadingCustomers}>
+            <SelectTrigger id="manifest-customer"><SelectValue placeholder={isLoadingCustomers ? "Loading..." : "Select a customer"} /></SelectTrigger>
+            <SelectContent>
+              {customers.map(customer => <SelectItem key={customer.id} value={customer.value}>{customer.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="manifest-date">Departure Date</Label>
+          <Input id="manifest-date" type="date" value={day} onChange={(e) => setDay(e.target.value)} disabled={isImporting} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="manifest-file">Manifest (CSV or XLSX)</Label>
+        <Input
+          id="manifest-file"
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,.xlsx"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+          disabled={isImporting || isReading}
+        />
+        <p className="text-xs text-muted-foreground">
+          The header row names the columns: a dispatch number and a gross weight are required; a DOE and a receptacle ID are used when present.
+        </p>
+      </div>
+      {readError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Could Not Read the File</AlertTitle>
+          <AlertDescription>{readError}</AlertDescription>
+        </Alert>
+      )}
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{errors.length} Row(s) Rejected</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {errors.slice(0, ERRORS_SHOWN).map(error => <li key={error}>{error}</li>)}
+            </ul>
+            {errors.length > ERRORS_SHOWN && <p>And {errors.length - ERRORS_SHOWN} more. Correct the file and choose it again.</p>}
+          </AlertDescription>
+        </Alert>
+      )}
+      {file && errors.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          {file.name}: {lines.length} receptacle(s), {totalWeight.toFixed(3)} kg in total.
+        </p>
+      )}
+      <Button onClick={() => importMutation.mutate()} disabled={!canImport}>
+        {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        Upload Manifest
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState, type ReactNode } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import { getPreAdviceDay, type PreAdviceDay } from '@/lib/firebase/preAdviceService';
+import { DEFAULT_PRE_ADVICE_TOLERANCE_KG, reconcilePreAdvice } from '@/lib/preAdvice';
+import type { DropdownItem } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+
+interface PreAdviceReportProps {
+  customers: DropdownItem[];
+}
+
+const ShipmentLink = ({ shipmentId }: { shipmentId: string }) =>
+  <Link href={`/shipments/${shipmentId}`} className="font-mono text-primary hover:underline">{shipmentId}</Link>;
+
+const EmptyRow = ({ colSpan, children }: { colSpan: number; children: ReactNode }) => (
+  <TableRow>
+    <TableCell colSpan={colSpan} className="text-center text-muted-foreground">{children}</TableCell>
+  </TableRow>
+);
+
+// Compares a customer's manifests for a day with its items on the shipments departing that day
+export default function PreAdviceReport({ customers }: PreAdviceReportProps) {
+  const [customerId, setCustomerId] = useState('');
+  const [day, setDay] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [tolerance, setTolerance] = useState(String(DEFAULT_PRE_ADVICE_TOLERANCE_KG));
+
+  const dayQuery = useQuery<PreAdviceDay, Error>({
+    queryKey: ['preAdviceDay', customerId, day],
+    queryFn: () => getPreAdviceDay(customerId, new Date(`${day}T00:00:00`)),
+    enabled: !!customerId && !!day,
+  });
+
+  const toleranceKg = Math.max(0, Number(tolerance) || 0);
+  const reconciliation = useMemo(
+    () => dayQuery.data && reconcilePreAdvice(dayQuery.data.preAdvised, dayQuery.data.received, toleranceKg),
+    [dayQuery.data, toleranceKg],
+  );
+  const fileNames = new Map(dayQuery.data?.manifests.map(manifest => [manifest.id, manifest.fileName]));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3 max-w-2xl">
+        <div className="space-y-2">
+          <Label htmlFor="pre-advice-customer">Customer</Label>
+          <Select value={customerId} onValueChange={setCustomerId}>
+            <SelectTrigger id="pre-advice-customer"><SelectValue placeholder="Select a customer" /></SelectTrigger>
+            <SelectContent>
+              {customers.map(customer => <SelectItem key={customer.id} value={customer.value}>{customer.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pre-advice-date">Departure Date</Label>
+          <Input id="pre-advice-date" type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pre-advice-tolerance">Weight Tolerance (kg)</Label>
+          <Input id="pre-advice-tolerance" type="number" min="0" step="0.1" value={tolerance} onChange={(e) => setTolerance(e.target.value)} />
+        </div>
+      </div>
+
+      {!customerId ? (
+        <p className="text-sm text-muted-foreground">Select a customer to compare its pre-advice with what was loaded.</p>
+      ) : dayQuery.isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : dayQuery.error ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Building Report</AlertTitle>
+          <AlertDescription>{dayQuery.error.message}</AlertDescription>
+        </Alert>
+      ) : dayQuery.data && reconciliation && (
+        <>
+          <p className="text-sm">
+            {dayQuery.data.preAdvised.length} receptacle(s) pre-advised on {dayQuery.data.manifests.length} manifest(s),{' '}
+            {dayQuery.data.received.length} item(s) loaded, {reconciliation.matched.length} matched.
+          </p>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">Pre-Advised, Not Loaded ({reconciliation.notLoaded.length})</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Manifest</TableHead>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Dispatch</TableHead>
+                  <TableHead>DOE</TableHead>
+                  <TableHead>Receptacle</TableHead>
+                  <TableHead className="text-right">Gross (kg)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciliation.notLoaded.length === 0 ? (
+                  <EmptyRow colSpan={6}>Every pre-advised receptacle was loaded.</EmptyRow>
+                ) : reconciliation.notLoaded.map(receptacle => (
+                  <TableRow key={`${receptacle.manifestId}/${receptacle.id}`}>
+                    <TableCell>{fileNames.get(receptacle.manifestId) ?? receptacle.manifestId}</TableCell>
+                    <TableCell>{receptacle.line}</TableCell>
+                    <TableCell>{receptacle.dispatchNumber}</TableCell>
+                    <TableCell>{receptacle.doeId || '—'}</TableCell>
+                    <TableCell className="font-mono text-xs">{receptacle.barcode || '—'}</TableCell>
+                    <TableCell className="text-right">{receptacle.grossWeight.toFixed(3)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">Loaded, Not Pre-Advised ({reconciliation.notPreAdvised.length})</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Shipment</TableHead>
+                  <TableHead>Dispatch</TableHead>
+                  <TableHead>DOE</TableHead>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead className="text-right">Gross (kg)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciliation.notPreAdvised.length === 0 ? (
+                  <EmptyRow colSpan={5}>Every loaded item was pre-advised.</EmptyRow>
+                ) : reconciliation.notPreAdvised.map(detail => (
+                  <TableRow key={`${detail.shipmentId}/${detail.id}`}>
+                    <TableCell><ShipmentLink shipmentId={detail.shipmentId} /></TableCell>
+                    <TableCell>{detail.dispatchNumber || '—'}</TableCell>
+                    <TableCell>{detail.doeId || '—'}</TableCell>
+                    <TableCell className="font-mono text-xs">{detail.barcode || '—'}</TableCell>
+                    <TableCell className="text-right">{detail.grossWeight.toFixed(3)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">Weight Mismatches ({reconciliation.weightMismatches.length})</h3>
+            <p className="text-sm text-muted-foreground">Matched receptacles whose weights differ by more than {toleranceKg} kg.</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Shipment</TableHead>
+                  <TableHead>Dispatch</TableHead>
+                  <TableHead>Receptacle</TableHead>
+                  <TableHead className="text-right">Pre-Advised (kg)</TableHead>
+                  <TableHead className="text-right">Loaded (kg)</TableHead>
+                  <TableHead className="text-right">Difference (kg)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciliation.weightMismatches.length === 0 ? (
+                  <EmptyRow colSpan={6}>No weight differs by more than the tolerance.</EmptyRow>
+                ) : reconciliation.weightMismatches.map(({ receptacle, detail, weightDifference }) => (
+                  <TableRow key={`${detail.shipmentId}/${detail.id}`}>
+                    <TableCell><ShipmentLink shipmentId={detail.shipmentId} /></TableCell>
+                    <TableCell>{receptacle.dispatchNumber}</TableCell>
+                    <TableCell className="font-mono text-xs">{receptacle.barcode || detail.barcode || '—'}</TableCell>
+                    <TableCell className="text-right">{receptacle.grossWeight.toFixed(3)}</TableCell>
+                    <TableCell className="text-right">{detail.grossWeight.toFixed(3)}</TableCell>
+                    <TableCell className="text-right text-destructive">{weightDifference > 0 ? '+' : ''}{weightDifference.toFixed(3)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+"use client";
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  PreAlertColumn,
+  PreAlertColumnGroup,
+  PreAlertColumnKey,
+  PreAlertField,
+  PreAlertFieldKey,
+  PreAlertTemplate,
+} from '@/lib/types';
+import { addPreAlertTemplate, updatePreAlertTemplate, type PreAlertTemplateInput } from '@/lib/firebase/templatesService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { PRE_ALERT_COLUMN_OPTIONS, PRE_ALERT_FIELD_OPTIONS } from '@/lib/documents/preAlertTemplates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { PlusCircle, Trash2, Save, Loader2, AlertTriangle, ArrowUp, ArrowDown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface PreAlertTemplateEditorProps {
+  template: PreAlertTemplate;
+  isNew: boolean;
+  onDone: () => void;
+}
+
+const moveItem = <T,>(items: T[], index: number, offset: -1 | 1): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const templateToInput = (template: PreAlertTemplate): PreAlertTemplateInput => ({
+  name: template.name,
+  isDefault: template.isDefault,
+  customerIds: template.customerIds,
+  consigneeKeywords: template.consigneeKeywords,
+  cellFillColor: template.cellFillColor,
+  header: template.header,
+  infoFields: template.infoFields,
+  table: template.table,
+  totals: template.totals,
+  footerNote: template.footerNote,
+});
+
+const validateTemplate = (template: PreAlertTemplateInput): string | null => {
+  if (!template.name.trim()) return "The template needs a name.";
+  if (!template.isDefault && template.customerIds.length === 0 && template.consigneeKeywords.length === 0) {
+    return "Choose at least one customer or consignee keyword, or make this the default template.";
+  }
+  if (template.table.columns.length === 0) return "The detail table needs at least one column.";
+  const spannedColumns = template.table.columnGroups.reduce((sum, group) => sum + group.span, 0);
+  if (template.table.columnGroups.some(group => group.span < 1)) return "Every column group must span at least one column.";
+  if (spannedColumns > template.table.columns.length) {
+    return `Column groups span ${spannedColumns} columns but the table only has ${template.table.columns.length}.`;
+  }
+  return null;
+};
+
+interface FieldListEditorProps {
+  title: string;
+  fields: PreAlertField[];
+  onChange: (fields: PreAlertField[]) => void;
+  disabled: boolean;
+}
+
+// Ordered list of shipment fields, each with the label printed above it
+function FieldListEditor({ title, fields, onChange, disabled }: FieldListEditorProps) {
+  const update = (index: number, changes: Partial<PreAlertField>) =>
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+
+  return (
+    <div className="space-y-2">
+      <Label>{title}</Label>
+      {fields.map((field, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={field.key}
+            onValueChange={(key) => update(index, {
+              key: key as PreAlertFieldKey,
+              label: PRE_ALERT_FIELD_OPTIONS.find(option => option.key === key)?.label ?? field.label,
+            })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PRE_ALERT_FIELD_OPTIONS.map(option => (
+                <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input value={field.label} onChange={(e) => update(index, { label: e.target.value })} placeholder="Printed label" disabled={disabled} />
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(moveItem(fields, index, -1))} disabled={disabled || index === 0} aria-label="Move up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(moveItem(fields, index, 1))} disabled={disabled || index === fields.length - 1} aria-label="Move down">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(fields.filter((_, i) => i !== index))} disabled={disabled} aria-label={`Remove ${field.label}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...fields, { ...PRE_ALERT_FIELD_OPTIONS[0] }])} disabled={disabled}>
+        <PlusCircle className="mr-2 h-4 w-4" /> Add Field
+      </Button>
+    </div>
+  );
+}
+
+export default function PreAlertTemplateEditor({ template, isNew, onDone }: PreAlertTemplateEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PreAlertTemplateInput>(() => templateToInput(template));
+  const [keywordsText, setKeywordsText] = useState(template.consigneeKeywords.join(', '));
+
+  const { data: customers = [] } = useQuery({
+    queryKey: ['dropdownOptions', 'customers'],
+    queryFn: () => getDropdownOptions('customers'),
+  });
+
+  const validationError = validateTemplate(draft);
+
+  const saveMutation = useMutation({
+    mutationFn: (input: PreAlertTemplateInput) => (isNew ? addPreAlertTemplate(input).then(() => undefined) : updatePreAlertTemplate(template.id, input)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['preAlertTemplates'] });
+      toast({ title: "Template Saved", description: `"${draft.name}" will be used for matching shipments from now on.` });
+      onDone();
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Save Failed", description: err.message });
+    },
+  });
+  const isSaving = saveMutation.isPending;
+
+  const update = (changes: Partial<PreAlertTemplateInput>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateColumns = (columns: PreAlertColumn[]) => update({ table: { ...draft.table, columns } });
+  const updateGroups = (columnGroups: PreAlertColumnGroup[]) => update({ table: { ...draft.table, columnGroups } });
+  const updateColumn = (index: number, changes: Partial<PreAlertColumn>) =>
+    updateColumns(draft.table.columns.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  const updateGroup = (index: number, changes: Partial<PreAlertColumnGroup>) =>
+    updateGroups(draft.table.columnGroups.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+
+  const handleKeywordsChange = (text: string) => {
+    setKeywordsText(text);
+    update({ consigneeKeywords: text.split(',').map(keyword => keyword.trim()).filter(Boolean) });
+  };
+
+  const toggleCustomer = (customerId: string, checked: boolean) =>
+    update({ customerIds: checked ? [...draft.customerIds, customerId] : draft.customerIds.filter(id => id !== customerId) });
+
+  const handleSave = () => {
+    if (validationError) return;
+    saveMutation.mutate({ ...draft, name: draft.name.trim() });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Template Name</Label>
+          <Input id="template-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} disabled={isSaving} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-keywords">Consignee Keywords</Label>
+          <Input
+            id="template-keywords"
+            value={keywordsText}
+            onChange={(e) => handleKeywordsChange(e.target.value)}
+            placeholder="e.g. ROISSY HUB, Tremblay"
+            disabled={isSaving}
+          />
+          <p className="text-xs text-muted-foreground">Comma-separated. Used when the shipment&apos;s consignee address contains any of them.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox id="template-default" checked={draft.isDefault} onCheckedChange={(checked) => update({ isDefault: checked === true })} disabled={isSaving} />
+          <Label htmlFor="template-default" className="font-normal">Default template (used when no template matches)</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="template-fill" className="font-normal">Cell colour</Label>
+          <Input id="template-fill" type="color" className="w-16 h-8 p-1" value={draft.cellFillColor} onChange={(e) => update({ cellFillColor: e.target.value })} disabled={isSaving} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Customers</Label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {customers.map(customer => {
+            const checkboxId = `template-customer-${customer.value}`;
+            return (
+              <div key={customer.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={checkboxId}
+                  checked={draft.customerIds.includes(customer.value)}
+                  onCheckedChange={(checked) => toggleCustomer(customer.value, checked === true)}
+                  disabled={isSaving}
+                />
+                <Label htmlFor={checkboxId} className="text-sm font-normal">{customer.label}</Label>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">Used when the shipment has items for any of them, before consignee keywords.</p>
+      </div>
+
+      <Separator />
+      <h3 className="text-lg font-semibold">Header</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-title">Title</Label>
+          <Input id="template-title" value={draft.header.title} onChange={(e) => update({ header: { ...draft.header, title: e.target.value } })} disabled={isSaving} />
+        </div>
+        <div className="flex items-center gap-2 md:pt-8">
+          <Checkbox id="template-logo" checked={draft.header.showLogo} onCheckedChange={(checked) => update({ header: { ...draft.header, showLogo: checked === true } })} disabled={isSaving} />
+          <Label htmlFor="template-logo" className="font-normal">Show logo</Label>
+        </div>
+      </div>
+      <FieldListEditor title="Date Lines (top right)" fields={draft.header.dateFields} onChange={(dateFields) => update({ header: { ...draft.header, dateFields } })} disabled={isSaving} />
+
+      <Separator />
+      <FieldListEditor title="Info Block" fields={draft.infoFields} onChange={(infoFields) => update({ infoFields })} disabled={isSaving} />
+
+      <Separator />
+      <h3 className="text-lg font-semibold">Detail Table</h3>
+      <div className="space-y-2">
+        <Label>Columns</Label>
+        {draft.table.columns.map((column, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select
+              value={column.key}
+              onValueChange={(key) => updateColumn(index, {
+                key: key as PreAlertColumnKey,
+                label: PRE_ALERT_COLUMN_OPTIONS.find(option => option.key === key)?.label ?? column.label,
+              })}
+              disabled={isSaving}
+            >
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PRE_ALERT_COLUMN_OPTIONS.map(option => (
+                  <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input className="w-40" value={column.label} onChange={(e) => updateColumn(index, { label: e.target.value })} placeholder="Heading" disabled={isSaving} />
+            <Input
+              className="w-24"
+              type="number"
+              min={0}
+              value={column.width ?? ''}
+              onChange={(e) => updateColumn(index, { width: e.target.value ? Number(e.target.value) : undefined })}
+              placeholder="Auto"
+              aria-label="Width (mm)"
+              disabled={isSaving}
+            />
+            <Select value={column.align} onValueChange={(align) => updateColumn(index, { align: align as PreAlertColumn['align'] })} disabled={isSaving}>
+              <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="left">Left</SelectItem>
+                <SelectItem value="center">Center</SelectItem>
+                <SelectItem value="right">Right</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="ghost" size="icon" onClick={() => updateColumns(moveItem(draft.table.columns, index, -1))} disabled={isSaving || index === 0} aria-label="Move up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => updateColumns(moveItem(draft.table.columns, index, 1))} disabled={isSaving || index === draft.table.columns.length - 1} aria-label="Move down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => updateColumns(draft.table.columns.filter((_, i) => i !== index))} disabled={isSaving} aria-label={`Remove ${column.label}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">Widths are in mm; columns left on Auto share the remaining page width.</p>
+        <Button type="button" variant="outline" size="sm" onClick={() => updateColumns([...draft.table.columns, { ...PRE_ALERT_COLUMN_OPTIONS[0], align: 'center' }])} disabled={isSaving}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Column
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Column Groups (coloured band above the headings, left to right)</Label>
+        {draft.table.columnGroups.map((group, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Input className="w-56" value={group.label} onChange={(e) => updateGroup(index, { label: e.target.value })} placeholder="Group label" disabled={isSaving} />
+            <Input className="w-20" type="number" min={1} value={group.span} onChange={(e) => updateGroup(index, { span: Number(e.target.value) || 0 })} aria-label="Columns spanned" disabled={isSaving} />
+            <Input className="w-14 h-8 p-1" type="color" value={group.fillColor} onChange={(e) => updateGroup(index, { fillColor: e.target.value })} aria-label="Background colour" disabled={isSaving} />
+            <Input className="w-14 h-8 p-1" type="color" value={group.textColor} onChange={(e) => updateGroup(index, { textColor: e.target.value })} aria-label="Text colour" disabled={isSaving} />
+            <Button type="button" variant="ghost" size="icon" onClick={() => updateGroups(draft.table.columnGroups.filter((_, i) => i !== index))} disabled={isSaving} aria-label={`Remove ${group.label}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => updateGroups([...draft.table.columnGroups, { label: '', span: 1, fillColor: draft.cellFillColor, textColor: '#000000' }])}
+          disabled={isSaving}
+        >
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Group
+        </Button>
+      </div>
+
+      <Separator />
+      <h3 className="text-lg font-semibold">Totals</h3>
+      <FieldListEditor title="Totals Block" fields={draft.totals.fields} onChange={(fields) => update({ totals: { ...draft.totals, fields } })} disabled={isSaving} />
+      <div className="flex flex-wrap items-center gap-6">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="template-breakdown"
+            checked={draft.totals.showWeightBreakdown}
+            onCheckedChange={(checked) => update({ totals: { ...draft.totals, showWeightBreakdown: checked === true } })}
+            disabled={isSaving}
+          />
+          <Label htmlFor="template-breakdown" className="font-normal">Show net weight breakdown</Label>
+        </div>
+        <Select
+          value={draft.totals.position}
+          onValueChange={(position) => update({ totals: { ...draft.totals, position: position as PreAlertTemplate['totals']['position'] } })}
+          disabled={isSaving}
+        >
+          <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="aboveTable">Above the table</SelectItem>
+            <SelectItem value="belowTable">Below the table</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-footer">Footer Note</Label>
+        <Textarea id="template-footer" value={draft.footerNote} onChange={(e) => update({ footerNote: e.target.value })} rows={2} disabled={isSaving} />
+      </div>
+
+      {validationError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Invalid Template</AlertTitle>
+          <AlertDescription>{validationError}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onDone} disabled={isSaving}>Cancel</Button>
+        <Button type="button" onClick={handleSave} disabled={!!validationError || isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" /> Save Template
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { importSealBatch } from '@/lib/firebase/sealsService';
+import { expandSealRange, MAX_SEALS_PER_IMPORT, parseSealList } from '@/lib/seals';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Upload } from 'lucide-react';
+
+type ImportMode = 'range' | 'list';
+
+export default function SealImportForm() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reference, setReference] = useState('');
+  const [mode, setMode] = useState<ImportMode>('range');
+  const [prefix, setPrefix] = useState('');
+  const [first, setFirst] = useState('');
+  const [last, setLast] = useState('');
+  const [width, setWidth] = useState('6');
+  const [list, setList] = useState('');
+
+  // The numbers the current input describes, or why it does not describe any
+  const preview = ((): { numbers: string[]; error?: string } => {
+    try {
+      if (mode === 'list') return { numbers: parseSealList(list) };
+      if (first === '' || last === '') return { numbers: [] };
+      return { numbers: expandSealRange(prefix, Number(first), Number(last), Number(width) || 0) };
+    } catch (error) {
+      return { numbers: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  })();
+
+  const importMutation = useMutation({
+    mutationFn: () => importSealBatch(reference, preview.numbers),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['seals'] });
+      queryClient.invalidateQueries({ queryKey: ['sealBatches'] });
+      queryClient.invalidateQueries({ queryKey: ['availableSeals'] });
+      toast({ title: "Seals Imported", description: `${preview.numbers.length} seal(s) added to stock.` });
+      setReference('');
+      setFirst('');
+      setLast('');
+      setList('');
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Import Failed", description: error.message });
+    },
+  });
+
+  const isImporting = importMutation.isPending;
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      <div className="space-y-2">
+        <Label htmlFor="seal-reference">Batch Reference</Label>
+        <Input id="seal-reference" placeholder="Delivery note or box label" value={reference} onChange={(e) => setReference(e.target.value)} disabled={isImporting} />
+      </div>
+      <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="flex gap-6" disabled={isImporting}>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="range" id="seal-mode-range" />
+          <Label htmlFor="seal-mode-range" className="font-normal">Numbered range</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="list" id="seal-mode-list" />
+          <Label htmlFor="seal-mode-list" className="font-normal">List of numbers</Label>
+        </div>
+      </RadioGroup>
+      {mode === 'range' ? (
+        <div className="grid grid-cols-4 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="seal-prefix">Prefix</Label>
+            <Input id="seal-prefix" placeholder="GB" value={prefix} onChange={(e) => setPrefix(e.target.value.toUpperCase())} disabled={isImporting} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="seal-first">First</Label>
+            <Input id="seal-first" type="number" min={0} value={first} onChange={(e) => setFirst(e.target.value)} disabled={isImporting} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="seal-last">Last</Label>
+            <Input id="seal-last" type="number" min={0} value={last} onChange={(e) => setLast(e.target.value)} disabled={isImporting} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="seal-width">Digits</Label>
+            <Input id="seal-width" type="number" min={0} max={12} value={width} onChange={(e) => setWidth(e.target.value)} disabled={isImporting} />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="seal-list">Seal Numbers</Label>
+          <Textarea id="seal-list" placeholder="One per line, or separated by commas" value={list} onChange={(e) => setList(e.target.value)} rows={6} disabled={isImporting} />
+        </div>
+      )}
+      <p className={preview.error ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+        {preview.error ?? (preview.numbers.length > 0
+          ? `${preview.numbers.length} seal(s): ${preview.numbers[0]} … ${preview.numbers[preview.numbers.length - 1]}`
+          : `Up to ${MAX_SEALS_PER_IMPORT} seals per batch.`)}
+      </p>
+      <Button onClick={() => importMutation.mutate()} disabled={isImporting || !reference.trim() || preview.numbers.length === 0}>
+        {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        Import Seals
+      </Button>
+    </div>
+  );
+}
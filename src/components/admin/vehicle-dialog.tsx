@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addVehicle, updateVehicle } from '@/lib/firebase/vehiclesService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import type { Vehicle, VehicleType } from '@/lib/types';
+import { isValidPlate, normalizePlate, VEHICLE_TYPES, VEHICLE_TYPE_LABELS } from '@/lib/vehicles';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface VehicleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  vehicle: Vehicle | null; // null to register a new one
+}
+
+// Limits are typed as text so the inputs can be left empty
+const optionalLimitSchema = z.string().trim()
+  .refine(value => value === '' || (Number.isInteger(Number(value)) && Number(value) > 0), "Enter a whole number above zero, or leave empty.");
+
+const vehicleFormSchema = z.object({
+  plate: z.string().refine(value => isValidPlate(normalizePlate(value)), "Enter 2 to 12 letters and digits."),
+  countryCode: z.string().trim().toUpperCase().refine(value => /^[A-Z]{2}$/.test(value), "Use a two-letter country code, e.g. GB."),
+  type: z.enum(['truck', 'trailer']),
+  carrierId: z.string().min(1, "Carrier is required."),
+  maxPayloadKg: optionalLimitSchema,
+  maxPalletPositions: optionalLimitSchema,
+  active: z.boolean(),
+});
+
+type VehicleFormValues = z.infer<typeof vehicleFormSchema>;
+
+const limitFromFormValue = (value: string): number | null => value === '' ? null : Number(value);
+
+export default function VehicleDialog({ isOpen, onClose, vehicle }: VehicleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: carriers = [] } = useQuery({ queryKey: ['carriers'], queryFn: () => getDropdownOptions('carriers') });
+
+  const form = useForm<VehicleFormValues>({
+    resolver: zodResolver(vehicleFormSchema),
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({
+      plate: vehicle?.plate ?? '',
+      countryCode: vehicle?.countryCode ?? 'GB',
+      type: vehicle?.type ?? 'truck',
+      carrierId: vehicle?.carrierId ?? '',
+      maxPayloadKg: vehicle?.maxPayloadKg?.toString() ?? '',
+      maxPalletPositions: vehicle?.maxPalletPositions?.toString() ?? '',
+      active: vehicle?.active ?? true,
+    });
+  }, [isOpen, vehicle, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: VehicleFormValues): Promise<void> => {
+      const details = {
+        type: values.type,
+        carrierId: values.carrierId,
+        maxPayloadKg: limitFromFormValue(values.maxPayloadKg),
+        maxPalletPositions: limitFromFormValue(values.maxPalletPositions),
+        active: values.active,
+      };
+      if (vehicle) {
+        await updateVehicle(vehicle.id, details);
+      } else {
+        await addVehicle({ ...details, plate: values.plate, countryCode: values.countryCode });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+      toast({ title: vehicle ? "Vehicle Updated" : "Vehicle Registered" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Save Failed", description: error.message || "Could not save the vehicle." });
+    },
+  });
+
+  const isSaving = saveMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{vehicle ? `Edit Vehicle: ${vehicle.plate}` : 'Register Vehicle'}</DialogTitle>
+          <DialogDescription>
+            {vehicle
+              ? 'The plate and country cannot be changed; register the vehicle again under its new plate instead.'
+              : 'Plates are stored in upper case without spaces or dashes, as they are printed on the CMR.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="plate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Plate</FormLabel>
+                    <FormControl>
+                      <Input placeholder="AB12CDE" {...field} value={field.value ?? ''}
+                        onChange={(e) => field.onChange(normalizePlate(e.target.value))}
+                        disabled={isSaving || vehicle !== null}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="countryCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Country</FormLabel>
+                    <FormControl>
+                      <Input placeholder="GB" maxLength={2} {...field} value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        disabled={isSaving || vehicle !== null}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={(value) => field.onChange(value as VehicleType)} value={field.value} disabled={isSaving}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VEHICLE_TYPES.map(type => <SelectItem key={type} value={type}>{VEHICLE_TYPE_LABELS[type]}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="carrierId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Owning Carrier</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || ''} disabled={isSaving}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Select a carrier" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {carriers.map(option => <SelectItem key={option.id} value={option.value}>{option.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxPayloadKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Payload (kg)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="Optional" {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxPalletPositions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Pallet Positions</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="Optional" {...field} value={field.value ?? ''} disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSaving} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Active (suggested on shipments)</FormLabel>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+                  </>
+                ) : 'Save Vehicle'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
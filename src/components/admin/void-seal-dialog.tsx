@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { voidSeal } from '@/lib/firebase/sealsService';
+import type { Seal } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface VoidSealDialogProps {
+  seal: Seal | null; // The dialog is open while a seal is set
+  onClose: () => void;
+}
+
+const voidSealFormSchema = z.object({
+  reason: z.string().trim().min(5, "Explain why the seal is voided (at least 5 characters)."),
+});
+
+type VoidSealFormValues = z.infer<typeof voidSealFormSchema>;
+
+export default function VoidSealDialog({ seal, onClose }: VoidSealDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<VoidSealFormValues>({
+    resolver: zodResolver(voidSealFormSchema),
+    defaultValues: { reason: '' },
+  });
+
+  useEffect(() => {
+    if (seal) form.reset({ reason: '' });
+  }, [seal, form]);
+
+  const voidMutation = useMutation({
+    mutationFn: (data: VoidSealFormValues) => voidSeal(seal?.number ?? '', data.reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['seals'] });
+      queryClient.invalidateQueries({ queryKey: ['availableSeals'] });
+      queryClient.invalidateQueries({ queryKey: ['sealAuditReport'] });
+      toast({ title: "Seal Voided", description: `Seal ${seal?.number} is out of stock for good.` });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Failed to Void Seal", description: error.message });
+    },
+  });
+
+  return (
+    <Dialog open={seal !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Void Seal {seal?.number}</DialogTitle>
+          <DialogDescription>
+            A voided seal can no longer be issued and is listed in the security report with this reason.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => voidMutation.mutate(data))} className="space-y-6 py-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="E.g. damaged while applying, lost from stock" {...field} disabled={voidMutation.isPending} rows={3} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={voidMutation.isPending}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" variant="destructive" disabled={voidMutation.isPending}>
+                {voidMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Voiding...
+                  </>
+                ) : 'Void Seal'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
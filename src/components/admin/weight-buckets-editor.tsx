@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getWeightBuckets, updateWeightBuckets } from '@/lib/firebase/settingsService';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import type { WeightBucket } from '@/lib/types';
+import { OTHER_WEIGHT_BUCKET_ID, OTHER_WEIGHT_BUCKET_LABEL } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { PlusCircle, Trash2, Save, Loader2, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+// Turns a label into a stable bucket id, e.g. "Asendia A/C" -> "asendia-a-c".
+const slugify = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const validateBuckets = (buckets: WeightBucket[]): string | null => {
+  const seenLabels = new Set<string>();
+  const assignedCustomers = new Map<string, string>();
+  for (const bucket of buckets) {
+    const label = bucket.label.trim();
+    if (!label) return "Every bucket needs a label.";
+    if (label.toLowerCase() === OTHER_WEIGHT_BUCKET_LABEL.toLowerCase() || bucket.id === OTHER_WEIGHT_BUCKET_ID) {
+      return `"${OTHER_WEIGHT_BUCKET_LABEL}" is reserved for customers not assigned to any bucket.`;
+    }
+    if (seenLabels.has(label.toLowerCase())) return `Bucket label "${label}" is used more than once.`;
+    seenLabels.add(label.toLowerCase());
+    if (bucket.customerIds.length === 0) return `Bucket "${label}" has no customers.`;
+    for (const customerId of bucket.customerIds) {
+      const otherBucket = assignedCustomers.get(customerId);
+      if (otherBucket) return `Customer ${customerId} is assigned to both "${otherBucket}" and "${label}".`;
+      assignedCustomers.set(customerId, label);
+    }
+  }
+  return null;
+};
+
+export default function WeightBucketsEditor() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [buckets, setBuckets] = useState<WeightBucket[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const { data: savedBuckets, isLoading: isLoadingBuckets } = useQuery({
+    queryKey: ['weightBuckets'],
+    queryFn: getWeightBuckets,
+  });
+  const { data: customers = [], isLoading: isLoadingCustomers } = useQuery({
+    queryKey: ['dropdownOptions', 'customers'],
+    queryFn: () => getDropdownOptions('customers'),
+  });
+
+  useEffect(() => {
+    if (savedBuckets) {
+      setBuckets(savedBuckets);
+      setIsDirty(false);
+    }
+  }, [savedBuckets]);
+
+  const validationError = validateBuckets(buckets);
+
+  const saveMutation = useMutation({
+    mutationFn: updateWeightBuckets,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weightBuckets'] });
+      setIsDirty(false);
+      toast({
+        title: "Weight Buckets Saved",
+        description: "Rebuild shipment totals below to apply the new buckets to existing shipments.",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Save Failed", description: err.message });
+    },
+  });
+
+  const updateBucket = (index: number, changes: Partial<WeightBucket>) => {
+    setBuckets(prev => prev.map((bucket, i) => (i === index ? { ...bucket, ...changes } : bucket)));
+    setIsDirty(true);
+  };
+
+  const toggleCustomer = (index: number, customerId: string, checked: boolean) => {
+    const bucket = buckets[index];
+    const customerIds = checked
+      ? [...bucket.customerIds, customerId]
+      : bucket.customerIds.filter(id => id !== customerId);
+    updateBucket(index, { customerIds });
+  };
+
+  const handleAddBucket = () => {
+    setBuckets(prev => [...prev, { id: '', label: '', customerIds: [] }]);
+    setIsDirty(true);
+  };
+
+  const handleRemoveBucket = (index: number) => {
+    setBuckets(prev => prev.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (validationError) return;
+    // Existing buckets keep their id so stored totals stay attached when a label is renamed.
+    const usedIds = new Set(buckets.filter(b => b.id).map(b => b.id));
+    const toSave = buckets.map(bucket => {
+      if (bucket.id) return { ...bucket, label: bucket.label.trim() };
+      let id = slugify(bucket.label) || 'bucket';
+      for (let suffix = 2; usedIds.has(id); suffix++) id = `${slugify(bucket.label) || 'bucket'}-${suffix}`;
+      usedIds.add(id);
+      return { ...bucket, id, label: bucket.label.trim() };
+    });
+    saveMutation.mutate(toSave);
+  };
+
+  if (isLoadingBuckets || isLoadingCustomers) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-20 w-full" />
+        <Skeleton className="h-20 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {buckets.map((bucket, index) => (
+        <div key={bucket.id || `new-${index}`} className="p-3 border rounded-md space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Bucket label, e.g. Asendia A/C"
+              value={bucket.label}
+              onChange={(e) => updateBucket(index, { label: e.target.value })}
+              disabled={saveMutation.isPending}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => handleRemoveBucket(index)}
+              disabled={saveMutation.isPending}
+              aria-label={`Remove bucket ${bucket.label}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {customers.map(customer => {
+              const checkboxId = `bucket-${index}-customer-${customer.value}`;
+              return (
+                <div key={customer.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={checkboxId}
+                    checked={bucket.customerIds.includes(customer.value)}
+                    onCheckedChange={(checked) => toggleCustomer(index, customer.value, checked === true)}
+                    disabled={saveMutation.isPending}
+                  />
+                  <Label htmlFor={checkboxId} className="text-sm font-normal">{customer.label}</Label>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <p className="text-sm text-muted-foreground">
+        Customers not assigned to a bucket are summed under &quot;{OTHER_WEIGHT_BUCKET_LABEL}&quot;.
+      </p>
+
+      {isDirty && validationError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Invalid Buckets</AlertTitle>
+          <AlertDescription>{validationError}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={handleAddBucket} disabled={saveMutation.isPending}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Bucket
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={!isDirty || !!validationError || saveMutation.isPending}>
+          {saveMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" /> Save Buckets
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -20,25 +20,25 @@ import {
 
 // Define chart configuration with explicit colors matching dashboard stats
 const chartConfig = {
-  pending: {
-    label: "Pending",
+  inProgress: {
+    label: "In Progress",
     color: "hsl(var(--chart-2))", // Use a color variable (e.g., amber/orange)
   },
-  completed: {
-    label: "Completed",
+  dispatched: {
+    label: "Dispatched",
     color: "hsl(var(--chart-1))", // Use a color variable (e.g., green/blue)
   },
 } satisfies ChartConfig
 
 interface ShipmentsStatusChartProps {
-    pending: number;
-    completed: number;
+    inProgress: number; // Draft, Loading or Sealed
+    dispatched: number; // Departed, Arrived or Delivered
 }
 
-export function ShipmentsStatusChart({ pending, completed }: ShipmentsStatusChartProps) {
+export function ShipmentsStatusChart({ inProgress, dispatched }: ShipmentsStatusChartProps) {
    // Data should be structured for the chart library
    const chartData = [
-    { status: "Shipments", pending: pending, completed: completed },
+    { status: "Shipments", inProgress: inProgress, dispatched: dispatched },
     // Add more data points if needed (e.g., by month, by carrier)
    ];
 
@@ -60,8 +60,8 @@ export function ShipmentsStatusChart({ pending, completed }: ShipmentsStatusChar
            content={<ChartTooltipContent indicator="dot" hideLabel />}
         />
         <Legend />
-        <Bar dataKey="pending" fill="var(--color-pending)" radius={4} />
-        <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+        <Bar dataKey="inProgress" fill="var(--color-inProgress)" radius={4} />
+        <Bar dataKey="dispatched" fill="var(--color-dispatched)" radius={4} />
       </BarChart>
     </ChartContainer>
   )
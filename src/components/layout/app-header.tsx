@@ -1,7 +1,7 @@
 
 "use client";
 import Link from 'next/link';
-import { Bell, UserCircle, LogOut, Sun, Moon, Menu, PackageSearch, LayoutDashboard, Eye, PlusCircle, Settings, ListChecks, UserCog, Users2 } from 'lucide-react';
+import { UserCircle, LogOut, Sun, Moon, Menu, PackageSearch, LayoutDashboard, Eye, PlusCircle, Settings, ListChecks, UserCog, Users2, History, FileText, Truck, CalendarClock, ShieldCheck, Container, IdCard, ScanBarcode, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { APP_NAME } from '@/lib/constants';
 import { useRouter } from 'next/navigation';
@@ -18,6 +18,7 @@ import {
   DropdownMenuRadioItem,
 } from "@/components/ui/dropdown-menu";
 import { Skeleton } from '../ui/skeleton';
+import NotificationBell from './notification-bell';
 
 
 export default function AppHeader() {
@@ -76,15 +77,54 @@ export default function AppHeader() {
                   <UserCog className="mr-2 h-4 w-4" />
                   <span>App Settings</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/templates')} className="cursor-pointer">
+                  <FileText className="mr-2 h-4 w-4" />
+                  <span>Pre-Alert Templates</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/shipment-templates')} className="cursor-pointer">
+                  <Truck className="mr-2 h-4 w-4" />
+                  <span>Shipment Templates</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/schedules')} className="cursor-pointer">
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                  <span>Departure Schedule</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/seals')} className="cursor-pointer">
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  <span>Seals</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/vehicles')} className="cursor-pointer">
+                  <Container className="mr-2 h-4 w-4" />
+                  <span>Vehicles</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/drivers')} className="cursor-pointer">
+                  <IdCard className="mr-2 h-4 w-4" />
+                  <span>Drivers</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/barcode-rules')} className="cursor-pointer">
+                  <ScanBarcode className="mr-2 h-4 w-4" />
+                  <span>Barcode Rules</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/manifests')} className="cursor-pointer">
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  <span>Pre-Advice</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => handleNavigation('/admin/users')} className="cursor-pointer">
                   <Users2 className="mr-2 h-4 w-4" />
                   <span>User Management</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleNavigation('/admin/audit')} className="cursor-pointer">
+                  <History className="mr-2 h-4 w-4" />
+                  <span>Audit Log</span>
+                </DropdownMenuItem>
               </>
             )}
           </DropdownMenuContent>
         </DropdownMenu>
 
+        {/* Notifications */}
+        {currentUser && <NotificationBell userId={currentUser.uid} />}
+
         {/* Theme Toggle */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from '@/hooks/use-toast';
+import type { Notification } from '@/lib/types';
+import {
+  subscribeToNotifications,
+  markNotificationRead,
+  markNotificationsRead,
+} from '@/lib/firebase/notificationsService';
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+export default function NotificationBell({ userId }: NotificationBellProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [listenerError, setListenerError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setListenerError(null);
+    const unsubscribe = subscribeToNotifications(
+      userId,
+      setNotifications,
+      (error) => setListenerError(error.message || "Could not load notifications.")
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  const unreadIds = notifications.filter(n => !n.read).map(n => n.id);
+
+  const handleMarkFailed = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Update Failed",
+      description: error instanceof Error ? error.message : "Could not mark notifications as read.",
+    });
+  };
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read) {
+      markNotificationRead(notification.id).catch(handleMarkFailed);
+    }
+    if (notification.shipmentId) {
+      router.push(`/shipments/${notification.shipmentId}`);
+    }
+  };
+
+  const handleMarkAllRead = (e: Event) => {
+    e.preventDefault(); // Keep the menu open
+    markNotificationsRead(unreadIds).catch(handleMarkFailed);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full relative" aria-label={`Notifications (${unreadIds.length} unread)`}>
+          <Bell className="h-5 w-5 text-muted-foreground" />
+          {unreadIds.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-[1.1rem] text-center">
+              {unreadIds.length > 9 ? '9+' : unreadIds.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadIds.length > 0 && (
+            <DropdownMenuItem onSelect={handleMarkAllRead} className="cursor-pointer text-xs mr-1">
+              <CheckCheck className="mr-1 h-3.5 w-3.5" /> Mark all read
+            </DropdownMenuItem>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {listenerError ? (
+          <p className="px-2 py-4 text-sm text-destructive text-center">{listenerError}</p>
+        ) : notifications.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-muted-foreground text-center">No notifications yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleSelect(notification)}
+                className={`cursor-pointer flex flex-col items-start gap-0.5 ${notification.read ? 'opacity-70' : ''}`}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.read && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <span className={`text-sm ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">{notification.body}</span>
+                <span className="text-[10px] text-muted-foreground">
+                  {formatDistanceToNow(notification.createdAt.toDate(), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -20,14 +20,20 @@ interface BarcodeScannerDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onScan: (barcode: string) => void;
+  continuous?: boolean; // Keep the camera open and report every barcode read
+  children?: React.ReactNode; // Shown under the camera, e.g. feedback on the last scan
 }
 
+// A label stays in view for a while after it is read; reading it again within this
+// time is not reported as a new scan
+const CONTINUOUS_REPEAT_INTERVAL_MS = 2000;
+
 interface CameraDevice {
   id: string;
   label: string;
 }
 
-export const BarcodeScannerDialog: React.FC<BarcodeScannerDialogProps> = ({ isOpen, onClose, onScan }) => {
+export const BarcodeScannerDialog: React.FC<BarcodeScannerDialogProps> = ({ isOpen, onClose, onScan, continuous = false, children }) => {
   const { toast } = useToast();
   const qrcodeRegionRef = useRef<HTMLDivElement>(null); // Ref for the scanner div
   const [isScanning, setIsScanning] = useState(false);
@@ -37,18 +43,31 @@ export const BarcodeScannerDialog: React.FC<BarcodeScannerDialogProps> = ({ isOp
   const [availableCameras, setAvailableCameras] = useState<CameraDevice[]>([]);
   const [selectedCameraId, setSelectedCameraId] = useState<string | undefined>(undefined);
 
+  // Read through a ref, so a new onScan from each parent render does not restart the camera
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const lastContinuousScanRef = useRef<{ text: string; at: number } | null>(null);
+
   const onScanSuccess = useCallback((decodedText: string) => {
     console.log("Scan successful:", decodedText);
+    if (continuous) {
+      const now = Date.now();
+      const last = lastContinuousScanRef.current;
+      lastContinuousScanRef.current = { text: decodedText, at: now };
+      if (last && last.text === decodedText && now - last.at < CONTINUOUS_REPEAT_INTERVAL_MS) return;
+      onScanRef.current(decodedText);
+      return;
+    }
     if (html5QrCode) {
       html5QrCode.stop().catch(error => {
         console.error("Failed to stop html5QrCode", error);
       }).finally(() => {
         setIsScanning(false);
-        onScan(decodedText);
+        onScanRef.current(decodedText);
         onClose();
       });
     }
-  }, [onScan, onClose, html5QrCode]);
+  }, [continuous, onClose, html5QrCode]);
 
   const onScanError = useCallback((errorMessage: string) => {
     // This can be noisy, only log for debugging or specific critical errors
@@ -240,9 +259,11 @@ export const BarcodeScannerDialog: React.FC<BarcodeScannerDialogProps> = ({ isOp
     }}>
       <DialogContent className="sm:max-w-[425px] p-0">
         <DialogHeader className="p-6 pb-4 border-b sticky top-0 bg-card z-10">
-          <DialogTitle>Scan Barcode</DialogTitle>
+          <DialogTitle>{continuous ? 'Continuous Scan' : 'Scan Barcode'}</DialogTitle>
           <DialogDescription>
-            Position the barcode within the scanning area.
+            {continuous
+              ? 'Position each barcode within the scanning area in turn. The camera stays on until you close it.'
+              : 'Position the barcode within the scanning area.'}
           </DialogDescription>
         </DialogHeader>
         <div className="p-4 flex flex-col items-center justify-center min-h-[300px]">
@@ -301,10 +322,11 @@ export const BarcodeScannerDialog: React.FC<BarcodeScannerDialogProps> = ({ isOp
               </Select>
             </div>
           )}
+          {children && <div className="mt-4 w-full">{children}</div>}
         </div>
         <DialogFooter className="p-6 border-t mt-0 sticky bottom-0 bg-card z-10">
           <DialogClose asChild>
-            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="button" variant="outline" onClick={onClose}>{continuous ? 'Done' : 'Cancel'}</Button>
           </DialogClose>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,101 @@
+"use client";
+
+import type { Control, FieldValues, Path } from 'react-hook-form';
+import * as z from 'zod';
+import type { CmrParty } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+
+export const countryCodeSchema = z.string().trim().toUpperCase()
+  .refine(value => value === '' || /^[A-Z]{2}$/.test(value), "Use a two-letter ISO country code, e.g. GB.");
+
+// A CMR party as edited in a form: the street lines are one textarea
+export const cmrPartyFormSchema = z.object({
+  name: z.string().default(''),
+  address: z.string().default(''),
+  postcode: z.string().default(''),
+  city: z.string().default(''),
+  countryCode: countryCodeSchema,
+  vatNumber: z.string().default(''),
+  eoriNumber: z.string().default(''),
+});
+
+export type CmrPartyFormValues = z.infer<typeof cmrPartyFormSchema>;
+
+export const cmrPartyToFormValues = (party: CmrParty): CmrPartyFormValues => ({
+  name: party.name,
+  address: party.addressLines.join('\n'),
+  postcode: party.postcode,
+  city: party.city,
+  countryCode: party.countryCode,
+  vatNumber: party.vatNumber ?? '',
+  eoriNumber: party.eoriNumber ?? '',
+});
+
+// Omits empty tax numbers rather than storing undefined, which Firestore rejects
+export const cmrPartyFromFormValues = (values: CmrPartyFormValues): CmrParty => ({
+  name: values.name.trim(),
+  addressLines: values.address.split('\n').map(line => line.trim()).filter(Boolean),
+  postcode: values.postcode.trim().toUpperCase(),
+  city: values.city.trim(),
+  countryCode: values.countryCode.trim().toUpperCase(),
+  ...(values.vatNumber.trim() ? { vatNumber: values.vatNumber.trim() } : {}),
+  ...(values.eoriNumber.trim() ? { eoriNumber: values.eoriNumber.trim() } : {}),
+});
+
+interface CmrPartyFieldsProps<T extends FieldValues> {
+  control: Control<T>;
+  name: Path<T>; // Path of a CmrPartyFormValues object in the form
+  title: string;
+  disabled?: boolean;
+}
+
+export default function CmrPartyFields<T extends FieldValues>({ control, name, title, disabled }: CmrPartyFieldsProps<T>) {
+  const field = (key: keyof CmrPartyFormValues) => `${name}.${key}` as Path<T>;
+
+  const textInput = (key: keyof CmrPartyFormValues, label: string, placeholder: string, className?: string) => (
+    <FormField
+      control={control}
+      name={field(key)}
+      render={({ field: input }) => (
+        <FormItem className={className}>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...input} value={input.value ?? ''} disabled={disabled} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <fieldset className="space-y-3 rounded-md border p-4">
+      <legend className="px-1 text-sm font-semibold">{title}</legend>
+      {textInput('name', 'Name', 'Company name')}
+      <FormField
+        control={control}
+        name={field('address')}
+        render={({ field: input }) => (
+          <FormItem>
+            <FormLabel>Address</FormLabel>
+            <FormControl>
+              <Textarea placeholder="One line per address line" {...input} value={input.value ?? ''} disabled={disabled} rows={2} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-3 gap-3">
+        {textInput('postcode', 'Postcode', 'PO15 7FH')}
+        {textInput('city', 'City', 'Fareham')}
+        {textInput('countryCode', 'Country', 'GB')}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {textInput('vatNumber', 'VAT Number', 'Optional')}
+        {textInput('eoriNumber', 'EORI Number', 'Optional')}
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { BarcodeRule, DropdownItem, DuplicateDetail, ShipmentDetail } from '@/lib/types';
+import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { getBarcodeRules } from '@/lib/firebase/barcodeRulesService';
+import { addShipmentDetailsBatch, findDuplicateDetails, isBlockingDuplicate, PartialDetailsBatchError } from '@/lib/firebase/shipmentsService';
+import { effectiveBarcodeRules } from '@/lib/barcodeRules';
+import { parseUpuReceptacleId } from '@/lib/receptacles';
+import { normalizeReceptacleId, parseBarcode, type BarcodeData } from '@/lib/utils';
+import { BAG_WEIGHT_MULTIPLIER, DEFAULT_CUSTOMER_ID, DEFAULT_PRIOR_SERVICE_ID, SERVICE_FORMAT_MAPPING } from '@/lib/constants';
+import { BarcodeScannerDialog } from './BarcodeScannerDialog';
+import { ScanFeedbackBanner, useScanFeedback } from './scan-feedback';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useScannerInput } from '@/hooks/use-scanner-input';
+import { AlertTriangle, Camera, Loader2, Trash2 } from 'lucide-react';
+
+interface ContinuousScanDialogProps {
+  shipmentId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// What every scanned receptacle of the session is saved with
+interface ScanPreset {
+  customerId: string;
+  serviceId: string;
+  formatId: string;
+  tareWeight: string; // Typed as text so it can be edited freely
+}
+
+interface QueuedScan {
+  receptacleId: string;
+  barcode: string;
+  decoded: BarcodeData;
+  dispatchMatches: DuplicateDetail[]; // Possibly the same receptacle; kept if the row is not removed
+}
+
+const validOptions = (options: DropdownItem[]) => options.filter(option => typeof option.value === 'string' && option.value.trim() !== '');
+
+// Scans receptacles one after another into a queue, each saved with the same customer,
+// service and format, then adds the reviewed queue to the shipment in one go
+export default function ContinuousScanDialog({ shipmentId, isOpen, onClose }: ContinuousScanDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [preset, setPreset] = useState<ScanPreset>({ customerId: '', serviceId: DEFAULT_PRIOR_SERVICE_ID, formatId: '', tareWeight: BAG_WEIGHT_MULTIPLIER.toString() });
+  const [queue, setQueue] = useState<QueuedScan[]>([]);
+  const [manualBarcode, setManualBarcode] = useState('');
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // Receptacle IDs queued or still being checked, so a quick rescan is caught before its check returns
+  const seenRef = useRef(new Set<string>());
+  const { feedback, report, clear: clearFeedback } = useScanFeedback();
+
+  const { data: customerOptions = [] } = useQuery<DropdownItem[]>({
+    queryKey: ['customers'], queryFn: () => getDropdownOptions('customers'), staleTime: 5 * 60 * 1000, enabled: isOpen });
+  const { data: serviceOptions = [] } = useQuery<DropdownItem[]>({
+    queryKey: ['services'], queryFn: () => getDropdownOptions('services'), staleTime: 5 * 60 * 1000, enabled: isOpen });
+  const formatCollectionId = SERVICE_FORMAT_MAPPING[preset.serviceId.toLowerCase()] || null;
+  const { data: formatOptions = [] } = useQuery<DropdownItem[]>({
+    queryKey: ['formats', formatCollectionId],
+    queryFn: () => formatCollectionId ? getDropdownOptions(formatCollectionId) : Promise.resolve([]),
+    enabled: isOpen && !!formatCollectionId,
+    staleTime: 5 * 60 * 1000,
+  });
+  const { data: doeOptions = [] } = useQuery<DropdownItem[]>({
+    queryKey: ['doe'], queryFn: () => getDropdownOptions('doe'), staleTime: 5 * 60 * 1000, enabled: isOpen });
+  const doeValues = useMemo(() => doeOptions.map(option => option.value), [doeOptions]);
+  const { data: barcodeRules = [] } = useQuery<BarcodeRule[]>({
+    queryKey: ['barcodeRules'], queryFn: getBarcodeRules, staleTime: 5 * 60 * 1000, enabled: isOpen });
+  const scanRules = useMemo(() => effectiveBarcodeRules(barcodeRules), [barcodeRules]);
+
+  // Scanned receptacles are bags, so the customer defaults to the one the item form uses for bags
+  useEffect(() => {
+    if (preset.customerId || customerOptions.length === 0) return;
+    const bagsCustomer = customerOptions.find(option => option.label === 'Asendia UK/BAGS');
+    setPreset(prev => ({ ...prev, customerId: bagsCustomer?.value ?? DEFAULT_CUSTOMER_ID }));
+  }, [customerOptions, preset.customerId]);
+
+  const tareWeight = Number(preset.tareWeight);
+  const presetError = !preset.customerId ? 'Choose a customer.'
+    : !preset.serviceId ? 'Choose a service.'
+    : formatCollectionId && !preset.formatId ? 'Choose a format.'
+    : !(tareWeight > 0) ? 'Enter a tare weight above 0.'
+    : null;
+
+  const addScan = async (code: string) => {
+    const barcode = code.trim();
+    const receptacleId = normalizeReceptacleId(barcode);
+    if (!receptacleId) return;
+    if (seenRef.current.has(receptacleId)) {
+      report('warning', `${barcode} is already queued.`);
+      return;
+    }
+    const decoded = parseBarcode(barcode, scanRules, doeValues);
+    if (!decoded) {
+      const upuId = parseUpuReceptacleId(barcode);
+      report('error', upuId.ok
+        ? `${barcode} is for mail subclass ${upuId.id.mailSubclass}, which is not in the DOE list.`
+        : `${barcode} is not a recognised receptacle barcode.`);
+      return;
+    }
+    seenRef.current.add(receptacleId);
+    try {
+      const duplicates = await findDuplicateDetails({ barcode, dispatchNumber: decoded.dispatchNumber, doeId: decoded.doe, grossWeight: decoded.grossWeight });
+      const onShipment = duplicates.find(isBlockingDuplicate);
+      if (onShipment) {
+        seenRef.current.delete(receptacleId);
+        report('error', `${barcode} is already on shipment ${onShipment.shipmentId}.`);
+        return;
+      }
+      setQueue(prev => [...prev, { receptacleId, barcode, decoded, dispatchMatches: duplicates }]);
+      report(duplicates.length > 0 ? 'warning' : 'ok', duplicates.length > 0
+        ? `${barcode} queued, but its dispatch matches an item on shipment ${duplicates[0].shipmentId}.`
+        : `${barcode} queued: dispatch ${decoded.dispatchNumber}, ${decoded.grossWeight} kg.`);
+    } catch (error) {
+      seenRef.current.delete(receptacleId);
+      console.error("Error checking a scanned receptacle:", error);
+      report('error', `${barcode} could not be checked; scan it again.`);
+    }
+  };
+
+  const removeScan = (receptacleId: string) => {
+    seenRef.current.delete(receptacleId);
+    setQueue(prev => prev.filter(scan => scan.receptacleId !== receptacleId));
+  };
+
+  const clearQueue = () => {
+    seenRef.current = new Set();
+    setQueue([]);
+    clearFeedback();
+  };
+
+  const commitMutation = useMutation({
+    mutationFn: (scans: QueuedScan[]) => addShipmentDetailsBatch(shipmentId, scans.map((scan): Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'> => ({
+      barcode: scan.barcode,
+      numPallets: 0,
+      numBags: 1,
+      customerId: preset.customerId,
+      serviceId: preset.serviceId,
+      formatId: formatCollectionId ? preset.formatId : '',
+      tareWeight,
+      grossWeight: scan.decoded.grossWeight,
+      dispatchNumber: scan.decoded.dispatchNumber,
+      doeId: scan.decoded.doe,
+    }))),
+    onSuccess: (count) => {
+      toast({ title: "Scanned Items Added", description: `${count} item(s) added to the shipment.` });
+      queryClient.invalidateQueries({ queryKey: ['shipment', shipmentId] });
+      clearQueue();
+      onClose();
+    },
+    onError: (error: Error) => {
+      // Drop the rows that were saved, so that retrying only sends the rest
+      if (error instanceof PartialDetailsBatchError) {
+        const saved = new Set(error.savedReceptacleIds);
+        saved.forEach(receptacleId => seenRef.current.delete(receptacleId));
+        setQueue(prev => prev.filter(scan => !saved.has(scan.receptacleId)));
+        queryClient.invalidateQueries({ queryKey: ['shipment', shipmentId] });
+      }
+      toast({ variant: "destructive", title: "Save Failed", description: error.message || "Could not add the scanned items." });
+    },
+  });
+
+  const isCommitting = commitMutation.isPending;
+  // Hardware scanners queue codes without the barcode field having focus
+  useScannerInput(addScan, isOpen && !isCommitting);
+  const totalGrossWeight = queue.reduce((sum, scan) => sum + scan.decoded.grossWeight, 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isCommitting) onClose(); }}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Continuous Scan</DialogTitle>
+          <DialogDescription>
+            Each receptacle scanned is queued as one bag with these settings. Review the queue, then add it to the shipment in one go. The queue is kept if you close this window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Customer</Label>
+            <Select value={preset.customerId} onValueChange={(customerId) => setPreset(prev => ({ ...prev, customerId }))} disabled={isCommitting}>
+              <SelectTrigger><SelectValue placeholder="Select a customer" /></SelectTrigger>
+              <SelectContent>
+                {validOptions(customerOptions).map(option => <SelectItem key={option.id} value={option.value}>{option.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Service</Label>
+            <Select value={preset.serviceId} onValueChange={(serviceId) => setPreset(prev => ({ ...prev, serviceId, formatId: '' }))} disabled={isCommitting}>
+              <SelectTrigger><SelectValue placeholder="Select a service" /></SelectTrigger>
+              <SelectContent>
+                {validOptions(serviceOptions).map(option => <SelectItem key={option.id} value={option.value}>{option.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={preset.formatId} onValueChange={(formatId) => setPreset(prev => ({ ...prev, formatId }))} disabled={isCommitting || !formatCollectionId}>
+              <SelectTrigger><SelectValue placeholder={formatCollectionId ? 'Select a format' : 'Not needed'} /></SelectTrigger>
+              <SelectContent>
+                {validOptions(formatOptions).map(option => <SelectItem key={option.id} value={option.value}>{option.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="continuous-scan-tare">Tare per Bag (kg)</Label>
+            <Input id="continuous-scan-tare" inputMode="decimal" value={preset.tareWeight} onChange={(e) => setPreset(prev => ({ ...prev, tareWeight: e.target.value }))} disabled={isCommitting} />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            className="font-mono"
+            placeholder="Scan or type a barcode and press Enter"
+            value={manualBarcode}
+            onChange={(e) => setManualBarcode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter') return;
+              e.preventDefault();
+              addScan(manualBarcode);
+              setManualBarcode('');
+            }}
+            disabled={isCommitting}
+          />
+          <Button type="button" variant="outline" onClick={() => setIsCameraOpen(true)} disabled={isCommitting}>
+            <Camera className="mr-2 h-4 w-4" /> Camera
+          </Button>
+        </div>
+
+        <ScanFeedbackBanner feedback={feedback} />
+
+        {queue.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Barcode</TableHead>
+                <TableHead>DOE</TableHead>
+                <TableHead>Dispatch</TableHead>
+                <TableHead className="text-right">Gross (kg)</TableHead>
+                <TableHead className="w-[50px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.map(scan => (
+                <TableRow key={scan.receptacleId}>
+                  <TableCell className="font-mono text-xs">
+                    {scan.barcode}
+                    {scan.dispatchMatches.length > 0 && (
+                      <div className="flex items-center gap-1 font-sans text-amber-700">
+                        <AlertTriangle className="h-3 w-3" /> Same dispatch on shipment{' '}
+                        <Link href={`/shipments/${scan.dispatchMatches[0].shipmentId}`} target="_blank" className="font-mono underline">{scan.dispatchMatches[0].shipmentId}</Link>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{scan.decoded.doe}</TableCell>
+                  <TableCell>{scan.decoded.dispatchNumber}</TableCell>
+                  <TableCell className="text-right font-mono">{scan.decoded.grossWeight.toFixed(3)}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => removeScan(scan.receptacleId)} disabled={isCommitting} aria-label={`Remove ${scan.barcode}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-sm text-muted-foreground">
+            {queue.length} queued, {totalGrossWeight.toFixed(3)} kg gross.{presetError && queue.length > 0 && <span className="text-destructive"> {presetError}</span>}
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={clearQueue} disabled={isCommitting || queue.length === 0}>Clear</Button>
+            <Button type="button" onClick={() => commitMutation.mutate(queue)} disabled={isCommitting || queue.length === 0 || !!presetError}>
+              {isCommitting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Adding...</> : `Add ${queue.length} Item(s)`}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+      <BarcodeScannerDialog continuous isOpen={isCameraOpen} onClose={() => setIsCameraOpen(false)} onScan={addScan}>
+        <ScanFeedbackBanner feedback={feedback} />
+        <p className="mt-2 text-center text-sm text-muted-foreground">{queue.length} queued</p>
+      </BarcodeScannerDialog>
+    </Dialog>
+  );
+}
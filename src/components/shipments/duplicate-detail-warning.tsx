@@ -0,0 +1,59 @@
+"use client";
+
+import Link from 'next/link';
+import type { DuplicateDetail } from '@/lib/types';
+import { isBlockingDuplicate } from '@/lib/firebase/shipmentsService';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle } from 'lucide-react';
+
+interface DuplicateDetailWarningProps {
+  duplicates: DuplicateDetail[];
+  allowDuplicateDispatch: boolean;
+  onAllowDuplicateDispatchChange: (allow: boolean) => void;
+  disabled?: boolean;
+}
+
+const MATCH_LABELS: Record<DuplicateDetail['match'], string> = {
+  barcode: 'Same barcode',
+  dispatch: 'Same dispatch number, DOE and gross weight',
+};
+
+// Lists the items that look like the receptacle being saved. Barcode matches
+// block the save; dispatch matches can be confirmed as a different receptacle.
+export default function DuplicateDetailWarning({ duplicates, allowDuplicateDispatch, onAllowDuplicateDispatchChange, disabled }: DuplicateDetailWarningProps) {
+  if (duplicates.length === 0) return null;
+  const isBlocked = duplicates.some(isBlockingDuplicate);
+
+  return (
+    <Alert variant={isBlocked ? 'destructive' : 'default'}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{isBlocked ? 'Already Scanned' : 'Possible Duplicate'}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <ul className="list-disc pl-4">
+          {duplicates.map(duplicate => (
+            <li key={`${duplicate.shipmentId}/${duplicate.detailId}`}>
+              {MATCH_LABELS[duplicate.match]} on shipment{' '}
+              {/* Opens in a new tab so the item being entered is not lost */}
+              <Link href={`/shipments/${duplicate.shipmentId}`} target="_blank" className="font-mono underline">{duplicate.shipmentId}</Link>
+            </li>
+          ))}
+        </ul>
+        {isBlocked ? (
+          <p>Remove the item from the other shipment first if it was scanned into the wrong truck.</p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="allow-duplicate-dispatch"
+              checked={allowDuplicateDispatch}
+              onCheckedChange={(checked) => onAllowDuplicateDispatchChange(checked === true)}
+              disabled={disabled}
+            />
+            <Label htmlFor="allow-duplicate-dispatch" className="font-normal">This is a different receptacle; save it anyway</Label>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
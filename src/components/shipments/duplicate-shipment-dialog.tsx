@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMutation } from '@tanstack/react-query';
+import { duplicateShipment } from '@/lib/firebase/shipmentsService';
+import type { Shipment, ShipmentHeaderGroup } from '@/lib/types';
+import { SHIPMENT_HEADER_GROUPS } from '@/lib/shipmentHeader';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface DuplicateShipmentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shipment: Shipment;
+}
+
+const ALL_GROUPS = SHIPMENT_HEADER_GROUPS.map(group => group.key);
+
+export default function DuplicateShipmentDialog({ isOpen, onClose, shipment }: DuplicateShipmentDialogProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [groups, setGroups] = useState<ShipmentHeaderGroup[]>(ALL_GROUPS);
+  const [copyDetails, setCopyDetails] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setGroups(ALL_GROUPS);
+      setCopyDetails(false);
+    }
+  }, [isOpen]);
+
+  const duplicateMutation = useMutation({
+    mutationFn: () => duplicateShipment(shipment.id, groups, copyDetails),
+    onSuccess: (newShipmentId) => {
+      toast({
+        title: "Shipment Duplicated",
+        description: `Draft shipment ${newShipmentId} created. Check its dates before loading.`,
+      });
+      onClose();
+      router.push(`/shipments/${newShipmentId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Duplicate Shipment",
+        description: error.message || "Could not duplicate the shipment.",
+      });
+    },
+  });
+
+  const toggleGroup = (key: ShipmentHeaderGroup, checked: boolean) => {
+    setGroups(current => checked ? [...current, key] : current.filter(group => group !== key));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Duplicate Shipment</DialogTitle>
+          <DialogDescription>
+            Creates a new Draft shipment departing today. Choose what to copy from this one; seal number and documents are never copied.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-4">
+          {SHIPMENT_HEADER_GROUPS.map(group => (
+            <div key={group.key} className="flex items-center gap-2">
+              <Checkbox
+                id={`duplicate-${group.key}`}
+                checked={groups.includes(group.key)}
+                onCheckedChange={(checked) => toggleGroup(group.key, checked === true)}
+                disabled={duplicateMutation.isPending}
+              />
+              <Label htmlFor={`duplicate-${group.key}`} className="font-normal">{group.label}</Label>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 border-t pt-3">
+            <Checkbox
+              id="duplicate-details"
+              checked={copyDetails}
+              onCheckedChange={(checked) => setCopyDetails(checked === true)}
+              disabled={duplicateMutation.isPending}
+            />
+            <Label htmlFor="duplicate-details" className="font-normal">Copy items (dispatch numbers, customers, bags and weights)</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline" onClick={onClose} disabled={duplicateMutation.isPending}>
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button type="button" onClick={() => duplicateMutation.mutate()} disabled={duplicateMutation.isPending}>
+            {duplicateMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Duplicating...
+              </>
+            ) : 'Duplicate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
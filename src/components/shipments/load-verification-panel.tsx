@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { collection, query, orderBy, onSnapshot, type QueryDocumentSnapshot, type DocumentData } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { detailFromFirestore } from '@/lib/firebase/shipmentsService';
+import {
+  clearLoadScans,
+  confirmItemLoaded,
+  loadScanFromFirestore,
+  recordLoadScan,
+  removeLoadScan,
+  LOAD_SCANS_COLLECTION,
+} from '@/lib/firebase/loadVerificationService';
+import { isSameLoadCounts, loadVerificationCounts, reconcileLoad } from '@/lib/loadVerification';
+import { isShipmentLoadEditable } from '@/lib/shipmentStatus';
+import { normalizeReceptacleId } from '@/lib/utils';
+import type { LoadScan, Shipment, ShipmentDetail } from '@/lib/types';
+import { BarcodeScannerDialog } from './BarcodeScannerDialog';
+import OverrideLoadVerificationDialog from './override-load-verification-dialog';
+import { ScanFeedbackBanner, useScanFeedback } from './scan-feedback';
+import { useScannerInput } from '@/hooks/use-scanner-input';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, Camera, CheckCircle2, ClipboardCheck, ShieldAlert, Trash2 } from 'lucide-react';
+
+interface LoadVerificationPanelProps {
+  shipment: Shipment;
+  isAdmin: boolean;
+  isScanning: boolean; // Hardware scanner codes go to the verification instead of the item list
+  onScanningChange: (isScanning: boolean) => void;
+  onChanged: () => void; // The shipment itself changed, e.g. the check was overridden
+}
+
+// How a missing item is told apart on the truck
+const describeItem = (detail: ShipmentDetail): string => {
+  const units = detail.numPallets > 0 ? `${detail.numPallets} pallet(s)` : `${detail.numBags} bag(s)`;
+  const dispatch = detail.dispatchNumber ? `dispatch ${detail.dispatchNumber}, ` : '';
+  return `${units}, ${dispatch}${detail.grossWeight.toFixed(3)} kg`;
+};
+
+// Scans what is on the truck and compares it with the shipment's items, which must match before it is sealed
+export default function LoadVerificationPanel({ shipment, isAdmin, isScanning, onScanningChange, onChanged }: LoadVerificationPanelProps) {
+  const { toast } = useToast();
+  const [details, setDetails] = useState<ShipmentDetail[]>([]);
+  const [scans, setScans] = useState<LoadScan[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [manualBarcode, setManualBarcode] = useState('');
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isOverrideOpen, setIsOverrideOpen] = useState(false);
+  const { feedback, report, clear: clearFeedback } = useScanFeedback();
+  // Receptacle IDs being recorded, so the camera reading a label twice is not reported twice
+  const pendingRef = useRef(new Set<string>());
+
+  const isLoading = isShipmentLoadEditable(shipment.status);
+  const stored = shipment.loadVerification;
+
+  useEffect(() => {
+    if (!isLoading) return;
+    const onError = (err: Error) => {
+      console.error(`[LoadVerificationPanel] Error listening to shipment ${shipment.id}:`, err);
+      setError("Failed to load the items or scans of this shipment.");
+    };
+    const unsubscribeDetails = onSnapshot(
+      query(collection(db, 'shipments', shipment.id, 'details'), orderBy('createdAt', 'asc')),
+      (snapshot) => setDetails(snapshot.docs.map(docSnap => detailFromFirestore(docSnap as QueryDocumentSnapshot<DocumentData>))),
+      onError,
+    );
+    const unsubscribeScans = onSnapshot(
+      collection(db, 'shipments', shipment.id, LOAD_SCANS_COLLECTION),
+      (snapshot) => setScans(snapshot.docs.map(loadScanFromFirestore)),
+      onError,
+    );
+    return () => {
+      unsubscribeDetails();
+      unsubscribeScans();
+    };
+  }, [shipment.id, isLoading]);
+
+  const reconciliation = useMemo(() => reconcileLoad(details, scans), [details, scans]);
+  const counts = loadVerificationCounts(reconciliation);
+
+  const handleScan = async (code: string) => {
+    const barcode = code.trim();
+    const receptacleId = normalizeReceptacleId(barcode);
+    if (!receptacleId || pendingRef.current.has(receptacleId)) return;
+    const isItem = details.some(detail => (detail.receptacleId || normalizeReceptacleId(detail.barcode)) === receptacleId);
+    pendingRef.current.add(receptacleId);
+    try {
+      const isNew = await recordLoadScan(shipment.id, barcode);
+      if (!isNew) report('warning', `${barcode} was already scanned.`);
+      else if (isItem) report('ok', `${barcode} verified.`);
+      else report('error', `${barcode} is not an item of this shipment.`);
+    } catch (err) {
+      report('error', err instanceof Error ? err.message : `${barcode} could not be recorded; scan it again.`);
+    } finally {
+      pendingRef.current.delete(receptacleId);
+    }
+  };
+
+  useScannerInput(handleScan, isLoading && isScanning);
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(`[LoadVerificationPanel] ${failureTitle}:`, err);
+      toast({ variant: "destructive", title: failureTitle, description: err instanceof Error ? err.message : "Please try again." });
+    }
+  };
+
+  const counters = [
+    { label: 'Expected', value: counts.expected, className: '' },
+    { label: 'Verified', value: counts.verified, className: 'text-green-700' },
+    { label: 'Missing', value: counts.missing, className: counts.missing > 0 ? 'text-destructive' : '' },
+    { label: 'Unexpected', value: counts.unexpected, className: counts.unexpected > 0 ? 'text-destructive' : '' },
+  ];
+
+  return (
+    <Card className="shadow-lg rounded-xl border">
+      <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            <CardTitle>Load Verification</CardTitle>
+          </div>
+          <CardDescription>
+            Scan every bag and pallet on the truck. The shipment can be sealed once each item is found and nothing else was scanned.
+          </CardDescription>
+        </div>
+        {isLoading && (
+          <Button size="sm" variant={isScanning ? 'secondary' : 'default'} onClick={() => { onScanningChange(!isScanning); clearFeedback(); }}>
+            {isScanning ? 'Stop Verifying' : 'Verify Load'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isLoading ? (
+          stored ? (
+            <p className="text-sm">
+              {stored.result === 'passed' ? 'Verified' : 'Overridden'} when sealed: {stored.verified} of {stored.expected} item(s) found, {stored.missing} missing, {stored.unexpected} unexpected.
+              {stored.reason && <> Reason: <span className="italic">{stored.reason}</span></>}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground italic">Sealed without load verification.</p>
+          )
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Error Loading Verification</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {counters.map(counter => (
+                <div key={counter.label} className="rounded-md border p-3 text-center">
+                  <div className={`text-2xl font-semibold ${counter.className}`}>{counter.value}</div>
+                  <div className="text-xs text-muted-foreground">{counter.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {reconciliation.passed ? (
+              <Alert className="border-green-600">
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertTitle>Load Verified</AlertTitle>
+                <AlertDescription>Every item was found on the truck; the shipment can be sealed.</AlertDescription>
+              </Alert>
+            ) : stored?.result === 'overridden' && isSameLoadCounts(stored, counts) ? (
+              <Alert>
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle>Verification Overridden</AlertTitle>
+                <AlertDescription>The shipment can be sealed as it is. Reason: <span className="italic">{stored.reason}</span></AlertDescription>
+              </Alert>
+            ) : stored?.result === 'overridden' ? (
+              <Alert variant="destructive">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle>Override Out of Date</AlertTitle>
+                <AlertDescription>Items or scans changed after the check was overridden; it must be overridden again before sealing.</AlertDescription>
+              </Alert>
+            ) : null}
+
+            {isScanning && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    className="font-mono"
+                    placeholder="Scan or type a barcode and press Enter"
+                    value={manualBarcode}
+                    onChange={(e) => setManualBarcode(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key !== 'Enter') return;
+                      e.preventDefault();
+                      handleScan(manualBarcode);
+                      setManualBarcode('');
+                    }}
+                  />
+                  <Button type="button" variant="outline" onClick={() => setIsCameraOpen(true)}>
+                    <Camera className="mr-2 h-4 w-4" /> Camera
+                  </Button>
+                </div>
+                <ScanFeedbackBanner feedback={feedback} />
+              </div>
+            )}
+
+            {(isScanning || scans.length > 0) && reconciliation.missing.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Missing</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Barcode</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reconciliation.missing.map(detail => (
+                      <TableRow key={detail.id}>
+                        <TableCell className="font-mono text-xs">{detail.barcode || '—'}</TableCell>
+                        <TableCell>{describeItem(detail)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => runAction(() => confirmItemLoaded(shipment.id, detail.id), "Could Not Confirm Item")}>
+                            Confirm Loaded
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {reconciliation.unexpected.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Unexpected</h3>
+                <p className="text-sm text-muted-foreground">Take these off the truck, or add them to the shipment, then remove the scan.</p>
+                <Table>
+                  <TableBody>
+                    {reconciliation.unexpected.map(scan => (
+                      <TableRow key={scan.id}>
+                        <TableCell className="font-mono text-xs">{scan.barcode}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" onClick={() => runAction(() => removeLoadScan(shipment.id, scan.id), "Could Not Remove Scan")} aria-label={`Remove the scan of ${scan.barcode}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {scans.length > 0 && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm">Start Over</Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Clear All Scans?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The {scans.length} scan(s) and hand confirmations of this load are removed, and every item has to be verified again.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => runAction(() => clearLoadScans(shipment.id), "Could Not Clear Scans")}>Clear Scans</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+              {isAdmin && !reconciliation.passed && (
+                <Button variant="outline" size="sm" onClick={() => setIsOverrideOpen(true)}>
+                  <ShieldAlert className="mr-2 h-4 w-4" /> Override
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+      {isLoading && (
+        <BarcodeScannerDialog continuous isOpen={isCameraOpen} onClose={() => setIsCameraOpen(false)} onScan={handleScan}>
+          <ScanFeedbackBanner feedback={feedback} />
+          <p className="mt-2 text-center text-sm text-muted-foreground">{counts.verified} of {counts.expected} verified</p>
+        </BarcodeScannerDialog>
+      )}
+      {isAdmin && isLoading && (
+        <OverrideLoadVerificationDialog
+          isOpen={isOverrideOpen}
+          onClose={() => setIsOverrideOpen(false)}
+          shipment={shipment}
+          counts={counts}
+          onOverridden={onChanged}
+        />
+      )}
+    </Card>
+  );
+}
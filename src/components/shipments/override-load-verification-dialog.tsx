@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation } from '@tanstack/react-query';
+import { overrideLoadVerification } from '@/lib/firebase/loadVerificationService';
+import type { LoadVerificationCounts } from '@/lib/loadVerification';
+import type { Shipment } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface OverrideLoadVerificationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shipment: Shipment;
+  counts: LoadVerificationCounts;
+  onOverridden: () => void;
+}
+
+const overrideFormSchema = z.object({
+  reason: z.string().trim().min(5, "Explain why the shipment may be sealed anyway (at least 5 characters)."),
+});
+
+type OverrideFormValues = z.infer<typeof overrideFormSchema>;
+
+export default function OverrideLoadVerificationDialog({ isOpen, onClose, shipment, counts, onOverridden }: OverrideLoadVerificationDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<OverrideFormValues>({
+    resolver: zodResolver(overrideFormSchema),
+    defaultValues: { reason: '' },
+  });
+
+  useEffect(() => {
+    if (isOpen) form.reset({ reason: '' });
+  }, [isOpen, form]);
+
+  const overrideMutation = useMutation({
+    mutationFn: (data: OverrideFormValues) => overrideLoadVerification(shipment.id, data.reason, counts),
+    onSuccess: () => {
+      toast({ title: "Load Verification Overridden", description: "The shipment can be sealed." });
+      onOverridden();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Override Failed",
+        description: error.message || "Could not override the load verification.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Override Load Verification</DialogTitle>
+          <DialogDescription>
+            {counts.missing} item(s) were not found on the truck and {counts.unexpected} scan(s) match no item.
+            Overriding lets the shipment be sealed as it is; the reason is kept with the shipment and in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => overrideMutation.mutate(data))} className="space-y-6 py-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="E.g. label torn off one bag, checked by hand" {...field} disabled={overrideMutation.isPending} rows={3} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={overrideMutation.isPending}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" variant="destructive" disabled={overrideMutation.isPending}>
+                {overrideMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Overriding...
+                  </>
+                ) : 'Override'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
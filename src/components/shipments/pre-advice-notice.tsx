@@ -0,0 +1,62 @@
+"use client";
+
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import { getPreAdvisedReceptacles } from '@/lib/firebase/preAdviceService';
+import { DEFAULT_PRE_ADVICE_TOLERANCE_KG, findPreAdviceMatch, isWeightMismatch, normalizeDispatchNumber, type PreAdviceItem } from '@/lib/preAdvice';
+import type { PreAdvisedReceptacle } from '@/lib/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, CheckCircle2, Info } from 'lucide-react';
+
+interface PreAdviceNoticeProps {
+  customerId: string;
+  item: PreAdviceItem;
+}
+
+// Shows which pre-advised receptacle the item being entered matches, if any.
+// It only informs; items that were not pre-advised can still be saved.
+export default function PreAdviceNotice({ customerId, item }: PreAdviceNoticeProps) {
+  const dispatchKey = normalizeDispatchNumber(item.dispatchNumber);
+  const { data: candidates } = useQuery<PreAdvisedReceptacle[]>({
+    queryKey: ['preAdvisedReceptacles', customerId, dispatchKey],
+    queryFn: () => getPreAdvisedReceptacles(customerId, dispatchKey),
+    enabled: !!customerId && !!dispatchKey,
+    staleTime: 60 * 1000,
+  });
+
+  if (!customerId || !dispatchKey || !candidates) return null;
+  const match = findPreAdviceMatch(item, candidates);
+
+  if (!match) {
+    return (
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertTitle>Not Pre-Advised</AlertTitle>
+        <AlertDescription>
+          No manifest of this customer lists dispatch {item.dispatchNumber}{item.doeId ? ` for ${item.doeId}` : ''}{item.barcode ? ` with receptacle ${item.barcode}` : ''}.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { receptacle, weightDifference } = match;
+  const source = `row ${receptacle.line} of the manifest for ${format(receptacle.manifestDate.toDate(), "PP")}`;
+  if (isWeightMismatch(match, DEFAULT_PRE_ADVICE_TOLERANCE_KG)) {
+    return (
+      <Alert className="border-amber-500">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Weight Differs from the Pre-Advice</AlertTitle>
+        <AlertDescription>
+          Pre-advised at {receptacle.grossWeight.toFixed(3)} kg on {source}; this item is {weightDifference > 0 ? '+' : ''}{weightDifference.toFixed(3)} kg off.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+  return (
+    <Alert className="border-green-600">
+      <CheckCircle2 className="h-4 w-4" />
+      <AlertTitle>Pre-Advised</AlertTitle>
+      <AlertDescription>Matches {source} ({receptacle.grossWeight.toFixed(3)} kg).</AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation } from '@tanstack/react-query';
+import { reopenShipment } from '@/lib/firebase/shipmentsService';
+import type { Shipment } from '@/lib/types';
+import { REOPENED_SHIPMENT_STATUS } from '@/lib/shipmentStatus';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface ReopenShipmentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shipment: Shipment;
+  onReopened: () => void;
+}
+
+const reopenShipmentFormSchema = z.object({
+  reason: z.string().trim().min(5, "Explain why the shipment is reopened (at least 5 characters)."),
+});
+
+type ReopenShipmentFormValues = z.infer<typeof reopenShipmentFormSchema>;
+
+export default function ReopenShipmentDialog({ isOpen, onClose, shipment, onReopened }: ReopenShipmentDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<ReopenShipmentFormValues>({
+    resolver: zodResolver(reopenShipmentFormSchema),
+    defaultValues: { reason: '' },
+  });
+
+  useEffect(() => {
+    if (isOpen) form.reset({ reason: '' });
+  }, [isOpen, form]);
+
+  const reopenMutation = useMutation({
+    mutationFn: (data: ReopenShipmentFormValues) => reopenShipment(shipment.id, data.reason),
+    onSuccess: () => {
+      toast({
+        title: "Shipment Reopened",
+        description: `The shipment is ${REOPENED_SHIPMENT_STATUS} again and its documents were invalidated.`,
+      });
+      onReopened();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Reopen Shipment",
+        description: error.message || "Could not reopen the shipment.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Reopen Shipment</DialogTitle>
+          <DialogDescription>
+            The shipment is {shipment.status.toLowerCase()}. Reopening moves it back to {REOPENED_SHIPMENT_STATUS} so it and its items can be edited.
+            The generated Pre-Alert, CMR and e-CMR are marked invalidated; sealing it again generates new versions.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => reopenMutation.mutate(data))} className="space-y-6 py-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="E.g. wrong seal number recorded" {...field} disabled={reopenMutation.isPending} rows={3} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={reopenMutation.isPending}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" variant="destructive" disabled={reopenMutation.isPending}>
+                {reopenMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Reopening...
+                  </>
+                ) : 'Reopen Shipment'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { addShipmentTemplate } from '@/lib/firebase/templatesService';
+import type { Shipment } from '@/lib/types';
+import { shipmentHeaderOf } from '@/lib/shipmentHeader';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface SaveShipmentTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shipment: Shipment;
+}
+
+const saveShipmentTemplateFormSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required."),
+});
+
+type SaveShipmentTemplateFormValues = z.infer<typeof saveShipmentTemplateFormSchema>;
+
+export default function SaveShipmentTemplateDialog({ isOpen, onClose, shipment }: SaveShipmentTemplateDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<SaveShipmentTemplateFormValues>({
+    resolver: zodResolver(saveShipmentTemplateFormSchema),
+    defaultValues: { name: '' },
+  });
+
+  useEffect(() => {
+    if (isOpen) form.reset({ name: '' });
+  }, [isOpen, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SaveShipmentTemplateFormValues) => addShipmentTemplate({ ...shipmentHeaderOf(shipment), name: data.name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shipmentTemplates'] });
+      toast({ title: "Template Saved", description: "New shipments can now start from this template." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Save Template",
+        description: error.message || "Could not save the shipment template.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Saves this shipment&apos;s carrier, driver, vehicle, addresses, CMR details and description of goods so they can pre-fill new shipments.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-6 py-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Template Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="E.g. Fareham to Dublin, Tuesday truck" {...field} disabled={saveMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+                  </>
+                ) : 'Save Template'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
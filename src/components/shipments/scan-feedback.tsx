@@ -0,0 +1,68 @@
+"use client";
+
+import { useCallback, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+
+export interface ScanFeedback {
+  id: number; // Restarts the flash when the same message repeats
+  tone: 'ok' | 'warning' | 'error';
+  message: string;
+}
+
+const FEEDBACK_STYLES: Record<ScanFeedback['tone'], string> = {
+  ok: 'border-green-600 bg-green-50 text-green-800',
+  warning: 'border-amber-500 bg-amber-50 text-amber-800',
+  error: 'border-destructive bg-destructive/10 text-destructive',
+};
+
+const FEEDBACK_ICONS: Record<ScanFeedback['tone'], typeof CheckCircle2> = {
+  ok: CheckCircle2,
+  warning: AlertTriangle,
+  error: XCircle,
+};
+
+let audioContext: AudioContext | null = null;
+
+// A short tone confirms each scan without looking at the screen: high when it went through, lower otherwise
+export const playScanTone = (tone: ScanFeedback['tone']) => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = tone === 'ok' ? 1200 : tone === 'warning' ? 600 : 300;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (tone === 'ok' ? 0.08 : 0.3));
+  } catch (error) {
+    console.warn("Could not play the scan tone:", error);
+  }
+};
+
+// The latest scan's feedback; report() shows it and plays its tone
+export function useScanFeedback() {
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const feedbackIdRef = useRef(0);
+
+  const report = useCallback((tone: ScanFeedback['tone'], message: string) => {
+    feedbackIdRef.current += 1;
+    setFeedback({ id: feedbackIdRef.current, tone, message });
+    playScanTone(tone);
+  }, []);
+
+  const clear = useCallback(() => setFeedback(null), []);
+
+  return { feedback, report, clear };
+}
+
+export function ScanFeedbackBanner({ feedback }: { feedback: ScanFeedback | null }) {
+  if (!feedback) return <p className="rounded-md border border-dashed p-3 text-sm text-muted-foreground">Waiting for the first scan.</p>;
+  const Icon = FEEDBACK_ICONS[feedback.tone];
+  return (
+    <div key={feedback.id} className={cn("flex items-center gap-2 rounded-md border-2 p-3 text-sm font-medium animate-in fade-in zoom-in-95", FEEDBACK_STYLES[feedback.tone])}>
+      <Icon className="h-5 w-5 shrink-0" />
+      <span>{feedback.message}</span>
+    </div>
+  );
+}
@@ -11,14 +11,21 @@ import { Label } from '@/components/ui/label';
 import { CalendarIcon, Search, X, Filter } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import type { ShipmentStatus, DropdownItem } from '@/lib/types';
+import type { ShipmentStatus } from '@/lib/types';
+import { SHIPMENT_STATUSES } from '@/lib/shipmentStatus';
 import { getDropdownOptions } from '@/lib/firebase/dropdownService'; // Import service
+import type { ShipmentQueryFilters } from '@/lib/firebase/shipmentsService';
 import { Skeleton } from '../ui/skeleton';
 import { useQuery } from '@tanstack/react-query'; // Use TanStack Query for caching dropdowns
 
 
+// Everything but the search term is applied by Firestore; see queryShipments
+export interface ShipmentSearchFilters extends ShipmentQueryFilters {
+  searchTerm?: string;
+}
+
 interface SearchFilterBarProps {
-  onFilterChange: (filters: Record<string, any>) => void;
+  onFilterChange: (filters: ShipmentSearchFilters) => void;
 }
 
 // Fetch functions for TanStack Query
@@ -47,7 +54,7 @@ export default function SearchFilterBar({ onFilterChange }: SearchFilterBarProps
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
   const [carrierId, setCarrierId] = useState('');
-  const [customerId, setCustomerId] = useState(''); // Placeholder - requires details fetch
+  const [customerId, setCustomerId] = useState('');
 
   // Use TanStack Query to fetch and cache dropdown options
     const { data: carrierOptions, isLoading: isLoadingCarriers, error: errorCarriers } = useQuery({
@@ -57,13 +64,12 @@ export default function SearchFilterBar({ onFilterChange }: SearchFilterBarProps
         gcTime: 10 * 60 * 1000, // Keep in cache for 10 minutes
     });
 
-   // TODO: Add query for customers if needed for filtering later
-   // const { data: customerOptions, isLoading: isLoadingCustomers, error: errorCustomers } = useQuery({
-   //     queryKey: ['customersFilterList'],
-   //     queryFn: fetchCustomers,
-   //     staleTime: 5 * 60 * 1000,
-   //     gcTime: 10 * 60 * 1000,
-   // });
+    const { data: customerOptions, isLoading: isLoadingCustomers, error: errorCustomers } = useQuery({
+        queryKey: ['customersFilterList'],
+        queryFn: fetchCustomers,
+        staleTime: 5 * 60 * 1000,
+        gcTime: 10 * 60 * 1000,
+    });
 
 
   // Memoize the debounced filter function
@@ -71,16 +77,16 @@ export default function SearchFilterBar({ onFilterChange }: SearchFilterBarProps
 
   // Trigger filter change when any state changes
   useEffect(() => {
-    const filters = {
-      searchTerm,
-      status,
-      startDate,
-      endDate,
-      carrierId,
-      // customerId, // Add when customer filtering is implemented
+    const filters: ShipmentSearchFilters = {
+      searchTerm: searchTerm || undefined,
+      status: status || undefined,
+      departureFrom: startDate,
+      departureTo: endDate,
+      carrierId: carrierId || undefined,
+      customerId: customerId || undefined,
     };
     debouncedOnFilterChange(filters);
-  }, [searchTerm, status, startDate, endDate, carrierId, /* customerId, */ debouncedOnFilterChange]);
+  }, [searchTerm, status, startDate, endDate, carrierId, customerId, debouncedOnFilterChange]);
 
 
   const clearFilters = () => {
@@ -99,7 +105,7 @@ export default function SearchFilterBar({ onFilterChange }: SearchFilterBarProps
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4 items-end">
              {/* Search Term */}
             <div className="space-y-1">
-                <Label htmlFor="search-term">Search (ID, Carrier, Driver)</Label>
+                <Label htmlFor="search-term">Search this page (ID, Carrier, Driver)</Label>
                 <div className="relative">
                     <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                     <Input
@@ -121,8 +127,9 @@ export default function SearchFilterBar({ onFilterChange }: SearchFilterBarProps
                     </SelectTrigger>
                     <SelectContent>
                         {/* <SelectItem value="">All Statuses</SelectItem>  Removed this line */}
-                        <SelectItem value="Pending">Pending</SelectItem>
-                        <SelectItem value="Completed">Completed</SelectItem>
+                        {SHIPMENT_STATUSES.map(shipmentStatus => (
+                            <SelectItem key={shipmentStatus} value={shipmentStatus}>{shipmentStatus}</SelectItem>
+                        ))}
                     </SelectContent>
                 </Select>
             </div>
@@ -148,6 +155,26 @@ export default function SearchFilterBar({ onFilterChange }: SearchFilterBarProps
                  {errorCarriers && <p className="text-xs text-destructive">Error loading carriers</p>}
              </div>
 
+             {/* Customer Filter */}
+             <div className="space-y-1">
+                 <Label htmlFor="customer-filter">Customer</Label>
+                 {isLoadingCustomers ? <Skeleton className="h-10 w-full" /> :
+                  <Select value={customerId} onValueChange={setCustomerId} disabled={!!errorCustomers}>
+                    <SelectTrigger id="customer-filter">
+                      <SelectValue placeholder="All Customers" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customerOptions?.map((option) => (
+                        <SelectItem key={option.id} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                 }
+                 {errorCustomers && <p className="text-xs text-destructive">Error loading customers</p>}
+             </div>
+
 
             {/* Departure Date Range Start */}
             <div className="space-y-1">
@@ -10,13 +10,15 @@ import { Input } from '@/components/ui/input';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label as ShadcnLabel } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose, DialogDescription } from '@/components/ui/dialog';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import type { ShipmentDetail, DropdownItem } from '@/lib/types';
+import type { BarcodeRule, ShipmentDetail, DropdownItem, DuplicateDetail, UpuReceptacleId, UpuReceptacleIdError } from '@/lib/types';
 import { getDropdownOptions } from '@/lib/firebase/dropdownService';
+import { findDuplicateDetails, isBlockingDuplicate, type DetailIdentity, type DetailSaveOptions } from '@/lib/firebase/shipmentsService';
 import {
-    ASENDIA_UK_CUSTOMER_ID,
+    DEFAULT_CUSTOMER_ID,
     SERVICE_FORMAT_MAPPING,
+    MAIL_CATEGORY_SERVICE_MAPPING,
     DEFAULT_PRIOR_SERVICE_ID,
     TARE_WEIGHT_DEFAULT,
     BAG_WEIGHT_MULTIPLIER,
@@ -24,9 +26,15 @@ import {
 } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AlertCircle, Loader2, RotateCcw, Scan } from 'lucide-react';
-import { useQuery } from '@tanstack/react-query';
-import { cn, parseBarcode, type BarcodeData } from '@/lib/utils';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { cn, normalizeReceptacleId, parseBarcode, type BarcodeData } from '@/lib/utils';
+import { parseUpuReceptacleId, UPU_RECEPTACLE_ID_LENGTH } from '@/lib/receptacles';
+import { effectiveBarcodeRules } from '@/lib/barcodeRules';
+import { getBarcodeRules } from '@/lib/firebase/barcodeRulesService';
 import { BarcodeScannerDialog } from './BarcodeScannerDialog';
+import DuplicateDetailWarning from './duplicate-detail-warning';
+import PreAdviceNotice from './pre-advice-notice';
+import { useScannerInput } from '@/hooks/use-scanner-input';
 
 
 // Zod schema
@@ -64,8 +72,9 @@ interface ShipmentDetailFormProps {
   detail?: ShipmentDetail | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (data: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'>) => Promise<void>;
+  onSave: (data: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'>, options?: DetailSaveOptions) => Promise<void>;
   onOpen?: () => void;
+  initialBarcode?: string; // A code scanned before the form was opened, for a new item
 }
 
 const fetchCustomers = () => getDropdownOptions('customers');
@@ -83,13 +92,20 @@ export default function ShipmentDetailForm({
   onClose,
   onSave,
   onOpen,
+  initialBarcode,
 }: ShipmentDetailFormProps) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isSaving, setIsSaving] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [hasCamera, setHasCamera] = useState(false);
   const [currentServiceId, setCurrentServiceId] = useState<string>(DEFAULT_PRIOR_SERVICE_ID);
   const [showPalletInputMode, setShowPalletInputMode] = useState(true);
+  // Items on any shipment that look like the receptacle being entered
+  const [duplicates, setDuplicates] = useState<DuplicateDetail[]>([]);
+  const [allowDuplicateDispatch, setAllowDuplicateDispatch] = useState(false);
+  // Why a barcode that could not be decoded is not a valid UPU S9 receptacle ID
+  const [barcodeErrors, setBarcodeErrors] = useState<UpuReceptacleIdError[]>([]);
 
   useEffect(() => {
     const checkCamera = async () => {
@@ -115,12 +131,15 @@ export default function ShipmentDetailForm({
       queryKey: ['services'], queryFn: fetchServices, staleTime: 5 * 60 * 1000, gcTime: 10 * 60 * 1000 });
   const { data: doeOptions = [], isLoading: isLoadingDoes, error: errorDoes } = useQuery<DropdownItem[]>({
       queryKey: ['doe'], queryFn: fetchDoes, staleTime: 5 * 60 * 1000, gcTime: 10 * 60 * 1000 });
+  const { data: barcodeRules = [] } = useQuery<BarcodeRule[]>({
+      queryKey: ['barcodeRules'], queryFn: getBarcodeRules, staleTime: 5 * 60 * 1000, gcTime: 10 * 60 * 1000 });
+  const scanRules = useMemo(() => effectiveBarcodeRules(barcodeRules), [barcodeRules]);
 
   const newFormDefaults: DetailFormValues = useMemo(() => ({
     barcode: '',
     numPallets: 1,
     numBags: 0,
-    customerId: ASENDIA_UK_CUSTOMER_ID,
+    customerId: DEFAULT_CUSTOMER_ID,
     serviceId: DEFAULT_PRIOR_SERVICE_ID,
     formatId: '',
     tareWeight: TARE_WEIGHT_DEFAULT,
@@ -139,6 +158,8 @@ export default function ShipmentDetailForm({
   const numBagsWatched = watch('numBags');
   const watchedServiceId = watch('serviceId');
   const watchedFormatId = watch('formatId');
+  const [watchedCustomerId, watchedBarcode, watchedDispatchNumber, watchedDoeId, watchedGrossWeight] =
+    watch(['customerId', 'barcode', 'dispatchNumber', 'doeId', 'grossWeight']);
 
   const serviceLabelForFormat = useMemo(() => {
     if (isLoadingServices || !serviceOptions || serviceOptions.length === 0) return "FORMAT";
@@ -163,6 +184,7 @@ export default function ShipmentDetailForm({
   const validCustomerOptions = useMemo(() => customerOptions.filter(option => option && typeof option.value === 'string' && option.value.trim() !== ''), [customerOptions]);
   const validServiceOptions = useMemo(() => serviceOptions.filter(option => option && typeof option.value === 'string' && option.value.trim() !== ''), [serviceOptions]);
   const validDoeOptions = useMemo(() => doeOptions.filter(option => option && typeof option.value === 'string' && option.value.trim() !== ''), [doeOptions]);
+  const doeValues = useMemo(() => validDoeOptions.map(option => option.value), [validDoeOptions]);
   const validFormatOptions = useMemo(() => rawFormatOptions.filter(option => option && typeof option.value === 'string' && option.value.trim() !== ''), [rawFormatOptions]);
   
   const dropdownsLoading = isLoadingCustomers || isLoadingServices || isLoadingDoes || (!!formatCollectionId && isLoadingFormats);
@@ -180,6 +202,9 @@ export default function ShipmentDetailForm({
 
   useEffect(() => {
     if (isOpen) {
+      setDuplicates([]);
+      setAllowDuplicateDispatch(false);
+      setBarcodeErrors([]);
       if (detail) {
         const initialPallets = detail.numPallets ?? 0;
         const initialBags = detail.numBags ?? 0;
@@ -195,7 +220,7 @@ export default function ShipmentDetailForm({
           barcode: detail.barcode || '',
           numPallets: initialPallets,
           numBags: initialBags,
-          customerId: detail.customerId ?? ASENDia_UK_CUSTOMER_ID,
+          customerId: detail.customerId ?? DEFAULT_CUSTOMER_ID,
           serviceId: detail.serviceId ?? DEFAULT_PRIOR_SERVICE_ID,
           formatId: detail.formatId ?? '',
           tareWeight: initialTareWeight,
@@ -211,9 +236,12 @@ export default function ShipmentDetailForm({
         reset(newFormDefaults);
         setCurrentServiceId(newFormDefaults.serviceId);
         setShowPalletInputMode(true);
+        if (initialBarcode) applyScannedBarcode(initialBarcode);
       }
     }
-  }, [isOpen, detail, reset, newFormDefaults, isLoadingCustomers, isLoadingServices, isLoadingDoes]);
+  // applyScannedBarcode is recreated each render; the scan is applied once per reset
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, detail, reset, newFormDefaults, isLoadingCustomers, isLoadingServices, isLoadingDoes, initialBarcode]);
 
 
   useEffect(() => {
@@ -283,6 +311,66 @@ export default function ShipmentDetailForm({
     setShowPalletInputMode(prev => !prev);
   };
 
+  const checkDuplicates = useCallback(async (identity: DetailIdentity): Promise<DuplicateDetail[]> => {
+    const found = await findDuplicateDetails(identity, detail ? { shipmentId, detailId: detail.id } : undefined);
+    setDuplicates(found);
+    if (!found.some(duplicate => duplicate.match === 'dispatch')) setAllowDuplicateDispatch(false);
+    return found;
+  }, [detail, shipmentId]);
+
+  // Selects the service of the receptacle's mail category, and the format named by its subclass
+  const selectServiceAndFormat = async (upu: UpuReceptacleId) => {
+    const serviceId = MAIL_CATEGORY_SERVICE_MAPPING[upu.mailCategory];
+    if (!serviceId || !validServiceOptions.some(option => option.value === serviceId)) return;
+    const collectionId = SERVICE_FORMAT_MAPPING[serviceId.toLowerCase()] || null;
+    const formats = await queryClient.fetchQuery({
+      queryKey: ['formats', collectionId],
+      queryFn: () => fetchFormats(collectionId),
+      staleTime: 5 * 60 * 1000,
+    });
+    const format = formats.find(option => option.value.toUpperCase() === upu.mailSubclass);
+    if (serviceId !== getValues('serviceId')) {
+      setValue('serviceId', serviceId, { shouldValidate: true });
+      setCurrentServiceId(serviceId); // Otherwise the service change clears the format set here
+      setValue('formatId', format?.value ?? '', { shouldValidate: !!format });
+    } else if (format) {
+      setValue('formatId', format.value, { shouldValidate: true });
+    }
+  };
+
+  // Fills the fields from a scanned or typed barcode and warns straight away if it was seen before
+  const applyBarcode = (barcode: string) => {
+    const barcodeData = parseBarcode(barcode, scanRules, doeValues);
+    if (!barcodeData) {
+      // Only explained once the input is as long as an ID, not while it is being typed
+      const upuId = normalizeReceptacleId(barcode).length >= UPU_RECEPTACLE_ID_LENGTH ? parseUpuReceptacleId(barcode) : null;
+      if (upuId?.ok) {
+        setBarcodeErrors([{ field: 'mailSubclass', message: `Mail subclass "${upuId.id.mailSubclass}" is not in the DOE list, so the ID cannot be used until an admin adds it.` }]);
+      } else {
+        setBarcodeErrors(upuId ? upuId.errors : []);
+      }
+      return;
+    }
+    setBarcodeErrors([]);
+    if (barcodeData.upu) {
+      selectServiceAndFormat(barcodeData.upu)
+        .catch(error => console.error("Error selecting the service and format of a receptacle:", error));
+    }
+    setValue('doeId', barcodeData.doe, { shouldValidate: true });
+    setValue('dispatchNumber', barcodeData.dispatchNumber, { shouldValidate: true });
+    setValue('grossWeight', barcodeData.grossWeight, { shouldValidate: true });
+    checkDuplicates({ barcode, dispatchNumber: barcodeData.dispatchNumber, doeId: barcodeData.doe, grossWeight: barcodeData.grossWeight })
+      .catch(error => console.error("Error checking for duplicate receptacles:", error));
+  };
+
+  const applyScannedBarcode = (barcode: string) => {
+    setValue('barcode', barcode, { shouldValidate: true });
+    applyBarcode(barcode);
+  };
+
+  // Codes from a hardware scanner while no field has focus; typed into the barcode field otherwise
+  useScannerInput(applyScannedBarcode, isOpen && !isScannerOpen);
+
   const onSubmit = async (data: DetailFormValues) => {
     setIsSaving(true);
     try {
@@ -298,6 +386,7 @@ export default function ShipmentDetailForm({
        const formatRequiredForSave = serviceKeyForSave ? !!SERVICE_FORMAT_MAPPING[serviceKeyForSave] : false;
        
        const saveData: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'> = {
+         barcode: finalData.barcode?.trim() || '',
          numPallets: finalData.numPallets,
          numBags: finalData.numBags,
          customerId: finalData.customerId,
@@ -308,7 +397,10 @@ export default function ShipmentDetailForm({
          dispatchNumber: finalData.dispatchNumber || '',
          doeId: finalData.doeId || DEFAULT_DOE_ID,
        };
-      await onSave(saveData);
+      // Checked again on save, as the fields may have changed since the barcode was entered
+      const found = await checkDuplicates(saveData);
+      if (found.some(isBlockingDuplicate) || (found.length > 0 && !allowDuplicateDispatch)) return;
+      await onSave(saveData, { allowDuplicateDispatch });
       formHook.reset(newFormDefaults);
       onClose();
       if (onOpen) onOpen();
@@ -367,12 +459,11 @@ export default function ShipmentDetailForm({
                                            {...field}
                                            onChange={(e) => {
                                                field.onChange(e.target.value);
-                                               const barcodeData = parseBarcode(e.target.value);
-                                               if (barcodeData) {
-                                                   setValue('doeId', barcodeData.doe, { shouldValidate: true });
-                                                   setValue('dispatchNumber', barcodeData.dispatchNumber, { shouldValidate: true });
-                                                   setValue('grossWeight', barcodeData.grossWeight, { shouldValidate: true });
-                                               }
+                                               applyBarcode(e.target.value);
+                                           }}
+                                           onKeyDown={(e) => {
+                                               // Hardware scanners end each code with Enter, which should not save the item
+                                               if (e.key === 'Enter') e.preventDefault();
                                            }}
                                            disabled={isSaving}
                                        />
@@ -390,6 +481,11 @@ export default function ShipmentDetailForm({
                                        </Button>
                                    )}
                                </div>
+                               {barcodeErrors.length > 0 && (
+                                   <FormDescription>
+                                       Not a receptacle ID: {barcodeErrors.map(error => error.message).join(' ')}
+                                   </FormDescription>
+                               )}
                                <FormMessage />
                            </FormItem>
                        )}
@@ -675,11 +771,29 @@ export default function ShipmentDetailForm({
                        </div>
                    </div>
 
+                   <div className="px-6 pb-6 space-y-2 empty:hidden">
+                     <DuplicateDetailWarning
+                       duplicates={duplicates}
+                       allowDuplicateDispatch={allowDuplicateDispatch}
+                       onAllowDuplicateDispatchChange={setAllowDuplicateDispatch}
+                       disabled={isSaving}
+                     />
+                     <PreAdviceNotice
+                       customerId={watchedCustomerId}
+                       item={{
+                         barcode: watchedBarcode,
+                         dispatchNumber: watchedDispatchNumber,
+                         doeId: watchedDoeId,
+                         grossWeight: Number(watchedGrossWeight) || 0,
+                       }}
+                     />
+                   </div>
+
                      <DialogFooter className="p-6 border-t mt-0 sticky bottom-0 bg-card z-10">
                         <DialogClose asChild>
                            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>Cancel</Button>
                         </DialogClose>
-                        <Button type="submit" disabled={isSaving || dropdownsLoading}>
+                        <Button type="submit" disabled={isSaving || dropdownsLoading || duplicates.some(isBlockingDuplicate)}>
                            {isSaving ? (
                                <>
                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
@@ -695,15 +809,7 @@ export default function ShipmentDetailForm({
      <BarcodeScannerDialog
        isOpen={isScannerOpen}
        onClose={() => setIsScannerOpen(false)}
-       onScan={(barcode) => {
-         setValue('barcode', barcode, { shouldValidate: true });
-         const barcodeData = parseBarcode(barcode);
-         if (barcodeData) {
-           setValue('doeId', barcodeData.doe, { shouldValidate: true });
-           setValue('dispatchNumber', barcodeData.dispatchNumber, { shouldValidate: true });
-           setValue('grossWeight', barcodeData.grossWeight, { shouldValidate: true });
-         }
-       }}
+       onScan={applyScannedBarcode}
      />
    </Dialog>
   );
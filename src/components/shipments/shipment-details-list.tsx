@@ -19,13 +19,15 @@ import {
     deleteShipmentDetail,
     deleteShipmentDetailsBatch, // New import
     detailFromFirestore,
+    type DetailSaveOptions,
 } from '@/lib/firebase/shipmentsService';
 import type { ShipmentDetail, ShipmentStatus, DropdownItem } from '@/lib/types';
+import { isShipmentLoadEditable } from '@/lib/shipmentStatus';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from "@/components/ui/checkbox"; // New import
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { PlusCircle, Edit, Trash2, AlertTriangle, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { PlusCircle, Edit, Trash2, AlertTriangle, Loader2, ChevronDown, ChevronUp, ScanBarcode } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import {
   AlertDialog,
@@ -43,6 +45,8 @@ import { getDropdownOptionsMap } from '@/lib/firebase/dropdownService';
 import { SERVICE_FORMAT_MAPPING } from '@/lib/constants';
 import { useQuery, useQueryClient } from '@tanstack/react-query'; // Added useQueryClient
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import ContinuousScanDialog from './continuous-scan-dialog';
+import { useScannerInput } from '@/hooks/use-scanner-input';
 
 const ShipmentDetailForm = dynamic(() => import('./shipment-detail-form'), {
   loading: () => <div className="p-4 text-center"><Loader2 className="h-6 w-6 animate-spin mx-auto" /> Loading form...</div>,
@@ -52,6 +56,7 @@ const ShipmentDetailForm = dynamic(() => import('./shipment-detail-form'), {
 interface ShipmentDetailsListProps {
   shipmentId: string;
   parentStatus: ShipmentStatus;
+  listenForScans?: boolean; // False while scans are used elsewhere on the page, e.g. to verify the load
 }
 
 const fetchAllDropdownMaps = async () => {
@@ -62,19 +67,21 @@ const fetchAllDropdownMaps = async () => {
 
 const ITEMS_TO_SHOW_INITIALLY = 5;
 
-export default function ShipmentDetailsList({ shipmentId, parentStatus }: ShipmentDetailsListProps) {
+export default function ShipmentDetailsList({ shipmentId, parentStatus, listenForScans = true }: ShipmentDetailsListProps) {
   const [details, setDetails] = useState<ShipmentDetail[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingDetail, setEditingDetail] = useState<ShipmentDetail | null>(null);
   const [showAllItems, setShowAllItems] = useState(false);
+  const [isContinuousScanOpen, setIsContinuousScanOpen] = useState(false);
+  const [scannedBarcode, setScannedBarcode] = useState<string | undefined>(undefined);
   const { toast } = useToast();
   const queryClient = useQueryClient(); // For query invalidation
 
   const [selectedDetails, setSelectedDetails] = useState<Record<string, boolean>>({});
 
-  const isParentCompleted = parentStatus === 'Completed';
+  const areItemsLocked = !isShipmentLoadEditable(parentStatus);
 
    const { data: dropdownMaps = {}, isLoading: isLoadingLabels, error: errorLabels } = useQuery({
        queryKey: ['dropdownMapsForAllDetails'],
@@ -137,26 +144,35 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
   }, [details, showAllItems]);
 
   const handleAddDetail = () => {
-    if (isParentCompleted) {
-         toast({ variant: "destructive", title: "Action Denied", description: "Cannot add items to a completed shipment." });
+    if (areItemsLocked) {
+         toast({ variant: "destructive", title: "Action Denied", description: `Cannot add items to a ${parentStatus.toLowerCase()} shipment.` });
          return;
      }
     setEditingDetail(null);
     setIsFormOpen(true);
   };
 
+  // A hardware scan with no item form or scan queue open starts a new item from the code.
+  // The form and the queue listen for scans themselves while they are open.
+  useScannerInput((barcode) => {
+    if (document.querySelector('[role="dialog"], [role="alertdialog"]')) return; // Some other dialog is in use
+    setScannedBarcode(barcode);
+    setEditingDetail(null);
+    setIsFormOpen(true);
+  }, listenForScans && !areItemsLocked && !isLoading && !isFormOpen && !isContinuousScanOpen);
+
   const handleEditDetail = (detail: ShipmentDetail) => {
-     if (isParentCompleted) {
-          toast({ variant: "destructive", title: "Action Denied", description: "Cannot edit items in a completed shipment." });
+     if (areItemsLocked) {
+          toast({ variant: "destructive", title: "Action Denied", description: `Cannot edit items in a ${parentStatus.toLowerCase()} shipment.` });
          return;
      }
     setEditingDetail(detail);
     setIsFormOpen(true);
   };
 
-  const handleSaveDetail = async (data: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'>) => {
-    if (isParentCompleted) {
-        toast({ variant: "destructive", title: "Cannot Save", description: "Shipment is already completed." });
+  const handleSaveDetail = async (data: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'>, options?: DetailSaveOptions) => {
+    if (areItemsLocked) {
+        toast({ variant: "destructive", title: "Cannot Save", description: `Shipment is already ${parentStatus.toLowerCase()}.` });
         setIsFormOpen(false);
         return;
     }
@@ -171,9 +187,9 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
     try {
         let action: Promise<any>;
         if (editingDetail) {
-            action = updateShipmentDetail(shipmentId, editingDetail.id, dataWithNetWeight);
+            action = updateShipmentDetail(shipmentId, editingDetail.id, dataWithNetWeight, options);
         } else {
-            action = addShipmentDetail(shipmentId, dataWithNetWeight);
+            action = addShipmentDetail(shipmentId, dataWithNetWeight, options);
         }
          await action;
          toast({ title: editingDetail ? "Detail Updated" : "Detail Added", description: "Shipment item saved successfully." });
@@ -187,8 +203,8 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
   };
 
   const handleDeleteDetail = async (detailId: string) => {
-     if (isParentCompleted) {
-        toast({ variant: "destructive", title: "Cannot Delete", description: "Cannot delete items from a completed shipment." });
+     if (areItemsLocked) {
+        toast({ variant: "destructive", title: "Cannot Delete", description: `Cannot delete items from a ${parentStatus.toLowerCase()} shipment.` });
         return;
      }
      try {
@@ -202,8 +218,8 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
   };
 
   const handleBatchDelete = async () => {
-    if (isParentCompleted) {
-        toast({ variant: "destructive", title: "Cannot Delete", description: "Cannot delete items from a completed shipment." });
+    if (areItemsLocked) {
+        toast({ variant: "destructive", title: "Cannot Delete", description: `Cannot delete items from a ${parentStatus.toLowerCase()} shipment.` });
         return;
     }
     const idsToDelete = Object.entries(selectedDetails)
@@ -265,7 +281,7 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
             </CardDescription>
         </div>
         <div className="flex gap-2">
-            {numSelected > 0 && !isParentCompleted && (
+            {numSelected > 0 && !areItemsLocked && (
                  <AlertDialog>
                     <AlertDialogTrigger asChild>
                         <Button variant="destructive" size="sm">
@@ -288,14 +304,19 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
                     </AlertDialogContent>
                 </AlertDialog>
             )}
-            {!isParentCompleted && (
-            <Button onClick={handleAddDetail} size="sm" disabled={isParentCompleted || isLoading}>
+            {!areItemsLocked && (
+            <Button onClick={() => setIsContinuousScanOpen(true)} size="sm" variant="outline" disabled={isLoading}>
+                <ScanBarcode className="mr-2 h-4 w-4" /> Continuous Scan
+            </Button>
+            )}
+            {!areItemsLocked && (
+            <Button onClick={handleAddDetail} size="sm" disabled={areItemsLocked || isLoading}>
                 <PlusCircle className="mr-2 h-4 w-4" /> Add Item
             </Button>
             )}
         </div>
-         {isParentCompleted && !isLoading && (
-            <p className="text-sm text-muted-foreground italic">Shipment completed. Items locked.</p>
+         {areItemsLocked && !isLoading && (
+            <p className="text-sm text-muted-foreground italic">Shipment {parentStatus.toLowerCase()}. Items locked.</p>
          )}
       </CardHeader>
       <CardContent>
@@ -329,7 +350,7 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
                         checked={isAllSelected ? true : (isIndeterminate ? "indeterminate" : false)}
                         onCheckedChange={handleSelectAll}
                         aria-label="Select all items"
-                        disabled={isParentCompleted}
+                        disabled={areItemsLocked}
                     />
                   </TableHead>
                   <TableHead>Customer</TableHead>
@@ -345,7 +366,7 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
               </TableHeader>
               <TableBody>
                 {displayedDetails.map((detail) => {
-                  const isDeleteDisabled = isParentCompleted;
+                  const isDeleteDisabled = areItemsLocked;
                   return (
                     <TableRow key={detail.id} data-state={selectedDetails[detail.id] ? "selected" : ""}>
                       <TableCell>
@@ -355,10 +376,13 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
                                 setSelectedDetails(prev => ({...prev, [detail.id]: checked === true}));
                             }}
                             aria-label={`Select item ${detail.id}`}
-                            disabled={isParentCompleted}
+                            disabled={areItemsLocked}
                         />
                       </TableCell>
-                      <TableCell>{getLabel('customers', detail.customerId)}</TableCell>
+                      <TableCell>
+                        {getLabel('customers', detail.customerId)}
+                        {detail.barcode && <div className="font-mono text-xs text-muted-foreground" title="Receptacle barcode">{detail.barcode}</div>}
+                      </TableCell>
                       <TableCell>{getLabel('services', detail.serviceId)}</TableCell>
                       <TableCell>{getFormatLabel(detail.serviceId, detail.formatId)}</TableCell>
                       <TableCell className="text-center">{detail.numPallets}</TableCell>
@@ -367,9 +391,9 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
                       <TableCell className="text-right font-mono">{detail.tareWeight?.toFixed(3) ?? '0.000'}</TableCell>
                       <TableCell className="text-right font-mono font-semibold">{detail.netWeight?.toFixed(3) ?? '0.000'}</TableCell>
                       <TableCell className="text-right">
-                        {!isParentCompleted && (
+                        {!areItemsLocked && (
                            <div className="flex justify-end space-x-1">
-                             <Button variant="ghost" size="icon" onClick={() => handleEditDetail(detail)} title="Edit Item" disabled={isParentCompleted}>
+                             <Button variant="ghost" size="icon" onClick={() => handleEditDetail(detail)} title="Edit Item" disabled={areItemsLocked}>
                                <Edit className="h-4 w-4" />
                                <span className="sr-only">Edit</span>
                              </Button>
@@ -406,7 +430,7 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
                               </AlertDialog>
                            </div>
                         )}
-                        {isParentCompleted && (
+                        {areItemsLocked && (
                             <span className="text-xs text-muted-foreground italic flex justify-end items-center h-full pr-2">Locked</span>
                         )}
                       </TableCell>
@@ -432,9 +456,18 @@ export default function ShipmentDetailsList({ shipmentId, parentStatus }: Shipme
               shipmentId={shipmentId}
               detail={editingDetail}
               isOpen={isFormOpen}
-              onClose={() => setIsFormOpen(false)}
+              onClose={() => { setIsFormOpen(false); setScannedBarcode(undefined); }}
               onSave={handleSaveDetail}
               onOpen={() => setIsFormOpen(true)}
+              initialBarcode={scannedBarcode}
+        />
+      )}
+      {/* Kept mounted while items are editable, so a closed queue is not lost */}
+      {!areItemsLocked && (
+        <ContinuousScanDialog
+              shipmentId={shipmentId}
+              isOpen={isContinuousScanOpen}
+              onClose={() => setIsContinuousScanOpen(false)}
         />
       )}
     </Card>
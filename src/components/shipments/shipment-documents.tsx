@@ -0,0 +1,53 @@
+"use client";
+
+import type { ShipmentDocument, ShipmentDocumentType } from '@/lib/types';
+import { format } from 'date-fns';
+import { FileText } from 'lucide-react';
+
+interface ShipmentDocumentsProps {
+  documents: ShipmentDocument[];
+}
+
+const DOCUMENT_LABELS: Record<ShipmentDocumentType, string> = {
+  preAlert: 'Pre-Alert',
+  cmr: 'CMR',
+  ecmr: 'e-CMR (JSON)',
+};
+
+// Lists every stored version of the shipment's generated PDFs, newest first per type.
+// Versions invalidated by reopening the shipment stay listed, struck through.
+export default function ShipmentDocuments({ documents }: ShipmentDocumentsProps) {
+  const types = (Object.keys(DOCUMENT_LABELS) as ShipmentDocumentType[])
+    .filter(type => documents.some(d => d.type === type));
+  if (types.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {types.map(type => {
+        const versions = documents
+          .filter(d => d.type === type)
+          .sort((a, b) => b.generatedAt.toMillis() - a.generatedAt.toMillis());
+        return (
+          <div key={type}>
+            <p className="font-semibold"><FileText className="inline w-4 h-4 mr-1" />{DOCUMENT_LABELS[type]} ({versions.length})</p>
+            <ul className="ml-5 space-y-0.5">
+              {versions.map((version, index) => (
+                <li key={version.storagePath}>
+                  <a href={version.url} target="_blank" rel="noopener noreferrer" className={version.invalidatedAt ? "text-muted-foreground line-through hover:underline" : "text-primary hover:underline"}>
+                    {version.filename}
+                  </a>
+                  <span className="text-muted-foreground">
+                    {' '}– {format(version.generatedAt.toDate(), "PP p")}
+                    {version.invalidatedAt
+                      ? ` (invalidated ${format(version.invalidatedAt.toDate(), "PP p")})`
+                      : index === 0 ? ' (latest)' : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -6,13 +6,11 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { getDropdownOptions } from '@/lib/firebase/dropdownService';
 import { getAppSettings } from '@/lib/firebase/settingsService'; // Import settings service
-import type { Shipment, DropdownItem, ShipmentStatus, AppSettings } from '@/lib/types';
+import type { Shipment, ShipmentHeader, DropdownItem, ShipmentStatus, AppSettings, CmrData, CmrMoney, CmrPlace } from '@/lib/types';
 import { DEFAULT_SENDER_ADDRESS as FALLBACK_SENDER_ADDRESS, DEFAULT_CONSIGNEE_ADDRESS as FALLBACK_CONSIGNEE_ADDRESS } from '@/lib/constants'; // Renamed for clarity
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Label } // Keep if used directly, FormLabel is preferred within FormField
-from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
@@ -20,13 +18,108 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
-import { CalendarIcon, Save, Loader2 } from 'lucide-react';
+import { CalendarIcon, Save, Loader2, UserPlus } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
 import { Skeleton } from '../ui/skeleton';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getAvailableSeals } from '@/lib/firebase/sealsService';
+import { getVehicles } from '@/lib/firebase/vehiclesService';
+import { findVehicleByPlate, normalizePlate } from '@/lib/vehicles';
+import { getDrivers } from '@/lib/firebase/driversService';
+import { findDriverByName } from '@/lib/drivers';
+import DriverDialog from '@/components/admin/driver-dialog';
 import { Switch } from '../ui/switch';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { defaultCmrData, emptyCmrParty, formatCmrPartyAddress } from '@/lib/documents/cmrData';
+import { isShipmentLoadEditable, SHIPMENT_STATUSES, SHIPMENT_STATUS_BADGE_CLASSES, SHIPMENT_STATUS_TRANSITIONS } from '@/lib/shipmentStatus';
+import CmrPartyFields, { countryCodeSchema, cmrPartyFormSchema, cmrPartyFromFormValues, cmrPartyToFormValues } from './cmr-party-fields';
+
+const cmrPlaceFormSchema = z.object({ place: z.string().default(''), countryCode: countryCodeSchema });
+// Amounts are typed as text so the inputs can be left empty
+const optionalAmountSchema = z.string().trim()
+  .refine(value => value === '' || (!isNaN(Number(value)) && Number(value) >= 0), "Enter a positive number, e.g. 120.50");
+
+// The CMR boxes not already covered by the shipment fields; see CmrData
+const cmrFormSchema = z.object({
+  sender: cmrPartyFormSchema,
+  consignee: cmrPartyFormSchema,
+  carrier: cmrPartyFormSchema,
+  hasSuccessiveCarrier: z.boolean().default(false),
+  successiveCarrier: cmrPartyFormSchema,
+  deliveryPlace: cmrPlaceFormSchema,
+  takingOverPlace: cmrPlaceFormSchema,
+  establishedIn: cmrPlaceFormSchema,
+  documentsAttached: z.string().default(''),
+  statisticalNumber: z.string().default(''),
+  volumeM3: optionalAmountSchema,
+  senderInstructions: z.string().default(''),
+  paymentInstruction: z.enum(['carriage_paid', 'carriage_forward']).default('carriage_paid'),
+  currency: z.string().trim().toUpperCase().refine(value => /^[A-Z]{3}$/.test(value), "Use a three-letter currency code, e.g. GBP."),
+  carriageCharge: optionalAmountSchema,
+  chargesPaidBy: z.enum(['sender', 'consignee']).default('sender'),
+  cashOnDelivery: optionalAmountSchema,
+  carrierReservations: z.string().default(''),
+  specialAgreements: z.string().default(''),
+}).superRefine((cmr, ctx) => {
+  const requireName = (party: 'sender' | 'consignee' | 'successiveCarrier', label: string) => {
+    if (!cmr[party].name.trim()) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [party, 'name'], message: `${label} name is required.` });
+  };
+  requireName('sender', 'Sender');
+  requireName('consignee', 'Consignee');
+  if (cmr.hasSuccessiveCarrier) requireName('successiveCarrier', 'Successive carrier');
+});
+
+type CmrFormValues = z.infer<typeof cmrFormSchema>;
+
+const DEFAULT_CMR_CURRENCY = 'GBP';
+
+const cmrToFormValues = (cmr: CmrData): CmrFormValues => ({
+  sender: cmrPartyToFormValues(cmr.sender),
+  consignee: cmrPartyToFormValues(cmr.consignee),
+  carrier: cmrPartyToFormValues(cmr.carrier),
+  hasSuccessiveCarrier: cmr.successiveCarrier !== null,
+  successiveCarrier: cmrPartyToFormValues(cmr.successiveCarrier ?? emptyCmrParty()),
+  deliveryPlace: cmr.deliveryPlace,
+  takingOverPlace: cmr.takingOverPlace,
+  establishedIn: cmr.establishedIn,
+  documentsAttached: cmr.documentsAttached.join('\n'),
+  statisticalNumber: cmr.statisticalNumber,
+  volumeM3: cmr.volumeM3 !== null ? String(cmr.volumeM3) : '',
+  senderInstructions: cmr.senderInstructions,
+  paymentInstruction: cmr.paymentInstruction,
+  currency: cmr.carriageCharge?.currency ?? cmr.cashOnDelivery?.currency ?? DEFAULT_CMR_CURRENCY,
+  carriageCharge: cmr.carriageCharge ? String(cmr.carriageCharge.amount) : '',
+  chargesPaidBy: cmr.chargesPaidBy,
+  cashOnDelivery: cmr.cashOnDelivery ? String(cmr.cashOnDelivery.amount) : '',
+  carrierReservations: cmr.carrierReservations,
+  specialAgreements: cmr.specialAgreements,
+});
+
+const cmrFromFormValues = (values: CmrFormValues): CmrData => {
+  const money = (amount: string): CmrMoney | null => (amount ? { amount: Number(amount), currency: values.currency } : null);
+  const place = (value: CmrPlace): CmrPlace => ({ place: value.place.trim(), countryCode: value.countryCode });
+  return {
+    sender: cmrPartyFromFormValues(values.sender),
+    consignee: cmrPartyFromFormValues(values.consignee),
+    deliveryPlace: place(values.deliveryPlace),
+    takingOverPlace: place(values.takingOverPlace),
+    documentsAttached: values.documentsAttached.split('\n').map(line => line.trim()).filter(Boolean),
+    statisticalNumber: values.statisticalNumber.trim(),
+    volumeM3: values.volumeM3 ? Number(values.volumeM3) : null,
+    senderInstructions: values.senderInstructions.trim(),
+    paymentInstruction: values.paymentInstruction,
+    cashOnDelivery: money(values.cashOnDelivery),
+    carrier: cmrPartyFromFormValues(values.carrier),
+    successiveCarrier: values.hasSuccessiveCarrier ? cmrPartyFromFormValues(values.successiveCarrier) : null,
+    carrierReservations: values.carrierReservations.trim(),
+    specialAgreements: values.specialAgreements.trim(),
+    carriageCharge: money(values.carriageCharge),
+    chargesPaidBy: values.chargesPaidBy,
+    establishedIn: place(values.establishedIn),
+  };
+};
 
 // Trigger TypeScript re-evaluation after the import statements.
 const shipmentFormSchema = z.object({
@@ -41,12 +134,12 @@ const shipmentFormSchema = z.object({
     required_error: "Arrival date is required.",
     invalid_type_error: "Invalid date format.",
  }).nullable(), // Allow null initially before date selection
-  status: z.enum(['Pending', 'Completed'], { required_error: "Status is required." }).default('Pending'),
+  status: z.enum(SHIPMENT_STATUSES as [ShipmentStatus, ...ShipmentStatus[]], { required_error: "Status is required." }).default('Draft'),
   sealNumber: z.string().min(1, "Seal number is required.").default(''),
   truckRegistration: z.string().min(1, "Truck registration is required.").default(''),
   trailerRegistration: z.string().min(1, "Trailer registration is required.").default(''),
-  senderAddress: z.string().optional().default(FALLBACK_SENDER_ADDRESS),
-  consigneeAddress: z.string().optional().default(FALLBACK_CONSIGNEE_ADDRESS),
+  // Sender and consignee are part of the CMR data; senderAddress/consigneeAddress are derived on save
+  cmr: cmrFormSchema,
 
   // ✅ NEW: include Description of Goods in validation schema (optional with empty default)
   descriptionOfGoods: z.string().optional().default(''),
@@ -64,6 +157,7 @@ type ShipmentFormValues = z.infer<typeof shipmentFormSchema>
 interface ShipmentFormProps {
   isAdmin: boolean;
   initialData?: Shipment | null;
+  templateData?: Partial<ShipmentHeader> | null; // Pre-fills a new shipment from a shipment template
   onSubmit: (data: Partial<Shipment>) => Promise<string | void>;
   isEditing?: boolean;
   shipmentId?: string;
@@ -78,6 +172,7 @@ const fetchInitialAppSettings = () => getAppSettings();
 export default function ShipmentForm({
   isAdmin,
   initialData,
+  templateData,
   onSubmit,
   isEditing: isEditingProp,
   shipmentId: existingShipmentId,
@@ -106,6 +201,23 @@ export default function ShipmentForm({
         staleTime: 5 * 60 * 1000,
         gcTime: 10 * 60 * 1000,
     });
+  // Only seals still in stock are offered; the service re-checks when saving
+  const queryClient = useQueryClient();
+  const { data: availableSeals, isLoading: isLoadingSeals, error: errorSeals } = useQuery({
+      queryKey: ['availableSeals'],
+      queryFn: getAvailableSeals,
+  });
+  const { data: vehicles = [] } = useQuery({
+      queryKey: ['vehicles'],
+      queryFn: getVehicles,
+      staleTime: 5 * 60 * 1000,
+  });
+  const { data: drivers = [] } = useQuery({
+      queryKey: ['drivers'],
+      queryFn: getDrivers,
+      staleTime: 5 * 60 * 1000,
+  });
+  const [isDriverDialogOpen, setIsDriverDialogOpen] = useState(false);
 
   // Fetch app settings for default addresses if creating a new shipment
   useEffect(() => {
@@ -135,12 +247,11 @@ export default function ShipmentForm({
         driverName: '',
         departureDate: new Date(),
         arrivalDate: new Date(new Date().setDate(new Date().getDate() + 1)), // Set to TODAY + 1 as default
-        status: 'Pending',
+        status: 'Draft',
         sealNumber: '',
         truckRegistration: '',
         trailerRegistration: '',
-        senderAddress: FALLBACK_SENDER_ADDRESS,
-        consigneeAddress: FALLBACK_CONSIGNEE_ADDRESS,
+        cmr: cmrToFormValues(defaultCmrData(FALLBACK_SENDER_ADDRESS, FALLBACK_CONSIGNEE_ADDRESS, '')),
 
         // ✅ NEW: default for Description of Goods
         descriptionOfGoods: '',
@@ -150,8 +261,8 @@ export default function ShipmentForm({
    useEffect(() => {
      // Determine default addresses: prioritize initialData, then fetched appSettings, then constants
      console.log("[ShipmentForm] useEffect for reset triggered. initialData:", initialData ? JSON.parse(JSON.stringify(initialData)) : null);
-     const senderAddr = initialData?.senderAddress || appSettings?.defaultSenderAddress || FALLBACK_SENDER_ADDRESS;
-     const consigneeAddr = initialData?.consigneeAddress || appSettings?.defaultConsigneeAddress || FALLBACK_CONSIGNEE_ADDRESS;
+     const senderAddr = initialData?.senderAddress || templateData?.senderAddress || appSettings?.defaultSenderAddress || FALLBACK_SENDER_ADDRESS;
+     const consigneeAddr = initialData?.consigneeAddress || templateData?.consigneeAddress || appSettings?.defaultConsigneeAddress || FALLBACK_CONSIGNEE_ADDRESS;
 
      if (initialData) {
         formHook.reset({
@@ -160,46 +271,61 @@ export default function ShipmentForm({
             driverName: initialData.driverName ?? '',
             departureDate: initialData.departureDate?.toDate() ?? new Date(),
             arrivalDate: initialData.arrivalDate?.toDate() ?? null, // Initialize with null if no initial data date
-            status: initialData.status || 'Pending', // Default to Pending if status is somehow missing
+            status: initialData.status || 'Draft',
             sealNumber: initialData.sealNumber ?? '',
             truckRegistration: initialData.truckRegistration ?? '',
             trailerRegistration: initialData.trailerRegistration ?? '',
-            senderAddress: senderAddr, // Use determined senderAddr
-            consigneeAddress: consigneeAddr, // Use determined consigneeAddr
+            // Shipments saved before the CMR data existed start from their free-text addresses
+            cmr: cmrToFormValues(initialData.cmr ?? defaultCmrData(senderAddr, consigneeAddr, '')),
             descriptionOfGoods: initialData.descriptionOfGoods ?? '', // Populate from initialData
        });
      } else if (!isLoadingAppSettings) { // For new forms, only reset after app settings are loaded (or failed to load)
         formHook.reset({
-            carrierId: '',
-            subcarrierId: '',
-            driverName: '',
+            carrierId: templateData?.carrierId ?? '',
+            subcarrierId: templateData?.subcarrierId ?? '',
+            driverName: templateData?.driverName ?? '',
             departureDate: new Date(),
             arrivalDate: new Date(new Date().setDate(new Date().getDate() + 1)), // Set to TODAY + 1 as default
-            status: 'Pending',
+            status: 'Draft',
             sealNumber: '',
-            truckRegistration: '',
-            trailerRegistration: '',
-            senderAddress: senderAddr, // Use determined senderAddr
-            consigneeAddress: consigneeAddr, // Use determined consigneeAddr
-            descriptionOfGoods: '', // Default for new shipments
+            truckRegistration: templateData?.truckRegistration ?? '',
+            trailerRegistration: templateData?.trailerRegistration ?? '',
+            cmr: cmrToFormValues(templateData?.cmr ?? defaultCmrData(senderAddr, consigneeAddr, '')),
+            descriptionOfGoods: templateData?.descriptionOfGoods ?? '', // Default for new shipments
         });
      }
  formHook.clearErrors(); // Clear any lingering errors after reset
      console.log("[ShipmentForm] useEffect for reset completed. Current form values:", formHook.getValues());
      console.log(`[ShipmentForm] Form reset complete. descriptionOfGoods value after reset: ${formHook.getValues('descriptionOfGoods')}`);
-   }, [initialData, formHook.reset, appSettings, isLoadingAppSettings, formHook]);
+   }, [initialData, templateData, formHook.reset, appSettings, isLoadingAppSettings, formHook]);
     console.log("[ShipmentForm] initialData prop received:", initialData ? JSON.parse(JSON.stringify(initialData)) : null);
 
   useEffect(() => {
     console.log(`[ShipmentForm] Current form state descriptionOfGoods: ${formHook.getValues('descriptionOfGoods')}`);
   }, [formHook.formState.isSubmitted, initialData, formHook.getValues, formHook]); // Add formHook.getValues to dependencies
+  // Name the CMR carrier after the selected carrier, unless it was typed in by hand
+  const selectedCarrierId = formHook.watch('carrierId');
+  useEffect(() => {
+    const option = carrierOptions?.find(o => o.value === selectedCarrierId);
+    const currentName = formHook.getValues('cmr.carrier.name');
+    if (option && (!currentName || carrierOptions?.some(o => o.label === currentName))) {
+      formHook.setValue('cmr.carrier.name', option.label);
+    }
+  }, [selectedCarrierId, carrierOptions, formHook]);
+
+  // Suggest the selected carrier's active vehicles; other plates can still be typed in
+  const carrierVehicles = vehicles.filter(vehicle => vehicle.active && (!selectedCarrierId || vehicle.carrierId === selectedCarrierId));
+  const carrierDrivers = drivers.filter(driver => driver.active && !driver.erasedAt && (!selectedCarrierId || driver.carrierId === selectedCarrierId));
+
   const handleFormSubmit = async (data: ShipmentFormValues) => {
     setIsSubmitting(true);
     // Note: Item details (pallet/bag numbers) are handled in a separate section/component
     try {
+        const cmr = cmrFromFormValues(data.cmr);
         const shipmentDataToSave: Partial<Shipment> = { // Explicitly list properties for clarity and type safety
  carrierId: data.carrierId,
  subcarrierId: data.subcarrierId ?? null, // Send null if empty string or undefined from form
+ driverId: findDriverByName(drivers, data.driverName, data.carrierId)?.id ?? null,
  driverName: data.driverName,
  departureDate: Timestamp.fromDate(new Date(data.departureDate)),
  // Ensure arrivalDate is only set if it's not null/undefined
@@ -208,14 +334,19 @@ export default function ShipmentForm({
  sealNumber: data.sealNumber,
  truckRegistration: data.truckRegistration,
  trailerRegistration: data.trailerRegistration || undefined,
- senderAddress: data.senderAddress || undefined,
- consigneeAddress: data.consigneeAddress || undefined,
+ // References to the registered vehicles; the plates above stay as the snapshot printed on documents
+ truckId: findVehicleByPlate(vehicles, 'truck', data.truckRegistration, data.carrierId)?.id ?? null,
+ trailerId: findVehicleByPlate(vehicles, 'trailer', data.trailerRegistration, data.carrierId)?.id ?? null,
+ senderAddress: formatCmrPartyAddress(cmr.sender),
+ consigneeAddress: formatCmrPartyAddress(cmr.consignee),
+ cmr,
  descriptionOfGoods: data.descriptionOfGoods || '', // Explicitly include with fallback
         };
 
         console.log(`[ShipmentForm] Data being submitted descriptionOfGoods: ${data.descriptionOfGoods}`);
         console.log('[ShipmentForm] Data being sent to onSubmit:', shipmentDataToSave);
         const resultId = await onSubmit(shipmentDataToSave);
+        queryClient.invalidateQueries({ queryKey: ['availableSeals'] });
 
         if (onSaveSuccess) {
             onSaveSuccess(typeof resultId === 'string' ? resultId : existingShipmentId || '');
@@ -231,8 +362,16 @@ export default function ShipmentForm({
   // Combine loading states for disabling the form
   const dropdownsLoading = isLoadingCarriers || isLoadingSubcarriers || isLoadingAppSettings;
   const formDisabled = !isEffectivelyEditing || isSubmitting || dropdownsLoading;
+  // A sealed (or later) shipment is locked: only its status can change until an admin reopens it
+  const isLocked = !!initialData && !isShipmentLoadEditable(initialData.status);
+  const fieldsDisabled = formDisabled || isLocked;
+  // The saved status and the ones the state machine allows next; a new shipment starts as Draft or Loading
+  const statusOptions: ShipmentStatus[] = initialData
+    ? [initialData.status, ...SHIPMENT_STATUS_TRANSITIONS[initialData.status]]
+    : ['Draft', 'Loading'];
 
   return (
+    <>
     <Form {...formHook}>
       <form onSubmit={formHook.handleSubmit(handleFormSubmit)} className="space-y-8">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-8">
@@ -246,7 +385,7 @@ export default function ShipmentForm({
                     <Select
                         onValueChange={field.onChange}
                         value={field.value || ""}
-                        disabled={formDisabled || !!errorCarriers}
+                        disabled={fieldsDisabled || !!errorCarriers}
                     >
                     <FormControl>
                         <SelectTrigger>
@@ -278,7 +417,7 @@ export default function ShipmentForm({
                     <Select
                         onValueChange={field.onChange}
                         value={field.value || ""} // Ensures field.value is never undefined for Select
-                        disabled={formDisabled || !!errorSubcarriers}
+                        disabled={fieldsDisabled || !!errorSubcarriers}
                     >
                     <FormControl>
                         <SelectTrigger>
@@ -307,17 +446,26 @@ export default function ShipmentForm({
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Driver Name</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder="Enter driver&apos;s name"
-                    {...field}
-                    value={field.value || ''}
-                    onChange={(e) => {
-                      field.onChange(e.target.value.toUpperCase());
-                    }}
-                    disabled={formDisabled}
-                  />
-                </FormControl>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input
+                      placeholder="Enter driver&apos;s name"
+                      {...field}
+                      value={field.value || ''}
+                      list="carrier-drivers"
+                      onChange={(e) => {
+                        field.onChange(e.target.value.toUpperCase());
+                      }}
+                      disabled={fieldsDisabled}
+                    />
+                  </FormControl>
+                  <Button type="button" variant="outline" size="icon" onClick={() => setIsDriverDialogOpen(true)} disabled={fieldsDisabled} aria-label="Register a new driver">
+                    <UserPlus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <datalist id="carrier-drivers">
+                  {carrierDrivers.map(driver => <option key={driver.id} value={driver.name}>{driver.phone}</option>)}
+                </datalist>
                 <FormMessage />
               </FormItem>
             )}
@@ -327,24 +475,22 @@ export default function ShipmentForm({
             control={formHook.control}
             name="status"
             render={({ field }) => (
-              <FormItem className="flex flex-col pt-2 md:pt-0 md:justify-end">
-                <div className="flex items-center justify-between space-x-2"> {/* Use flex to align items */}
-                    <FormLabel className='mb-2'>Status</FormLabel>
-                    <div className='flex items-center space-x-2 pt-2'>
-                        <FormControl>
-                            <Switch
-                                id="status-switch"
-                                checked={field.value === 'Completed'}
-                                onCheckedChange={(checked) => field.onChange(checked ? 'Completed' : 'Pending')}
-                                disabled={formDisabled}
-                                aria-readonly={formDisabled || (initialData?.status === 'Completed' && !isAdmin)}
-                            />
-                        </FormControl>
-                        <Label htmlFor="status-switch" className={cn("font-semibold", field.value === 'Completed' ? "text-green-600" : "text-amber-600")}>
-                            {field.value}
-                        </Label>
-                    </div>
-                </div>
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={formDisabled || statusOptions.length < 2}>
+                  <FormControl>
+                    <SelectTrigger className={cn("font-semibold", SHIPMENT_STATUS_BADGE_CLASSES[field.value])}>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {statusOptions.map(status => (
+                      <SelectItem key={status} value={status}>{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isLocked && <p className="text-xs text-muted-foreground">This shipment is locked. Only its status can change until an admin reopens it.</p>}
+                <FormMessage />
               </FormItem>
             )}
           />
@@ -364,7 +510,7 @@ export default function ShipmentForm({
                           "w-full pl-3 text-left font-normal",
                           !field.value && "text-muted-foreground"
                         )}
-                         disabled={formDisabled}
+                         disabled={fieldsDisabled}
                       >
                         {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
                         <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
@@ -376,7 +522,7 @@ export default function ShipmentForm({
                       mode="single"
                       selected={field.value}
                       onSelect={field.onChange}
-                      disabled={(date) => date < new Date("2000-01-01") || formDisabled}
+                      disabled={(date) => date < new Date("2000-01-01") || fieldsDisabled}
                       initialFocus
                     />
                   </PopoverContent>
@@ -401,7 +547,7 @@ export default function ShipmentForm({
                           "w-full pl-3 text-left font-normal",
                           !field.value && "text-muted-foreground"
                         )}
-                         disabled={formDisabled}
+                         disabled={fieldsDisabled}
                       >
                         {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
                         <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
@@ -414,7 +560,7 @@ export default function ShipmentForm({
                       selected={field.value ?? undefined}
                       onSelect={field.onChange}
                        disabled={(date) =>
-                         (formHook.getValues("departureDate") && date < formHook.getValues("departureDate")) || formDisabled
+                         (formHook.getValues("departureDate") && date < formHook.getValues("departureDate")) || fieldsDisabled
                        }
                       initialFocus
                     />
@@ -431,9 +577,25 @@ export default function ShipmentForm({
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Seal Number</FormLabel>
-               <FormControl>
-                 <Input placeholder="Enter seal number" {...field} value={field.value || ''} onChange={(e) => field.onChange(e.target.value.toUpperCase())} disabled={formDisabled} />
-               </FormControl>
+                {isLoadingSeals ? <Skeleton className="h-10 w-full" /> :
+                  <Select onValueChange={field.onChange} value={field.value || ''} disabled={fieldsDisabled || !!errorSeals}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={availableSeals?.length ? "Select a seal in stock" : "No seals in stock"} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {/* The shipment's own seal is no longer in stock, but stays selectable */}
+                      {field.value && !availableSeals?.some(seal => seal.number === field.value) && (
+                        <SelectItem value={field.value}>{field.value}</SelectItem>
+                      )}
+                      {availableSeals?.map(seal => (
+                        <SelectItem key={seal.id} value={seal.number}>{seal.number}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                }
+                {errorSeals && <FormMessage>Error loading seals.</FormMessage>}
                 <FormMessage />
               </FormItem>
             )}
@@ -446,11 +608,14 @@ export default function ShipmentForm({
               <FormItem>
                 <FormLabel>Truck Reg #</FormLabel>
                  <FormControl>
-                  <Input placeholder="Enter truck registration" {...field} value={field.value || ''}
-                   onChange={(e) => field.onChange(e.target.value.toUpperCase())}
-                   disabled={formDisabled}
+                  <Input placeholder="Enter truck registration" {...field} value={field.value || ''} list="truck-plates"
+                   onChange={(e) => field.onChange(normalizePlate(e.target.value))}
+                   disabled={fieldsDisabled}
                   />
                  </FormControl>
+                <datalist id="truck-plates">
+                  {carrierVehicles.filter(vehicle => vehicle.type === 'truck').map(vehicle => <option key={vehicle.id} value={vehicle.plate}>{vehicle.countryCode}</option>)}
+                </datalist>
                 <FormMessage />
               </FormItem>
             )}
@@ -463,46 +628,19 @@ export default function ShipmentForm({
               <FormItem>
                 <FormLabel>Trailer Reg #</FormLabel>
                 <FormControl>
-                 <Input placeholder="Enter trailer registration" {...field} value={field.value || ''}
-                 onChange={(e) => field.onChange(e.target.value.toUpperCase())}
-                 disabled={formDisabled}
+                 <Input placeholder="Enter trailer registration" {...field} value={field.value || ''} list="trailer-plates"
+                 onChange={(e) => field.onChange(normalizePlate(e.target.value))}
+                 disabled={fieldsDisabled}
                   />
                 </FormControl>
+                <datalist id="trailer-plates">
+                  {carrierVehicles.filter(vehicle => vehicle.type === 'trailer').map(vehicle => <option key={vehicle.id} value={vehicle.plate}>{vehicle.countryCode}</option>)}
+                </datalist>
                 <FormMessage />
               </FormItem>
             )}
           />
 
-          <FormField
-              control={formHook.control}
-              name="senderAddress"
-              render={({ field }) => (
-                <FormItem className="md:col-span-2">
-                  <FormLabel>Sender Address {isAdmin ? "" : "(View only)"}</FormLabel>
-                  <FormControl>
-                    <Textarea placeholder="Enter sender address" {...field} value={field.value || ''} disabled={formDisabled || !isAdmin} rows={3} />
-                  </FormControl>
-                   {!isAdmin && <p className="text-xs text-muted-foreground">Default address. Only editable by Admins.</p>}
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-          <FormField
-              control={formHook.control}
-              name="consigneeAddress"
-              render={({ field }) => (
-                <FormItem className="md:col-span-2">
-                  <FormLabel>Consignee Address {isAdmin ? "" : "(View only)"}</FormLabel>
-                  <FormControl>
-                    <Textarea placeholder="Enter consignee address" {...field} value={field.value || ''} disabled={formDisabled || !isAdmin} rows={3} />
-                  </FormControl>
-                   {!isAdmin && <p className="text-xs text-muted-foreground">Default address. Only editable by Admins.</p>}
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
           <FormField
               control={formHook.control}
               name="descriptionOfGoods"
@@ -510,7 +648,7 @@ export default function ShipmentForm({
                 <FormItem className="md:col-span-2">
                   <FormLabel>Description of Goods {isAdmin ? "" : "(View only)"}</FormLabel>
                   <FormControl>
-                    <Textarea placeholder="Enter description of goods (e.g., cross border eCommerce B2C parcels)" {...field} value={field.value || ''} disabled={formDisabled || !isAdmin} rows={3} />
+                    <Textarea placeholder="Enter description of goods (e.g., cross border eCommerce B2C parcels)" {...field} value={field.value || ''} disabled={fieldsDisabled || !isAdmin} rows={3} />
                   </FormControl>
  {!isAdmin && <p className="text-xs text-muted-foreground">Only editable by Admins.</p>}
                 <FormMessage />
@@ -519,6 +657,180 @@ export default function ShipmentForm({
           />
         </div>
 
+        {/* Structured consignment note data, printed on the CMR and exported as the e-CMR */}
+        <Accordion type="multiple" defaultValue={['cmr-parties']} className="border rounded-md px-4">
+          <AccordionItem value="cmr-parties">
+            <AccordionTrigger>CMR Parties</AccordionTrigger>
+            <AccordionContent className="space-y-4">
+              {!isAdmin && <p className="text-xs text-muted-foreground">Sender and consignee default from the settings and are only editable by Admins.</p>}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <CmrPartyFields control={formHook.control} name="cmr.sender" title="1 Sender" disabled={fieldsDisabled || !isAdmin} />
+                <CmrPartyFields control={formHook.control} name="cmr.consignee" title="2 Consignee" disabled={fieldsDisabled || !isAdmin} />
+                <CmrPartyFields control={formHook.control} name="cmr.carrier" title="16 Carrier" disabled={fieldsDisabled} />
+                <div className="space-y-3">
+                  <FormField
+                    control={formHook.control}
+                    name="cmr.hasSuccessiveCarrier"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} disabled={fieldsDisabled} />
+                        </FormControl>
+                        <FormLabel>Successive carrier</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  {formHook.watch('cmr.hasSuccessiveCarrier') && (
+                    <CmrPartyFields control={formHook.control} name="cmr.successiveCarrier" title="17 Successive Carrier" disabled={fieldsDisabled} />
+                  )}
+                </div>
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="cmr-places">
+            <AccordionTrigger>CMR Places &amp; Documents</AccordionTrigger>
+            <AccordionContent className="space-y-4">
+              {([
+                ['cmr.deliveryPlace', '3 Place of Delivery', 'Date: arrival date'],
+                ['cmr.takingOverPlace', '4 Place of Taking Over', 'Date: departure date'],
+                ['cmr.establishedIn', '21 Established In', 'Date: departure date'],
+              ] as const).map(([name, label, dateHint]) => (
+                <div key={name} className="grid grid-cols-3 gap-3 items-start">
+                  <FormField
+                    control={formHook.control}
+                    name={`${name}.place`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>{label} <span className="text-xs text-muted-foreground">({dateHint})</span></FormLabel>
+                        <FormControl>
+                          <Input placeholder="Town" {...field} value={field.value ?? ''} disabled={fieldsDisabled} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={formHook.control}
+                    name={`${name}.countryCode`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Country</FormLabel>
+                        <FormControl>
+                          <Input placeholder="GB" {...field} value={field.value ?? ''} disabled={fieldsDisabled} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+              <FormField
+                control={formHook.control}
+                name="cmr.documentsAttached"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>5 Documents Attached</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="One document per line, e.g. Pre-Alert" {...field} value={field.value ?? ''} disabled={fieldsDisabled} rows={2} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </AccordionContent>
+          </AccordionItem>
+
+          <AccordionItem value="cmr-instructions">
+            <AccordionTrigger>CMR Goods, Charges &amp; Instructions</AccordionTrigger>
+            <AccordionContent className="space-y-4">
+              <p className="text-xs text-muted-foreground">Marks, packages, packing and gross weight (boxes 6-9 and 11) come from the seal number, description and shipment details.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {([
+                  ['cmr.statisticalNumber', '10 Statistical Number', 'e.g. HS code'],
+                  ['cmr.volumeM3', '12 Volume (m³)', 'Optional'],
+                  ['cmr.currency', 'Currency', 'GBP'],
+                  ['cmr.carriageCharge', '20 Carriage Charges', 'Optional'],
+                  ['cmr.cashOnDelivery', '15 Cash on Delivery', 'Optional'],
+                ] as const).map(([name, label, placeholder]) => (
+                  <FormField
+                    key={name}
+                    control={formHook.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input placeholder={placeholder} {...field} value={field.value ?? ''} disabled={fieldsDisabled} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <FormField
+                  control={formHook.control}
+                  name="cmr.chargesPaidBy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>20 Charges Paid By</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={fieldsDisabled}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="sender">Sender</SelectItem>
+                          <SelectItem value="consignee">Consignee</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={formHook.control}
+                  name="cmr.paymentInstruction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>14 Payment for Carriage</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={fieldsDisabled}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="carriage_paid">Carriage paid</SelectItem>
+                          <SelectItem value="carriage_forward">Carriage forward</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {([
+                ['cmr.senderInstructions', "13 Sender's Instructions", 'Customs and other formalities'],
+                ['cmr.carrierReservations', "18 Carrier's Reservations", 'Reservations and observations'],
+                ['cmr.specialAgreements', '19 Special Agreements', 'Optional'],
+              ] as const).map(([name, label, placeholder]) => (
+                <FormField
+                  key={name}
+                  control={formHook.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder={placeholder} {...field} value={field.value ?? ''} disabled={fieldsDisabled} rows={2} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+
          {isEffectivelyEditing && (
             <div className="flex justify-end pt-6 border-t mt-8">
              <Button type="submit" disabled={formDisabled || isSubmitting}>
@@ -543,5 +855,14 @@ export default function ShipmentForm({
          )}
       </form>
     </Form>
+    {/* Quick-add of a driver missing from the registry; outside the form so its submit stays its own */}
+    <DriverDialog
+      isOpen={isDriverDialogOpen}
+      onClose={() => setIsDriverDialogOpen(false)}
+      driver={null}
+      defaults={{ name: formHook.getValues('driverName'), carrierId: selectedCarrierId }}
+      onSaved={(driver) => formHook.setValue('driverName', driver.name, { shouldValidate: true })}
+    />
+    </>
   );
 }
\ No newline at end of file
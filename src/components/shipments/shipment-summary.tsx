@@ -8,8 +8,13 @@ import { format } from 'date-fns';
 import type { Timestamp } from 'firebase/firestore';
 import { useQuery } from '@tanstack/react-query';
 import { getDropdownOptionsMap } from '@/lib/firebase/dropdownService'; // Using a local alias for this file
-import { Truck } from 'lucide-react';
+import { getWeightBuckets } from '@/lib/firebase/settingsService';
+import { DEFAULT_WEIGHT_BUCKETS } from '@/lib/constants';
+import { getNetWeightBreakdown } from '@/lib/utils';
+import { SHIPMENT_STATUS_BADGE_CLASSES } from '@/lib/shipmentStatus';
+import { Truck, Mail } from 'lucide-react';
 import { Skeleton } from '../ui/skeleton';
+import ShipmentDocuments from './shipment-documents';
 
 interface ShipmentSummaryProps {
   shipment: Shipment;
@@ -25,6 +30,16 @@ const formatDateForSummary = (timestamp: Timestamp | undefined): string => {
   }
 };
 
+const formatDateTimeForSummary = (timestamp: Timestamp | undefined): string => {
+  if (!timestamp) return 'N/A';
+  try {
+    return format(timestamp.toDate(), "PPp");
+  } catch (error) {
+    console.error("Error formatting date for summary:", error);
+    return 'Invalid Date';
+  }
+};
+
 export default function ShipmentSummary({ shipment }: ShipmentSummaryProps) {
   const { data: dropdownMaps, isLoading: isLoadingMaps } = useQuery({
     queryKey: ['dropdownMapsForSummary', shipment.carrierId, shipment.subcarrierId],
@@ -32,6 +47,11 @@ export default function ShipmentSummary({ shipment }: ShipmentSummaryProps) {
     staleTime: 15 * 60 * 1000, // 15 minutes
     gcTime: 30 * 60 * 1000,
   });
+  const { data: weightBuckets = DEFAULT_WEIGHT_BUCKETS } = useQuery({
+    queryKey: ['weightBuckets'],
+    queryFn: getWeightBuckets,
+    staleTime: 15 * 60 * 1000,
+  });
 
   const getLabel = (collectionId: string, value: string | undefined | null, defaultValue: string = 'N/A'): string => {
     if (!value) return defaultValue;
@@ -39,14 +59,17 @@ export default function ShipmentSummary({ shipment }: ShipmentSummaryProps) {
     return dropdownMaps[collectionId]?.[value] || value;
   };
 
+  const lastEmailAttempt = shipment.emailAttempts?.length
+    ? shipment.emailAttempts[shipment.emailAttempts.length - 1]
+    : undefined;
+
   const carrierLabel = getLabel('carriers', shipment.carrierId);
   const subcarrierLabel = shipment.subcarrierId ? getLabel('subcarriers', shipment.subcarrierId) : '';
 
   return (
     <div className="space-y-3 text-sm">
       <div className="flex justify-between items-start">
-        <Badge variant={shipment.status === 'Completed' ? 'default' : 'secondary'}
-               className={`text-xs px-2 py-0.5 ${shipment.status === 'Completed' ? 'bg-green-100 text-green-700 border-green-200' : 'bg-amber-100 text-amber-700 border-amber-200'}`}>
+        <Badge variant="outline" className={`text-xs px-2 py-0.5 ${SHIPMENT_STATUS_BADGE_CLASSES[shipment.status]}`}>
           Status: {shipment.status}
         </Badge>
       </div>
@@ -57,13 +80,38 @@ export default function ShipmentSummary({ shipment }: ShipmentSummaryProps) {
         <p><span className="font-semibold">Driver:</span> {shipment.driverName || 'N/A'}</p>
         <p><span className="font-semibold">Departure:</span> {formatDateForSummary(shipment.departureDate)}</p>
         <p><span className="font-semibold">Arrival:</span> {formatDateForSummary(shipment.arrivalDate)}</p>
-        {shipment.otherNetWeight !== undefined && shipment.otherNetWeight !== null && (
- <p><span className="font-semibold"><Truck className="inline w-4 h-4 mr-1" />Other Net Weight:</span> {shipment.otherNetWeight} kg</p>
- )}
-        {shipment.asendiaACNet !== undefined && shipment.asendiaACNet !== null && (
- <p><span className="font-semibold"><Truck className="inline w-4 h-4 mr-1" />Asendia A/C Net:</span> {shipment.asendiaACNet} kg</p>
- )}
+        {getNetWeightBreakdown(shipment, weightBuckets).map((row) => (
+          <p key={row.id}><span className="font-semibold"><Truck className="inline w-4 h-4 mr-1" />{row.label} Net:</span> {row.netWeight.toFixed(2)} kg</p>
+        ))}
+        {lastEmailAttempt && (
+          <p className="sm:col-span-2">
+            <span className="font-semibold"><Mail className="inline w-4 h-4 mr-1" />Documents Email:</span>{' '}
+            {lastEmailAttempt.status === 'sent'
+              ? <span className="text-green-700">Sent to {lastEmailAttempt.recipients.join(', ')}</span>
+              : <span className="text-destructive">Failed: {lastEmailAttempt.error || 'Unknown error'}</span>}
+            {' '}({formatDateForSummary(lastEmailAttempt.attemptedAt)})
+          </p>
+        )}
       </div>
+
+      {shipment.statusHistory && shipment.statusHistory.length > 0 && (
+        <div className="border-t pt-2">
+          <p className="font-semibold mb-1">Status History</p>
+          <ul className="space-y-0.5 text-xs text-muted-foreground">
+            {shipment.statusHistory.map((change, index) => (
+              <li key={index}>
+                {change.from ? `${change.from} → ${change.to}` : `Created as ${change.to}`}
+                {' '}by {change.byEmail || change.by} on {formatDateTimeForSummary(change.at)}
+                {change.reason && <>: <span className="italic">{change.reason}</span></>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {shipment.documents && shipment.documents.length > 0 && (
+        <ShipmentDocuments documents={shipment.documents} />
+      )}
     </div>
   );
 }
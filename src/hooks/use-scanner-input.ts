@@ -0,0 +1,50 @@
+"use client"
+
+import * as React from "react"
+
+// Handheld USB/Bluetooth scanners type a whole code, a few milliseconds per key,
+// then press Enter. People rarely keep up one key every 50 ms for a whole code.
+const SCANNER_MAX_KEY_INTERVAL_MS = 50
+const SCANNER_MIN_LENGTH = 6
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+/**
+ * Calls onScan with each code typed by a keyboard-wedge scanner anywhere on the
+ * page, without a field having focus. Keys typed into a field are left to it.
+ */
+export function useScannerInput(onScan: (code: string) => void, enabled = true) {
+  // Read through a ref, so a new onScan from each render does not re-register the listener
+  const onScanRef = React.useRef(onScan)
+  onScanRef.current = onScan
+
+  React.useEffect(() => {
+    if (!enabled) return
+    let buffer = ""
+    let lastKeyAt = 0
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isEditable(event.target) || event.ctrlKey || event.altKey || event.metaKey) {
+        buffer = ""
+        return
+      }
+      if (event.key !== "Enter" && event.key.length !== 1) return // Shift and other modifiers
+      const isBurst = event.timeStamp - lastKeyAt <= SCANNER_MAX_KEY_INTERVAL_MS
+      lastKeyAt = event.timeStamp
+      if (event.key === "Enter") {
+        if (isBurst && buffer.length >= SCANNER_MIN_LENGTH) {
+          event.preventDefault() // Not a click on whatever button has focus
+          onScanRef.current(buffer)
+        }
+        buffer = ""
+        return
+      }
+      buffer = isBurst ? buffer + event.key : event.key
+    }
+
+    document.addEventListener("keydown", onKeyDown, true)
+    return () => document.removeEventListener("keydown", onKeyDown, true)
+  }, [enabled])
+}
@@ -0,0 +1,161 @@
+import type { BarcodeFieldRule, BarcodeRule, BarcodeRuleField, ReceptacleIdentity } from '@/lib/types';
+
+export const BARCODE_RULE_FIELDS: { key: BarcodeRuleField; label: string }[] = [
+  { key: 'doe', label: 'DOE' },
+  { key: 'dispatchNumber', label: 'Dispatch Number' },
+  { key: 'grossWeight', label: 'Gross Weight' },
+];
+
+const fieldRule = (rule: Partial<BarcodeFieldRule>): BarcodeFieldRule => ({
+  segment: null,
+  start: 0,
+  length: null,
+  stripZeros: false,
+  divideBy: null,
+  ...rule,
+});
+
+// The formats scanning understood before rules could be configured. Used while
+// /barcode_rules is empty, and offered to admins as a starting point.
+export const DEFAULT_BARCODE_RULES: BarcodeRule[] = [
+  {
+    id: 'hyphenated',
+    name: 'Hyphenated segments',
+    pattern: '^[^-]*(-[^-]*){8,}$',
+    separator: '-',
+    priority: 10,
+    active: true,
+    fields: {
+      doe: fieldRule({ segment: 2, start: -2 }),
+      dispatchNumber: fieldRule({ segment: 4, stripZeros: true }),
+      grossWeight: fieldRule({ segment: 8, divideBy: 10 }),
+    },
+  },
+  {
+    id: 'compact',
+    name: 'Last 15 characters',
+    pattern: '^[^-]{15,}$',
+    separator: '',
+    priority: 20,
+    active: true,
+    fields: {
+      doe: fieldRule({ start: -15, length: 2 }),
+      dispatchNumber: fieldRule({ start: -13, length: 3, stripZeros: true }),
+      grossWeight: fieldRule({ start: -3, length: 3, divideBy: 10 }),
+    },
+  },
+];
+
+/**
+ * The rules scanning uses: the active configured rules, lowest priority
+ * first, or the built-in rules while none are configured.
+ * @param rules The rules in /barcode_rules.
+ * @returns The rules to try, in order.
+ */
+export const effectiveBarcodeRules = (rules: BarcodeRule[]): BarcodeRule[] =>
+  (rules.length > 0 ? rules : DEFAULT_BARCODE_RULES)
+    .filter(rule => rule.active)
+    .sort((a, b) => a.priority - b.priority);
+
+export const isValidBarcodePattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface BarcodeFieldTrace {
+  field: BarcodeRuleField;
+  raw: string | null; // The characters read, before the transforms
+  value: string | number | null;
+  error?: string;
+}
+
+// How one rule read a barcode, for the admin test bench
+export interface BarcodeRuleTrace {
+  rule: BarcodeRule;
+  matched: boolean; // The barcode matched the rule's pattern
+  error?: string; // Why the rule could not be applied at all
+  fields: BarcodeFieldTrace[];
+  identity: ReceptacleIdentity | null; // Set when every field was read
+}
+
+// The characters a field rule selects, or null when the barcode is too short for it
+const readField = (barcode: string, separator: string, rule: BarcodeFieldRule): string | null => {
+  let source = barcode;
+  if (rule.segment !== null) {
+    const segments = separator ? barcode.split(separator) : [barcode];
+    if (rule.segment < 0 || rule.segment >= segments.length) return null;
+    source = segments[rule.segment];
+  }
+  const start = rule.start < 0 ? source.length + rule.start : rule.start;
+  if (start < 0 || start >= source.length) return null;
+  const value = rule.length === null ? source.slice(start) : source.slice(start, start + rule.length);
+  if (rule.length !== null && value.length < rule.length) return null;
+  return value;
+};
+
+const traceField = (barcode: string, separator: string, field: BarcodeRuleField, rule: BarcodeFieldRule): BarcodeFieldTrace => {
+  const raw = readField(barcode, separator, rule);
+  if (raw === null) {
+    return { field, raw, value: null, error: rule.segment !== null ? `There is no segment ${rule.segment} or it is too short.` : "The barcode is too short." };
+  }
+  let text = raw.trim();
+  if (rule.stripZeros) text = text.replace(/^0+(?=.)/, '');
+  if (field === 'grossWeight') {
+    const weight = Number(text);
+    if (text === '' || !Number.isFinite(weight)) return { field, raw, value: null, error: `"${raw}" is not a number.` };
+    return { field, raw, value: rule.divideBy ? weight / rule.divideBy : weight };
+  }
+  if (field === 'dispatchNumber' && !/^[0-9]+$/.test(text)) {
+    return { field, raw, value: null, error: `"${raw}" is not a dispatch number.` };
+  }
+  if (!text) return { field, raw, value: null, error: "Nothing was read." };
+  return { field, raw, value: text };
+};
+
+/**
+ * Applies one rule to a barcode, recording what each field read.
+ * @param rule The rule.
+ * @param barcode The barcode as scanned or typed.
+ * @returns The trace, with the decoded identity when the rule applies.
+ */
+export const traceBarcodeRule = (rule: BarcodeRule, barcode: string): BarcodeRuleTrace => {
+  const trimmed = barcode.trim();
+  if (!isValidBarcodePattern(rule.pattern)) {
+    return { rule, matched: false, error: "The pattern is not a valid regular expression.", fields: [], identity: null };
+  }
+  if (!new RegExp(rule.pattern).test(trimmed)) {
+    return { rule, matched: false, fields: [], identity: null };
+  }
+  const fields = BARCODE_RULE_FIELDS.map(({ key }) => traceField(trimmed, rule.separator, key, rule.fields[key]));
+  if (fields.some(field => field.error)) return { rule, matched: true, fields, identity: null };
+  const valueOf = (key: BarcodeRuleField) => fields.find(field => field.field === key)?.value;
+  return {
+    rule,
+    matched: true,
+    fields,
+    identity: {
+      format: rule.id,
+      doe: String(valueOf('doe')),
+      dispatchNumber: String(valueOf('dispatchNumber')),
+      grossWeight: Number(valueOf('grossWeight')),
+    },
+  };
+};
+
+/**
+ * Decodes a barcode with the first rule, in the order given, that reads every field.
+ * @param barcode The barcode as scanned or typed.
+ * @param rules The rules to try, e.g. from effectiveBarcodeRules.
+ * @returns The identity, or null when no rule applies.
+ */
+export const decodeBarcodeWithRules = (barcode: string, rules: BarcodeRule[]): ReceptacleIdentity | null => {
+  for (const rule of rules) {
+    const { identity } = traceBarcodeRule(rule, barcode);
+    if (identity) return identity;
+  }
+  return null;
+};
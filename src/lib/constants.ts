@@ -1,28 +1,18 @@
-import type { SelectOption } from './types';
+import type { WeightBucket } from './types';
 import {
   LayoutDashboard,
-  Settings,
-  PackageSearch,
   Truck,
   List,
   Users,
   Wrench,
   Boxes,
   CalendarDays,
-  AlertTriangle,
-  CheckCircle2,
-  Weight,
   PlusCircle,
   FileText,
-  Bell,
-  Camera,
-  Database,
-  CloudUpload,
   UserCog,
-  Sheet,
   Users2,
-  ListChecks,
-  Menu
+  History,
+  ListChecks
 } from 'lucide-react';
 import type React from 'react';
 
@@ -45,7 +35,9 @@ export const HEADER_NAV_ITEMS: NavMenuItem[] = [
 export const ADMIN_NAV_ITEMS: NavMenuItem[] = [
   { title: 'Manage Dropdowns', href: '/admin/dropdowns', icon: ListChecks, adminOnly: true },
   { title: 'App Settings', href: '/admin/settings', icon: UserCog, adminOnly: true },
+  { title: 'Pre-Alert Templates', href: '/admin/templates', icon: FileText, adminOnly: true },
   { title: 'User Management', href: '/admin/users', icon: Users2, adminOnly: true },
+  { title: 'Audit Log', href: '/admin/audit', icon: History, adminOnly: true },
 ];
 
 // Constants for Dropdown Management (used in Admin UI and Forms)
@@ -61,8 +53,8 @@ export const MANAGED_DROPDOWN_COLLECTIONS: DropdownCollectionConfig[] = [
   { id: 'subcarriers', name: 'Subcarriers', description: 'Manage specific sub-carrier services', icon: Truck },
   { id: 'customers', name: 'Customers', description: 'Manage customer accounts', icon: Users },
   { id: 'services', name: 'Services', description: 'Manage shipment service types', icon: Wrench },
-  { id: 'formats_prior', name: 'Formats (Priority)', description: 'Manage formats for "Priority" service (e.g., service value "E", "prior", "priority")', icon: Boxes },
-  { id: 'formats_eco', name: 'Formats (Economy)', description: 'Manage formats for "Economy" service (e.g., service value "C", "eco", "economy")', icon: Boxes },
+  { id: 'formats_prior', name: 'Formats (Priority)', description: 'Manage formats for "Priority" service (e.g., service value "E", "prior", "priority"). Use a UPU mail subclass (e.g., "UN") as the value to select it from scanned receptacle IDs', icon: Boxes },
+  { id: 'formats_eco', name: 'Formats (Economy)', description: 'Manage formats for "Economy" service (e.g., service value "C", "eco", "economy"). Use a UPU mail subclass (e.g., "UN") as the value to select it from scanned receptacle IDs', icon: Boxes },
   { id: 'formats_s3c', name: 'Formats (S3C)', description: 'Manage formats for "S3C" service (e.g., service value "S", "s3c")', icon: Boxes },
   { id: 'doe', name: 'DOE', description: 'Manage Date of Entry options', icon: CalendarDays },
 ];
@@ -87,12 +79,18 @@ export const SERVICE_FORMAT_MAPPING: { [serviceValueKey: string]: string | null
 export const DEFAULT_SENDER_ADDRESS = "Asendia UK, Unit 5, The Hub, Solent Business Park, Fareham, PO15 7FH";
 export const DEFAULT_CONSIGNEE_ADDRESS = "La Poste, Avenue de la Poste, 75000 Paris, France";
 
-// Customer IDs for specific dashboard breakdowns
-// These values must match the 'value' field in your Firestore /customers collection
-export const PRIMARY_ASENDIA_CUSTOMER_ID_FOR_DASHBOARD_BREAKDOWN = '2'; // Asendia A/C
-export const ASENDIA_UK_CUSTOMER_ID = '3';                              // Asendia UK
-export const ASENDIA_UK_BAGS_CUSTOMER_ID = '4';                         // Asendia UK/BAGS
-export const TRANSIT_LIGHT_CUSTOMER_ID = '5';                           // Transit Light
+// Default customer weight-breakdown buckets, used until an admin configures their own
+// in App Settings. customerIds must match the 'value' field in your Firestore /customers collection.
+export const DEFAULT_WEIGHT_BUCKETS: WeightBucket[] = [
+  { id: 'asendia-ac', label: 'Asendia A/C', customerIds: ['2'] },
+];
+// Bucket key for the net weight of customers that belong to no configured bucket
+export const OTHER_WEIGHT_BUCKET_ID = 'other';
+export const OTHER_WEIGHT_BUCKET_LABEL = 'Other Customers';
+
+// Hours a shipment may stay undeparted (Draft, Loading or Sealed) past its departure date before users are notified.
+// Must match DEFAULT_PENDING_ALERT_HOURS in functions/src/notifications.ts.
+export const DEFAULT_PENDING_ALERT_HOURS = 24;
 
 // Constants for calculations
 export const TARE_WEIGHT_DEFAULT = 25.7;
@@ -119,7 +117,20 @@ export const DASHBOARD_STATS_MAP: {
 };
 
 // Default values for dropdowns
+export const DEFAULT_CUSTOMER_ID = "3";       // Must match 'value' in /customers (Asendia UK)
 export const DEFAULT_PRIOR_SERVICE_ID = "E";  // Must match 'value' in /services
 export const DEFAULT_DOE_ID = "UZ1";          // Must match 'value' in /doe
 
+// The service selected for a scanned UPU S9 receptacle, by its mail category.
+// Values must match 'value' in /services. Its format is then the one whose value is the mail subclass.
+export const MAIL_CATEGORY_SERVICE_MAPPING: { [mailCategory: string]: string } = {
+  'A': 'E', // Priority
+  'D': 'E', // Priority by surface
+  'B': 'C', // S.A.L.
+  'C': 'C', // Non-priority
+};
+
+
 
+// Departure schedule weekdays, indexed as Date.getDay()
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
@@ -0,0 +1,247 @@
+import jsPDF from 'jspdf';
+import type { BuiltDocument, CmrMoney, CmrParty, DocumentBuildInput } from '@/lib/types';
+import {
+  addAsendiaStyleLogo,
+  documentFilename,
+  formatDateForPdf,
+  setDeterministicMetadata,
+  toBytes,
+} from './common';
+import { formatCmrPartyAddress, formatCmrPlace, resolveCmrData } from './cmrData';
+import { driverContactDetails } from '@/lib/drivers';
+
+// Dropdown collections whose labels the CMR prints
+export const CMR_LABEL_COLLECTIONS = ['carriers'];
+
+const pageMargin = 10;
+const titleFontSize = 5.5;
+const valueFontSize = 7.5;
+const lineHeight = 3.2; // mm per line of value text
+
+// One row of boxes 6-12
+interface GoodsLine {
+  marks: string;
+  packages: string;
+  packing: string;
+  nature: string;
+  statisticalNumber: string;
+  grossWeight: string;
+  volume: string;
+}
+
+const formatMoney = (money: CmrMoney | null): string =>
+  money ? `${money.amount.toFixed(2)} ${money.currency}` : '';
+
+// Address, then tax identifiers, as printed in the party boxes
+const partyLines = (party: CmrParty | null): string[] => {
+  if (!party || !party.name) return [];
+  return [
+    ...formatCmrPartyAddress(party).split('\n'),
+    ...(party.vatNumber ? [`VAT: ${party.vatNumber}`] : []),
+    ...(party.eoriNumber ? [`EORI: ${party.eoriNumber}`] : []),
+  ];
+};
+
+/**
+ * Renders the CMR (international consignment note) for a shipment with all 24
+ * numbered boxes of the standard form. Pure, like buildPreAlertPdf: everything
+ * it prints comes from `input`, with the parties and instructions taken from
+ * resolveCmrData.
+ * @param input The resolved shipment, its details and labels.
+ * @returns The PDF bytes and the filename to deliver them under.
+ */
+export const buildCmrPdf = ({ shipment, details, labels, driver, generatedAt }: DocumentBuildInput): BuiltDocument => {
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+  setDeterministicMetadata(doc, `${shipment.id}/cmr`, generatedAt);
+  const cmr = resolveCmrData(shipment, labels);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - 2 * pageMargin;
+  const halfWidth = contentWidth / 2;
+  const leftX = pageMargin;
+  const rightX = pageMargin + halfWidth;
+
+  // Draws a numbered box: its bilingual title in small type, then the value
+  // lines in bold, cut off with an ellipsis when they do not fit.
+  const drawBox = (number: string, title: string, value: string | string[], x: number, y: number, width: number, height: number) => {
+    doc.setDrawColor(0, 0, 0);
+    doc.rect(x, y, width, height);
+    doc.setTextColor(0, 0, 0);
+
+    doc.setFontSize(titleFontSize);
+    doc.setFont('helvetica', 'normal');
+    const titleLines: string[] = doc.splitTextToSize(number ? `${number}  ${title}` : title, width - 2);
+    doc.text(titleLines, x + 1, y + 1, { baseline: 'top' });
+
+    doc.setFontSize(valueFontSize);
+    doc.setFont('helvetica', 'bold');
+    const valueTop = y + 1.5 + titleLines.length * 2.2;
+    const maxLines = Math.max(0, Math.floor((y + height - valueTop - 0.5) / lineHeight));
+    let lines: string[] = (Array.isArray(value) ? value : [value])
+      .filter(line => line !== '')
+      .flatMap(line => doc.splitTextToSize(line, width - 3) as string[]);
+    if (lines.length > maxLines) {
+      lines = lines.slice(0, maxLines);
+      if (lines.length > 0) lines[lines.length - 1] = `${lines[lines.length - 1].slice(0, -3)}...`;
+    }
+    lines.forEach((line, index) => doc.text(line, x + 1.5, valueTop + index * lineHeight, { baseline: 'top' }));
+    doc.setFont('helvetica', 'normal');
+  };
+
+  const checkbox = (checked: boolean, label: string) => `[${checked ? 'X' : '  '}] ${label}`;
+
+  let currentY = pageMargin;
+
+  // --- Header ---
+  addAsendiaStyleLogo(doc, pageMargin, currentY);
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'normal');
+  doc.text("LETTRE DE VOITURE INTERNATIONALE", pageMargin + 40, currentY + 3);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text("INTERNATIONAL CONSIGNMENT NOTE (CMR)", pageMargin + 40, currentY + 8);
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Seal ${shipment.sealNumber || 'N/A'}`, pageWidth - pageMargin, currentY + 3, { align: 'right' });
+  doc.text(`Ref ${shipment.id}`, pageWidth - pageMargin, currentY + 8, { align: 'right' });
+  currentY += 14;
+
+  // --- Boxes 1, 2 and 16: parties ---
+  let boxHeight = 28;
+  drawBox('1', 'Sender (name, address, country) / Expéditeur (nom, adresse, pays)', partyLines(cmr.sender), leftX, currentY, halfWidth, boxHeight);
+  drawBox('', 'This carriage is subject, notwithstanding any clause to the contrary, to the Convention on the Contract for the International Carriage of Goods by Road (CMR). / Ce transport est soumis à la Convention relative au contrat de transport international de marchandises par route (CMR).', [], rightX, currentY, halfWidth, boxHeight);
+  currentY += boxHeight;
+
+  drawBox('2', 'Consignee (name, address, country) / Destinataire (nom, adresse, pays)', partyLines(cmr.consignee), leftX, currentY, halfWidth, boxHeight);
+  const vehicleLines = [
+    `Vehicle: ${shipment.truckRegistration || 'N/A'} / ${shipment.trailerRegistration || 'N/A'}`,
+    // The registered driver's contact details, while they are still the one named on the shipment
+    ...(shipment.driverName ? [[
+      `Driver: ${shipment.driverName}`,
+      ...(driver && !driver.erasedAt && driver.name === shipment.driverName ? driverContactDetails(driver) : []),
+    ].join(', ')] : []),
+  ];
+  drawBox('16', 'Carrier (name, address, country) / Transporteur (nom, adresse, pays)', [...partyLines(cmr.carrier), ...vehicleLines], rightX, currentY, halfWidth, boxHeight);
+  currentY += boxHeight;
+
+  // --- Boxes 3, 4, 5 beside 17 and 18 ---
+  const placeBoxHeight = 12;
+  drawBox('3', 'Place of delivery of the goods (place, country) / Lieu prévu pour la livraison (lieu, pays)', formatCmrPlace(cmr.deliveryPlace), leftX, currentY, halfWidth, placeBoxHeight);
+  drawBox('4', 'Place and date of taking over the goods (place, country, date) / Lieu et date de la prise en charge (lieu, pays, date)',
+    `${formatCmrPlace(cmr.takingOverPlace)} ${formatDateForPdf(shipment.departureDate)}`.trim(), leftX, currentY + placeBoxHeight, halfWidth, placeBoxHeight);
+  drawBox('5', 'Documents attached / Documents annexés', cmr.documentsAttached.join(', '), leftX, currentY + placeBoxHeight * 2, halfWidth, placeBoxHeight);
+  drawBox('17', 'Successive carriers (name, address, country) / Transporteurs successifs (nom, adresse, pays)', partyLines(cmr.successiveCarrier), rightX, currentY, halfWidth, placeBoxHeight * 1.5);
+  drawBox('18', "Carrier's reservations and observations / Réserves et observations du transporteur", cmr.carrierReservations, rightX, currentY + placeBoxHeight * 1.5, halfWidth, placeBoxHeight * 1.5);
+  currentY += placeBoxHeight * 3;
+
+  // --- Boxes 6 to 12: goods ---
+  const palletDetails = details.filter(detail => detail.numPallets > 0);
+  const bagDetails = details.filter(detail => detail.numBags > 0);
+  const palletGrossWeight = palletDetails.reduce((sum, detail) => sum + (detail.grossWeight || 0), 0);
+  const bagGrossWeight = bagDetails.reduce((sum, detail) => sum + (detail.grossWeight || 0), 0);
+  const marks = shipment.sealNumber ? `Seal ${shipment.sealNumber}` : '';
+  const nature = shipment.descriptionOfGoods || 'cross border eCommerce B2C parcels';
+  const goodsLines: GoodsLine[] = [
+    { marks, packages: `${shipment.totalPallets || 0}`, packing: 'Pallets', nature, statisticalNumber: cmr.statisticalNumber, grossWeight: palletGrossWeight.toFixed(2), volume: cmr.volumeM3 !== null ? cmr.volumeM3.toFixed(2) : '' },
+    { marks, packages: `${shipment.totalBags || 0}`, packing: 'Sacks', nature, statisticalNumber: cmr.statisticalNumber, grossWeight: bagGrossWeight.toFixed(2), volume: '' },
+  ];
+
+  const goodsColumns: { number: string; title: string; key: keyof GoodsLine; share: number; align: 'left' | 'right' }[] = [
+    { number: '6', title: 'Marks and Nos / Marques et numéros', key: 'marks', share: 0.16, align: 'left' },
+    { number: '7', title: 'Number of packages / Nombre des colis', key: 'packages', share: 0.1, align: 'right' },
+    { number: '8', title: 'Method of packing / Mode d\'emballage', key: 'packing', share: 0.12, align: 'left' },
+    { number: '9', title: 'Nature of the goods / Nature de la marchandise', key: 'nature', share: 0.26, align: 'left' },
+    { number: '10', title: 'Statistical number / No statistique', key: 'statisticalNumber', share: 0.12, align: 'left' },
+    { number: '11', title: 'Gross weight, kg / Poids brut, kg', key: 'grossWeight', share: 0.12, align: 'right' },
+    { number: '12', title: 'Volume, m³ / Cubage, m³', key: 'volume', share: 0.12, align: 'right' },
+  ];
+  const goodsHeaderHeight = 10;
+  const goodsRowHeight = 10;
+  const goodsBodyHeight = goodsRowHeight * (goodsLines.length + 1);
+  let columnX = leftX;
+  goodsColumns.forEach(column => {
+    const width = contentWidth * column.share;
+    drawBox(column.number, column.title, [], columnX, currentY, width, goodsHeaderHeight);
+    doc.rect(columnX, currentY + goodsHeaderHeight, width, goodsBodyHeight);
+    doc.setFontSize(valueFontSize);
+    doc.setFont('helvetica', 'bold');
+    goodsLines.forEach((line, index) => {
+      const textX = column.align === 'right' ? columnX + width - 1.5 : columnX + 1.5;
+      const text = doc.splitTextToSize(line[column.key], width - 3) as string[];
+      doc.text(text.slice(0, 2), textX, currentY + goodsHeaderHeight + 1.5 + index * goodsRowHeight, { baseline: 'top', align: column.align });
+    });
+    columnX += width;
+  });
+  // Totals row under boxes 7 and 11
+  const totalsY = currentY + goodsHeaderHeight + goodsLines.length * goodsRowHeight + 1.5;
+  doc.line(leftX, totalsY - 1.5, leftX + contentWidth, totalsY - 1.5);
+  doc.text('Total', leftX + 1.5, totalsY, { baseline: 'top' });
+  const packagesRight = leftX + contentWidth * (0.16 + 0.1) - 1.5;
+  const weightRight = leftX + contentWidth * (0.16 + 0.1 + 0.12 + 0.26 + 0.12 + 0.12) - 1.5;
+  doc.text(`${(shipment.totalPallets || 0) + (shipment.totalBags || 0)}`, packagesRight, totalsY, { baseline: 'top', align: 'right' });
+  doc.text((palletGrossWeight + bagGrossWeight).toFixed(2), weightRight, totalsY, { baseline: 'top', align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  currentY += goodsHeaderHeight + goodsBodyHeight;
+
+  // --- Boxes 13 and 14 beside 20 ---
+  drawBox('13', "Sender's instructions (customs and other formalities) / Instructions de l'expéditeur", cmr.senderInstructions, leftX, currentY, halfWidth, 20);
+  drawBox('14', 'Instructions as to payment for carriage / Prescriptions d\'affranchissement', [
+    checkbox(cmr.paymentInstruction === 'carriage_paid', 'Carriage paid / Franco'),
+    checkbox(cmr.paymentInstruction === 'carriage_forward', 'Carriage forward / Non franco'),
+  ], leftX, currentY + 20, halfWidth, 12);
+
+  const charge = formatMoney(cmr.carriageCharge);
+  drawBox('20', 'To be paid by / A payer par', [], rightX, currentY, halfWidth, 32);
+  const chargeColumns = ['', 'Sender / Expéditeur', 'Consignee / Destinataire'];
+  const chargeRows: [string, string, string][] = [
+    ['Carriage charges / Prix de transport', cmr.chargesPaidBy === 'sender' ? charge : '', cmr.chargesPaidBy === 'consignee' ? charge : ''],
+    ['Total', cmr.chargesPaidBy === 'sender' ? charge : '', cmr.chargesPaidBy === 'consignee' ? charge : ''],
+  ];
+  const chargeColumnWidth = halfWidth / 3;
+  doc.setFontSize(titleFontSize);
+  chargeColumns.forEach((label, index) => doc.text(label, rightX + 1 + index * chargeColumnWidth, currentY + 7, { baseline: 'top' }));
+  chargeRows.forEach((row, rowIndex) => {
+    const rowY = currentY + 13 + rowIndex * 8;
+    doc.line(rightX, rowY - 1.5, rightX + halfWidth, rowY - 1.5);
+    row.forEach((cell, index) => {
+      doc.setFontSize(index === 0 ? titleFontSize : valueFontSize);
+      doc.setFont('helvetica', index === 0 ? 'normal' : 'bold');
+      doc.text(doc.splitTextToSize(cell, chargeColumnWidth - 2), rightX + 1 + index * chargeColumnWidth, rowY, { baseline: 'top' });
+    });
+  });
+  doc.setFont('helvetica', 'normal');
+  currentY += 32;
+
+  // --- Boxes 21 and 15 ---
+  drawBox('21', 'Established in / Etablie à ... on / le', `${formatCmrPlace(cmr.establishedIn)} ${formatDateForPdf(shipment.departureDate)}`.trim(), leftX, currentY, halfWidth, 12);
+  drawBox('15', 'Cash on delivery / Remboursement', formatMoney(cmr.cashOnDelivery), rightX, currentY, halfWidth, 12);
+  currentY += 12;
+
+  // --- Box 19 ---
+  drawBox('19', 'Special agreements / Conventions particulières', cmr.specialAgreements, leftX, currentY, contentWidth, 12);
+  currentY += 12;
+
+  // --- Boxes 22, 23, 24: signatures ---
+  const signatureWidth = contentWidth / 3;
+  boxHeight = 30;
+  drawBox('22', 'Signature and stamp of the sender / Signature et timbre de l\'expéditeur', [
+    cmr.sender.name,
+    `${formatCmrPlace(cmr.establishedIn)} ${formatDateForPdf(shipment.departureDate)}`.trim(),
+  ], leftX, currentY, signatureWidth, boxHeight);
+  drawBox('23', 'Signature and stamp of the carrier / Signature et timbre du transporteur', [
+    cmr.carrier.name,
+    ...(shipment.driverName ? [shipment.driverName] : []),
+    formatDateForPdf(shipment.departureDate),
+  ], leftX + signatureWidth, currentY, signatureWidth, boxHeight);
+  drawBox('24', 'Goods received / Marchandises reçues. Place, date, signature and stamp of the consignee / Lieu, date, signature et timbre du destinataire', [
+    cmr.consignee.name,
+    `${formatCmrPlace(cmr.deliveryPlace)} ${formatDateForPdf(shipment.arrivalDate)}`.trim(),
+  ], leftX + signatureWidth * 2, currentY, signatureWidth, boxHeight);
+
+  return {
+    type: 'cmr',
+    filename: documentFilename('CMR', shipment.sealNumber, generatedAt),
+    contentType: 'application/pdf',
+    bytes: toBytes(doc),
+  };
+};
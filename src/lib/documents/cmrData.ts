@@ -0,0 +1,195 @@
+import type { CmrData, CmrParty, CmrPlace, LabelMaps, Shipment } from '@/lib/types';
+import { getLabelFromMap } from './common';
+
+// Countries the shipments usually involve, by ISO code; others print as their code
+export const CMR_COUNTRY_NAMES: Record<string, string> = {
+  GB: 'United Kingdom',
+  FR: 'France',
+  DE: 'Germany',
+  BE: 'Belgium',
+  NL: 'Netherlands',
+  IE: 'Ireland',
+  ES: 'Spain',
+  IT: 'Italy',
+  LU: 'Luxembourg',
+  CH: 'Switzerland',
+};
+
+// Extra spellings found in free-text addresses entered before the CMR data existed
+const COUNTRY_ALIASES: Record<string, string> = {
+  'uk': 'GB',
+  'u.k.': 'GB',
+  'great britain': 'GB',
+  'england': 'GB',
+  'scotland': 'GB',
+  'wales': 'GB',
+  'deutschland': 'DE',
+  'belgique': 'BE',
+  'nederland': 'NL',
+  'espana': 'ES',
+  'españa': 'ES',
+  'italia': 'IT',
+};
+
+const UK_POSTCODE = /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i;
+// "75000 Paris", "1000 Bruxelles"
+const POSTCODE_THEN_CITY = /^(\d{4,5})\s+(.+)$/;
+
+export const countryName = (countryCode: string): string =>
+  CMR_COUNTRY_NAMES[countryCode.toUpperCase()] ?? countryCode.toUpperCase();
+
+const countryCodeFromText = (text: string): string | null => {
+  const normalized = text.trim().toLowerCase();
+  const byName = Object.entries(CMR_COUNTRY_NAMES).find(([, name]) => name.toLowerCase() === normalized);
+  if (byName) return byName[0];
+  return COUNTRY_ALIASES[normalized] ?? null;
+};
+
+export const emptyCmrParty = (): CmrParty => ({
+  name: '',
+  addressLines: [],
+  postcode: '',
+  city: '',
+  countryCode: '',
+});
+
+/**
+ * Best-effort split of a free-text address into a CMR party. Lines are split on
+ * newlines, or on commas for one-line addresses; the first line is the name and
+ * a trailing country name, postcode and city are recognised where they match
+ * the UK or continental formats. Anything unrecognised stays an address line.
+ * @param text An address as typed into senderAddress/consigneeAddress.
+ * @returns The structured party.
+ */
+export const parseCmrParty = (text: string | undefined): CmrParty => {
+  const raw = (text || '').trim();
+  if (!raw) return emptyCmrParty();
+  const lines = (raw.includes('\n') ? raw.split('\n') : raw.split(','))
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const party = emptyCmrParty();
+  party.name = lines.shift() ?? '';
+
+  const trailingCountry = lines.length > 0 ? countryCodeFromText(lines[lines.length - 1]) : null;
+  if (trailingCountry) {
+    party.countryCode = trailingCountry;
+    lines.pop();
+  }
+
+  const last = lines[lines.length - 1];
+  if (last && UK_POSTCODE.test(last)) {
+    // UK order: ..., town, postcode
+    party.postcode = last.toUpperCase();
+    lines.pop();
+    if (lines.length > 1) party.city = lines.pop() ?? '';
+    party.countryCode ||= 'GB';
+  } else if (last && POSTCODE_THEN_CITY.test(last)) {
+    const [, postcode, city] = POSTCODE_THEN_CITY.exec(last) ?? [];
+    party.postcode = postcode;
+    party.city = city;
+    lines.pop();
+  }
+
+  party.addressLines = lines;
+  return party;
+};
+
+/**
+ * Formats a party as the multi-line address stored in senderAddress and
+ * consigneeAddress, in the postal order of its country.
+ * @param party The party to format.
+ * @returns One line per address element.
+ */
+export const formatCmrPartyAddress = (party: CmrParty): string => {
+  const locality = party.countryCode.toUpperCase() === 'GB'
+    ? [party.city, party.postcode]
+    : [[party.postcode, party.city].filter(Boolean).join(' ')];
+  return [
+    party.name,
+    ...party.addressLines,
+    ...locality,
+    party.countryCode ? countryName(party.countryCode) : '',
+  ].map(line => line.trim()).filter(Boolean).join('\n');
+};
+
+export const formatCmrPlace = (place: CmrPlace): string =>
+  [place.place, place.countryCode ? countryName(place.countryCode) : ''].filter(Boolean).join(', ');
+
+// The town a party is based in, for boxes that ask for a place rather than an address
+const placeOf = (party: CmrParty): CmrPlace => ({ place: party.city, countryCode: party.countryCode });
+
+/**
+ * CMR data derived from free-text addresses, with the instructions left
+ * empty: the starting point for new shipments and for shipments saved before
+ * the structured data existed.
+ * @param senderAddress Free-text sender address.
+ * @param consigneeAddress Free-text consignee address.
+ * @param carrierName Name of the carrier, e.g. its dropdown label.
+ * @returns CMR data with the parties and places filled in.
+ */
+export const defaultCmrData = (senderAddress: string | undefined, consigneeAddress: string | undefined, carrierName: string): CmrData => {
+  const sender = parseCmrParty(senderAddress);
+  const consignee = parseCmrParty(consigneeAddress);
+  return {
+    sender,
+    consignee,
+    deliveryPlace: placeOf(consignee),
+    takingOverPlace: placeOf(sender),
+    documentsAttached: [],
+    statisticalNumber: '',
+    volumeM3: null,
+    senderInstructions: '',
+    paymentInstruction: 'carriage_paid',
+    cashOnDelivery: null,
+    carrier: { ...emptyCmrParty(), name: carrierName },
+    successiveCarrier: null,
+    carrierReservations: '',
+    specialAgreements: '',
+    carriageCharge: null,
+    chargesPaidBy: 'sender',
+    establishedIn: placeOf(sender),
+  };
+};
+
+/**
+ * The CMR data for a shipment. Shipments saved before the structured data
+ * existed get it derived from their free-text addresses and carrier, so every
+ * shipment can still produce a complete CMR and e-CMR.
+ * @param shipment The shipment being rendered.
+ * @param labels Dropdown labels; `carriers` names the carrier.
+ * @returns The shipment's CMR data.
+ */
+export const resolveCmrData = (shipment: Shipment, labels: LabelMaps): CmrData =>
+  shipment.cmr ?? defaultCmrData(shipment.senderAddress, shipment.consigneeAddress, getLabelFromMap(labels['carriers'], shipment.carrierId, ''));
+
+// Reads stored CMR data, filling fields added after a shipment was saved
+export const cmrFromFirestore = (raw: unknown): CmrData | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const data = raw as Partial<CmrData>;
+  const party = (value: Partial<CmrParty> | null | undefined): CmrParty => ({
+    ...emptyCmrParty(),
+    ...value,
+    addressLines: Array.isArray(value?.addressLines) ? value.addressLines : [],
+  });
+  const place = (value: Partial<CmrPlace> | undefined): CmrPlace => ({ place: value?.place ?? '', countryCode: value?.countryCode ?? '' });
+  return {
+    sender: party(data.sender),
+    consignee: party(data.consignee),
+    deliveryPlace: place(data.deliveryPlace),
+    takingOverPlace: place(data.takingOverPlace),
+    documentsAttached: Array.isArray(data.documentsAttached) ? data.documentsAttached : [],
+    statisticalNumber: data.statisticalNumber ?? '',
+    volumeM3: typeof data.volumeM3 === 'number' ? data.volumeM3 : null,
+    senderInstructions: data.senderInstructions ?? '',
+    paymentInstruction: data.paymentInstruction === 'carriage_forward' ? 'carriage_forward' : 'carriage_paid',
+    cashOnDelivery: data.cashOnDelivery ?? null,
+    carrier: party(data.carrier),
+    successiveCarrier: data.successiveCarrier ? party(data.successiveCarrier) : null,
+    carrierReservations: data.carrierReservations ?? '',
+    specialAgreements: data.specialAgreements ?? '',
+    carriageCharge: data.carriageCharge ?? null,
+    chargesPaidBy: data.chargesPaidBy === 'consignee' ? 'consignee' : 'sender',
+    establishedIn: place(data.establishedIn),
+  };
+};
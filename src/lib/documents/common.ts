@@ -0,0 +1,81 @@
+import type jsPDF from 'jspdf';
+import type { Timestamp } from 'firebase/firestore';
+import { format as formatDateFns } from 'date-fns';
+
+export const formatDateForPdf = (timestamp?: Timestamp): string => {
+  if (!timestamp) return 'N/A';
+  try {
+    return formatDateFns(timestamp.toDate(), 'dd/MM/yyyy');
+  } catch (e) {
+    console.error("Error formatting date for PDF", e);
+    return 'Invalid Date';
+  }
+};
+
+export const getLabelFromMap = (map: Record<string, string> | undefined, value: string | undefined, defaultValueIfNotFoundOrValueMissing = 'N/A'): string => {
+  if (!value) return defaultValueIfNotFoundOrValueMissing;
+  if (!map) return value;
+  return map[value] || value;
+};
+
+// e.g. "Pre-Alert, SEAL123, 24-09-23, 142501.pdf"
+export const documentFilename = (title: string, sealNumber: string | undefined, generatedAt: Date, extension = 'pdf'): string =>
+  `${title}, ${sealNumber || "NoSeal"}, ${formatDateFns(generatedAt, "dd-MM-yy")}, ${formatDateFns(generatedAt, "HHmmss")}.${extension}`;
+
+/**
+ * Pins the PDF metadata jsPDF would otherwise fill with the current time and a
+ * random file ID, so the same input always renders the same bytes.
+ * @param doc The document being built.
+ * @param seed Identifies the document, e.g. shipment ID plus document type.
+ * @param generatedAt The generation time recorded as the creation date.
+ */
+export const setDeterministicMetadata = (doc: jsPDF, seed: string, generatedAt: Date): void => {
+  const text = `${seed}|${generatedAt.toISOString()}`;
+  // Four FNV-1a passes with different offsets give the 32 hex digits jsPDF expects
+  let fileId = '';
+  for (let pass = 0; pass < 4; pass++) {
+    let hash = (0x811c9dc5 ^ pass) >>> 0;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    fileId += hash.toString(16).padStart(8, '0');
+  }
+  doc.setCreationDate(generatedAt);
+  doc.setFileId(fileId);
+};
+
+export const toBytes = (doc: jsPDF): Uint8Array => new Uint8Array(doc.output('arraybuffer'));
+
+export const addAsendiaStyleLogo = (doc: jsPDF, x: number, y: number) => {
+    const logoWidth = 35; // mm
+    const logoHeight = 10; // mm
+    const text = "asendia";
+    const textFontSize = 12;
+
+    // Draw the logo background
+    doc.setFillColor(0, 90, 106); // Dark Teal
+    doc.rect(x, y, logoWidth, logoHeight, 'F');
+
+    // Set text properties
+    doc.setFontSize(textFontSize);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(255, 255, 255); // White text
+
+    // Calculate perfect centered position
+    const textDimensions = doc.getTextDimensions(text);
+    const textWidth = textDimensions.w;
+    const textHeight = textDimensions.h;
+    
+    // Horizontal centering
+    const textX = x + (logoWidth - textWidth) / 2;
+    
+    // Vertical centering (middle of logo height + half of text height adjustment)
+    const textY = y + (logoHeight / 2) + (textHeight / 4);
+
+    // Draw centered text
+    doc.text(text, textX, textY, { baseline: 'alphabetic' });
+
+    // Reset text color
+    doc.setTextColor(0, 0, 0);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import type { BuiltDocument, DocumentBuildInput, ShipmentDetail } from '@/lib/types';
+import { DEFAULT_WEIGHT_BUCKETS, OTHER_WEIGHT_BUCKET_ID } from '@/lib/constants';
+import { buildCmrPdf } from './cmr';
+import { buildPreAlertPdf } from './preAlert';
+
+const GENERATED_AT = new Date('2026-03-02T06:30:15Z');
+const DEPARTURE = Timestamp.fromDate(new Date('2026-03-02T08:00:00Z'));
+const ARRIVAL = Timestamp.fromDate(new Date('2026-03-03T09:00:00Z'));
+
+const detail = (id: string, fields: Partial<ShipmentDetail>): ShipmentDetail => ({
+  id,
+  shipmentId: 'shipment-1',
+  numPallets: 0,
+  numBags: 1,
+  customerId: 'asendia-ac',
+  serviceId: 'prior',
+  formatId: 'letters',
+  tareWeight: 0.2,
+  grossWeight: 10.2,
+  netWeight: 10,
+  dispatchNumber: '123',
+  doeId: 'UN',
+  createdAt: DEPARTURE,
+  lastUpdated: DEPARTURE,
+  ...fields,
+});
+
+// A sealed shipment with a bag, a second customer's bag and a pallet, as the documents print it
+const INPUT: DocumentBuildInput = {
+  shipment: {
+    id: 'shipment-1',
+    descriptionOfGoods: 'Mail',
+    carrierId: 'road-carrier',
+    subcarrierId: null,
+    driverId: 'driver-1',
+    driverName: 'J. SMITH',
+    departureDate: DEPARTURE,
+    arrivalDate: ARRIVAL,
+    status: 'Sealed',
+    sealNumber: 'SEAL123',
+    truckRegistration: 'AB12 CDE',
+    trailerRegistration: 'TR-456',
+    senderAddress: 'Asendia UK\n1 Depot Road\nLondon\nGB',
+    consigneeAddress: 'Asendia France\n2 Rue du Hub\nParis\nFR',
+    lastUpdated: DEPARTURE,
+    createdAt: DEPARTURE,
+    totalPallets: 1,
+    totalBags: 2,
+    totalGrossWeight: 330.7,
+    totalTareWeight: 25.7,
+    totalNetWeight: 305,
+    netWeightByBucket: { [DEFAULT_WEIGHT_BUCKETS[0].id]: 10, [OTHER_WEIGHT_BUCKET_ID]: 295 },
+  },
+  details: [
+    detail('detail-1', { barcode: 'GBLONAFRCDGAAUN50123001000102' }),
+    detail('detail-2', { customerId: 'other-customer', serviceId: 'eco', formatId: 'parcels', grossWeight: 20.5, tareWeight: 0.5, netWeight: 20, doeId: 'CN' }),
+    detail('detail-3', { numPallets: 1, numBags: 0, grossWeight: 300, tareWeight: 25, netWeight: 275 }),
+  ],
+  labels: {
+    carriers: { 'road-carrier': 'Road Carrier Ltd' },
+    customers: { 'asendia-ac': 'Asendia A/C', 'other-customer': 'Other Customer' },
+    services: { prior: 'Prior', eco: 'Eco' },
+    doe: { UN: 'UN Letters', CN: 'CN Parcels' },
+  },
+  weightBuckets: DEFAULT_WEIGHT_BUCKETS,
+  driver: {
+    id: 'driver-1',
+    name: 'John Smith',
+    carrierId: 'road-carrier',
+    phone: '+44 7700 900123',
+    idNumber: 'SMITH901234JS9AB',
+    nationality: 'GB',
+    active: true,
+  },
+  generatedAt: GENERATED_AT,
+};
+
+// The text a PDF prints, in drawing order. jsPDF writes uncompressed content
+// streams, so each line is one "(...) Tj" operator.
+const printedText = (built: BuiltDocument): string[] => {
+  const pdf = Buffer.from(built.bytes).toString('latin1');
+  return Array.from(pdf.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g), match => match[1].replace(/\\(.)/g, '$1'));
+};
+
+const pageCount = (built: BuiltDocument): number =>
+  (Buffer.from(built.bytes).toString('latin1').match(/\/Type \/Page\b/g) ?? []).length;
+
+describe.each([
+  ['Pre-Alert', () => buildPreAlertPdf(INPUT)],
+  ['CMR', () => buildCmrPdf(INPUT)],
+])('the %s', (_, build) => {
+  it('renders the same bytes for the same shipment', () => {
+    expect(build().bytes).toEqual(build().bytes);
+  });
+
+  it('prints the shipment', () => {
+    const built = build();
+    expect(Buffer.from(built.bytes.subarray(0, 5)).toString('latin1')).toBe('%PDF-');
+    expect({
+      type: built.type,
+      filename: built.filename,
+      contentType: built.contentType,
+      pages: pageCount(built),
+      text: printedText(built),
+    }).toMatchSnapshot();
+  });
+});
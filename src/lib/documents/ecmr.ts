@@ -0,0 +1,107 @@
+import type { BuiltDocument, CmrMoney, CmrParty, CmrPlace, DocumentBuildInput } from '@/lib/types';
+import type { Timestamp } from 'firebase/firestore';
+import { documentFilename } from './common';
+import { resolveCmrData } from './cmrData';
+
+// Dropdown collections whose labels the e-CMR includes
+export const ECMR_LABEL_COLLECTIONS = ['carriers'];
+
+// Element names follow the UN/CEFACT e-CMR message (SpecifiedSupplyChainConsignment
+// and its trade parties); the JSON is written for the carrier's e-CMR platform to map.
+
+const tradeParty = (party: CmrParty, roleCode: string) => ({
+  RoleCode: roleCode,
+  Name: party.name,
+  PostalTradeAddress: {
+    StreetName: party.addressLines,
+    PostcodeCode: party.postcode || undefined,
+    CityName: party.city || undefined,
+    CountryID: party.countryCode || undefined,
+  },
+  SpecifiedTaxRegistration: [
+    ...(party.vatNumber ? [{ ID: party.vatNumber, SchemeID: 'VA' }] : []),
+    ...(party.eoriNumber ? [{ ID: party.eoriNumber, SchemeID: 'EORI' }] : []),
+  ],
+});
+
+const location = (place: CmrPlace) => ({ Name: place.place, CountryID: place.countryCode || undefined });
+
+const dateTime = (timestamp: Timestamp | undefined) => (timestamp ? timestamp.toDate().toISOString() : undefined);
+
+const amount = (money: CmrMoney | null) => (money ? { Value: money.amount, CurrencyID: money.currency } : undefined);
+
+/**
+ * Builds the shipment's e-CMR as a UN/CEFACT-style JSON payload from the same
+ * data as the CMR PDF. Pure, like the PDF builders.
+ * @param input The resolved shipment, its details and labels.
+ * @returns The JSON bytes and the filename to store them under.
+ */
+export const buildEcmrJson = ({ shipment, details, labels, generatedAt }: DocumentBuildInput): BuiltDocument => {
+  const cmr = resolveCmrData(shipment, labels);
+  const palletGrossWeight = details.filter(detail => detail.numPallets > 0).reduce((sum, detail) => sum + (detail.grossWeight || 0), 0);
+  const bagGrossWeight = details.filter(detail => detail.numBags > 0).reduce((sum, detail) => sum + (detail.grossWeight || 0), 0);
+  const nature = shipment.descriptionOfGoods || 'cross border eCommerce B2C parcels';
+
+  const payload = {
+    ExchangedDocument: {
+      ID: shipment.id,
+      TypeCode: 'CMR',
+      IssueDateTime: generatedAt.toISOString(),
+      IssueLocation: location(cmr.establishedIn),
+    },
+    SpecifiedSupplyChainConsignment: {
+      ConsignorTradeParty: tradeParty(cmr.sender, 'CZ'),
+      ConsigneeTradeParty: tradeParty(cmr.consignee, 'CN'),
+      CarrierTradeParty: tradeParty(cmr.carrier, 'CA'),
+      SuccessiveCarrierTradeParty: cmr.successiveCarrier ? [tradeParty(cmr.successiveCarrier, 'CA')] : [],
+      TakingOverEvent: {
+        OccurrenceLocation: location(cmr.takingOverPlace),
+        OccurrenceDateTime: dateTime(shipment.departureDate),
+      },
+      DeliveryEvent: {
+        OccurrenceLocation: location(cmr.deliveryPlace),
+        RequestedDateTime: dateTime(shipment.arrivalDate),
+      },
+      AssociatedReferencedDocument: cmr.documentsAttached.map(name => ({ Name: name })),
+      IncludedSupplyChainConsignmentItem: [
+        { packages: shipment.totalPallets || 0, packagingCode: 'PX', grossWeight: palletGrossWeight }, // Pallets
+        { packages: shipment.totalBags || 0, packagingCode: 'BG', grossWeight: bagGrossWeight }, // Bags
+      ].map((item, index) => ({
+        SequenceNumeric: index + 1,
+        PackageQuantity: item.packages,
+        PackagingTypeCode: item.packagingCode,
+        Description: nature,
+        TariffClassificationCode: cmr.statisticalNumber || undefined,
+        GrossWeightMeasure: { Value: item.grossWeight, UnitCode: 'KGM' },
+      })),
+      GrossWeightMeasure: { Value: palletGrossWeight + bagGrossWeight, UnitCode: 'KGM' },
+      GrossVolumeMeasure: cmr.volumeM3 !== null ? { Value: cmr.volumeM3, UnitCode: 'MTQ' } : undefined,
+      UtilizedLogisticsTransportEquipment: shipment.trailerRegistration ? [{
+        ID: shipment.trailerRegistration,
+        CategoryCode: 'TE', // Trailer
+        AffixedLogisticsSeal: shipment.sealNumber ? [{ ID: shipment.sealNumber }] : [],
+      }] : [],
+      SpecifiedLogisticsTransportMovement: {
+        ModeCode: '3', // Road
+        UsedLogisticsTransportMeans: { ID: shipment.truckRegistration || undefined },
+        DriverName: shipment.driverName || undefined,
+      },
+      ConsignorInstructions: cmr.senderInstructions || undefined,
+      CarrierReservations: cmr.carrierReservations || undefined,
+      SpecialAgreements: cmr.specialAgreements || undefined,
+      PaymentTerms: {
+        TypeCode: cmr.paymentInstruction === 'carriage_paid' ? 'CarriagePaid' : 'CarriageForward',
+        CashOnDeliveryAmount: amount(cmr.cashOnDelivery),
+        CarriageChargeAmount: amount(cmr.carriageCharge),
+        PayingPartyRoleCode: cmr.chargesPaidBy === 'sender' ? 'CZ' : 'CN',
+      },
+    },
+  };
+
+  return {
+    type: 'ecmr',
+    filename: documentFilename('e-CMR', shipment.sealNumber, generatedAt, 'json'),
+    contentType: 'application/json',
+    bytes: new TextEncoder().encode(JSON.stringify(payload, null, 2)),
+  };
+};
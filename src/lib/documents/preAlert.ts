@@ -0,0 +1,197 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { BuiltDocument, DocumentBuildInput, PreAlertTemplate } from '@/lib/types';
+import { getNetWeightBreakdown } from '@/lib/utils';
+import { SERVICE_FORMAT_MAPPING } from '@/lib/constants';
+import {
+  addAsendiaStyleLogo,
+  documentFilename,
+  setDeterministicMetadata,
+  toBytes,
+} from './common';
+import { DEFAULT_PRE_ALERT_TEMPLATE, resolvePreAlertColumn, resolvePreAlertField } from './preAlertTemplates';
+
+// Dropdown collections whose labels the Pre-Alert prints
+export const PRE_ALERT_LABEL_COLLECTIONS = [...new Set([
+  'carriers', 'subcarriers', 'customers', 'services', 'doe',
+  ...(Object.values(SERVICE_FORMAT_MAPPING).filter(Boolean) as string[]),
+])];
+
+type Rgb = [number, number, number];
+
+// '#fffde6' -> [255, 253, 230]; anything unparseable renders black
+const hexToRgb = (hex: string): Rgb => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [0, 0, 0];
+};
+
+const pageMargin = 10;
+const cellPadding = 1.5;
+const infoRowHeight = 10; // Adjusted for two lines
+const infoBlockLabelFontSize = 6.5;
+const infoBlockValueFontSize = 8;
+
+// Draws one row of equal-width "label over value" cells and returns the Y below it
+const drawCellRow = (doc: jsPDF, cells: { label: string; value: string }[], y: number, fill: Rgb): number => {
+  if (cells.length === 0) return y;
+  const contentWidth = doc.internal.pageSize.getWidth() - 2 * pageMargin;
+  const cellWidth = contentWidth / cells.length;
+
+  cells.forEach((item, index) => {
+    const cellX = pageMargin + (index * cellWidth);
+    doc.setFillColor(fill[0], fill[1], fill[2]);
+    doc.rect(cellX, y, cellWidth, infoRowHeight, 'FD'); // Fill and draw border
+
+    doc.setFontSize(infoBlockLabelFontSize);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(0,0,0); // Black text
+    const labelY = y + cellPadding + 1; // Position label slightly from top
+    doc.text(item.label, cellX + cellWidth / 2, labelY, { align: 'center', baseline: 'top', maxWidth: cellWidth - (2 * cellPadding) });
+
+    doc.setFontSize(infoBlockValueFontSize);
+    doc.setFont('helvetica', 'bold'); // Bold for value
+    const valueY = labelY + infoBlockLabelFontSize * 0.35 + 1.5; // Position value below label
+    doc.text(item.value, cellX + cellWidth / 2, valueY, { align: 'center', baseline: 'top', maxWidth: cellWidth - (2 * cellPadding) });
+  });
+  return y + infoRowHeight + 5; // Space after the row
+};
+
+/**
+ * Renders the Pre-Alert (shipment report) for a shipment from a declarative
+ * template. Pure: everything it prints comes from `input` and `template`, so
+ * it runs unchanged in the browser, a Cloud Function or a Node test.
+ * @param input The resolved shipment, its details, labels and weight buckets.
+ * @param template The layout to render; see selectPreAlertTemplate.
+ * @returns The PDF bytes and the filename to deliver them under.
+ */
+export const buildPreAlertPdf = (input: DocumentBuildInput, template: PreAlertTemplate = DEFAULT_PRE_ALERT_TEMPLATE): BuiltDocument => {
+  const { shipment, details, labels, weightBuckets, generatedAt } = input;
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+  setDeterministicMetadata(doc, `${shipment.id}/preAlert`, generatedAt);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - 2 * pageMargin;
+  const cellFill = hexToRgb(template.cellFillColor);
+  let currentY = pageMargin;
+
+  // Header: Logo, Title, Dates
+  if (template.header.showLogo) addAsendiaStyleLogo(doc, pageMargin, currentY);
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 0, 0);
+  doc.text(template.header.title, pageWidth / 2, currentY + 5, { align: 'center' });
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  const dateTexts = template.header.dateFields.map(field => `${field.label}: ${resolvePreAlertField(field.key, input)}`);
+  const dateTextY = currentY + 3;
+  const dateTextLineHeight = 4;
+  const maxDateTextWidth = Math.max(0, ...dateTexts.map(text => doc.getStringUnitWidth(text) * doc.getFontSize() / doc.internal.scaleFactor));
+  dateTexts.forEach((text, index) => {
+    doc.text(text, pageWidth - pageMargin - maxDateTextWidth, dateTextY + index * dateTextLineHeight);
+  });
+
+  currentY += 10 + 8; // Space after logo/main title block (10 for logo height, 8 for spacing)
+
+  // Shipment Information Block
+  currentY = drawCellRow(doc, template.infoFields.map(field => ({ label: field.label, value: resolvePreAlertField(field.key, input) })), currentY, cellFill);
+
+  // Totals Block, with the net weight breakdown (one cell per configured customer bucket) below it
+  const drawTotals = () => {
+    const rowsNeeded = template.totals.showWeightBreakdown ? 2 : 1;
+    if (currentY + rowsNeeded * (infoRowHeight + 5) > doc.internal.pageSize.getHeight() - pageMargin) {
+      doc.addPage();
+      currentY = pageMargin;
+    }
+    currentY = drawCellRow(doc, template.totals.fields.map(field => ({ label: field.label, value: resolvePreAlertField(field.key, input) })), currentY, cellFill);
+    if (template.totals.showWeightBreakdown) {
+      const breakdownCells = getNetWeightBreakdown(shipment, weightBuckets).map((row) => ({
+        label: `${row.label} Net Weight`,
+        value: `${row.netWeight.toFixed(2)} kg`,
+      }));
+      currentY = drawCellRow(doc, breakdownCells, currentY, cellFill);
+    }
+  };
+  if (template.totals.position === 'aboveTable') drawTotals();
+
+  // Column widths: fixed widths first, the rest share what is left
+  const { columns, columnGroups } = template.table;
+  const fixedWidth = columns.reduce((sum, column) => sum + (column.width || 0), 0);
+  const flexibleCount = columns.filter(column => !column.width).length;
+  const flexibleWidth = flexibleCount > 0 ? Math.max(0, contentWidth - fixedWidth) / flexibleCount : 0;
+  const columnWidths = columns.map(column => column.width || flexibleWidth);
+
+  // --- Column Group Header Row ---
+  const serviceBoxHeight = 7; // Height for the colored boxes and text
+  if (columnGroups.length > 0) {
+    let groupX = pageMargin;
+    let columnIndex = 0;
+    columnGroups.forEach(group => {
+      const groupWidth = columnWidths.slice(columnIndex, columnIndex + group.span).reduce((sum, width) => sum + width, 0);
+      columnIndex += group.span;
+      if (groupWidth <= 0) return;
+      const fill = hexToRgb(group.fillColor);
+      const text = hexToRgb(group.textColor);
+      doc.setFillColor(fill[0], fill[1], fill[2]);
+      doc.rect(groupX, currentY, groupWidth, serviceBoxHeight, 'FD');
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(text[0], text[1], text[2]);
+      doc.text(group.label, groupX + groupWidth / 2, currentY + serviceBoxHeight / 2, { align: 'center', baseline: 'middle', maxWidth: groupWidth - 2*cellPadding });
+      groupX += groupWidth;
+    });
+    doc.setTextColor(0,0,0);
+    currentY += serviceBoxHeight; // Move Y down after drawing this header row
+  }
+
+  // Main Details Table
+  if (columns.length > 0) {
+    autoTable(doc, {
+      head: [columns.map(column => column.label)],
+      body: details.map(detail => columns.map(column => resolvePreAlertColumn(column.key, detail, labels))),
+      startY: currentY,
+      theme: 'plain',
+      styles: {
+        fontSize: 8,
+        cellPadding: { top: 1.5, right: 2, bottom: 1.5, left: 2 },
+        lineWidth: 0.1,
+        lineColor: [180,180,180],
+        textColor: [0,0,0],
+      },
+      headStyles: {
+        fillColor: cellFill,
+        textColor: [0,0,0],
+        fontStyle: 'bold',
+        halign: 'center',
+        valign: 'middle',
+        lineWidth: 0.1,
+        lineColor: [150,150,150],
+      },
+      bodyStyles: {
+        fillColor: cellFill,
+        halign: 'center',
+      },
+      columnStyles: Object.fromEntries(columns.map((column, index) => [index, { cellWidth: columnWidths[index], halign: column.align }])),
+      margin: { left: pageMargin, right: pageMargin },
+    });
+    currentY = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? currentY;
+    currentY += 5;
+  }
+
+  if (template.totals.position === 'belowTable') drawTotals();
+
+  if (template.footerNote.trim()) {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(0, 0, 0);
+    doc.text(doc.splitTextToSize(template.footerNote, contentWidth), pageMargin, currentY, { baseline: 'top' });
+  }
+
+  return {
+    type: 'preAlert',
+    filename: documentFilename('Pre-Alert', shipment.sealNumber, generatedAt),
+    contentType: 'application/pdf',
+    bytes: toBytes(doc),
+  };
+};
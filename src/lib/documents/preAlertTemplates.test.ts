@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { PreAlertTemplate, Shipment } from '@/lib/types';
+import { DEFAULT_PRE_ALERT_TEMPLATE, preAlertTemplateFromFirestore, selectPreAlertTemplate } from './preAlertTemplates';
+
+const template = (id: string, fields: Partial<PreAlertTemplate>): PreAlertTemplate => ({
+  ...DEFAULT_PRE_ALERT_TEMPLATE,
+  id,
+  name: id,
+  isDefault: false,
+  ...fields,
+});
+
+// Only the fields the selection reads
+const shipment = (fields: Partial<Shipment>): Shipment => ({
+  id: 'shipment-1',
+  consigneeAddress: 'Asendia France\nROISSY HUB\nTremblay-en-France\nFR',
+  customerIds: [],
+  ...fields,
+}) as Shipment;
+
+describe('selectPreAlertTemplate', () => {
+  const fallback = template('fallback', { isDefault: true });
+  const roissy = template('roissy', { consigneeKeywords: ['roissy'] });
+  const roissyHub = template('roissy-hub', { consigneeKeywords: ['Paris', ' Roissy Hub '] });
+  const asendia = template('asendia', { customerIds: ['asendia-ac'] });
+  const asendiaAndOther = template('asendia-and-other', { customerIds: ['asendia-ac', 'other-customer'] });
+
+  it('takes the longest consignee keyword in the address', () => {
+    expect(selectPreAlertTemplate([fallback, roissy, roissyHub], shipment({})).id).toBe('roissy-hub');
+    expect(selectPreAlertTemplate([fallback, roissy], shipment({ consigneeAddress: 'Amsterdam' })).id).toBe('fallback');
+  });
+
+  it('takes a template for one of the shipment\'s customers over consignee keywords', () => {
+    expect(selectPreAlertTemplate([roissyHub, asendia], shipment({ customerIds: ['asendia-ac'] })).id).toBe('asendia');
+    expect(selectPreAlertTemplate([roissyHub, asendia], shipment({ customerIds: ['other-customer'] })).id).toBe('roissy-hub');
+  });
+
+  it('prefers the template sharing the most customers, then the longest keyword', () => {
+    const customerIds = ['asendia-ac', 'other-customer'];
+    expect(selectPreAlertTemplate([asendia, asendiaAndOther], shipment({ customerIds })).id).toBe('asendia-and-other');
+    const asendiaAtRoissy = template('asendia-roissy', { customerIds: ['asendia-ac'], consigneeKeywords: ['roissy'] });
+    expect(selectPreAlertTemplate([asendia, asendiaAtRoissy], shipment({ customerIds: ['asendia-ac'] })).id).toBe('asendia-roissy');
+  });
+
+  it('falls back to the default template, then the built-in layout', () => {
+    expect(selectPreAlertTemplate([asendia, fallback], shipment({ customerIds: undefined, consigneeAddress: '' })).id).toBe('fallback');
+    expect(selectPreAlertTemplate([asendia], shipment({}))).toBe(DEFAULT_PRE_ALERT_TEMPLATE);
+  });
+});
+
+describe('preAlertTemplateFromFirestore', () => {
+  it('reads templates stored without customers', () => {
+    expect(preAlertTemplateFromFirestore('roissy', { name: 'Roissy', consigneeKeywords: ['roissy'] })).toMatchObject({
+      customerIds: [],
+      consigneeKeywords: ['roissy'],
+    });
+  });
+});
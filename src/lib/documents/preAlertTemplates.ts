@@ -0,0 +1,205 @@
+import type {
+  DocumentBuildInput,
+  PreAlertColumnKey,
+  PreAlertFieldKey,
+  PreAlertTemplate,
+  Shipment,
+  ShipmentDetail,
+  LabelMaps,
+} from '@/lib/types';
+import { SERVICE_FORMAT_MAPPING } from '@/lib/constants';
+import { formatDateForPdf, getLabelFromMap } from './common';
+
+// Fields and columns a template can use, with the label the editor suggests for each
+export const PRE_ALERT_FIELD_OPTIONS: { key: PreAlertFieldKey; label: string }[] = [
+  { key: 'carrier', label: 'Carrier' },
+  { key: 'subcarrier', label: 'Subcarrier' },
+  { key: 'driverName', label: 'Driver Name' },
+  { key: 'truckRegistration', label: 'Truck Reg No' },
+  { key: 'trailerRegistration', label: 'Trailer Reg No' },
+  { key: 'sealNumber', label: 'Seal Number' },
+  { key: 'consignee', label: 'Consignee' },
+  { key: 'departureDate', label: 'Departure Date' },
+  { key: 'arrivalDate', label: 'Arrival Date' },
+  { key: 'totalPallets', label: 'Total Pallets' },
+  { key: 'totalBags', label: 'Total Bags' },
+  { key: 'totalNetWeight', label: 'Total Net Weight' },
+  { key: 'totalGrossWeight', label: 'Total Gross Weight' },
+];
+
+export const PRE_ALERT_COLUMN_OPTIONS: { key: PreAlertColumnKey; label: string }[] = [
+  { key: 'customer', label: 'Customer' },
+  { key: 'receptacleId', label: 'Receptacle ID' },
+  { key: 'dispatchNumber', label: 'Dispatch No' },
+  { key: 'doe', label: 'D-OE' },
+  { key: 'service', label: 'Service' },
+  { key: 'format', label: 'Format' },
+  { key: 'formatPrio', label: 'Prio' },
+  { key: 'formatEco', label: 'Eco' },
+  { key: 'formatS3C', label: 'S3C' },
+  { key: 'numPallets', label: 'Pallets' },
+  { key: 'numBags', label: 'Bags' },
+  { key: 'tareWeight', label: 'Tare Weight' },
+  { key: 'grossWeight', label: 'Gross Weight' },
+  { key: 'netWeight', label: 'Net Weight' },
+];
+
+// The original hand-positioned Pre-Alert, used when no template is stored
+export const DEFAULT_PRE_ALERT_TEMPLATE: PreAlertTemplate = {
+  id: 'builtin-default',
+  name: 'Standard Pre-Alert',
+  isDefault: true,
+  customerIds: [],
+  consigneeKeywords: [],
+  cellFillColor: '#fffde6',
+  header: {
+    title: 'SHIPMENT REPORT / ASENDIA UK',
+    showLogo: true,
+    dateFields: [
+      { key: 'departureDate', label: 'Date de départ' },
+      { key: 'arrivalDate', label: "Date d'arrivée" },
+    ],
+  },
+  infoFields: [
+    { key: 'carrier', label: 'Transporteur' },
+    { key: 'driverName', label: 'Driver Name' },
+    { key: 'truckRegistration', label: 'Truck Reg No' },
+    { key: 'trailerRegistration', label: 'Trailer Reg No' },
+    { key: 'sealNumber', label: 'Seal Number' },
+  ],
+  table: {
+    columnGroups: [
+      { label: 'ROISSY HUB & Cellule S3C', span: 3, fillColor: '#fffde6', textColor: '#000000' },
+      { label: 'Prio', span: 1, fillColor: '#0000ff', textColor: '#ffffff' },
+      { label: 'Eco', span: 1, fillColor: '#ffff00', textColor: '#000000' },
+      { label: 'S3C', span: 1, fillColor: '#e69f00', textColor: '#000000' },
+      { label: 'Weight Kg', span: 3, fillColor: '#fffde6', textColor: '#000000' },
+    ],
+    columns: [
+      { key: 'customer', label: 'Customer', width: 30, align: 'left' },
+      { key: 'dispatchNumber', label: 'Dispatch No', width: 20, align: 'center' },
+      { key: 'doe', label: 'D-OE', width: 15, align: 'center' },
+      { key: 'formatPrio', label: 'Prio', width: 18, align: 'center' },
+      { key: 'formatEco', label: 'Eco', width: 18, align: 'center' },
+      { key: 'formatS3C', label: 'S3C', width: 18, align: 'center' },
+      { key: 'tareWeight', label: 'Tare Weight', align: 'right' },
+      { key: 'grossWeight', label: 'Gross Weight', align: 'right' },
+      { key: 'netWeight', label: 'Net Weight', align: 'right' },
+    ],
+  },
+  totals: {
+    fields: [
+      { key: 'totalPallets', label: 'Total Pallets' },
+      { key: 'totalBags', label: 'Total Bags' },
+      { key: 'totalNetWeight', label: 'Total Net Weight' },
+      { key: 'totalGrossWeight', label: 'Total Gross Weight' },
+    ],
+    showWeightBreakdown: true,
+    position: 'aboveTable',
+  },
+  footerNote: '',
+};
+
+// Reads a stored template. Missing sections fall back to the built-in layout
+// so older or hand-edited documents still render.
+export const preAlertTemplateFromFirestore = (id: string, data: Record<string, any>): Omit<PreAlertTemplate, 'createdAt' | 'lastUpdated'> => {
+  const fallback = DEFAULT_PRE_ALERT_TEMPLATE;
+  return {
+    id,
+    name: data.name || id,
+    isDefault: data.isDefault === true,
+    customerIds: Array.isArray(data.customerIds) ? data.customerIds : [],
+    consigneeKeywords: Array.isArray(data.consigneeKeywords) ? data.consigneeKeywords : [],
+    cellFillColor: data.cellFillColor || fallback.cellFillColor,
+    header: { ...fallback.header, ...data.header },
+    infoFields: Array.isArray(data.infoFields) ? data.infoFields : fallback.infoFields,
+    table: { ...fallback.table, ...data.table },
+    totals: { ...fallback.totals, ...data.totals },
+    footerNote: data.footerNote || '',
+  };
+};
+
+/**
+ * Picks the Pre-Alert template for a shipment. A template applies when one of
+ * its customers has items on the shipment or one of its consignee keywords
+ * appears in the shipment's consignee address. If several do, the one sharing
+ * the most customers with the shipment wins, then the one with the longest
+ * matching keyword as the most specific. Falls back to the template marked
+ * default, then to the built-in layout.
+ * @param templates All stored templates.
+ * @param shipment The shipment being rendered.
+ * @returns The template to render with.
+ */
+export const selectPreAlertTemplate = (templates: PreAlertTemplate[], shipment: Shipment): PreAlertTemplate => {
+  const customerIds = new Set(shipment.customerIds ?? []);
+  const consignee = (shipment.consigneeAddress || '').toLowerCase();
+  let best: { template: PreAlertTemplate; customerMatches: number; keywordLength: number } | null = null;
+  for (const template of templates) {
+    const customerMatches = template.customerIds.filter(customerId => customerIds.has(customerId)).length;
+    let keywordLength = 0;
+    for (const keyword of template.consigneeKeywords) {
+      const normalized = keyword.trim().toLowerCase();
+      if (normalized && consignee.includes(normalized)) keywordLength = Math.max(keywordLength, normalized.length);
+    }
+    if (customerMatches === 0 && keywordLength === 0) continue;
+    if (!best || customerMatches > best.customerMatches
+      || (customerMatches === best.customerMatches && keywordLength > best.keywordLength)) {
+      best = { template, customerMatches, keywordLength };
+    }
+  }
+  return best?.template ?? templates.find(t => t.isDefault) ?? DEFAULT_PRE_ALERT_TEMPLATE;
+};
+
+const formatKg = (weight: number | undefined): string => `${(weight || 0).toFixed(2)} kg`;
+
+export const resolvePreAlertField = (key: PreAlertFieldKey, { shipment, labels }: Pick<DocumentBuildInput, 'shipment' | 'labels'>): string => {
+  switch (key) {
+    case 'carrier': return getLabelFromMap(labels['carriers'], shipment.carrierId, shipment.carrierId);
+    case 'subcarrier': return getLabelFromMap(labels['subcarriers'], shipment.subcarrierId ?? undefined);
+    case 'driverName': return shipment.driverName || 'N/A';
+    case 'truckRegistration': return shipment.truckRegistration || 'N/A';
+    case 'trailerRegistration': return shipment.trailerRegistration || 'N/A';
+    case 'sealNumber': return shipment.sealNumber || 'N/A';
+    case 'consignee': return (shipment.consigneeAddress || 'N/A').split('\n')[0];
+    case 'departureDate': return formatDateForPdf(shipment.departureDate);
+    case 'arrivalDate': return formatDateForPdf(shipment.arrivalDate);
+    case 'totalPallets': return (shipment.totalPallets || 0).toString();
+    case 'totalBags': return (shipment.totalBags || 0).toString();
+    case 'totalNetWeight': return formatKg(shipment.totalNetWeight);
+    case 'totalGrossWeight': return formatKg(shipment.totalGrossWeight);
+  }
+};
+
+// Which Prio/Eco/S3C column a detail's format belongs in, from its service
+const serviceFormatColumn = (serviceKey: string | undefined): PreAlertColumnKey | null => {
+  if (serviceKey === 'e' || serviceKey === 'prior' || serviceKey === 'priority') return 'formatPrio';
+  if (serviceKey === 'c' || serviceKey === 'eco' || serviceKey === 'economy') return 'formatEco';
+  if (serviceKey === 's' || serviceKey === 's3c') return 'formatS3C';
+  return null;
+};
+
+export const resolvePreAlertColumn = (key: PreAlertColumnKey, detail: ShipmentDetail, labels: LabelMaps): string => {
+  const serviceKey = detail.serviceId?.toLowerCase();
+  const mappedFormatCollection = serviceKey && SERVICE_FORMAT_MAPPING[serviceKey] ? SERVICE_FORMAT_MAPPING[serviceKey] : null;
+  const formatLabel = mappedFormatCollection && detail.formatId
+    ? getLabelFromMap(labels[mappedFormatCollection], detail.formatId, detail.formatId)
+    : detail.formatId || '';
+
+  switch (key) {
+    case 'customer': return getLabelFromMap(labels['customers'], detail.customerId, detail.customerId);
+    case 'receptacleId': return detail.receptacleId || '-';
+    case 'dispatchNumber': return detail.dispatchNumber || 'N/A';
+    case 'doe': return getLabelFromMap(labels['doe'], detail.doeId, detail.doeId || 'N/A');
+    case 'service': return getLabelFromMap(labels['services'], detail.serviceId);
+    case 'format': return formatLabel || '-';
+    case 'formatPrio':
+    case 'formatEco':
+    case 'formatS3C':
+      return serviceFormatColumn(serviceKey) === key && formatLabel ? formatLabel : '-';
+    case 'numPallets': return (detail.numPallets || 0).toString();
+    case 'numBags': return (detail.numBags || 0).toString();
+    case 'tareWeight': return (detail.tareWeight || 0).toFixed(2);
+    case 'grossWeight': return (detail.grossWeight || 0).toFixed(2);
+    case 'netWeight': return (detail.netWeight || 0).toFixed(2);
+  }
+};
@@ -0,0 +1,34 @@
+import type { Driver } from '@/lib/types';
+
+// Replaces the name of a driver whose personal data was erased, on the driver
+// record and on the shipments that named them. Must match ERASED_DRIVER_NAME in functions/src/drivers.ts.
+export const ERASED_DRIVER_NAME = 'ERASED DRIVER';
+
+// Names are compared the way the shipment form stores them: upper case, single spaces
+const nameKey = (name: string): string => name.trim().replace(/\s+/g, ' ').toUpperCase();
+
+/**
+ * Finds the registered driver a typed name refers to, preferring the given
+ * carrier's drivers when drivers of several carriers share the name.
+ * Erased drivers are never matched.
+ * @param drivers The registered drivers.
+ * @param name The name as typed.
+ * @param carrierId The shipment's carrier, if chosen.
+ * @returns The driver, or undefined for an unregistered name.
+ */
+export const findDriverByName = (drivers: Driver[], name: string, carrierId?: string): Driver | undefined => {
+  const key = nameKey(name);
+  if (!key) return undefined;
+  const matches = drivers.filter(driver => !driver.erasedAt && nameKey(driver.name) === key);
+  return matches.find(driver => driver.carrierId === carrierId) ?? matches[0];
+};
+
+/**
+ * The driver's contact details printed after their name in the carrier box of the CMR.
+ * @param driver The shipment's registered driver.
+ * @returns Phone and ID parts, leaving out what is not known.
+ */
+export const driverContactDetails = (driver: Driver): string[] => {
+  const idLine = [driver.idNumber && `ID ${driver.idNumber}`, driver.nationality && `(${driver.nationality})`].filter(Boolean).join(' ');
+  return [driver.phone && `Tel ${driver.phone}`, idLine].filter(Boolean);
+};
@@ -0,0 +1,66 @@
+import { db } from './config';
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import type { AuditLog } from '@/lib/types';
+
+// Entries are written by the auditTrail Cloud Functions, never by the client.
+const AUDIT_LOGS_COLLECTION = 'audit_logs';
+
+export interface AuditLogFilters {
+  userId?: string;
+  collectionName?: string;
+  documentId?: string;
+  from?: Date;
+  to?: Date;
+  maxResults?: number;
+}
+
+const auditLogFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): AuditLog => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    timestamp: data.timestamp instanceof Timestamp ? data.timestamp : Timestamp.now(),
+    userId: data.userId || '',
+    userEmail: data.userEmail || undefined,
+    action: data.action || '',
+    collectionPath: data.collectionPath || '',
+    collectionName: data.collectionName || '',
+    documentId: data.documentId || '',
+    changes: data.changes || undefined,
+    details: data.details || undefined,
+  };
+};
+
+/**
+ * Fetches audit log entries, newest first (admin only).
+ * Equality filters are combined with an optional timestamp range.
+ * @param filters Optional user, collection, document and date filters.
+ * @returns A promise resolving to the matching audit log entries.
+ */
+export const getAuditLogs = async (filters: AuditLogFilters = {}): Promise<AuditLog[]> => {
+  const constraints: QueryConstraint[] = [];
+  if (filters.userId) constraints.push(where('userId', '==', filters.userId));
+  if (filters.collectionName) constraints.push(where('collectionName', '==', filters.collectionName));
+  if (filters.documentId) constraints.push(where('documentId', '==', filters.documentId));
+  if (filters.from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(filters.from)));
+  if (filters.to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(filters.to)));
+  constraints.push(orderBy('timestamp', 'desc'), limit(filters.maxResults ?? 200));
+
+  try {
+    const snapshot = await getDocs(query(collection(db, AUDIT_LOGS_COLLECTION), ...constraints));
+    return snapshot.docs.map(auditLogFromFirestore);
+  } catch (error) {
+    console.error("[AuditService] Error fetching audit logs:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,103 @@
+import { db } from './config';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  orderBy,
+  serverTimestamp,
+  runTransaction,
+  setDoc,
+  deleteDoc,
+  Timestamp,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import type { BarcodeFieldRule, BarcodeRule } from '@/lib/types';
+import { BARCODE_RULE_FIELDS, isValidBarcodePattern } from '@/lib/barcodeRules';
+
+const BARCODE_RULES_COLLECTION = 'barcode_rules';
+
+export type BarcodeRuleInput = Omit<BarcodeRule, 'id' | 'createdAt' | 'lastUpdated'>;
+
+const fieldRuleFromFirestore = (data: DocumentData | undefined): BarcodeFieldRule => ({
+  segment: typeof data?.segment === 'number' ? data.segment : null,
+  start: typeof data?.start === 'number' ? data.start : 0,
+  length: typeof data?.length === 'number' ? data.length : null,
+  stripZeros: data?.stripZeros === true,
+  divideBy: typeof data?.divideBy === 'number' ? data.divideBy : null,
+});
+
+const barcodeRuleFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): BarcodeRule => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    name: data.name || '',
+    pattern: data.pattern || '',
+    separator: data.separator || '',
+    priority: typeof data.priority === 'number' ? data.priority : 0,
+    active: data.active !== false,
+    fields: {
+      doe: fieldRuleFromFirestore(data.fields?.doe),
+      dispatchNumber: fieldRuleFromFirestore(data.fields?.dispatchNumber),
+      grossWeight: fieldRuleFromFirestore(data.fields?.grossWeight),
+    },
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : undefined,
+  };
+};
+
+// A rule with an invalid pattern, or reading a segment without a separator, is refused
+const assertValidBarcodeRule = (rule: BarcodeRuleInput): void => {
+  if (!isValidBarcodePattern(rule.pattern)) throw new Error(`"${rule.pattern}" is not a valid regular expression.`);
+  const segmentField = BARCODE_RULE_FIELDS.find(({ key }) => rule.fields[key].segment !== null);
+  if (segmentField && !rule.separator) throw new Error(`${segmentField.label} reads a segment, so the rule needs a separator.`);
+};
+
+export const getBarcodeRules = async (): Promise<BarcodeRule[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, BARCODE_RULES_COLLECTION), orderBy('priority', 'asc')));
+    return snapshot.docs.map(barcodeRuleFromFirestore);
+  } catch (error) {
+    console.error("[BarcodeRulesService] Error fetching barcode rules:", error);
+    throw error;
+  }
+};
+
+export const addBarcodeRule = async (rule: BarcodeRuleInput): Promise<string> => {
+  assertValidBarcodeRule(rule);
+  const ruleRef = doc(collection(db, BARCODE_RULES_COLLECTION));
+  try {
+    await setDoc(ruleRef, { ...rule, createdAt: serverTimestamp(), lastUpdated: serverTimestamp() });
+    return ruleRef.id;
+  } catch (error) {
+    console.error("[BarcodeRulesService] Error adding barcode rule:", error);
+    throw error;
+  }
+};
+
+export const updateBarcodeRule = async (ruleId: string, rule: BarcodeRuleInput): Promise<void> => {
+  assertValidBarcodeRule(rule);
+  const ruleRef = doc(db, BARCODE_RULES_COLLECTION, ruleId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(ruleRef);
+      if (!currentSnap.exists()) throw new Error(`Barcode rule ${ruleId} does not exist.`);
+      transaction.update(ruleRef, { ...rule, lastUpdated: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error(`[BarcodeRulesService] Error updating barcode rule ${ruleId}:`, error);
+    throw error;
+  }
+};
+
+// Items keep the receptacle fields decoded when they were saved
+export const deleteBarcodeRule = async (ruleId: string): Promise<void> => {
+  const ruleRef = doc(db, BARCODE_RULES_COLLECTION, ruleId);
+  try {
+    await deleteDoc(ruleRef);
+  } catch (error) {
+    console.error(`[BarcodeRulesService] Error deleting barcode rule ${ruleId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,146 @@
+import { app, db } from './config';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  serverTimestamp,
+  runTransaction,
+  setDoc,
+  Timestamp,
+  type DocumentData,
+  type DocumentSnapshot,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import type { Driver } from '@/lib/types';
+
+const DRIVERS_COLLECTION = 'drivers';
+
+export type DriverInput = Omit<Driver, 'id' | 'erasedAt' | 'createdAt' | 'lastUpdated'>;
+
+// Everything stored about a driver, as returned by the exportDriverData function
+export interface DriverDataExport {
+  exportedAt: string;
+  driver: Record<string, unknown>;
+  shipments: { id: string; status: string; departureDate: string | null; driverName: string }[];
+  shipmentTemplates: { id: string; name: string }[];
+  auditTrail: { timestamp: string | null; action: string; userEmail: string | null; changes: Record<string, unknown> }[];
+}
+
+const driverFromFirestore = (docSnap: DocumentSnapshot<DocumentData>): Driver => {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    name: data.name || '',
+    carrierId: data.carrierId || '',
+    phone: data.phone || '',
+    idNumber: data.idNumber || '',
+    nationality: data.nationality || '',
+    active: data.active !== false,
+    erasedAt: data.erasedAt instanceof Timestamp ? data.erasedAt : undefined,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : undefined,
+  };
+};
+
+// Names are stored the way the shipment form prints them
+const normalizeDriverInput = (driver: DriverInput): DriverInput => ({
+  ...driver,
+  name: driver.name.trim().replace(/\s+/g, ' ').toUpperCase(),
+  phone: driver.phone.trim(),
+  idNumber: driver.idNumber.trim().toUpperCase(),
+  nationality: driver.nationality.trim().toUpperCase(),
+});
+
+export const getDrivers = async (): Promise<Driver[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, DRIVERS_COLLECTION), orderBy('name', 'asc')));
+    return snapshot.docs.map(driverFromFirestore);
+  } catch (error) {
+    console.error("[DriversService] Error fetching drivers:", error);
+    throw error;
+  }
+};
+
+// Returns null for a missing driver, e.g. one deleted since the shipment was saved
+export const getDriver = async (driverId: string): Promise<Driver | null> => {
+  try {
+    const docSnap = await getDoc(doc(db, DRIVERS_COLLECTION, driverId));
+    return docSnap.exists() ? driverFromFirestore(docSnap) : null;
+  } catch (error) {
+    console.error(`[DriversService] Error fetching driver ${driverId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Registers a driver.
+ * @param driver The driver to register.
+ * @returns The new driver.
+ */
+export const addDriver = async (driver: DriverInput): Promise<Driver> => {
+  const normalized = normalizeDriverInput(driver);
+  const driverRef = doc(collection(db, DRIVERS_COLLECTION));
+  try {
+    await setDoc(driverRef, { ...normalized, createdAt: serverTimestamp(), lastUpdated: serverTimestamp() });
+    return { ...normalized, id: driverRef.id };
+  } catch (error) {
+    console.error("[DriversService] Error adding driver:", error);
+    throw error;
+  }
+};
+
+// Shipments keep the name they were saved with; renaming a driver does not change them
+export const updateDriver = async (driverId: string, driver: DriverInput): Promise<void> => {
+  const normalized = normalizeDriverInput(driver);
+  const driverRef = doc(db, DRIVERS_COLLECTION, driverId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(driverRef);
+      if (!currentSnap.exists()) throw new Error(`Driver ${driverId} does not exist.`);
+      if (currentSnap.data().erasedAt) throw new Error("This driver's personal data was erased; register them again instead.");
+      transaction.update(driverRef, { ...normalized, lastUpdated: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error(`[DriversService] Error updating driver ${driverId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Collects everything stored about a driver, for a subject access request.
+ * Runs server-side so the audit trail is covered too.
+ * @param driverId The driver to export.
+ * @returns The driver's data.
+ */
+export const exportDriverData = async (driverId: string): Promise<DriverDataExport> => {
+  try {
+    const exportCallable = httpsCallable<{ driverId: string }, DriverDataExport>(getFunctions(app), 'exportDriverData');
+    const result = await exportCallable({ driverId });
+    return result.data;
+  } catch (error) {
+    console.error(`[DriversService] Error exporting driver ${driverId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Erases a driver's personal data: the driver record, the name on their
+ * shipments and templates, and the values in the audit trail. The stored CMR
+ * and e-CMR of the shipments are replaced by versions without the driver. The
+ * record is kept, without personal data, so shipments still point at it.
+ * @param driverId The driver to erase.
+ * @returns The number of shipments whose driver name was erased.
+ */
+export const eraseDriverData = async (driverId: string): Promise<number> => {
+  try {
+    const eraseCallable = httpsCallable<{ driverId: string }, { shipments: number }>(getFunctions(app), 'eraseDriverData');
+    const result = await eraseCallable({ driverId });
+    return result.data.shipments;
+  } catch (error) {
+    console.error(`[DriversService] Error erasing driver ${driverId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,151 @@
+import { auth, db } from './config';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  runTransaction,
+  writeBatch,
+  Timestamp,
+  type DocumentData,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot,
+  type Transaction,
+} from 'firebase/firestore';
+import type { LoadScan } from '@/lib/types';
+import type { LoadVerificationCounts } from '@/lib/loadVerification';
+import { normalizeReceptacleId } from '@/lib/utils';
+import { isShipmentLoadEditable, normalizeShipmentStatus } from '@/lib/shipmentStatus';
+
+export const LOAD_SCANS_COLLECTION = 'load_scans';
+
+export const loadScanFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): LoadScan => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    barcode: data.barcode || '',
+    receptacleId: data.receptacleId || '',
+    detailId: data.detailId || null,
+    scannedBy: data.scannedBy || '',
+    scannedAt: data.scannedAt instanceof Timestamp ? data.scannedAt : undefined,
+  };
+};
+
+const currentUid = (): string => {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error("[LoadVerificationService] A signed-in user is required to verify a load.");
+  return uid;
+};
+
+// The load can only be verified while the truck is being loaded
+const getLoadingShipment = async (transaction: Transaction, shipmentId: string): Promise<DocumentSnapshot<DocumentData>> => {
+  const shipmentSnap = await transaction.get(doc(db, 'shipments', shipmentId));
+  if (!shipmentSnap.exists()) throw new Error(`Shipment ${shipmentId} does not exist.`);
+  const status = normalizeShipmentStatus(shipmentSnap.data().status, null);
+  if (!isShipmentLoadEditable(status)) throw new Error(`Shipment ${shipmentId} is ${status}; its load can no longer be verified.`);
+  return shipmentSnap;
+};
+
+export const getLoadScans = async (shipmentId: string): Promise<LoadScan[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'shipments', shipmentId, LOAD_SCANS_COLLECTION)));
+    return snapshot.docs.map(loadScanFromFirestore);
+  } catch (error) {
+    console.error(`[LoadVerificationService] Error fetching load scans for shipment ${shipmentId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Records a receptacle scanned on the truck. Each receptacle is recorded once,
+ * under its receptacle ID, so scanning it again changes nothing.
+ * @param shipmentId The shipment being loaded.
+ * @param barcode The scanned code.
+ * @returns False when the receptacle had already been scanned.
+ */
+export const recordLoadScan = async (shipmentId: string, barcode: string): Promise<boolean> => {
+  const receptacleId = normalizeReceptacleId(barcode);
+  if (!receptacleId) throw new Error("A barcode is required.");
+  // Document IDs cannot contain slashes
+  const scanRef = doc(db, 'shipments', shipmentId, LOAD_SCANS_COLLECTION, receptacleId.replace(/\//g, '_'));
+  try {
+    return await runTransaction(db, async (transaction) => {
+      await getLoadingShipment(transaction, shipmentId);
+      if ((await transaction.get(scanRef)).exists()) return false;
+      transaction.set(scanRef, { barcode: barcode.trim(), receptacleId, detailId: null, scannedBy: currentUid(), scannedAt: serverTimestamp() });
+      return true;
+    });
+  } catch (error) {
+    console.error(`[LoadVerificationService] Error recording a load scan for shipment ${shipmentId}:`, error);
+    throw error;
+  }
+};
+
+// For items that cannot be scanned, such as pallets without a label
+export const confirmItemLoaded = async (shipmentId: string, detailId: string): Promise<void> => {
+  const scanRef = doc(db, 'shipments', shipmentId, LOAD_SCANS_COLLECTION, `item_${detailId}`);
+  try {
+    await runTransaction(db, async (transaction) => {
+      await getLoadingShipment(transaction, shipmentId);
+      if ((await transaction.get(scanRef)).exists()) return;
+      transaction.set(scanRef, { barcode: '', receptacleId: '', detailId, scannedBy: currentUid(), scannedAt: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error(`[LoadVerificationService] Error confirming item ${detailId} of shipment ${shipmentId}:`, error);
+    throw error;
+  }
+};
+
+export const removeLoadScan = async (shipmentId: string, scanId: string): Promise<void> => {
+  const scanRef = doc(db, 'shipments', shipmentId, LOAD_SCANS_COLLECTION, scanId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      await getLoadingShipment(transaction, shipmentId);
+      transaction.delete(scanRef);
+    });
+  } catch (error) {
+    console.error(`[LoadVerificationService] Error removing load scan ${scanId} of shipment ${shipmentId}:`, error);
+    throw error;
+  }
+};
+
+// Starts the verification over, e.g. after the truck was unloaded and loaded again
+export const clearLoadScans = async (shipmentId: string): Promise<void> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'shipments', shipmentId, LOAD_SCANS_COLLECTION)));
+    const batch = writeBatch(db);
+    snapshot.docs.forEach(scanDoc => batch.delete(scanDoc.ref));
+    await batch.commit();
+  } catch (error) {
+    console.error(`[LoadVerificationService] Error clearing the load scans of shipment ${shipmentId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Lets a shipment be sealed although its load check has not passed. Only
+ * admins can do this. The reason and the counts at the time are stored on the
+ * shipment and in the audit log; sealing with a passing check replaces them.
+ * @param shipmentId The shipment being loaded.
+ * @param reason Why the check is overridden; required.
+ * @param counts The state of the check being overridden.
+ */
+export const overrideLoadVerification = async (shipmentId: string, reason: string, counts: LoadVerificationCounts): Promise<void> => {
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) throw new Error("A reason is required to override the load verification.");
+  const shipmentRef = doc(db, 'shipments', shipmentId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      await getLoadingShipment(transaction, shipmentId);
+      const dataToUpdate: DocumentData = {
+        loadVerification: { result: 'overridden', ...counts, checkedBy: currentUid(), checkedAt: serverTimestamp(), reason: trimmedReason },
+        lastUpdated: serverTimestamp(),
+      };
+      transaction.update(shipmentRef, dataToUpdate);
+    });
+  } catch (error) {
+    console.error(`[LoadVerificationService] Error overriding the load verification of shipment ${shipmentId}:`, error);
+    throw error;
+  }
+};
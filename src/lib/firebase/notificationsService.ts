@@ -0,0 +1,86 @@
+import { db } from './config';
+import {
+  collection,
+  doc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  updateDoc,
+  writeBatch,
+  Timestamp,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import type { Notification, NotificationType } from '@/lib/types';
+
+const NOTIFICATION_TYPES: NotificationType[] = ['shipment_sealed', 'shipment_completed', 'shipment_overdue', 'role_changed'];
+
+// Only the most recent notifications are kept in the header dropdown.
+const MAX_NOTIFICATIONS = 30;
+
+const notificationFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): Notification => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    userId: data.userId || '',
+    type: NOTIFICATION_TYPES.includes(data.type) ? data.type : 'shipment_completed',
+    title: data.title || '',
+    body: data.body || '',
+    shipmentId: data.shipmentId || undefined,
+    read: data.read === true,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : Timestamp.now(),
+  };
+};
+
+/**
+ * Listens to the signed-in user's most recent notifications, newest first.
+ * Notifications are created server-side by Cloud Functions.
+ * @param userId The UID of the signed-in user.
+ * @param onChange Called with the current notifications on every change.
+ * @param onError Called if the listener fails (e.g. missing index or permissions).
+ * @returns A function that stops the listener.
+ */
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: (notifications: Notification[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'notifications'),
+    where('userId', '==', userId),
+    orderBy('createdAt', 'desc'),
+    limit(MAX_NOTIFICATIONS)
+  );
+  return onSnapshot(
+    q,
+    (snapshot) => onChange(snapshot.docs.map(notificationFromFirestore)),
+    (error) => {
+      console.error(`[NotificationsService] Error listening to notifications for ${userId}:`, error);
+      onError(error);
+    }
+  );
+};
+
+export const markNotificationRead = async (notificationId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'notifications', notificationId), { read: true });
+  } catch (error) {
+    console.error(`[NotificationsService] Error marking notification ${notificationId} as read:`, error);
+    throw error;
+  }
+};
+
+export const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+  if (notificationIds.length === 0) return;
+  const batch = writeBatch(db);
+  notificationIds.forEach(id => batch.update(doc(db, 'notifications', id), { read: true }));
+  try {
+    await batch.commit();
+  } catch (error) {
+    console.error("[NotificationsService] Error marking notifications as read:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,222 @@
+import { auth, db } from './config';
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+  writeBatch,
+  Timestamp,
+  type DocumentData,
+  type DocumentSnapshot,
+  type QueryConstraint,
+} from 'firebase/firestore';
+import { addDays, format, startOfDay } from 'date-fns';
+import type { Manifest, PreAdvisedReceptacle, ShipmentDetail } from '@/lib/types';
+import { MAX_MANIFEST_RECEPTACLES, normalizeDispatchNumber, type ManifestLine } from '@/lib/preAdvice';
+import { normalizeShipmentStatus } from '@/lib/shipmentStatus';
+import { detailFromFirestore } from './shipmentsService';
+
+const MANIFESTS_COLLECTION = 'manifests';
+const RECEPTACLES_SUBCOLLECTION = 'receptacles';
+
+// Batches take at most 500 writes, and the first also holds the manifest
+const RECEPTACLES_PER_WRITE_BATCH = 450;
+
+// What was pre-advised and what was loaded for one customer on one day
+export interface PreAdviceDay {
+  manifests: Manifest[];
+  preAdvised: PreAdvisedReceptacle[];
+  received: ShipmentDetail[]; // The customer's items on the day's shipments, cancelled ones aside
+}
+
+const manifestFromFirestore = (docSnap: DocumentSnapshot<DocumentData>): Manifest => {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    customerId: data.customerId || '',
+    manifestDate: data.manifestDate instanceof Timestamp ? data.manifestDate : Timestamp.now(),
+    fileName: data.fileName || '',
+    receptacleCount: data.receptacleCount ?? 0,
+    totalGrossWeight: data.totalGrossWeight ?? 0,
+    uploadedBy: data.uploadedBy || '',
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+  };
+};
+
+const preAdvisedReceptacleFromFirestore = (docSnap: DocumentSnapshot<DocumentData>): PreAdvisedReceptacle => {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    manifestId: docSnap.ref.parent.parent?.id || '',
+    customerId: data.customerId || '',
+    manifestDate: data.manifestDate instanceof Timestamp ? data.manifestDate : Timestamp.now(),
+    dispatchNumber: data.dispatchNumber || '',
+    doeId: data.doeId || '',
+    barcode: data.barcode || '',
+    receptacleId: data.receptacleId || '',
+    grossWeight: typeof data.grossWeight === 'number' ? data.grossWeight : 0,
+    line: data.line ?? 0,
+  };
+};
+
+const currentUid = (): string => {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error("[PreAdviceService] A signed-in user is required to change manifests.");
+  return uid;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+// --- Reads ---
+
+export const getManifests = async (customerId?: string, maxResults = 100): Promise<Manifest[]> => {
+  const constraints: QueryConstraint[] = customerId ? [where('customerId', '==', customerId)] : [];
+  try {
+    const snapshot = await getDocs(query(collection(db, MANIFESTS_COLLECTION), ...constraints, orderBy('manifestDate', 'desc'), limit(maxResults)));
+    return snapshot.docs.map(manifestFromFirestore);
+  } catch (error) {
+    console.error("[PreAdviceService] Error fetching manifests:", error);
+    throw error;
+  }
+};
+
+const getManifestReceptacles = async (manifestId: string): Promise<PreAdvisedReceptacle[]> => {
+  const snapshot = await getDocs(query(collection(db, MANIFESTS_COLLECTION, manifestId, RECEPTACLES_SUBCOLLECTION), orderBy('line', 'asc')));
+  return snapshot.docs.map(preAdvisedReceptacleFromFirestore);
+};
+
+/**
+ * The receptacles a customer pre-advised under a dispatch number, on any of
+ * its manifests, to match an item with while it is entered.
+ * @param customerId The item's customer.
+ * @param dispatchNumber The item's dispatch number; leading zeros do not matter.
+ */
+export const getPreAdvisedReceptacles = async (customerId: string, dispatchNumber: string): Promise<PreAdvisedReceptacle[]> => {
+  try {
+    const snapshot = await getDocs(query(collectionGroup(db, RECEPTACLES_SUBCOLLECTION),
+      where('customerId', '==', customerId),
+      where('dispatchKey', '==', normalizeDispatchNumber(dispatchNumber))));
+    return snapshot.docs.map(preAdvisedReceptacleFromFirestore);
+  } catch (error) {
+    console.error(`[PreAdviceService] Error fetching pre-advised receptacles of dispatch ${dispatchNumber}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Everything needed to reconcile a customer's pre-advice for a day: the
+ * manifests uploaded for that day and their receptacles, and the customer's
+ * items on the shipments departing that day.
+ * @param customerId The customer.
+ * @param day Any time on the day.
+ */
+export const getPreAdviceDay = async (customerId: string, day: Date): Promise<PreAdviceDay> => {
+  const start = startOfDay(day);
+  try {
+    const manifestSnap = await getDocs(query(collection(db, MANIFESTS_COLLECTION),
+      where('customerId', '==', customerId),
+      where('manifestDate', '==', Timestamp.fromDate(start))));
+    const manifests = manifestSnap.docs.map(manifestFromFirestore);
+    const preAdvised = (await Promise.all(manifests.map(manifest => getManifestReceptacles(manifest.id)))).flat();
+
+    const shipmentSnap = await getDocs(query(collection(db, 'shipments'),
+      where('customerIds', 'array-contains', customerId),
+      where('departureDate', '>=', Timestamp.fromDate(start)),
+      where('departureDate', '<', Timestamp.fromDate(addDays(start, 1))),
+      orderBy('departureDate', 'desc')));
+    const shipmentIds = shipmentSnap.docs
+      .filter(shipmentDoc => normalizeShipmentStatus(shipmentDoc.data().status, null) !== 'Cancelled')
+      .map(shipmentDoc => shipmentDoc.id);
+    const received = (await Promise.all(shipmentIds.map(async shipmentId => {
+      const detailSnap = await getDocs(query(collection(db, 'shipments', shipmentId, 'details'), where('customerId', '==', customerId)));
+      return detailSnap.docs.map(detailFromFirestore);
+    }))).flat();
+
+    return { manifests, preAdvised, received };
+  } catch (error) {
+    console.error(`[PreAdviceService] Error fetching the pre-advice of customer ${customerId} for ${format(start, 'yyyy-MM-dd')}:`, error);
+    throw error;
+  }
+};
+
+// --- Admin: upload and delete ---
+
+/**
+ * Stores a customer's manifest. The upload is refused whole if it has no
+ * receptacles or too many; the lines are expected to be checked already
+ * (see parseManifestRows).
+ * @param customerId The customer that sent the manifest.
+ * @param day The day the receptacles are due to leave.
+ * @param fileName The uploaded file's name, to recognise the manifest by.
+ * @param lines The manifest's receptacles.
+ * @returns The ID of the new manifest.
+ */
+export const importManifest = async (customerId: string, day: Date, fileName: string, lines: ManifestLine[]): Promise<string> => {
+  if (!customerId) throw new Error("A customer is required.");
+  if (lines.length === 0) throw new Error("The manifest has no receptacles.");
+  if (lines.length > MAX_MANIFEST_RECEPTACLES) throw new Error(`A manifest can hold at most ${MAX_MANIFEST_RECEPTACLES} receptacles.`);
+
+  const manifestDate = Timestamp.fromDate(startOfDay(day));
+  const manifestRef = doc(collection(db, MANIFESTS_COLLECTION));
+  try {
+    const manifestData = {
+      customerId,
+      manifestDate,
+      fileName: fileName.trim(),
+      receptacleCount: lines.length,
+      totalGrossWeight: parseFloat(lines.reduce((sum, line) => sum + line.grossWeight, 0).toFixed(3)),
+      uploadedBy: currentUid(),
+      createdAt: serverTimestamp(),
+    };
+    for (const [index, linesChunk] of chunk(lines, RECEPTACLES_PER_WRITE_BATCH).entries()) {
+      const batch = writeBatch(db);
+      if (index === 0) {
+        batch.set(manifestRef, manifestData);
+      }
+      linesChunk.forEach(line => {
+        batch.set(doc(collection(manifestRef, RECEPTACLES_SUBCOLLECTION)), {
+          ...line,
+          dispatchKey: normalizeDispatchNumber(line.dispatchNumber),
+          customerId,
+          manifestDate,
+        });
+      });
+      await batch.commit();
+    }
+    return manifestRef.id;
+  } catch (error) {
+    console.error("[PreAdviceService] Error importing manifest:", error);
+    throw error;
+  }
+};
+
+// Removes a manifest uploaded by mistake, with its receptacles
+export const deleteManifest = async (manifestId: string): Promise<void> => {
+  const manifestRef = doc(db, MANIFESTS_COLLECTION, manifestId);
+  try {
+    const manifestSnap = await getDoc(manifestRef);
+    if (!manifestSnap.exists()) throw new Error(`Manifest ${manifestId} does not exist.`);
+    const receptacleSnap = await getDocs(collection(manifestRef, RECEPTACLES_SUBCOLLECTION));
+    for (const docsChunk of chunk(receptacleSnap.docs, RECEPTACLES_PER_WRITE_BATCH)) {
+      const batch = writeBatch(db);
+      docsChunk.forEach(receptacleDoc => batch.delete(receptacleDoc.ref));
+      await batch.commit();
+    }
+    const batch = writeBatch(db);
+    batch.delete(manifestRef);
+    await batch.commit();
+  } catch (error) {
+    console.error(`[PreAdviceService] Error deleting manifest ${manifestId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,99 @@
+import { app, db } from './config';
+import {
+  collection,
+  doc,
+  getDocs,
+  serverTimestamp,
+  runTransaction,
+  setDoc,
+  deleteDoc,
+  Timestamp,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import type { DepartureSchedule } from '@/lib/types';
+
+const DEPARTURE_SCHEDULES_COLLECTION = 'departure_schedules';
+
+export type DepartureScheduleInput = Omit<DepartureSchedule, 'id' | 'createdAt' | 'lastUpdated'>;
+
+const scheduleFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): DepartureSchedule => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    lane: data.lane || docSnap.id,
+    carrierId: data.carrierId || '',
+    subcarrierId: data.subcarrierId || null,
+    senderAddress: data.senderAddress || '',
+    consigneeAddress: data.consigneeAddress || '',
+    weekday: typeof data.weekday === 'number' ? data.weekday : 1,
+    departureTime: data.departureTime || '00:00',
+    active: data.active !== false,
+    plannedThrough: data.plannedThrough || undefined,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : undefined,
+  };
+};
+
+// Monday first, then by departure time, as the timetable reads
+const weekOrder = (schedule: DepartureSchedule) => ((schedule.weekday + 6) % 7) * 10000 + Number(schedule.departureTime.replace(':', ''));
+
+export const getDepartureSchedules = async (): Promise<DepartureSchedule[]> => {
+  try {
+    const snapshot = await getDocs(collection(db, DEPARTURE_SCHEDULES_COLLECTION));
+    return snapshot.docs.map(scheduleFromFirestore).sort((a, b) => weekOrder(a) - weekOrder(b));
+  } catch (error) {
+    console.error("[SchedulesService] Error fetching departure schedules:", error);
+    throw error;
+  }
+};
+
+export const addDepartureSchedule = async (schedule: DepartureScheduleInput): Promise<string> => {
+  const scheduleRef = doc(collection(db, DEPARTURE_SCHEDULES_COLLECTION));
+  try {
+    await setDoc(scheduleRef, { ...schedule, createdAt: serverTimestamp(), lastUpdated: serverTimestamp() });
+    return scheduleRef.id;
+  } catch (error) {
+    console.error("[SchedulesService] Error adding departure schedule:", error);
+    throw error;
+  }
+};
+
+export const updateDepartureSchedule = async (scheduleId: string, schedule: DepartureScheduleInput): Promise<void> => {
+  const scheduleRef = doc(db, DEPARTURE_SCHEDULES_COLLECTION, scheduleId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(scheduleRef);
+      if (!currentSnap.exists()) throw new Error(`Departure schedule ${scheduleId} does not exist.`);
+      transaction.update(scheduleRef, { ...schedule, lastUpdated: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error(`[SchedulesService] Error updating departure schedule ${scheduleId}:`, error);
+    throw error;
+  }
+};
+
+export const deleteDepartureSchedule = async (scheduleId: string): Promise<void> => {
+  const scheduleRef = doc(db, DEPARTURE_SCHEDULES_COLLECTION, scheduleId);
+  try {
+    await deleteDoc(scheduleRef);
+  } catch (error) {
+    console.error(`[SchedulesService] Error deleting departure schedule ${scheduleId}:`, error);
+    throw error;
+  }
+};
+
+// The scheduler runs daily on its own; this runs it now through the
+// runDepartureSchedules callable (admin only). Shipments it already planned
+// are not created again.
+export const runDepartureSchedules = async (): Promise<number> => {
+  try {
+    const runCallable = httpsCallable<Record<string, never>, { created: number }>(getFunctions(app), 'runDepartureSchedules');
+    const result = await runCallable({});
+    return result.data.created;
+  } catch (error) {
+    console.error("[SchedulesService] Error running departure schedules:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,342 @@
+import { auth, db } from './config';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  documentId,
+  serverTimestamp,
+  deleteField,
+  runTransaction,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type DocumentSnapshot,
+  type QueryConstraint,
+  type Transaction,
+  type WriteBatch,
+} from 'firebase/firestore';
+import type { Seal, SealBatch, SealStatus, ShipmentStatus } from '@/lib/types';
+import { isValidSealNumber, MAX_SEALS_PER_IMPORT, normalizeSealNumber, SEAL_STATUS_LABELS } from '@/lib/seals';
+
+const SEALS_COLLECTION = 'seals';
+const SEAL_BATCHES_COLLECTION = 'seal_batches';
+
+// Firestore 'in' filters take at most 30 values; batches at most 500 writes
+const IN_QUERY_LIMIT = 30;
+const SEALS_PER_WRITE_BATCH = 450;
+
+export interface SealAuditReport {
+  voided: Seal[];
+  // Issued or used seals no shipment carries any more, with what went wrong
+  missing: { seal: Seal; problem: string }[];
+}
+
+const sealRef = (sealNumber: string) => doc(db, SEALS_COLLECTION, sealNumber);
+
+const sealFromFirestore = (docSnap: DocumentSnapshot<DocumentData>): Seal => {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    number: data.number || docSnap.id,
+    batchId: data.batchId || '',
+    status: data.status || 'in_stock',
+    shipmentId: data.shipmentId || null,
+    issuedAt: data.issuedAt instanceof Timestamp ? data.issuedAt : undefined,
+    issuedBy: data.issuedBy || undefined,
+    usedAt: data.usedAt instanceof Timestamp ? data.usedAt : undefined,
+    voidedAt: data.voidedAt instanceof Timestamp ? data.voidedAt : undefined,
+    voidedBy: data.voidedBy || undefined,
+    voidReason: data.voidReason || undefined,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : undefined,
+  };
+};
+
+const sealBatchFromFirestore = (docSnap: DocumentSnapshot<DocumentData>): SealBatch => {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    reference: data.reference || docSnap.id,
+    count: data.count ?? 0,
+    firstNumber: data.firstNumber || '',
+    lastNumber: data.lastNumber || '',
+    importedBy: data.importedBy || '',
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+  };
+};
+
+const currentUid = (): string => {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error("[SealsService] A signed-in user is required to change seals.");
+  return uid;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+// --- Reads ---
+
+export const getSeals = async (status?: SealStatus, maxResults = 500): Promise<Seal[]> => {
+  const constraints: QueryConstraint[] = status ? [where('status', '==', status)] : [];
+  try {
+    const snapshot = await getDocs(query(collection(db, SEALS_COLLECTION), ...constraints, orderBy('number', 'asc'), limit(maxResults)));
+    return snapshot.docs.map(sealFromFirestore);
+  } catch (error) {
+    console.error("[SealsService] Error fetching seals:", error);
+    throw error;
+  }
+};
+
+// The seals a shipment may take: those still in stock, lowest number first
+export const getAvailableSeals = (): Promise<Seal[]> => getSeals('in_stock', 200);
+
+export const getSealBatches = async (): Promise<SealBatch[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, SEAL_BATCHES_COLLECTION), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(sealBatchFromFirestore);
+  } catch (error) {
+    console.error("[SealsService] Error fetching seal batches:", error);
+    throw error;
+  }
+};
+
+// --- Admin: import and void ---
+
+/**
+ * Adds a delivery of seals to stock. The whole delivery is refused if any
+ * of the numbers is malformed or already in the registry, so a seal can
+ * never be imported twice. Each chunk is written in a transaction that reads
+ * its seals first, so a seal added meanwhile (e.g. by another admin importing
+ * the same box) is never overwritten; the rules also refuse creating a seal
+ * over an existing one.
+ * @param reference The delivery note or box label the seals came with.
+ * @param numbers The seal numbers, already normalized (see expandSealRange and parseSealList).
+ * @returns The ID of the new seal batch.
+ */
+export const importSealBatch = async (reference: string, numbers: string[]): Promise<string> => {
+  const trimmedReference = reference.trim();
+  if (!trimmedReference) throw new Error("A batch reference is required.");
+  if (numbers.length === 0) throw new Error("The batch has no seal numbers.");
+  if (numbers.length > MAX_SEALS_PER_IMPORT) throw new Error(`A batch can hold at most ${MAX_SEALS_PER_IMPORT} seals.`);
+  const invalid = numbers.filter(number => !isValidSealNumber(number));
+  if (invalid.length > 0) throw new Error(`Invalid seal number(s): ${invalid.slice(0, 5).join(', ')}.`);
+
+  const describeExisting = (existing: string[]) =>
+    `Already in the registry: ${existing.slice(0, 5).join(', ')}${existing.length > 5 ? ` and ${existing.length - 5} more` : ''}.`;
+
+  try {
+    // Checked up front as well, so a delivery overlapping the registry is refused before anything is written
+    const existing: string[] = [];
+    for (const numbersChunk of chunk(numbers, IN_QUERY_LIMIT)) {
+      const snapshot = await getDocs(query(collection(db, SEALS_COLLECTION), where(documentId(), 'in', numbersChunk)));
+      snapshot.docs.forEach(sealDoc => existing.push(sealDoc.id));
+    }
+    if (existing.length > 0) throw new Error(describeExisting(existing));
+
+    const uid = currentUid();
+    const batchRef = doc(collection(db, SEAL_BATCHES_COLLECTION));
+    const batchData = {
+      reference: trimmedReference,
+      count: numbers.length,
+      firstNumber: numbers[0],
+      lastNumber: numbers[numbers.length - 1],
+      importedBy: uid,
+      createdAt: serverTimestamp(),
+    };
+    const chunks = chunk(numbers, SEALS_PER_WRITE_BATCH);
+    for (const [index, numbersChunk] of chunks.entries()) {
+      await runTransaction(db, async (transaction) => {
+        const snapshots = await Promise.all(numbersChunk.map(number => transaction.get(sealRef(number))));
+        const taken = snapshots.filter(sealSnap => sealSnap.exists()).map(sealSnap => sealSnap.id);
+        if (taken.length > 0) throw new Error(describeExisting(taken));
+
+        if (index === 0) {
+          transaction.set(batchRef, batchData);
+        }
+        numbersChunk.forEach(number => {
+          transaction.set(sealRef(number), {
+            number,
+            batchId: batchRef.id,
+            status: 'in_stock',
+            shipmentId: null,
+            createdAt: serverTimestamp(),
+            lastUpdated: serverTimestamp(),
+          });
+        });
+      });
+    }
+    return batchRef.id;
+  } catch (error) {
+    console.error("[SealsService] Error importing seal batch:", error);
+    throw error;
+  }
+};
+
+/**
+ * Takes a lost or damaged seal out of stock for good. Only seals in stock can
+ * be voided; an issued seal is first replaced on its shipment.
+ * @param sealNumber The seal to void.
+ * @param reason Why it is voided; required for the security report.
+ */
+export const voidSeal = async (sealNumber: string, reason: string): Promise<void> => {
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) throw new Error("A reason is required to void a seal.");
+  const ref = sealRef(normalizeSealNumber(sealNumber));
+  try {
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(ref);
+      if (!currentSnap.exists()) throw new Error(`Seal ${sealNumber} is not in the registry.`);
+      const seal = sealFromFirestore(currentSnap);
+      if (seal.status !== 'in_stock') {
+        throw new Error(`Seal ${seal.number} is ${SEAL_STATUS_LABELS[seal.status].toLowerCase()}; only seals in stock can be voided.`);
+      }
+      const updates = {
+        status: 'voided',
+        voidedAt: serverTimestamp(),
+        voidedBy: currentUid(),
+        voidReason: trimmedReason,
+        lastUpdated: serverTimestamp(),
+      };
+      transaction.update(ref, updates);
+    });
+  } catch (error) {
+    console.error(`[SealsService] Error voiding seal ${sealNumber}:`, error);
+    throw error;
+  }
+};
+
+// --- Shipments ---
+
+const releaseUpdates = () => ({
+  status: 'in_stock',
+  shipmentId: null,
+  issuedAt: deleteField(),
+  issuedBy: deleteField(),
+  lastUpdated: serverTimestamp(),
+});
+
+/**
+ * Queues putting a seal back in stock if it is issued to the given shipment,
+ * e.g. when that shipment is deleted. Used seals stay used.
+ * @param writer The batch or transaction carrying the shipment write.
+ * @param sealSnap The seal, read beforehand.
+ * @param shipmentId The shipment letting go of the seal.
+ */
+export const queueSealRelease = (writer: Transaction | WriteBatch, sealSnap: DocumentSnapshot<DocumentData>, shipmentId: string): void => {
+  if (!sealSnap.exists()) return;
+  const seal = sealFromFirestore(sealSnap);
+  if (seal.status !== 'issued' || seal.shipmentId !== shipmentId) return;
+  const updates = releaseUpdates();
+  (writer as WriteBatch).update(sealSnap.ref, updates);
+};
+
+export const getSealSnapshot = (sealNumber: string) => getDoc(sealRef(normalizeSealNumber(sealNumber)));
+
+/**
+ * Checks the seal side of a shipment write inside its transaction, so a seal
+ * is attached to one shipment at most. A new seal number must be in stock
+ * (or already on this shipment) and is issued to it; the seal it replaces
+ * goes back in stock unless it was already used. Sealing the shipment marks
+ * its seal used, and requires one from the registry; cancelling it releases
+ * an issued seal. Seal numbers typed before the registry existed are left
+ * alone until they are changed or the shipment is sealed.
+ * All reads happen here; call the returned write once every read of the
+ * transaction is done.
+ * @param transaction The shipment write's transaction.
+ * @param shipmentRef The shipment.
+ * @param change The stored seal number, the new one, and the status the shipment moves to (same as before if unchanged).
+ * @returns The normalized new seal number, and the queued seal writes.
+ */
+export const prepareSealChange = async (
+  transaction: Transaction,
+  shipmentRef: DocumentReference,
+  change: { from?: string; to?: string; fromStatus: ShipmentStatus | null; toStatus: ShipmentStatus }
+): Promise<{ sealNumber: string; write: () => void }> => {
+  const from = normalizeSealNumber(change.from ?? '');
+  const to = normalizeSealNumber(change.to ?? '');
+  const toSnap = to ? await transaction.get(sealRef(to)) : null;
+  const fromSnap = from && from !== to ? await transaction.get(sealRef(from)) : null;
+  const sealing = change.toStatus === 'Sealed' && change.fromStatus !== 'Sealed';
+  const cancelling = change.toStatus === 'Cancelled' && change.fromStatus !== 'Cancelled';
+  const changingSeal = to !== from;
+
+  if (sealing && !to) throw new Error("A seal number is required to seal the shipment.");
+  const seal = toSnap?.exists() ? sealFromFirestore(toSnap) : null;
+  if ((changingSeal || sealing) && to && !seal) {
+    throw new Error(`Seal ${to} is not in the seal registry. Pick a seal that is in stock.`);
+  }
+  const onThisShipment = !!seal && seal.shipmentId === shipmentRef.id && seal.status !== 'voided';
+  if (seal && (changingSeal || sealing) && seal.status !== 'in_stock' && !onThisShipment) {
+    throw new Error(`Seal ${seal.number} is ${SEAL_STATUS_LABELS[seal.status].toLowerCase()}${seal.shipmentId ? ` on shipment ${seal.shipmentId}` : ''} and cannot be used again.`);
+  }
+
+  const write = () => {
+    if (fromSnap) queueSealRelease(transaction, fromSnap, shipmentRef.id);
+    if (!seal || !toSnap) return;
+    let updates: DocumentData | null = null;
+    if (cancelling) {
+      if (seal.status === 'issued' && onThisShipment) {
+        updates = releaseUpdates();
+      }
+    } else if (sealing && seal.status !== 'used') {
+      updates = { status: 'used', shipmentId: shipmentRef.id, usedAt: serverTimestamp(), lastUpdated: serverTimestamp() };
+      if (seal.status === 'in_stock') Object.assign(updates, { issuedAt: serverTimestamp(), issuedBy: currentUid() });
+    } else if (changingSeal && seal.status === 'in_stock') {
+      updates = { status: 'issued', shipmentId: shipmentRef.id, issuedAt: serverTimestamp(), issuedBy: currentUid(), lastUpdated: serverTimestamp() };
+    }
+    if (!updates) return;
+    transaction.update(toSnap.ref, updates);
+  };
+  return { sealNumber: to, write };
+};
+
+// --- Security report ---
+
+/**
+ * Lists the voided seals, and the issued or used seals that no shipment
+ * accounts for: their shipment was deleted, cancelled while holding the
+ * seal, or now carries another seal number.
+ * @returns The report.
+ */
+export const getSealAuditReport = async (): Promise<SealAuditReport> => {
+  try {
+    const [voidedSnapshot, attachedSnapshot] = await Promise.all([
+      getDocs(query(collection(db, SEALS_COLLECTION), where('status', '==', 'voided'), orderBy('number', 'asc'))),
+      getDocs(query(collection(db, SEALS_COLLECTION), where('status', 'in', ['issued', 'used']), orderBy('number', 'asc'))),
+    ]);
+    const attached = attachedSnapshot.docs.map(sealFromFirestore);
+
+    const shipmentIds = Array.from(new Set(attached.map(seal => seal.shipmentId).filter((id): id is string => !!id)));
+    const shipments = new Map<string, DocumentData>();
+    for (const idsChunk of chunk(shipmentIds, IN_QUERY_LIMIT)) {
+      const snapshot = await getDocs(query(collection(db, 'shipments'), where(documentId(), 'in', idsChunk)));
+      snapshot.docs.forEach(shipmentDoc => shipments.set(shipmentDoc.id, shipmentDoc.data()));
+    }
+
+    const missing: SealAuditReport['missing'] = [];
+    attached.forEach(seal => {
+      const shipment = seal.shipmentId ? shipments.get(seal.shipmentId) : undefined;
+      if (!seal.shipmentId) {
+        missing.push({ seal, problem: `${SEAL_STATUS_LABELS[seal.status]} without a shipment.` });
+      } else if (!shipment) {
+        missing.push({ seal, problem: `Shipment ${seal.shipmentId} no longer exists.` });
+      } else if (normalizeSealNumber(shipment.sealNumber ?? '') !== seal.number) {
+        missing.push({ seal, problem: `Shipment ${seal.shipmentId} now carries seal ${shipment.sealNumber || '(none)'}.` });
+      } else if (shipment.status === 'Cancelled') {
+        missing.push({ seal, problem: `Shipment ${seal.shipmentId} was cancelled after the seal was used.` });
+      }
+    });
+    return { voided: voidedSnapshot.docs.map(sealFromFirestore), missing };
+  } catch (error) {
+    console.error("[SealsService] Error building the seal audit report:", error);
+    throw error;
+  }
+};
@@ -1,6 +1,7 @@
 import { doc, getDoc, setDoc } from "firebase/firestore";
 import { db } from "./config";
-import type { AppSettings } from "../types";
+import type { AppSettings, WeightBucket } from "../types";
+import { DEFAULT_WEIGHT_BUCKETS } from "../constants";
 
 const settingsDocRef = doc(db, "settings", "app");
   
@@ -43,4 +44,24 @@ export const updateRecipients = async (recipients: string[]): Promise<void> => {
     console.error("Error updating recipients:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+// Customer weight-breakdown buckets, falling back to the built-in defaults
+// until an admin has configured their own.
+export const getWeightBuckets = async (): Promise<WeightBucket[]> => {
+  try {
+    const settings = await getAppSettings();
+    return settings?.weightBuckets?.length ? settings.weightBuckets : DEFAULT_WEIGHT_BUCKETS;
+  } catch (error) {
+    console.error("Error fetching weight buckets:", error);
+    return DEFAULT_WEIGHT_BUCKETS;
+  }
+};
+
+export const updateWeightBuckets = async (weightBuckets: WeightBucket[]): Promise<void> => {
+  try {
+    await updateAppSettings({ weightBuckets });
+  } catch (error) {
+    console.error("Error updating weight buckets:", error);
+    throw error;
+  }
+};
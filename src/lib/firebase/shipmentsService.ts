@@ -1,36 +1,45 @@
  
-import { db } from './config';
+import { app, auth, db } from './config';
 import {
   collection,
-  addDoc,
   getDocs,
   getDoc,
   doc,
-  updateDoc,
-  deleteDoc,
   query,
   orderBy,
   limit,
+  limitToLast,
   startAfter,
   endBefore,
   where,
   Timestamp,
   writeBatch,
+  updateDoc,
+  setDoc,
   serverTimestamp,
   type DocumentData,
   type QueryDocumentSnapshot,
   type DocumentSnapshot,
+  type QueryConstraint,
   collectionGroup,
   runTransaction,
+  arrayUnion,
+  deleteField,
+  type Transaction,
  getCountFromServer
 } from 'firebase/firestore';
-import type { Shipment, ShipmentDetail, ShipmentStatus, DropdownItem } from '@/lib/types';
-import { 
-    PRIMARY_ASENDIA_CUSTOMER_ID_FOR_DASHBOARD_BREAKDOWN,
-    ASENDIA_UK_CUSTOMER_ID,
-    TRANSIT_LIGHT_CUSTOMER_ID,
-    ASENDIA_UK_BAGS_CUSTOMER_ID,
-} from '@/lib/constants';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import type { BarcodeRule, Shipment, ShipmentDetail, DuplicateDetail, ShipmentHeaderGroup, ShipmentStatus, ShipmentStatusChange, DropdownItem, EmailAttempt, ShipmentDocument } from '@/lib/types';
+import { cmrFromFirestore } from '@/lib/documents/cmrData';
+import { pickShipmentHeader, shipmentHeaderOf } from '@/lib/shipmentHeader';
+import { normalizePlate } from '@/lib/vehicles';
+import { netWeightByBucketFromFirestore, normalizeReceptacleId, parseBarcode } from '@/lib/utils';
+import { effectiveBarcodeRules } from '@/lib/barcodeRules';
+import { isSameLoadCounts, loadVerificationCounts, reconcileLoad, type LoadReconciliation } from '@/lib/loadVerification';
+import { assertShipmentTransition, DISPATCHED_SHIPMENT_STATUSES, IN_PROGRESS_SHIPMENT_STATUSES, isShipmentLoadEditable, normalizeShipmentStatus, REOPENED_SHIPMENT_STATUS } from '@/lib/shipmentStatus';
+import { getSealSnapshot, prepareSealChange, queueSealRelease } from './sealsService';
+import { getBarcodeRules } from './barcodeRulesService';
+import { getLoadScans, LOAD_SCANS_COLLECTION } from './loadVerificationService';
 
 // --- Helper Functions ---
 
@@ -44,27 +53,33 @@ export const shipmentFromFirestore = (docSnap: DocumentSnapshot<DocumentData>):
         driverName: '', 
         departureDate: Timestamp.now(), 
         arrivalDate: Timestamp.now(), 
-        status: 'Pending', 
+        status: 'Draft', 
         senderAddress: '', 
         consigneeAddress: '', 
         lastUpdated: Timestamp.now(), 
         createdAt: Timestamp.now(),
         totalNetWeight: 0,
-        asendiaACNetWeight: 0,
-        asendiaUKNetWeight: 0,
-        transitLightNetWeight: 0,
-        remainingCustomersNetWeight: 0,
+        netWeightByBucket: {},
     } as Shipment;
   }
   return {
     id: docSnap.id,
     carrierId: data.carrierId || '',
     subcarrierId: data.subcarrierId || undefined,
+    driverId: data.driverId || null,
     driverName: data.driverName || '',
     departureDate: data.departureDate instanceof Timestamp ? data.departureDate : Timestamp.now(),
     arrivalDate: data.arrivalDate instanceof Timestamp ? data.arrivalDate : Timestamp.now(),
-    status: data.status === 'Completed' ? 'Completed' : 'Pending',
+    status: normalizeShipmentStatus(data.status, data.departureDate instanceof Timestamp ? data.departureDate.toDate() : null),
+    statusHistory: Array.isArray(data.statusHistory) ? (data.statusHistory as ShipmentStatusChange[]) : undefined,
+    statusChangedBy: data.statusChangedBy || undefined,
+    reopenedBy: data.reopenedBy || undefined,
+    reopenedAt: data.reopenedAt instanceof Timestamp ? data.reopenedAt : undefined,
+    reopenReason: data.reopenReason || undefined,
+    scheduleId: data.scheduleId || undefined,
     sealNumber: data.sealNumber || undefined,
+    truckId: data.truckId || null,
+    trailerId: data.trailerId || null,
     truckRegistration: data.truckRegistration || undefined,
     trailerRegistration: data.trailerRegistration || undefined,
     senderAddress: data.senderAddress || '',
@@ -76,15 +91,15 @@ export const shipmentFromFirestore = (docSnap: DocumentSnapshot<DocumentData>):
     totalGrossWeight: typeof data.totalGrossWeight === 'number' ? data.totalGrossWeight : 0,
     totalTareWeight: typeof data.totalTareWeight === 'number' ? data.totalTareWeight : 0,
     totalNetWeight: typeof data.totalNetWeight === 'number' ? data.totalNetWeight : 0,
-    
-    asendiaACNetWeight: typeof data.asendiaACNetWeight === 'number' ? data.asendiaACNetWeight : 0,
-    asendiaUKNetWeight: typeof data.asendiaUKNetWeight === 'number' ? data.asendiaUKNetWeight : 0,
-    transitLightNetWeight: typeof data.transitLightNetWeight === 'number' ? data.transitLightNetWeight : 0,
-    remainingCustomersNetWeight: typeof data.remainingCustomersNetWeight === 'number' ? data.remainingCustomersNetWeight : 0,
-
- lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : Timestamp.now(),
+    netWeightByBucket: netWeightByBucketFromFirestore(data),
+    customerIds: Array.isArray(data.customerIds) ? data.customerIds : [],
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : Timestamp.now(),
     pdfUrls: data.pdfUrls || undefined,
     scannedDocuments: Array.isArray(data.scannedDocuments) ? data.scannedDocuments : undefined,
+    documents: Array.isArray(data.documents) ? (data.documents as ShipmentDocument[]) : undefined,
+    emailAttempts: Array.isArray(data.emailAttempts) ? (data.emailAttempts as EmailAttempt[]) : undefined,
+    cmr: cmrFromFirestore(data.cmr),
+    loadVerification: data.loadVerification || undefined,
   } as Shipment;
 };
 
@@ -122,6 +137,9 @@ export const detailFromFirestore = (docSnap: DocumentSnapshot<DocumentData>): Sh
         tareWeight: tareWeight,
         grossWeight: grossWeight,
         netWeight: netWeight, 
+        barcode: data.barcode || undefined,
+        receptacleId: data.receptacleId || undefined,
+        receptacle: data.receptacle || undefined,
         dispatchNumber: data.dispatchNumber || undefined,
         doeId: data.doeId || undefined,
         createdAt: data.createdAt instanceof Timestamp ? data.createdAt : Timestamp.now(),
@@ -131,15 +149,30 @@ export const detailFromFirestore = (docSnap: DocumentSnapshot<DocumentData>): Sh
 
 // --- Shipment CRUD ---
 
-export const addShipment = async (shipmentData: Partial<Omit<Shipment, 'id' | 'createdAt' | 'lastUpdated' | 'totalPallets' | 'totalBags' | 'totalGrossWeight' | 'totalTareWeight' | 'totalNetWeight' | 'asendiaACNetWeight' | 'asendiaUKNetWeight' | 'transitLightNetWeight' | 'remainingCustomersNetWeight' >>): Promise<string> => {
+// A statusHistory entry made by the signed-in user. Arrays cannot hold
+// serverTimestamp(), so the entry carries the client time; statusChangedAt on
+// the shipment itself is the server time the rules check.
+const statusChangeBy = (from: ShipmentStatus | null, to: ShipmentStatus): ShipmentStatusChange => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error("[ShipmentService] A signed-in user is required to change a shipment's status.");
+  }
+  return { from, to, at: Timestamp.now(), by: currentUser.uid, byEmail: currentUser.email ?? null };
+};
+
+export const addShipment = async (shipmentData: Partial<Omit<Shipment, 'id' | 'createdAt' | 'lastUpdated' | 'totalPallets' | 'totalBags' | 'totalGrossWeight' | 'totalTareWeight' | 'totalNetWeight' | 'netWeightByBucket' | 'customerIds' | 'statusHistory' | 'statusChangedBy'>>): Promise<string> => {
   try {
     const baseDataToSave: DocumentData = {
+      driverId: shipmentData.driverId || null,
       driverName: shipmentData.driverName || '',
  departureDate: shipmentData.departureDate, // Assume already Timestamp or Date handled before
  arrivalDate: shipmentData.arrivalDate, // Assume already Timestamp or undefined handled before
-      sealNumber: shipmentData.sealNumber || undefined,
-      truckRegistration: shipmentData.truckRegistration || undefined,
-      trailerRegistration: shipmentData.trailerRegistration || undefined,
+      // Empty rather than undefined, which Firestore rejects; read back as undefined
+      sealNumber: shipmentData.sealNumber || '',
+      truckId: shipmentData.truckId || null,
+      trailerId: shipmentData.trailerId || null,
+      truckRegistration: normalizePlate(shipmentData.truckRegistration || ''),
+      trailerRegistration: normalizePlate(shipmentData.trailerRegistration || ''),
       senderAddress: shipmentData.senderAddress || '',
       consigneeAddress: shipmentData.consigneeAddress || '',
       descriptionOfGoods: shipmentData.descriptionOfGoods || '', // Explicitly include
@@ -148,15 +181,26 @@ export const addShipment = async (shipmentData: Partial<Omit<Shipment, 'id' | 'c
       totalGrossWeight: 0,
       totalTareWeight: 0,
       totalNetWeight: 0,
-      asendiaACNetWeight: 0,
-      asendiaUKNetWeight: 0,
-      remainingCustomersNetWeight: 0,
+      netWeightByBucket: {},
+      customerIds: [],
       createdAt: serverTimestamp(),
       lastUpdated: serverTimestamp(),
-      status: shipmentData.status || 'Pending',
     };
 
+    const status = shipmentData.status || 'Draft';
+    if (status !== 'Draft' && status !== 'Loading') {
+      throw new Error(`A new shipment cannot start as ${status}.`);
+    }
+    const initialChange = statusChangeBy(null, status);
+    baseDataToSave.status = status;
+    baseDataToSave.statusHistory = [initialChange];
+    baseDataToSave.statusChangedBy = initialChange.by;
+    baseDataToSave.statusChangedAt = serverTimestamp();
+
     const dataToSave = { ...baseDataToSave };
+    if (shipmentData.cmr) {
+      dataToSave.cmr = shipmentData.cmr;
+    }
     if (shipmentData.subcarrierId) {
  dataToSave.subcarrierId = shipmentData.subcarrierId;
     }
@@ -164,7 +208,14 @@ export const addShipment = async (shipmentData: Partial<Omit<Shipment, 'id' | 'c
  dataToSave.carrierId = shipmentData.carrierId;
     }
     console.log('[ShipmentService] Data being sent to addDoc:', JSON.parse(JSON.stringify(dataToSave)));
-    const docRef = await addDoc(collection(db, 'shipments'), dataToSave);
+    const docRef = doc(collection(db, 'shipments'));
+    await runTransaction(db, async (transaction) => {
+      // The seal is issued to the new shipment in the same transaction
+      const sealChange = await prepareSealChange(transaction, docRef, { to: shipmentData.sealNumber, fromStatus: null, toStatus: status });
+      dataToSave.sealNumber = sealChange.sealNumber;
+      sealChange.write();
+      transaction.set(docRef, dataToSave);
+    });
     return docRef.id;
   } catch (error) {
     console.error("[ShipmentService] Error adding shipment:", error); // Log the full error object
@@ -173,6 +224,15 @@ export const addShipment = async (shipmentData: Partial<Omit<Shipment, 'id' | 'c
   }
 };
 
+// Compares the shipment's items with the receptacles scanned on the truck
+const checkShipmentLoad = async (shipmentId: string): Promise<LoadReconciliation> => {
+  const [detailsSnap, scans] = await Promise.all([
+    getDocs(query(collection(db, 'shipments', shipmentId, 'details'))),
+    getLoadScans(shipmentId),
+  ]);
+  return reconcileLoad(detailsSnap.docs.map(detailFromFirestore), scans);
+};
+
 export const updateShipment = async (shipmentId: string, updates: Partial<Omit<Shipment, 'id' | 'createdAt'>>): Promise<void> => {
   console.log(`[ShipmentService] Attempting to update shipment with ID: ${shipmentId}`);
   const shipmentRef = doc(db, 'shipments', shipmentId);
@@ -180,15 +240,20 @@ export const updateShipment = async (shipmentId: string, updates: Partial<Omit<S
     const dataToUpdate: DocumentData = {
       carrierId: updates.carrierId,
       subcarrierId: updates.subcarrierId,
+      driverId: updates.driverId ?? null,
       driverName: updates.driverName,
-      status: updates.status,
       sealNumber: updates.sealNumber,
-      truckRegistration: updates.truckRegistration,
-      trailerRegistration: updates.trailerRegistration,
+      truckId: updates.truckId ?? null,
+      trailerId: updates.trailerId ?? null,
+      truckRegistration: updates.truckRegistration !== undefined ? normalizePlate(updates.truckRegistration) : undefined,
+      trailerRegistration: updates.trailerRegistration !== undefined ? normalizePlate(updates.trailerRegistration) : undefined,
       senderAddress: updates.senderAddress,
       consigneeAddress: updates.consigneeAddress,
        descriptionOfGoods: updates.descriptionOfGoods, // Explicitly include
     };
+    if (updates.cmr) {
+      dataToUpdate.cmr = updates.cmr;
+    }
 if (updates.departureDate instanceof Date) {
   // Handle JavaScript Date
   dataToUpdate.departureDate = Timestamp.fromDate(updates.departureDate);
@@ -209,23 +274,191 @@ if (updates.arrivalDate instanceof Date) {
 }    dataToUpdate.lastUpdated = serverTimestamp();
 
  console.log('[ShipmentService] Data being sent to updateDoc:', JSON.parse(JSON.stringify(dataToUpdate)));
-    await updateDoc(shipmentRef, dataToUpdate);
+    // Collection queries cannot run inside a transaction, so the load is checked just before it
+    const loadCheck = updates.status === 'Sealed' ? await checkShipmentLoad(shipmentId) : null;
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(shipmentRef);
+      if (!currentSnap.exists()) throw new Error(`Shipment ${shipmentId} does not exist.`);
+      const current = shipmentFromFirestore(currentSnap);
+      const isEditable = isShipmentLoadEditable(current.status);
+      const sealChange = await prepareSealChange(transaction, shipmentRef, {
+        from: current.sealNumber,
+        to: isEditable && updates.sealNumber !== undefined ? updates.sealNumber : current.sealNumber,
+        fromStatus: current.status,
+        toStatus: updates.status ?? current.status,
+      });
+      // A locked shipment keeps its fields; only its status moves on (see reopenShipment)
+      const writes: DocumentData = isEditable
+        ? { ...dataToUpdate, sealNumber: sealChange.sealNumber }
+        : { lastUpdated: dataToUpdate.lastUpdated };
+      // Checked against the stored status inside the transaction, so two users
+      // cannot both move the shipment on from the same status.
+      if (updates.status && updates.status !== currentSnap.data().status) {
+        assertShipmentTransition(current.status, updates.status);
+        const change = statusChangeBy(current.status, updates.status);
+        writes.status = updates.status;
+        writes.statusChangedBy = change.by;
+        writes.statusChangedAt = serverTimestamp();
+        // Legacy Pending/Completed values rewritten to their lifecycle status are not a transition
+        if (updates.status !== current.status) {
+          writes.statusHistory = arrayUnion(change);
+        }
+        // Sealing needs every item found on the truck and nothing else, unless an admin overrode the check
+        if (loadCheck && current.status !== 'Sealed') {
+          const counts = loadVerificationCounts(loadCheck);
+          if (loadCheck.passed) {
+            writes.loadVerification = { result: 'passed', ...counts, checkedBy: change.by, checkedAt: serverTimestamp() };
+          } else if (current.loadVerification?.result !== 'overridden') {
+            throw new Error(`The load has not been verified: ${counts.missing} item(s) missing and ${counts.unexpected} unexpected scan(s). Verify it, or have an admin override the check with a reason.`);
+          } else if (!isSameLoadCounts(current.loadVerification, counts)) {
+            // The override was given for the load as it was then; items or scans have changed since
+            throw new Error(`The load changed after the check was overridden: ${counts.missing} item(s) are now missing and ${counts.unexpected} scan(s) unexpected. Have an admin review and override it again.`);
+          }
+        }
+      }
+      sealChange.write();
+      transaction.update(shipmentRef, writes);
+    });
   } catch (error) {
     console.error(`[ShipmentService] Error updating shipment ${shipmentId}:`, error); // Log the full error object
     throw error;
   }
 };
 
+/**
+ * Moves a locked (Sealed or later) shipment back to Loading so its fields and
+ * items can be corrected. The rules only let admins do this. The reason and
+ * the admin are recorded on the shipment and in its status history, and every
+ * generated document is marked invalidated: the files stay in Storage, but
+ * pdfUrls is cleared and sealing the shipment again generates new versions.
+ * @param shipmentId The shipment to reopen.
+ * @param reason Why the shipment is reopened; required.
+ */
+export const reopenShipment = async (shipmentId: string, reason: string): Promise<void> => {
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) throw new Error("A reason is required to reopen a shipment.");
+  const shipmentRef = doc(db, 'shipments', shipmentId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(shipmentRef);
+      if (!currentSnap.exists()) throw new Error(`Shipment ${shipmentId} does not exist.`);
+      const current = shipmentFromFirestore(currentSnap);
+      if (isShipmentLoadEditable(current.status)) {
+        throw new Error(`Shipment ${shipmentId} is ${current.status} and does not need reopening.`);
+      }
+      const change: ShipmentStatusChange = { ...statusChangeBy(current.status, REOPENED_SHIPMENT_STATUS), reason: trimmedReason };
+      const documents = (current.documents ?? []).map(document =>
+        document.invalidatedAt ? document : { ...document, invalidatedAt: change.at, invalidatedBy: change.by }
+      );
+      const dataToUpdate: DocumentData = {
+        status: REOPENED_SHIPMENT_STATUS,
+        statusHistory: arrayUnion(change),
+        statusChangedBy: change.by,
+        statusChangedAt: serverTimestamp(),
+        reopenedBy: change.by,
+        reopenedAt: serverTimestamp(),
+        reopenReason: trimmedReason,
+        loadVerification: deleteField(), // The load is verified again before it is resealed
+        documents,
+        pdfUrls: deleteField(),
+        lastUpdated: serverTimestamp(),
+      };
+      transaction.update(shipmentRef, dataToUpdate);
+    });
+  } catch (error) {
+    console.error(`[ShipmentService] Error reopening shipment ${shipmentId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Creates a Draft shipment from an existing one for the next trip on the same
+ * lane. Only the header fields of the chosen groups are copied; the seal
+ * number, status and documents never are, and the dates start from today.
+ * Items are copied as they are, through addShipmentDetail, so the totals
+ * function adds them up for the new shipment.
+ * @param sourceId The shipment to duplicate.
+ * @param groups The header field groups to copy (see SHIPMENT_HEADER_GROUPS).
+ * @param copyDetails Whether to copy the items too.
+ * @returns The ID of the new shipment.
+ */
+export const duplicateShipment = async (sourceId: string, groups: ShipmentHeaderGroup[], copyDetails: boolean): Promise<string> => {
+  try {
+    const source = await getShipmentById(sourceId);
+    if (!source) throw new Error(`Shipment ${sourceId} does not exist.`);
+    const departureDate = new Date();
+    const arrivalDate = new Date(departureDate);
+    arrivalDate.setDate(arrivalDate.getDate() + 1);
+
+    const newShipmentId = await addShipment({
+      ...pickShipmentHeader(shipmentHeaderOf(source), groups),
+      departureDate: Timestamp.fromDate(departureDate),
+      arrivalDate: Timestamp.fromDate(arrivalDate),
+      status: 'Draft',
+    });
+
+    if (copyDetails) {
+      const detailsSnapshot = await getDocs(query(collection(db, 'shipments', sourceId, 'details'), orderBy('createdAt', 'asc')));
+      for (const detailDoc of detailsSnapshot.docs) {
+        const detail = detailFromFirestore(detailDoc);
+        // Copies repeat their source's dispatch on purpose; barcodes are not copied
+        await addShipmentDetail(newShipmentId, {
+          numPallets: detail.numPallets,
+          numBags: detail.numBags,
+          customerId: detail.customerId,
+          serviceId: detail.serviceId,
+          formatId: detail.formatId,
+          tareWeight: detail.tareWeight,
+          grossWeight: detail.grossWeight,
+          // Optional fields are left out when unset, as Firestore rejects undefined
+          ...(detail.dispatchNumber ? { dispatchNumber: detail.dispatchNumber } : {}),
+          ...(detail.doeId ? { doeId: detail.doeId } : {}),
+        }, { allowDuplicateDispatch: true });
+      }
+    }
+    return newShipmentId;
+  } catch (error) {
+    console.error(`[ShipmentService] Error duplicating shipment ${sourceId}:`, error);
+    throw error;
+  }
+};
+
+// Below Firestore's 500 writes per batch
+const DELETES_PER_WRITE_BATCH = 450;
+
+/**
+ * Deletes a shipment with its items and load scans. A loaded truck has more of
+ * them than one batch can hold, so the shipment is marked for deletion first
+ * (the rules then let its items go even when it is locked), its items and scans
+ * are deleted in chunks, and the shipment itself is deleted last. A failed
+ * attempt leaves the marked shipment to be deleted again.
+ */
 export const deleteShipment = async (shipmentId: string): Promise<void> => {
   const shipmentRef = doc(db, 'shipments', shipmentId);
   const detailsCollectionRef = collection(db, 'shipments', shipmentId, 'details');
 
   try {
+    const currentUser = auth.currentUser;
+    if (!currentUser) throw new Error("[ShipmentService] A signed-in user is required to delete a shipment.");
+    const shipmentSnap = await getDoc(shipmentRef);
+    if (!shipmentSnap.exists()) throw new Error(`Shipment ${shipmentId} does not exist.`);
+    await updateDoc(shipmentRef, { deletingBy: currentUser.uid, deletingAt: serverTimestamp() });
+
+    const [detailsSnapshot, loadScansSnapshot] = await Promise.all([
+      getDocs(query(detailsCollectionRef)),
+      getDocs(query(collection(db, 'shipments', shipmentId, LOAD_SCANS_COLLECTION))),
+    ]);
+    const itemRefs = [...detailsSnapshot.docs, ...loadScansSnapshot.docs].map(itemDoc => itemDoc.ref);
+    for (let i = 0; i < itemRefs.length; i += DELETES_PER_WRITE_BATCH) {
+      const batch = writeBatch(db);
+      itemRefs.slice(i, i + DELETES_PER_WRITE_BATCH).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
+
     const batch = writeBatch(db);
-    const detailsSnapshot = await getDocs(query(detailsCollectionRef));
-    detailsSnapshot.docs.forEach((detailDoc) => {
-      batch.delete(detailDoc.ref);
-    });
+    // An issued seal goes back in stock; a used one stays used and shows up in the seal report
+    const sealNumber = shipmentSnap.data().sealNumber;
+    if (sealNumber) queueSealRelease(batch, await getSealSnapshot(sealNumber), shipmentId);
     batch.delete(shipmentRef);
     await batch.commit();
   } catch (error) {
@@ -254,31 +487,187 @@ export const getShipmentById = async (shipmentId: string): Promise<Shipment | nu
     }
 };
 
-export const getAllShipments = async (): Promise<Shipment[]> => {
+// --- Shipment Search ---
+
+export interface ShipmentQueryFilters {
+  status?: ShipmentStatus;
+  carrierId?: string;
+  customerId?: string; // Matched against customerIds; older shipments need rebuildShipmentTotals once to get them
+  departureFrom?: Date;
+  departureTo?: Date; // Inclusive: the whole day counts
+}
+
+export type ShipmentCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface ShipmentPage {
+  shipments: Shipment[];
+  firstCursor: ShipmentCursor | null;
+  lastCursor: ShipmentCursor | null;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export const SHIPMENTS_PAGE_SIZE = 25;
+
+/**
+ * Fetches one page of shipments, newest departure first, with every filter
+ * applied by Firestore. Each combination of equality filters needs its own
+ * composite index on departureDate (see firestore.indexes.json).
+ * @param filters Status, carrier, customer and departure date filters.
+ * @param cursor Pass `{ after: page.lastCursor }` for the next page or
+ *   `{ before: page.firstCursor }` for the previous one; omit for the first.
+ * @param pageSize Shipments per page.
+ * @returns The page and the cursors to move from it.
+ */
+export const queryShipments = async (
+  filters: ShipmentQueryFilters = {},
+  cursor: { after?: ShipmentCursor; before?: ShipmentCursor } = {},
+  pageSize = SHIPMENTS_PAGE_SIZE
+): Promise<ShipmentPage> => {
+  const constraints: QueryConstraint[] = [];
+  if (filters.status) constraints.push(where('status', '==', filters.status));
+  if (filters.carrierId) constraints.push(where('carrierId', '==', filters.carrierId));
+  if (filters.customerId) constraints.push(where('customerIds', 'array-contains', filters.customerId));
+  if (filters.departureFrom) constraints.push(where('departureDate', '>=', Timestamp.fromDate(filters.departureFrom)));
+  if (filters.departureTo) {
+    const endOfDay = new Date(filters.departureTo);
+    endOfDay.setHours(23, 59, 59, 999);
+    constraints.push(where('departureDate', '<=', Timestamp.fromDate(endOfDay)));
+  }
+  constraints.push(orderBy('departureDate', 'desc'));
+
+  // One extra document tells whether there is a further page in that direction
+  const backwards = !!cursor.before;
+  if (cursor.before) constraints.push(endBefore(cursor.before), limitToLast(pageSize + 1));
+  else if (cursor.after) constraints.push(startAfter(cursor.after), limit(pageSize + 1));
+  else constraints.push(limit(pageSize + 1));
+
   try {
-    const q = query(collection(db, 'shipments'), orderBy('lastUpdated', 'desc'));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(docSnap => shipmentFromFirestore(docSnap));
+    const snapshot = await getDocs(query(collection(db, 'shipments'), ...constraints));
+    const hasMore = snapshot.docs.length > pageSize;
+    const docs = hasMore
+      ? (backwards ? snapshot.docs.slice(1) : snapshot.docs.slice(0, pageSize))
+      : snapshot.docs;
+    return {
+      shipments: docs.map(docSnap => shipmentFromFirestore(docSnap)),
+      firstCursor: docs[0] ?? null,
+      lastCursor: docs[docs.length - 1] ?? null,
+      hasNextPage: backwards ? true : hasMore,
+      hasPreviousPage: backwards ? hasMore : !!cursor.after,
+    };
   } catch (error) {
-    console.error("[ShipmentService] Error fetching all shipments:", error);
+    console.error("[ShipmentService] Error querying shipments:", error);
     throw error;
   }
 };
 
 // --- Shipment Detail CRUD ---
 
-export const addShipmentDetail = async (shipmentId: string, detailData: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'>): Promise<string> => {
+// Items can only change while their shipment is Draft or Loading. The parent is
+// read in the caller's transaction, so a shipment sealed meanwhile is not written to.
+const assertShipmentItemsEditable = async (transaction: Transaction, shipmentId: string): Promise<void> => {
+  const shipmentSnap = await transaction.get(doc(db, 'shipments', shipmentId));
+  if (!shipmentSnap.exists()) throw new Error(`Shipment ${shipmentId} does not exist.`);
+  const { status } = shipmentFromFirestore(shipmentSnap);
+  if (!isShipmentLoadEditable(status)) {
+    throw new Error(`Shipment ${shipmentId} is ${status}; its items are locked until an admin reopens it.`);
+  }
+};
+
+// --- Duplicate receptacles ---
+
+// What identifies a receptacle across shipments
+export type DetailIdentity = Pick<ShipmentDetail, 'barcode' | 'dispatchNumber' | 'doeId' | 'grossWeight'>;
+
+export interface DetailSaveOptions {
+  allowDuplicateDispatch?: boolean; // The user confirmed a dispatch match is a different receptacle
+}
+
+// A barcode match is the same label scanned twice and is always refused. Dispatch
+// numbers restart every year, so a dispatch match may be a coincidence the user confirms.
+export const isBlockingDuplicate = (duplicate: DuplicateDetail): boolean => duplicate.match === 'barcode';
+
+/**
+ * Finds items in any shipment that look like the same receptacle: the same
+ * receptacle ID (the barcode ignoring case, spaces and hyphens), or the same
+ * dispatch number, DOE and gross weight.
+ * @param identity The barcode, dispatch number, DOE and gross weight to look for.
+ * @param exclude The item itself, when checking an edit.
+ * @returns The matching items, barcode matches first.
+ */
+export const findDuplicateDetails = async (identity: DetailIdentity, exclude?: { shipmentId: string; detailId: string }): Promise<DuplicateDetail[]> => {
+  const detailsGroup = collectionGroup(db, 'details');
+  const receptacleId = normalizeReceptacleId(identity.barcode);
+  try {
+    const [barcodeSnap, dispatchSnap] = await Promise.all([
+      receptacleId ? getDocs(query(detailsGroup, where('receptacleId', '==', receptacleId))) : null,
+      identity.dispatchNumber && identity.doeId
+        ? getDocs(query(detailsGroup,
+            where('dispatchNumber', '==', identity.dispatchNumber),
+            where('doeId', '==', identity.doeId),
+            where('grossWeight', '==', identity.grossWeight)))
+        : null,
+    ]);
+    const duplicates = new Map<string, DuplicateDetail>();
+    const collect = (docs: QueryDocumentSnapshot<DocumentData>[], match: DuplicateDetail['match']) => docs.forEach(docSnap => {
+      const shipmentId = docSnap.ref.parent.parent?.id ?? '';
+      if (exclude && shipmentId === exclude.shipmentId && docSnap.id === exclude.detailId) return;
+      if (!duplicates.has(docSnap.ref.path)) duplicates.set(docSnap.ref.path, { shipmentId, detailId: docSnap.id, match });
+    });
+    collect(barcodeSnap?.docs ?? [], 'barcode');
+    collect(dispatchSnap?.docs ?? [], 'dispatch');
+    return Array.from(duplicates.values());
+  } catch (error) {
+    console.error("[ShipmentService] Error looking for duplicate receptacles:", error);
+    throw error;
+  }
+};
+
+// The barcode as stored on an item, with the ID and label fields derived from it
+// by the configured barcode rules. Null rather than undefined when the barcode
+// cannot be decoded, as Firestore rejects undefined.
+const receptacleFields = (barcode: string | undefined, rules: BarcodeRule[]): DocumentData => {
+  const trimmed = barcode?.trim() ?? '';
+  return {
+    barcode: trimmed,
+    receptacleId: normalizeReceptacleId(trimmed),
+    receptacle: (trimmed && parseBarcode(trimmed, rules)) || null,
+  };
+};
+
+// The rules are only fetched when there is a barcode to decode
+const scanRulesFor = async (barcode: string | undefined): Promise<BarcodeRule[]> =>
+  barcode?.trim() ? effectiveBarcodeRules(await getBarcodeRules()) : [];
+
+// Collection group queries cannot run inside a transaction, so this is checked just before it
+const assertNoDuplicateDetails = async (identity: DetailIdentity, options: DetailSaveOptions, exclude?: { shipmentId: string; detailId: string }): Promise<void> => {
+  const refused = (await findDuplicateDetails(identity, exclude))
+    .filter(duplicate => isBlockingDuplicate(duplicate) || !options.allowDuplicateDispatch);
+  if (refused.length === 0) return;
+  const shipmentIds = Array.from(new Set(refused.map(duplicate => duplicate.shipmentId))).join(', ');
+  throw new Error(refused.some(isBlockingDuplicate)
+    ? `Barcode ${identity.barcode} is already on shipment ${shipmentIds}.`
+    : `Dispatch ${identity.dispatchNumber} (${identity.doeId}, ${identity.grossWeight} kg) is already on shipment ${shipmentIds}.`);
+};
+
+export const addShipmentDetail = async (shipmentId: string, detailData: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'>, options: DetailSaveOptions = {}): Promise<string> => {
   if (!shipmentId) throw new Error("[ShipmentService] Parent Shipment ID is required to add a detail.");
   const detailsCollectionRef = collection(db, 'shipments', shipmentId, 'details');
   try {
+    await assertNoDuplicateDetails(detailData, options);
     const netWeight = parseFloat(((detailData.grossWeight ?? 0) - (detailData.tareWeight ?? 0)).toFixed(3));
-    const docRef = await addDoc(detailsCollectionRef, {
+    const dataToSave: DocumentData = {
       ...detailData,
+      ...receptacleFields(detailData.barcode, await scanRulesFor(detailData.barcode)),
       netWeight: netWeight,
       createdAt: serverTimestamp(),
       lastUpdated: serverTimestamp(),
+    };
+    const docRef = doc(detailsCollectionRef);
+    await runTransaction(db, async (transaction) => {
+      await assertShipmentItemsEditable(transaction, shipmentId);
+      transaction.set(docRef, dataToSave);
     });
-    await recalculateShipmentTotals(shipmentId);
     return docRef.id;
   } catch (error) {
     console.error(`[ShipmentService] Error adding detail to shipment ${shipmentId}:`, error);
@@ -286,24 +675,113 @@ export const addShipmentDetail = async (shipmentId: string, detailData: Omit<Shi
   }
 };
 
-export const updateShipmentDetail = async (shipmentId: string, detailId: string, updates: Partial<Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'netWeight'>>): Promise<void> => {
+// Items written per transaction, well below its 500 writes
+const DETAILS_PER_SCAN_BATCH = 200;
+// Firestore's limit on the values of an 'in' filter
+const RECEPTACLE_IDS_PER_QUERY = 30;
+
+// Thrown by addShipmentDetailsBatch when a chunk fails after earlier chunks were saved.
+export class PartialDetailsBatchError extends Error {
+  constructor(message: string, readonly savedReceptacleIds: string[]) {
+    super(message);
+    this.name = 'PartialDetailsBatchError';
+  }
+}
+
+/**
+ * Adds the items of a continuous scan session. Barcodes already on a shipment
+ * are refused. The items are written in chunks, and the last chunk also writes
+ * one marker in detail_batches for the whole session, from which the totals
+ * are recalculated once instead of once per item. If a later chunk fails, the
+ * marker is still written for the items already saved, and the error thrown is
+ * a PartialDetailsBatchError listing their receptacle IDs.
+ * @param shipmentId The shipment the items are added to.
+ * @param detailsData The items, each with its scanned barcode.
+ * @returns The number of items added.
+ */
+export const addShipmentDetailsBatch = async (shipmentId: string, detailsData: Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'lastUpdated' | 'netWeight'>[]): Promise<number> => {
+  if (!shipmentId) throw new Error("[ShipmentService] Parent Shipment ID is required to add details.");
+  if (detailsData.length === 0) return 0;
+  const receptacleIds = detailsData.map(detail => normalizeReceptacleId(detail.barcode)).filter(Boolean);
+  if (new Set(receptacleIds).size !== receptacleIds.length) throw new Error("The same barcode is in the batch twice.");
+  const batchRef = doc(collection(db, 'shipments', shipmentId, 'detail_batches'));
+  const savedReceptacleIds: string[] = [];
+  try {
+    const detailsGroup = collectionGroup(db, 'details');
+    for (let i = 0; i < receptacleIds.length; i += RECEPTACLE_IDS_PER_QUERY) {
+      const snapshot = await getDocs(query(detailsGroup, where('receptacleId', 'in', receptacleIds.slice(i, i + RECEPTACLE_IDS_PER_QUERY))));
+      if (!snapshot.empty) {
+        const existing = snapshot.docs[0];
+        throw new Error(`Barcode ${existing.data().barcode} is already on shipment ${existing.ref.parent.parent?.id}.`);
+      }
+    }
+    const rules = effectiveBarcodeRules(await getBarcodeRules());
+    for (let i = 0; i < detailsData.length; i += DETAILS_PER_SCAN_BATCH) {
+      const chunk = detailsData.slice(i, i + DETAILS_PER_SCAN_BATCH);
+      const isLastChunk = i + DETAILS_PER_SCAN_BATCH >= detailsData.length;
+      await runTransaction(db, async (transaction) => {
+        await assertShipmentItemsEditable(transaction, shipmentId);
+        chunk.forEach(detailData => {
+          const docRef = doc(collection(db, 'shipments', shipmentId, 'details'));
+          const dataToSave: DocumentData = {
+            ...detailData,
+            ...receptacleFields(detailData.barcode, rules),
+            netWeight: parseFloat(((detailData.grossWeight ?? 0) - (detailData.tareWeight ?? 0)).toFixed(3)),
+            scanBatchId: batchRef.id,
+            createdAt: serverTimestamp(),
+            lastUpdated: serverTimestamp(),
+          };
+          transaction.set(docRef, dataToSave);
+        });
+        if (isLastChunk) transaction.set(batchRef, { count: detailsData.length, createdAt: serverTimestamp() });
+      });
+      savedReceptacleIds.push(...chunk.map(detail => normalizeReceptacleId(detail.barcode)));
+    }
+    return detailsData.length;
+  } catch (error) {
+    console.error(`[ShipmentService] Error adding scanned details to shipment ${shipmentId}:`, error);
+    // The items saved so far skip the per-item recalculation, so they still need the marker.
+    // Should this fail too, the next change to the shipment's items recalculates them.
+    const saved = savedReceptacleIds.length;
+    if (saved === 0) throw error;
+    await setDoc(batchRef, { count: saved, createdAt: serverTimestamp() })
+      .catch(markerError => console.error(`[ShipmentService] Error marking the ${saved} scanned item(s) saved on shipment ${shipmentId}:`, markerError));
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new PartialDetailsBatchError(`${saved} of ${detailsData.length} item(s) were added before the rest failed: ${reason}`, savedReceptacleIds);
+  }
+};
+
+export const updateShipmentDetail = async (shipmentId: string, detailId: string, updates: Partial<Omit<ShipmentDetail, 'id' | 'shipmentId' | 'createdAt' | 'netWeight'>>, options: DetailSaveOptions = {}): Promise<void> => {
   if (!shipmentId || !detailId) throw new Error("[ShipmentService] Shipment ID and Detail ID are required to update a detail.");
   const detailRef = doc(db, 'shipments', shipmentId, 'details', detailId);
   try {
+    if (['barcode', 'dispatchNumber', 'doeId', 'grossWeight'].some(field => field in updates)) {
+      const current = detailFromFirestore(await getDoc(detailRef));
+      await assertNoDuplicateDetails({
+        barcode: updates.barcode ?? current.barcode,
+        dispatchNumber: updates.dispatchNumber ?? current.dispatchNumber,
+        doeId: updates.doeId ?? current.doeId,
+        grossWeight: updates.grossWeight ?? current.grossWeight,
+      }, options, { shipmentId, detailId });
+    }
     const dataToUpdate: DocumentData = { 
       ...updates,
  descriptionOfGoods: updates.descriptionOfGoods || undefined, // Include descriptionOfGoods
+      ...('barcode' in updates ? receptacleFields(updates.barcode, await scanRulesFor(updates.barcode)) : {}),
     };
-    if (updates.grossWeight !== undefined || updates.tareWeight !== undefined) {
-      const currentDocSnap = await getDoc(detailRef);
-      const currentData = currentDocSnap.data() || {};
-      const grossWeight = updates.grossWeight !== undefined ? updates.grossWeight : currentData.grossWeight;
-      const tareWeight = updates.tareWeight !== undefined ? updates.tareWeight : currentData.tareWeight;
-      dataToUpdate.netWeight = parseFloat(((grossWeight ?? 0) - (tareWeight ?? 0)).toFixed(3));
-    }
     dataToUpdate.lastUpdated = serverTimestamp();
-    await updateDoc(detailRef, dataToUpdate);
-    await recalculateShipmentTotals(shipmentId);
+    await runTransaction(db, async (transaction) => {
+      await assertShipmentItemsEditable(transaction, shipmentId);
+      const currentDocSnap = await transaction.get(detailRef);
+      if (!currentDocSnap.exists()) throw new Error(`Detail ${detailId} does not exist.`);
+      const currentData = currentDocSnap.data();
+      if (updates.grossWeight !== undefined || updates.tareWeight !== undefined) {
+        const grossWeight = updates.grossWeight !== undefined ? updates.grossWeight : currentData.grossWeight;
+        const tareWeight = updates.tareWeight !== undefined ? updates.tareWeight : currentData.tareWeight;
+        dataToUpdate.netWeight = parseFloat(((grossWeight ?? 0) - (tareWeight ?? 0)).toFixed(3));
+      }
+      transaction.update(detailRef, dataToUpdate);
+    });
   } catch (error) {
     console.error(`[ShipmentService] Error updating detail ${detailId} for shipment ${shipmentId}:`, error);
     throw error;
@@ -314,8 +792,12 @@ export const deleteShipmentDetail = async (shipmentId: string, detailId: string)
   if (!shipmentId || !detailId) throw new Error("[ShipmentService] Shipment ID and Detail ID are required to delete a detail.");
   const detailRef = doc(db, 'shipments', shipmentId, 'details', detailId);
   try {
-    await deleteDoc(detailRef);
-    await recalculateShipmentTotals(shipmentId);
+    await runTransaction(db, async (transaction) => {
+      await assertShipmentItemsEditable(transaction, shipmentId);
+      const currentDocSnap = await transaction.get(detailRef);
+      if (!currentDocSnap.exists()) return;
+      transaction.delete(detailRef);
+    });
   } catch (error) {
     console.error(`[ShipmentService] Error deleting detail ${detailId} for shipment ${shipmentId}:`, error);
     throw error;
@@ -328,14 +810,17 @@ export const deleteShipmentDetailsBatch = async (shipmentId: string, detailIds:
     console.log("[ShipmentService] No detail IDs provided for batch delete.");
     return;
   }
-  const batch = writeBatch(db);
-  detailIds.forEach(id => {
-    const detailRef = doc(db, 'shipments', shipmentId, 'details', id);
-    batch.delete(detailRef);
-  });
   try {
-    await batch.commit();
-    await recalculateShipmentTotals(shipmentId);
+    await runTransaction(db, async (transaction) => {
+      const detailRefs = detailIds.map(id => doc(db, 'shipments', shipmentId, 'details', id));
+      // All reads must happen before the first write in a transaction.
+      await assertShipmentItemsEditable(transaction, shipmentId);
+      const detailSnaps = await Promise.all(detailRefs.map(ref => transaction.get(ref)));
+      detailSnaps.forEach(detailSnap => {
+        if (!detailSnap.exists()) return;
+        transaction.delete(detailSnap.ref);
+      });
+    });
   } catch (error) {
     console.error(`[ShipmentService] Error batch deleting details for shipment ${shipmentId}:`, error);
     throw error;
@@ -359,78 +844,43 @@ export const getShipmentDetailsCount = async (shipmentId: string): Promise<numbe
 
 // --- Calculation Logic ---
 
-export const recalculateShipmentTotals = async (shipmentId: string): Promise<void> => {
-  if (!shipmentId) {
-    console.warn("[ShipmentService DEBUG] recalculateShipmentTotals called with invalid shipmentId:", shipmentId);
-    return;
-  }
-  console.log(`[ShipmentService DEBUG] Recalculating totals for shipment: ${shipmentId}. Using:
-    PRIMARY_ASENDIA_CUSTOMER_ID: "${PRIMARY_ASENDIA_CUSTOMER_ID_FOR_DASHBOARD_BREAKDOWN}"
-    ASENDIA_UK_CUSTOMER_ID: "${ASENDIA_UK_CUSTOMER_ID}"
-    TRANSIT_LIGHT_CUSTOMER_ID: "${TRANSIT_LIGHT_CUSTOMER_ID}"`);
-
-  const shipmentRef = doc(db, 'shipments', shipmentId);
-  const detailsCollectionRef = collection(db, 'shipments', shipmentId, 'details');
+// Totals are aggregated server-side by the onShipmentDetailWrite Cloud Function.
+// This callable rebuilds them for shipments whose totals have drifted;
+// omit shipmentId to rebuild every shipment (admin only). Every shipment is
+// rebuilt a page per call, following nextPageToken until the last page.
+interface RebuildTotalsPage {
+  rebuilt: number;
+  nextPageToken: string | null; // null after the last page
+}
 
+export const rebuildShipmentTotals = async (shipmentId?: string): Promise<number> => {
   try {
-    await runTransaction(db, async (transaction) => {
-      const detailsQuerySnapshot = await getDocs(query(detailsCollectionRef));
-      const details: ShipmentDetail[] = detailsQuerySnapshot.docs.map(d => detailFromFirestore(d as QueryDocumentSnapshot<DocumentData>));
-      console.log(`[ShipmentService DEBUG] Shipment ${shipmentId}: Found ${details.length} detail items for recalculation.`);
-
-      let totalPallets = 0;
-      let totalBags = 0;
-      let overallTotalGrossWeight = 0;
-      let overallTotalTareWeight = 0;
-      let overallTotalNetWeight = 0;
-      let specificAsendiaACNetWeight = 0;
-      let remainingCustomersAggregateNetWeight = 0;
-      
-      details.forEach((detail, index) => {
-        const itemNetWeight = detail.netWeight !== undefined ? detail.netWeight : 0;
-        const itemGrossWeight = detail.grossWeight !== undefined ? detail.grossWeight : 0;
-        const itemTareWeight = detail.tareWeight !== undefined ? detail.tareWeight : 0;
-
-        console.log(`[ShipmentService DEBUG] Detail item ${index + 1} (ID: ${detail.id}): Customer ID: "${detail.customerId}", Net Wt: ${itemNetWeight.toFixed(3)}`);
-        
-        totalPallets += detail.numPallets || 0;
-        totalBags += detail.numBags || 0;
-        overallTotalGrossWeight += (detail.grossWeight || 0);
- overallTotalTareWeight += (detail.tareWeight || 0);
-        overallTotalNetWeight += itemNetWeight;
-
-        // Aggregate net weight based on customer ID
-        if (detail.customerId === PRIMARY_ASENDIA_CUSTOMER_ID_FOR_DASHBOARD_BREAKDOWN) {
- console.log(`[ShipmentService DEBUG]   ^-- Item MATCHED PRIMARY_ASENDIA_CUSTOMER_ID ("${PRIMARY_ASENDIA_CUSTOMER_ID_FOR_DASHBOARD_BREAKDOWN}"). Adding its Net Wt: ${itemNetWeight.toFixed(3)} to Asendia A/C totals.`);
-          specificAsendiaACNetWeight += itemNetWeight;
-        } else {
-          // All other customer IDs (including ASENDIA_UK, Transit Light, ASENDIA UK/BAGS, and any others) go into remainingCustomersAggregateNetWeight
-          console.log(`[ShipmentService DEBUG]   ^-- Item DID NOT MATCH PRIMARY_ASENDIA_CUSTOMER_ID ("${PRIMARY_ASENDIA_CUSTOMER_ID_FOR_DASHBOARD_BREAKDOWN}"). Adding its Net Wt: ${itemNetWeight.toFixed(3)} to remaining customers totals.`);
-          remainingCustomersAggregateNetWeight += itemNetWeight;
- }
-      });
-
-      console.log(`[ShipmentService DEBUG] Calculated FINAL Overall Totals - Total Net: ${overallTotalNetWeight.toFixed(3)}, Total Gross: ${overallTotalGrossWeight.toFixed(3)}, Total Tare: ${overallTotalTareWeight.toFixed(3)}`);
+    const rebuildCallable = httpsCallable<{ shipmentId?: string; pageToken?: string }, RebuildTotalsPage>(getFunctions(app), 'rebuildShipmentTotals');
+    if (shipmentId) return (await rebuildCallable({ shipmentId })).data.rebuilt;
+    let rebuilt = 0;
+    let pageToken: string | null = null;
+    do {
+      const page: RebuildTotalsPage = (await rebuildCallable(pageToken ? { pageToken } : {})).data;
+      rebuilt += page.rebuilt;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    return rebuilt;
+  } catch (error) {
+    console.error(`[ShipmentService] Error rebuilding totals${shipmentId ? ` for shipment ${shipmentId}` : ''}:`, error);
+    throw error;
+  }
+};
 
-      const updates = {
-        totalPallets: totalPallets,
-        totalBags: totalBags,
-        totalGrossWeight: parseFloat(overallTotalGrossWeight.toFixed(3)),
-        totalTareWeight: parseFloat(overallTotalTareWeight.toFixed(3)),
-        totalNetWeight: parseFloat(overallTotalNetWeight.toFixed(3)),
-        
-        asendiaACNetWeight: parseFloat(specificAsendiaACNetWeight.toFixed(3)),
-        // All other customer net weights are aggregated into remainingCustomersNetWeight
-        remainingCustomersNetWeight: parseFloat(remainingCustomersAggregateNetWeight.toFixed(3)),
-        
-        lastUpdated: serverTimestamp(),
-      };
-      console.log(`[ShipmentService DEBUG] Updating shipment ${shipmentId} in Firestore with:`, JSON.stringify(updates, null, 2));
-      transaction.update(shipmentRef, updates);
-    });
-    console.log(`[ShipmentService DEBUG] Successfully recalculated and updated totals for shipment ${shipmentId}.`);
+// Shipments saved before the Draft-to-Delivered lifecycle have a Pending or
+// Completed status. The migrateShipmentStatuses callable rewrites them to their
+// lifecycle status (see normalizeShipmentStatus) and starts their history (admin only).
+export const migrateShipmentStatuses = async (): Promise<number> => {
+  try {
+    const migrateCallable = httpsCallable<Record<string, never>, { migrated: number }>(getFunctions(app), 'migrateShipmentStatuses');
+    const result = await migrateCallable({});
+    return result.data.migrated;
   } catch (error) {
-    console.error(`[ShipmentService DEBUG] Error recalculating totals for shipment ${shipmentId}:`, error);
+    console.error("[ShipmentService] Error migrating shipment statuses:", error);
     throw error;
   }
 };
@@ -438,8 +888,8 @@ export const recalculateShipmentTotals = async (shipmentId: string): Promise<voi
 // --- Dashboard Specific Queries ---
 
 export const getDashboardStats = async (): Promise<{
-    pendingCount: number | null;
-    completedCount: number | null;
+    inProgressCount: number | null;
+    dispatchedCount: number | null;
     lastUpdateTimestamp: Timestamp | null;
     // totalGrossWeightSum: number | null; // Removed for performance
 }> => {
@@ -447,12 +897,12 @@ export const getDashboardStats = async (): Promise<{
     // let totalGrossWeightSum: number | null = 0; // Removed for performance
 
     try {
-        const pendingQuery = query(shipmentsCollection, where('status', '==', 'Pending'));
-        const completedQuery = query(shipmentsCollection, where('status', '==', 'Completed'));
+        const inProgressQuery = query(shipmentsCollection, where('status', 'in', IN_PROGRESS_SHIPMENT_STATUSES));
+        const dispatchedQuery = query(shipmentsCollection, where('status', 'in', DISPATCHED_SHIPMENT_STATUSES));
 
-        const [pendingSnapshot, completedSnapshot/*, allShipmentsSnapshot*/] = await Promise.all([
-            getCountFromServer(pendingQuery),
-            getCountFromServer(completedQuery),
+        const [inProgressSnapshot, dispatchedSnapshot/*, allShipmentsSnapshot*/] = await Promise.all([
+            getCountFromServer(inProgressQuery),
+            getCountFromServer(dispatchedQuery),
             // getDocs(query(shipmentsCollection)) // Removed for performance
         ]);
         
@@ -467,16 +917,16 @@ export const getDashboardStats = async (): Promise<{
         const lastUpdateTimestamp = lastUpdatedSnapshot.empty ? null : (lastUpdatedSnapshot.docs[0].data().lastUpdated as Timestamp);
         
         return {
-            pendingCount: pendingSnapshot.data().count,
-            completedCount: completedSnapshot.data().count,
+            inProgressCount: inProgressSnapshot.data().count,
+            dispatchedCount: dispatchedSnapshot.data().count,
             lastUpdateTimestamp: lastUpdateTimestamp,
             // totalGrossWeightSum: totalGrossWeightSum, // Removed
         };
     } catch (error) {
         console.error("[ShipmentService] Error fetching dashboard stats:", error);
         return {
-            pendingCount: null,
-            completedCount: null,
+            inProgressCount: null,
+            dispatchedCount: null,
             lastUpdateTimestamp: null,
             // totalGrossWeightSum: null, // Removed
         };
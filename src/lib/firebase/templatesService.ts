@@ -0,0 +1,173 @@
+import { db } from './config';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  runTransaction,
+  setDoc,
+  deleteDoc,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type QueryDocumentSnapshot,
+  type Transaction,
+} from 'firebase/firestore';
+import type { PreAlertTemplate, ShipmentTemplate } from '@/lib/types';
+import { preAlertTemplateFromFirestore } from '@/lib/documents/preAlertTemplates';
+import { cmrFromFirestore } from '@/lib/documents/cmrData';
+
+const PRE_ALERT_TEMPLATES_COLLECTION = 'pre_alert_templates';
+const SHIPMENT_TEMPLATES_COLLECTION = 'shipment_templates';
+
+export type PreAlertTemplateInput = Omit<PreAlertTemplate, 'id' | 'createdAt' | 'lastUpdated'>;
+
+const templateFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): PreAlertTemplate => {
+  const data = docSnap.data();
+  return {
+    ...preAlertTemplateFromFirestore(docSnap.id, data),
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : undefined,
+  };
+};
+
+// Firestore rejects undefined, e.g. a column left without a width.
+const stripUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const getPreAlertTemplates = async (): Promise<PreAlertTemplate[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, PRE_ALERT_TEMPLATES_COLLECTION), orderBy('name', 'asc')));
+    return snapshot.docs.map(templateFromFirestore);
+  } catch (error) {
+    console.error("[TemplatesService] Error fetching Pre-Alert templates:", error);
+    throw error;
+  }
+};
+
+// The other templates currently marked default; read before a transaction,
+// since client transactions cannot run queries.
+const otherDefaultRefs = async (templateId: string): Promise<DocumentReference[]> => {
+  const snapshot = await getDocs(query(collection(db, PRE_ALERT_TEMPLATES_COLLECTION), where('isDefault', '==', true)));
+  return snapshot.docs.filter(d => d.id !== templateId).map(d => d.ref);
+};
+
+// Unsets isDefault on the given templates. All reads happen before the first write.
+const clearDefaults = async (transaction: Transaction, refs: DocumentReference[]): Promise<() => void> => {
+  const snaps = await Promise.all(refs.map(ref => transaction.get(ref)));
+  return () => snaps.forEach(snap => {
+    if (!snap.exists() || snap.data().isDefault !== true) return;
+    const updates = { isDefault: false };
+    transaction.update(snap.ref, { ...updates, lastUpdated: serverTimestamp() });
+  });
+};
+
+/**
+ * Creates a Pre-Alert template. Marking it default clears the flag on the
+ * previous default in the same transaction, so at most one is ever default.
+ * @param template The template to save.
+ * @returns The ID of the new template.
+ */
+export const addPreAlertTemplate = async (template: PreAlertTemplateInput): Promise<string> => {
+  const templateRef = doc(collection(db, PRE_ALERT_TEMPLATES_COLLECTION));
+  try {
+    const previousDefaults = template.isDefault ? await otherDefaultRefs(templateRef.id) : [];
+    await runTransaction(db, async (transaction) => {
+      const writeClearedDefaults = await clearDefaults(transaction, previousDefaults);
+      const dataToSave = { ...stripUndefined(template), createdAt: serverTimestamp(), lastUpdated: serverTimestamp() };
+      writeClearedDefaults();
+      transaction.set(templateRef, dataToSave);
+    });
+    return templateRef.id;
+  } catch (error) {
+    console.error("[TemplatesService] Error adding Pre-Alert template:", error);
+    throw error;
+  }
+};
+
+export const updatePreAlertTemplate = async (templateId: string, template: PreAlertTemplateInput): Promise<void> => {
+  const templateRef = doc(db, PRE_ALERT_TEMPLATES_COLLECTION, templateId);
+  try {
+    const previousDefaults = template.isDefault ? await otherDefaultRefs(templateId) : [];
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(templateRef);
+      if (!currentSnap.exists()) throw new Error(`Template ${templateId} does not exist.`);
+      const writeClearedDefaults = await clearDefaults(transaction, previousDefaults);
+      const updates = stripUndefined(template);
+      writeClearedDefaults();
+      transaction.update(templateRef, { ...updates, lastUpdated: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error(`[TemplatesService] Error updating Pre-Alert template ${templateId}:`, error);
+    throw error;
+  }
+};
+
+export const deletePreAlertTemplate = async (templateId: string): Promise<void> => {
+  const templateRef = doc(db, PRE_ALERT_TEMPLATES_COLLECTION, templateId);
+  try {
+    await deleteDoc(templateRef);
+  } catch (error) {
+    console.error(`[TemplatesService] Error deleting Pre-Alert template ${templateId}:`, error);
+    throw error;
+  }
+};
+
+// --- Shipment templates ---
+
+export type ShipmentTemplateInput = Omit<ShipmentTemplate, 'id' | 'createdAt' | 'lastUpdated'>;
+
+const shipmentTemplateFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): ShipmentTemplate => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    name: data.name || docSnap.id,
+    carrierId: data.carrierId || '',
+    subcarrierId: data.subcarrierId || null,
+    driverId: data.driverId || null,
+    driverName: data.driverName || '',
+    truckId: data.truckId || null,
+    trailerId: data.trailerId || null,
+    truckRegistration: data.truckRegistration || undefined,
+    trailerRegistration: data.trailerRegistration || undefined,
+    senderAddress: data.senderAddress || '',
+    consigneeAddress: data.consigneeAddress || '',
+    cmr: cmrFromFirestore(data.cmr),
+    descriptionOfGoods: data.descriptionOfGoods || '',
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : undefined,
+  };
+};
+
+export const getShipmentTemplates = async (): Promise<ShipmentTemplate[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, SHIPMENT_TEMPLATES_COLLECTION), orderBy('name', 'asc')));
+    return snapshot.docs.map(shipmentTemplateFromFirestore);
+  } catch (error) {
+    console.error("[TemplatesService] Error fetching shipment templates:", error);
+    throw error;
+  }
+};
+
+export const addShipmentTemplate = async (template: ShipmentTemplateInput): Promise<string> => {
+  const templateRef = doc(collection(db, SHIPMENT_TEMPLATES_COLLECTION));
+  try {
+    await setDoc(templateRef, { ...stripUndefined(template), createdAt: serverTimestamp(), lastUpdated: serverTimestamp() });
+    return templateRef.id;
+  } catch (error) {
+    console.error("[TemplatesService] Error adding shipment template:", error);
+    throw error;
+  }
+};
+
+export const deleteShipmentTemplate = async (templateId: string): Promise<void> => {
+  const templateRef = doc(db, SHIPMENT_TEMPLATES_COLLECTION, templateId);
+  try {
+    await deleteDoc(templateRef);
+  } catch (error) {
+    console.error(`[TemplatesService] Error deleting shipment template ${templateId}:`, error);
+    throw error;
+  }
+};
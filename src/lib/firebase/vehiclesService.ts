@@ -0,0 +1,102 @@
+import { db } from './config';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  orderBy,
+  serverTimestamp,
+  runTransaction,
+  deleteDoc,
+  Timestamp,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import type { Vehicle } from '@/lib/types';
+import { isValidPlate, normalizePlate, vehicleDocumentId } from '@/lib/vehicles';
+
+const VEHICLES_COLLECTION = 'vehicles';
+
+export type VehicleInput = Omit<Vehicle, 'id' | 'createdAt' | 'lastUpdated'>;
+
+const vehicleFromFirestore = (docSnap: QueryDocumentSnapshot<DocumentData>): Vehicle => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    plate: data.plate || '',
+    countryCode: data.countryCode || '',
+    type: data.type === 'trailer' ? 'trailer' : 'truck',
+    carrierId: data.carrierId || '',
+    maxPayloadKg: typeof data.maxPayloadKg === 'number' ? data.maxPayloadKg : null,
+    maxPalletPositions: typeof data.maxPalletPositions === 'number' ? data.maxPalletPositions : null,
+    active: data.active !== false,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : undefined,
+    lastUpdated: data.lastUpdated instanceof Timestamp ? data.lastUpdated : undefined,
+  };
+};
+
+// Normalizes the plate and country so documents always print them the same way
+const normalizeVehicleInput = (vehicle: VehicleInput): VehicleInput => {
+  const plate = normalizePlate(vehicle.plate);
+  if (!isValidPlate(plate)) throw new Error(`"${vehicle.plate}" is not a valid registration plate.`);
+  return { ...vehicle, plate, countryCode: vehicle.countryCode.trim().toUpperCase() };
+};
+
+export const getVehicles = async (): Promise<Vehicle[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, VEHICLES_COLLECTION), orderBy('plate', 'asc')));
+    return snapshot.docs.map(vehicleFromFirestore);
+  } catch (error) {
+    console.error("[VehiclesService] Error fetching vehicles:", error);
+    throw error;
+  }
+};
+
+/**
+ * Registers a vehicle. The document ID is its country and plate, so a plate
+ * that is already registered is refused.
+ * @param vehicle The vehicle to register.
+ * @returns The ID of the new vehicle.
+ */
+export const addVehicle = async (vehicle: VehicleInput): Promise<string> => {
+  const normalized = normalizeVehicleInput(vehicle);
+  const vehicleRef = doc(db, VEHICLES_COLLECTION, vehicleDocumentId(normalized.countryCode, normalized.plate));
+  try {
+    await runTransaction(db, async (transaction) => {
+      const existingSnap = await transaction.get(vehicleRef);
+      if (existingSnap.exists()) throw new Error(`${normalized.plate} (${normalized.countryCode}) is already registered.`);
+      const dataToSave = { ...normalized, createdAt: serverTimestamp(), lastUpdated: serverTimestamp() };
+      transaction.set(vehicleRef, dataToSave);
+    });
+    return vehicleRef.id;
+  } catch (error) {
+    console.error("[VehiclesService] Error adding vehicle:", error);
+    throw error;
+  }
+};
+
+// The plate and country make up the ID and cannot change; register a new vehicle instead
+export const updateVehicle = async (vehicleId: string, vehicle: Omit<VehicleInput, 'plate' | 'countryCode'>): Promise<void> => {
+  const vehicleRef = doc(db, VEHICLES_COLLECTION, vehicleId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(vehicleRef);
+      if (!currentSnap.exists()) throw new Error(`Vehicle ${vehicleId} does not exist.`);
+      transaction.update(vehicleRef, { ...vehicle, lastUpdated: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error(`[VehiclesService] Error updating vehicle ${vehicleId}:`, error);
+    throw error;
+  }
+};
+
+// Shipments keep their plate text, so deleting a vehicle does not change their documents
+export const deleteVehicle = async (vehicleId: string): Promise<void> => {
+  const vehicleRef = doc(db, VEHICLES_COLLECTION, vehicleId);
+  try {
+    await deleteDoc(vehicleRef);
+  } catch (error) {
+    console.error(`[VehiclesService] Error deleting vehicle ${vehicleId}:`, error);
+    throw error;
+  }
+};
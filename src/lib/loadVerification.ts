@@ -0,0 +1,49 @@
+import type { LoadScan, LoadVerification, ShipmentDetail } from '@/lib/types';
+import { normalizeReceptacleId } from '@/lib/utils';
+
+export interface LoadReconciliation {
+  verified: ShipmentDetail[];
+  missing: ShipmentDetail[];
+  unexpected: LoadScan[];
+  passed: boolean; // Nothing missing and nothing unexpected
+}
+
+export type LoadVerificationCounts = Pick<LoadVerification, 'expected' | 'verified' | 'missing' | 'unexpected'>;
+
+// Items saved before receptacleId was stored only have their barcode
+const detailReceptacleId = (detail: ShipmentDetail): string =>
+  detail.receptacleId || normalizeReceptacleId(detail.barcode);
+
+/**
+ * Compares the items recorded for a shipment with what was scanned on the
+ * truck. An item is verified by a scan of its barcode or by confirming it by
+ * hand; a scan matching no item is unexpected. Hand confirmations of items
+ * deleted since are ignored.
+ * @param details The shipment's items.
+ * @param scans The shipment's load scans.
+ * @returns The verified and missing items and the unexpected scans.
+ */
+export const reconcileLoad = (details: ShipmentDetail[], scans: LoadScan[]): LoadReconciliation => {
+  const scannedIds = new Set(scans.map(scan => scan.receptacleId).filter(Boolean));
+  const confirmedDetailIds = new Set(scans.map(scan => scan.detailId).filter(Boolean));
+  const isVerified = (detail: ShipmentDetail) => {
+    const receptacleId = detailReceptacleId(detail);
+    return confirmedDetailIds.has(detail.id) || (!!receptacleId && scannedIds.has(receptacleId));
+  };
+  const verified = details.filter(isVerified);
+  const missing = details.filter(detail => !isVerified(detail));
+  const recordedIds = new Set(details.map(detailReceptacleId).filter(Boolean));
+  const unexpected = scans.filter(scan => !scan.detailId && !recordedIds.has(scan.receptacleId));
+  return { verified, missing, unexpected, passed: missing.length === 0 && unexpected.length === 0 };
+};
+
+export const loadVerificationCounts = (reconciliation: LoadReconciliation): LoadVerificationCounts => ({
+  expected: reconciliation.verified.length + reconciliation.missing.length,
+  verified: reconciliation.verified.length,
+  missing: reconciliation.missing.length,
+  unexpected: reconciliation.unexpected.length,
+});
+
+// An override holds for the load it was given for; a changed item or scan count means it is stale
+export const isSameLoadCounts = (a: LoadVerificationCounts, b: LoadVerificationCounts): boolean =>
+  a.expected === b.expected && a.verified === b.verified && a.missing === b.missing && a.unexpected === b.unexpected;
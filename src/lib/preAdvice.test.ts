@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import type { PreAdvisedReceptacle, ShipmentDetail } from '@/lib/types';
+import { DEFAULT_PRE_ADVICE_TOLERANCE_KG, findPreAdviceMatch, parseManifestRows, reconcilePreAdvice } from './preAdvice';
+
+const RECEPTACLE_ID = 'GBLONAFRCDGAAUN50123001100123';
+const MANIFEST_DATE = Timestamp.fromDate(new Date('2026-03-02T00:00:00Z'));
+
+const receptacle = (id: string, fields: Partial<PreAdvisedReceptacle>): PreAdvisedReceptacle => ({
+  id,
+  manifestId: 'manifest-1',
+  customerId: 'asendia-ac',
+  manifestDate: MANIFEST_DATE,
+  dispatchNumber: '123',
+  doeId: '',
+  barcode: '',
+  receptacleId: '',
+  grossWeight: 10,
+  line: 2,
+  ...fields,
+});
+
+const detail = (id: string, fields: Partial<ShipmentDetail>): ShipmentDetail => ({
+  id,
+  shipmentId: 'shipment-1',
+  numPallets: 0,
+  numBags: 1,
+  customerId: 'asendia-ac',
+  serviceId: 'prior',
+  formatId: 'letters',
+  tareWeight: 0.2,
+  grossWeight: 10,
+  netWeight: 9.8,
+  dispatchNumber: '123',
+  createdAt: MANIFEST_DATE,
+  lastUpdated: MANIFEST_DATE,
+  ...fields,
+});
+
+describe('parseManifestRows', () => {
+  it('finds the header below a title and reads the named columns', () => {
+    const { lines, errors } = parseManifestRows([
+      ['Asendia A/C manifest, 2 March 2026'],
+      [],
+      ['Bag ID', 'Despatch No.', 'D.O.E.', 'Gross weight (kg)'],
+      [` ${RECEPTACLE_ID.toLowerCase()} `, '0123', 'un', '12.3'],
+      ['', '124', '', '7'],
+    ]);
+    expect(errors).toEqual([]);
+    expect(lines).toEqual([
+      { dispatchNumber: '0123', doeId: 'UN', barcode: RECEPTACLE_ID.toLowerCase(), receptacleId: RECEPTACLE_ID, grossWeight: 12.3, line: 4 },
+      { dispatchNumber: '124', doeId: '', barcode: '', receptacleId: '', grossWeight: 7, line: 5 },
+    ]);
+  });
+
+  it.each([
+    ['12,5', 12.5],
+    ['1.234,5', 1234.5],
+    ['1,234.5', 1234.5],
+    ['1234', 1234],
+    [' 0.25 ', 0.25],
+  ])('reads the weight %s as %d kg', (weight, grossWeight) => {
+    const { lines, errors } = parseManifestRows([['Dispatch', 'Weight'], ['123', weight]]);
+    expect(errors).toEqual([]);
+    expect(lines[0].grossWeight).toBe(grossWeight);
+  });
+
+  it('skips blank and totals lines', () => {
+    const { lines, errors } = parseManifestRows([['Dispatch', 'Weight', 'Note'], ['123', '10'], ['', '', 'Total'], [''], []]);
+    expect(errors).toEqual([]);
+    expect(lines).toHaveLength(1);
+  });
+
+  it('reports each row it cannot read, numbered as in the file', () => {
+    const { errors } = parseManifestRows([
+      ['Dispatch', 'Weight', 'Receptacle'],
+      ['', '10', ''],
+      ['123', 'heavy', ''],
+      ['123', '0', ''],
+      ['123', '10', RECEPTACLE_ID],
+      ['124', '10', RECEPTACLE_ID.replace(/(.{6})/, '$1-')],
+    ]);
+    expect(errors).toEqual([
+      'Row 2: the dispatch number is missing.',
+      'Row 3: "heavy" is not a weight.',
+      'Row 4: "0" is not a weight.',
+      `Row 6: receptacle ${RECEPTACLE_ID.slice(0, 6)}-${RECEPTACLE_ID.slice(6)} is already on row 5.`,
+    ]);
+  });
+
+  it('refuses a file without a dispatch and a weight column', () => {
+    expect(parseManifestRows([['Receptacle', 'Weight'], [RECEPTACLE_ID, '10']])).toEqual({
+      lines: [],
+      errors: ["No header row with a dispatch number and a weight column was found."],
+    });
+  });
+});
+
+describe('findPreAdviceMatch', () => {
+  it('takes a receptacle with the same ID over a closer weight', () => {
+    const byId = receptacle('by-id', { receptacleId: RECEPTACLE_ID, grossWeight: 11 });
+    const byWeight = receptacle('by-weight', { grossWeight: 10 });
+    const match = findPreAdviceMatch({ dispatchNumber: '123', barcode: RECEPTACLE_ID, grossWeight: 10 }, [byWeight, byId]);
+    expect(match).toMatchObject({ receptacle: { id: 'by-id' }, weightDifference: -1, byReceptacleId: true });
+  });
+
+  it('needs the same dispatch, and the same DOE where both have one', () => {
+    const candidates = [receptacle('other-dispatch', { dispatchNumber: '124' }), receptacle('other-doe', { doeId: 'CN' })];
+    expect(findPreAdviceMatch({ dispatchNumber: '123', doeId: 'un', grossWeight: 10 }, candidates)).toBeNull();
+    expect(findPreAdviceMatch({ dispatchNumber: '0123', grossWeight: 10 }, candidates)?.receptacle.id).toBe('other-doe');
+    expect(findPreAdviceMatch({ dispatchNumber: '', grossWeight: 10 }, candidates)).toBeNull();
+  });
+});
+
+describe('reconcilePreAdvice', () => {
+  it('matches each item with one receptacle, by ID first and then by the closest weight', () => {
+    const preAdvised = [
+      receptacle('r1', { grossWeight: 10 }),
+      receptacle('r2', { grossWeight: 12 }),
+      receptacle('r3', { receptacleId: RECEPTACLE_ID, grossWeight: 20 }),
+      receptacle('r4', { dispatchNumber: '200' }),
+    ];
+    const received = [
+      detail('d1', { grossWeight: 11.9 }),
+      detail('d2', { barcode: RECEPTACLE_ID, grossWeight: 10 }),
+      detail('d3', { grossWeight: 10.05 }),
+      detail('d4', { dispatchNumber: '300' }),
+    ];
+    const result = reconcilePreAdvice(preAdvised, received, DEFAULT_PRE_ADVICE_TOLERANCE_KG);
+    expect(result.matched.map(match => [match.detail.id, match.receptacle.id])).toEqual([['d2', 'r3'], ['d3', 'r1'], ['d1', 'r2']]);
+    expect(result.notLoaded.map(receptacle => receptacle.id)).toEqual(['r4']);
+    expect(result.notPreAdvised.map(item => item.id)).toEqual(['d4']);
+    expect(result.weightMismatches.map(match => match.detail.id)).toEqual(['d2']);
+  });
+
+  it('reports weight differences above the tolerance only', () => {
+    const preAdvised = [receptacle('r1', { dispatchNumber: '1' }), receptacle('r2', { dispatchNumber: '2' }), receptacle('r3', { dispatchNumber: '3' })];
+    const received = [
+      detail('d1', { dispatchNumber: '1', grossWeight: 10.5 }),
+      detail('d2', { dispatchNumber: '2', grossWeight: 9.4 }),
+      detail('d3', { dispatchNumber: '3', grossWeight: 10.6 }),
+    ];
+    const result = reconcilePreAdvice(preAdvised, received, 0.5);
+    expect(result.matched).toHaveLength(3);
+    expect(result.weightMismatches.map(match => [match.detail.id, match.weightDifference])).toEqual([['d2', -0.6], ['d3', 0.6]]);
+    expect(reconcilePreAdvice(preAdvised, received, 1).weightMismatches).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+import type { PreAdvisedReceptacle, ShipmentDetail } from '@/lib/types';
+import { normalizeReceptacleId } from '@/lib/utils';
+
+// Keeps one upload within a few Firestore batches
+export const MAX_MANIFEST_RECEPTACLES = 2000;
+
+// How far the weight on the scale may differ from the customer's before it is reported
+export const DEFAULT_PRE_ADVICE_TOLERANCE_KG = 0.5;
+
+export type ManifestLine = Pick<PreAdvisedReceptacle, 'dispatchNumber' | 'doeId' | 'barcode' | 'receptacleId' | 'grossWeight' | 'line'>;
+
+export interface ParsedManifest {
+  lines: ManifestLine[];
+  errors: string[]; // One per rejected row; the upload is refused while there are any
+}
+
+// The fields of an item it is matched by; an item being entered has no ID yet
+export type PreAdviceItem = Pick<ShipmentDetail, 'dispatchNumber' | 'doeId' | 'barcode' | 'receptacleId' | 'grossWeight'>;
+
+// An item matched with the pre-advised receptacle it was loaded as
+export interface PreAdviceMatch<T extends PreAdviceItem = ShipmentDetail> {
+  receptacle: PreAdvisedReceptacle;
+  detail: T;
+  weightDifference: number; // Item minus pre-advised gross weight, in kg
+  byReceptacleId: boolean; // Both carry the same receptacle ID, rather than only the same dispatch
+}
+
+export interface PreAdviceReconciliation {
+  matched: PreAdviceMatch[];
+  notLoaded: PreAdvisedReceptacle[]; // Pre-advised, but on no shipment
+  notPreAdvised: ShipmentDetail[]; // Loaded, but on no manifest
+  weightMismatches: PreAdviceMatch[]; // Matched, but further apart than the tolerance
+}
+
+// Header names customers use for each column, compared lower case without spaces or punctuation
+const MANIFEST_COLUMNS: Record<keyof Omit<ManifestLine, 'receptacleId' | 'line'>, string[]> = {
+  dispatchNumber: ['dispatch', 'dispatchnumber', 'dispatchno', 'dispatchnr', 'despatch', 'despatchnumber', 'despatchno'],
+  doeId: ['doe', 'officeofexchange', 'destinationofficeofexchange', 'destinationoe'],
+  barcode: ['receptacle', 'receptacleid', 'receptaclenumber', 'barcode', 'bagid', 'bagnumber'],
+  grossWeight: ['weight', 'weightkg', 'grossweight', 'grossweightkg', 'gross', 'kg'],
+};
+
+// Customers put a title or their address above the header now and then
+const HEADER_SEARCH_ROWS = 10;
+
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Dispatch numbers are compared without leading zeros, as spreadsheets drop them
+export const normalizeDispatchNumber = (value: string | undefined): string => (value ?? '').trim().replace(/^0+(?=\d)/, '');
+
+// Accepts decimal commas and thousands separators, e.g. "12,5", "1.234,5" and
+// "1,234.5": of a comma and a point, the last one is the decimal separator
+const parseWeight = (value: string): number => {
+  const trimmed = value.trim();
+  const decimalComma = trimmed.lastIndexOf(',') > trimmed.lastIndexOf('.');
+  return Number(decimalComma ? trimmed.replace(/\./g, '').replace(',', '.') : trimmed.replace(/,/g, ''));
+};
+
+/**
+ * Reads the receptacles of a manifest from its rows. The header row names the
+ * columns: dispatch number and gross weight are required, DOE and receptacle ID
+ * are used when present. Blank lines are skipped.
+ * @param rows The cells of the uploaded file (see readSpreadsheetFile).
+ * @returns The receptacles, and why any rows could not be read.
+ */
+export const parseManifestRows = (rows: string[][]): ParsedManifest => {
+  const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+    const headers = row.map(normalizeHeader);
+    return headers.some(header => MANIFEST_COLUMNS.dispatchNumber.includes(header))
+      && headers.some(header => MANIFEST_COLUMNS.grossWeight.includes(header));
+  });
+  if (headerIndex < 0) {
+    return { lines: [], errors: ["No header row with a dispatch number and a weight column was found."] };
+  }
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const column = (field: keyof typeof MANIFEST_COLUMNS) => headers.findIndex(header => MANIFEST_COLUMNS[field].includes(header));
+  const columns = { dispatchNumber: column('dispatchNumber'), doeId: column('doeId'), barcode: column('barcode'), grossWeight: column('grossWeight') };
+
+  const lines: ManifestLine[] = [];
+  const errors: string[] = [];
+  const seenReceptacleIds = new Map<string, number>();
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const line = headerIndex + index + 2; // As numbered in the spreadsheet
+    const cell = (columnIndex: number) => (columnIndex >= 0 ? row[columnIndex] ?? '' : '').trim();
+    const dispatchNumber = cell(columns.dispatchNumber);
+    const barcode = cell(columns.barcode);
+    const weight = cell(columns.grossWeight);
+    if (!dispatchNumber && !barcode && !weight) return; // A totals line or a note
+    const grossWeight = parseWeight(weight);
+    const receptacleId = normalizeReceptacleId(barcode);
+    if (!dispatchNumber) errors.push(`Row ${line}: the dispatch number is missing.`);
+    else if (!Number.isFinite(grossWeight) || grossWeight <= 0) errors.push(`Row ${line}: "${weight}" is not a weight.`);
+    else if (receptacleId && seenReceptacleIds.has(receptacleId)) errors.push(`Row ${line}: receptacle ${barcode} is already on row ${seenReceptacleIds.get(receptacleId)}.`);
+    else {
+      if (receptacleId) seenReceptacleIds.set(receptacleId, line);
+      lines.push({ dispatchNumber, doeId: cell(columns.doeId).toUpperCase(), barcode, receptacleId, grossWeight: parseFloat(grossWeight.toFixed(3)), line });
+    }
+  });
+  if (lines.length > MAX_MANIFEST_RECEPTACLES) errors.push(`A manifest can hold at most ${MAX_MANIFEST_RECEPTACLES} receptacles; this one has ${lines.length}.`);
+  return { lines, errors };
+};
+
+// Items saved before receptacleId was stored only have their barcode
+const detailReceptacleId = (detail: PreAdviceItem): string => detail.receptacleId || normalizeReceptacleId(detail.barcode);
+
+// Whether an item can be the pre-advised receptacle: the same dispatch, and the
+// same DOE and receptacle ID where both sides have one
+const isCompatible = (detail: PreAdviceItem, receptacle: PreAdvisedReceptacle): boolean => {
+  const detailDoe = (detail.doeId ?? '').toUpperCase();
+  const receptacleId = detailReceptacleId(detail);
+  return normalizeDispatchNumber(detail.dispatchNumber) === normalizeDispatchNumber(receptacle.dispatchNumber)
+    && (!detailDoe || !receptacle.doeId || detailDoe === receptacle.doeId)
+    && (!receptacleId || !receptacle.receptacleId || receptacleId === receptacle.receptacleId);
+};
+
+const toMatch = <T extends PreAdviceItem>(detail: T, receptacle: PreAdvisedReceptacle): PreAdviceMatch<T> => ({
+  receptacle,
+  detail,
+  weightDifference: parseFloat((detail.grossWeight - receptacle.grossWeight).toFixed(3)),
+  byReceptacleId: !!receptacle.receptacleId && receptacle.receptacleId === detailReceptacleId(detail),
+});
+
+// Matches by receptacle ID first, then by the closest weight
+const compareMatches = (a: PreAdviceMatch<PreAdviceItem>, b: PreAdviceMatch<PreAdviceItem>): number =>
+  Number(b.byReceptacleId) - Number(a.byReceptacleId) || Math.abs(a.weightDifference) - Math.abs(b.weightDifference);
+
+/**
+ * The pre-advised receptacle an item most likely is, if any.
+ * @param detail The item, e.g. as it is being entered.
+ * @param candidates Pre-advised receptacles of the item's customer.
+ * @returns The best match, or null when none of the candidates fits.
+ */
+export const findPreAdviceMatch = <T extends PreAdviceItem>(detail: T, candidates: PreAdvisedReceptacle[]): PreAdviceMatch<T> | null => {
+  if (!normalizeDispatchNumber(detail.dispatchNumber)) return null;
+  return candidates
+    .filter(receptacle => isCompatible(detail, receptacle))
+    .map(receptacle => toMatch(detail, receptacle))
+    .sort(compareMatches)[0] ?? null;
+};
+
+export const isWeightMismatch = (match: PreAdviceMatch<PreAdviceItem>, toleranceKg: number): boolean =>
+  Math.abs(match.weightDifference) > toleranceKg;
+
+/**
+ * Compares what a customer pre-advised with what was loaded. Each item is
+ * matched with at most one receptacle by dispatch number and DOE, taking
+ * receptacle ID matches first and then the closest weights.
+ * @param preAdvised The receptacles on the customer's manifests.
+ * @param received The customer's items on the shipments.
+ * @param toleranceKg Weight differences up to this are not reported.
+ * @returns The matches, the receptacles and items left over, and the weight mismatches.
+ */
+export const reconcilePreAdvice = (preAdvised: PreAdvisedReceptacle[], received: ShipmentDetail[], toleranceKg: number): PreAdviceReconciliation => {
+  const byDispatch = new Map<string, PreAdvisedReceptacle[]>();
+  preAdvised.forEach(receptacle => {
+    const key = normalizeDispatchNumber(receptacle.dispatchNumber);
+    byDispatch.set(key, [...(byDispatch.get(key) ?? []), receptacle]);
+  });
+  const candidates = received.flatMap(detail => (byDispatch.get(normalizeDispatchNumber(detail.dispatchNumber)) ?? [])
+    .filter(receptacle => isCompatible(detail, receptacle))
+    .map(receptacle => toMatch(detail, receptacle)));
+
+  const matched: PreAdviceMatch[] = [];
+  const usedReceptacles = new Set<string>();
+  const usedDetails = new Set<string>();
+  candidates.sort(compareMatches).forEach(match => {
+    const detailKey = `${match.detail.shipmentId}/${match.detail.id}`;
+    const receptacleKey = `${match.receptacle.manifestId}/${match.receptacle.id}`;
+    if (usedDetails.has(detailKey) || usedReceptacles.has(receptacleKey)) return;
+    usedDetails.add(detailKey);
+    usedReceptacles.add(receptacleKey);
+    matched.push(match);
+  });
+
+  return {
+    matched,
+    notLoaded: preAdvised.filter(receptacle => !usedReceptacles.has(`${receptacle.manifestId}/${receptacle.id}`)),
+    notPreAdvised: received.filter(detail => !usedDetails.has(`${detail.shipmentId}/${detail.id}`)),
+    weightMismatches: matched.filter(match => isWeightMismatch(match, toleranceKg)),
+  };
+};
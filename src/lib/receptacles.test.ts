@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { UpuReceptacleIdField } from '@/lib/types';
+import { parseUpuReceptacleId, UPU_RECEPTACLE_ID_LENGTH } from './receptacles';
+
+// GBLONA to FRCDGA, letter post, subclass UN, 2025, dispatch 123, receptacle 1 (the last), 12.3 kg
+const VALID_ID = 'GBLONAFRCDGAAUN50123001100123';
+
+// VALID_ID with the characters from start replaced
+const withPart = (start: number, part: string): string =>
+  VALID_ID.slice(0, start) + part + VALID_ID.slice(start + part.length);
+
+describe('parseUpuReceptacleId', () => {
+  it('decodes every component of a valid ID', () => {
+    expect(VALID_ID).toHaveLength(UPU_RECEPTACLE_ID_LENGTH);
+    expect(parseUpuReceptacleId(VALID_ID)).toEqual({
+      ok: true,
+      id: {
+        originOffice: 'GBLONA',
+        destinationOffice: 'FRCDGA',
+        mailCategory: 'A',
+        mailSubclass: 'UN',
+        year: 5,
+        dispatchNumber: 123,
+        receptacleSerial: 1,
+        lastReceptacle: true,
+        hnsIndicator: '0',
+        weight: 12.3,
+      },
+    });
+  });
+
+  it.each([
+    ['EEJFKAUSJFKBCUA40001999091234', { originOffice: 'EEJFKA', mailCategory: 'C', mailSubclass: 'UA', dispatchNumber: 1, receptacleSerial: 999, lastReceptacle: false, hnsIndicator: '9', weight: 123.4 }],
+    ['DEFRAAGBLHRBDE191234500000000', { mailCategory: 'D', mailSubclass: 'E1', year: 9, dispatchNumber: 1234, receptacleSerial: 500, weight: 0 }],
+  ])('decodes %s', (value, expected) => {
+    const result = parseUpuReceptacleId(value);
+    expect(result.ok && result.id).toMatchObject(expected);
+  });
+
+  it('accepts lower-case input', () => {
+    expect(parseUpuReceptacleId(VALID_ID.toLowerCase())).toEqual(parseUpuReceptacleId(VALID_ID));
+  });
+
+  it.each([
+    ['hyphens', 'GBLONA-FRCDGA-A-UN-5-0123-001-1-0-0123'],
+    ['spaces', 'GBLONA FRCDGA AUN5 0123 001 1 0 0123'],
+    ['mixed separators and case', ' gblona-frcdga aun5-0123 00110-0123 '],
+  ])('ignores %s between the groups', (_, value) => {
+    expect(parseUpuReceptacleId(value)).toEqual(parseUpuReceptacleId(VALID_ID));
+  });
+
+  it.each([
+    ['too short', VALID_ID.slice(0, -1), 28],
+    ['too long', `${VALID_ID}0`, 30],
+    ['empty', '', 0],
+  ])('reports the length when the ID is %s', (_, value, length) => {
+    expect(parseUpuReceptacleId(value)).toEqual({
+      ok: false,
+      errors: [{ field: 'length', message: `A receptacle ID has 29 characters, not ${length}.` }],
+    });
+  });
+
+  it.each<[UpuReceptacleIdField, string, string]>([
+    ['originOffice', withPart(0, '1BLONA'), 'Origin office of exchange "1BLONA" should be a country code and 4 letters or digits.'],
+    ['originOffice', withPart(2, 'LO_A'), 'Origin office of exchange "GBLO_A" should be a country code and 4 letters or digits.'],
+    ['destinationOffice', withPart(6, 'F1CDGA'), 'Destination office of exchange "F1CDGA" should be a country code and 4 letters or digits.'],
+    ['mailCategory', withPart(12, 'E'), 'Mail category "E" should be A, B, C or D.'],
+    ['mailSubclass', withPart(13, '1N'), 'Mail subclass "1N" should be a letter and a letter or digit.'],
+    ['year', withPart(15, 'X'), 'Year "X" should be a digit.'],
+    ['dispatchNumber', withPart(16, '0000'), 'Dispatch number "0000" should be 4 digits, 0001 to 9999.'],
+    ['dispatchNumber', withPart(16, '12A4'), 'Dispatch number "12A4" should be 4 digits, 0001 to 9999.'],
+    ['receptacleSerial', withPart(20, '000'), 'Receptacle serial number "000" should be 3 digits, 001 to 999.'],
+    ['lastReceptacle', withPart(23, '2'), 'Last receptacle indicator "2" should be 0 or 1.'],
+    ['hnsIndicator', withPart(24, 'X'), 'HNS indicator "X" should be a digit.'],
+    ['weight', withPart(25, '01.3'), 'Weight "01.3" should be 4 digits, in tenths of a kilogram.'],
+  ])('reports a malformed %s', (field, value, message) => {
+    expect(value).toHaveLength(UPU_RECEPTACLE_ID_LENGTH);
+    expect(parseUpuReceptacleId(value)).toEqual({ ok: false, errors: [{ field, message }] });
+  });
+
+  it('reports every malformed component at once', () => {
+    const result = parseUpuReceptacleId(withPart(12, 'EUN5000000020'));
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors.map(error => error.field)).toEqual(['mailCategory', 'dispatchNumber', 'receptacleSerial', 'lastReceptacle']);
+  });
+});
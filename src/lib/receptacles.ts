@@ -0,0 +1,75 @@
+import type { UpuReceptacleId, UpuReceptacleIdError, UpuReceptacleIdField } from '@/lib/types';
+
+export const UPU_RECEPTACLE_ID_LENGTH = 29;
+
+export type UpuReceptacleIdResult =
+  | { ok: true; id: UpuReceptacleId }
+  | { ok: false; errors: UpuReceptacleIdError[] };
+
+export const UPU_RECEPTACLE_ID_FIELD_LABELS: Record<UpuReceptacleIdField, string> = {
+  length: 'Length',
+  originOffice: 'Origin office of exchange',
+  destinationOffice: 'Destination office of exchange',
+  mailCategory: 'Mail category',
+  mailSubclass: 'Mail subclass',
+  year: 'Year',
+  dispatchNumber: 'Dispatch number',
+  receptacleSerial: 'Receptacle serial number',
+  lastReceptacle: 'Last receptacle indicator',
+  hnsIndicator: 'HNS indicator',
+  weight: 'Weight',
+};
+
+// Position, length and allowed characters of each component, in label order
+const UPU_RECEPTACLE_ID_LAYOUT: { field: keyof UpuReceptacleId; start: number; length: number; pattern: RegExp; expected: string }[] = [
+  { field: 'originOffice', start: 0, length: 6, pattern: /^[A-Z]{2}[A-Z0-9]{4}$/, expected: 'a country code and 4 letters or digits' },
+  { field: 'destinationOffice', start: 6, length: 6, pattern: /^[A-Z]{2}[A-Z0-9]{4}$/, expected: 'a country code and 4 letters or digits' },
+  { field: 'mailCategory', start: 12, length: 1, pattern: /^[A-D]$/, expected: 'A, B, C or D' },
+  { field: 'mailSubclass', start: 13, length: 2, pattern: /^[A-Z][A-Z0-9]$/, expected: 'a letter and a letter or digit' },
+  { field: 'year', start: 15, length: 1, pattern: /^[0-9]$/, expected: 'a digit' },
+  { field: 'dispatchNumber', start: 16, length: 4, pattern: /^(?!0000)[0-9]{4}$/, expected: '4 digits, 0001 to 9999' },
+  { field: 'receptacleSerial', start: 20, length: 3, pattern: /^(?!000)[0-9]{3}$/, expected: '3 digits, 001 to 999' },
+  { field: 'lastReceptacle', start: 23, length: 1, pattern: /^[01]$/, expected: '0 or 1' },
+  { field: 'hnsIndicator', start: 24, length: 1, pattern: /^[0-9]$/, expected: 'a digit' },
+  { field: 'weight', start: 25, length: 4, pattern: /^[0-9]{4}$/, expected: '4 digits, in tenths of a kilogram' },
+];
+
+/**
+ * Parses a UPU S9 receptacle identifier, e.g. GBLONAFRCDGAAUN50123001100123.
+ * Labels often print it in groups, so spaces and hyphens are ignored.
+ * @param value The ID as scanned or typed.
+ * @returns Every component, or an error for each component that is malformed.
+ */
+export const parseUpuReceptacleId = (value: string): UpuReceptacleIdResult => {
+  const id = (value ?? '').replace(/[\s-]/g, '').toUpperCase();
+  if (id.length !== UPU_RECEPTACLE_ID_LENGTH) {
+    return { ok: false, errors: [{ field: 'length', message: `A receptacle ID has ${UPU_RECEPTACLE_ID_LENGTH} characters, not ${id.length}.` }] };
+  }
+
+  const errors: UpuReceptacleIdError[] = [];
+  const parts = {} as Record<keyof UpuReceptacleId, string>;
+  UPU_RECEPTACLE_ID_LAYOUT.forEach(({ field, start, length, pattern, expected }) => {
+    const part = id.substring(start, start + length);
+    parts[field] = part;
+    if (!pattern.test(part)) {
+      errors.push({ field, message: `${UPU_RECEPTACLE_ID_FIELD_LABELS[field]} "${part}" should be ${expected}.` });
+    }
+  });
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    id: {
+      originOffice: parts.originOffice,
+      destinationOffice: parts.destinationOffice,
+      mailCategory: parts.mailCategory,
+      mailSubclass: parts.mailSubclass,
+      year: parseInt(parts.year, 10),
+      dispatchNumber: parseInt(parts.dispatchNumber, 10),
+      receptacleSerial: parseInt(parts.receptacleSerial, 10),
+      lastReceptacle: parts.lastReceptacle === '1',
+      hnsIndicator: parts.hnsIndicator,
+      weight: parseInt(parts.weight, 10) / 10,
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import type { SealStatus } from '@/lib/types';
+
+// A seal is in stock until a shipment being loaded takes it (issued), and is
+// used once that shipment is sealed. Seals lost or damaged in stock are voided.
+export const SEAL_STATUSES: SealStatus[] = ['in_stock', 'issued', 'used', 'voided'];
+
+export const SEAL_STATUS_LABELS: Record<SealStatus, string> = {
+  in_stock: 'In Stock',
+  issued: 'Issued',
+  used: 'Used',
+  voided: 'Voided',
+};
+
+export const SEAL_STATUS_BADGE_CLASSES: Record<SealStatus, string> = {
+  in_stock: 'bg-green-100 text-green-700 border-green-200',
+  issued: 'bg-amber-100 text-amber-700 border-amber-200',
+  used: 'bg-slate-100 text-slate-700 border-slate-200',
+  voided: 'bg-red-100 text-red-700 border-red-200',
+};
+
+// Keeps one import within a few Firestore batches
+export const MAX_SEALS_PER_IMPORT = 2000;
+
+// Seal numbers are document IDs in /seals, so only letters, digits and dashes
+const SEAL_NUMBER_PATTERN = /^[A-Z0-9-]{3,40}$/;
+
+/**
+ * The form seal numbers are stored and compared in: upper case, without
+ * spaces, so "ab 123" and "AB123" are the same seal.
+ * @param value The seal number as typed or scanned.
+ * @returns The normalized seal number.
+ */
+export const normalizeSealNumber = (value: string): string => value.replace(/\s+/g, '').toUpperCase();
+
+export const isValidSealNumber = (value: string): boolean => SEAL_NUMBER_PATTERN.test(value);
+
+/**
+ * Expands a printed seal range, e.g. prefix "GB", 1 to 3 with width 6 gives
+ * GB000001, GB000002 and GB000003.
+ * @param prefix Letters printed before the serial.
+ * @param first The first serial.
+ * @param last The last serial, inclusive.
+ * @param width The serial is zero-padded to this many digits.
+ * @returns The normalized seal numbers.
+ */
+export const expandSealRange = (prefix: string, first: number, last: number, width: number): string[] => {
+  if (!Number.isInteger(first) || !Number.isInteger(last) || first < 0 || last < first) {
+    throw new Error("The range must run from a whole number up to a larger or equal one.");
+  }
+  if (last - first + 1 > MAX_SEALS_PER_IMPORT) {
+    throw new Error(`A batch can hold at most ${MAX_SEALS_PER_IMPORT} seals.`);
+  }
+  const normalizedPrefix = normalizeSealNumber(prefix);
+  const numbers: string[] = [];
+  for (let serial = first; serial <= last; serial++) {
+    numbers.push(`${normalizedPrefix}${String(serial).padStart(width, '0')}`);
+  }
+  return numbers;
+};
+
+/**
+ * Parses pasted seal numbers, one per line or separated by commas.
+ * @param text The pasted text.
+ * @returns The normalized numbers, without duplicates, in the order given.
+ */
+export const parseSealList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\n,;]+/).map(normalizeSealNumber).filter(Boolean)));
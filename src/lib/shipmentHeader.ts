@@ -0,0 +1,48 @@
+import type { Shipment, ShipmentHeader, ShipmentHeaderGroup } from '@/lib/types';
+
+// What each group copies, in the order the duplicate dialog lists them
+export const SHIPMENT_HEADER_GROUPS: { key: ShipmentHeaderGroup; label: string; fields: (keyof ShipmentHeader)[] }[] = [
+  { key: 'carrier', label: 'Carrier and subcarrier', fields: ['carrierId', 'subcarrierId'] },
+  { key: 'driver', label: 'Driver', fields: ['driverId', 'driverName'] },
+  { key: 'vehicle', label: 'Truck and trailer registration', fields: ['truckId', 'trailerId', 'truckRegistration', 'trailerRegistration'] },
+  { key: 'addresses', label: 'Sender, consignee and CMR details', fields: ['senderAddress', 'consigneeAddress', 'cmr'] },
+  { key: 'descriptionOfGoods', label: 'Description of goods', fields: ['descriptionOfGoods'] },
+];
+
+/**
+ * The lane fields of a shipment, e.g. to save it as a template.
+ * @param shipment The shipment to read from.
+ * @returns Its header fields.
+ */
+export const shipmentHeaderOf = (shipment: Shipment): ShipmentHeader => ({
+  carrierId: shipment.carrierId,
+  subcarrierId: shipment.subcarrierId ?? null,
+  driverId: shipment.driverId ?? null,
+  driverName: shipment.driverName,
+  truckId: shipment.truckId ?? null,
+  trailerId: shipment.trailerId ?? null,
+  truckRegistration: shipment.truckRegistration,
+  trailerRegistration: shipment.trailerRegistration,
+  senderAddress: shipment.senderAddress,
+  consigneeAddress: shipment.consigneeAddress,
+  cmr: shipment.cmr,
+  descriptionOfGoods: shipment.descriptionOfGoods,
+});
+
+/**
+ * Picks the header fields of the chosen groups. Fields of other groups are
+ * left out, so the new shipment gets its usual defaults for them.
+ * @param header The header to copy from.
+ * @param groups The groups to copy.
+ * @returns The copied fields.
+ */
+export const pickShipmentHeader = (header: ShipmentHeader, groups: ShipmentHeaderGroup[]): Partial<ShipmentHeader> => {
+  const picked: Partial<ShipmentHeader> = {};
+  SHIPMENT_HEADER_GROUPS
+    .filter(group => groups.includes(group.key))
+    .flatMap(group => group.fields)
+    .forEach(field => {
+      if (header[field] !== undefined) Object.assign(picked, { [field]: header[field] });
+    });
+  return picked;
+};
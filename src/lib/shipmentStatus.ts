@@ -0,0 +1,75 @@
+import type { ShipmentStatus } from '@/lib/types';
+
+// Lifecycle order, as listed in filters and selects
+export const SHIPMENT_STATUSES: ShipmentStatus[] = ['Draft', 'Loading', 'Sealed', 'Departed', 'Arrived', 'Delivered', 'Cancelled'];
+
+// The shipment state machine: the statuses each status may move to.
+// firestore.rules mirrors this in allowedNextStatuses; keep the two in step.
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  Draft: ['Loading', 'Cancelled'],
+  Loading: ['Sealed', 'Cancelled'],
+  Sealed: ['Departed', 'Cancelled'],
+  Departed: ['Arrived'],
+  Arrived: ['Delivered'],
+  Delivered: [],
+  Cancelled: [],
+};
+
+// Statuses the dashboard groups as still at the depot, and as on the road or done
+export const IN_PROGRESS_SHIPMENT_STATUSES: ShipmentStatus[] = ['Draft', 'Loading', 'Sealed'];
+export const DISPATCHED_SHIPMENT_STATUSES: ShipmentStatus[] = ['Departed', 'Arrived', 'Delivered'];
+
+export const SHIPMENT_STATUS_BADGE_CLASSES: Record<ShipmentStatus, string> = {
+  Draft: 'bg-slate-100 text-slate-700 border-slate-200',
+  Loading: 'bg-amber-100 text-amber-700 border-amber-200',
+  Sealed: 'bg-blue-100 text-blue-700 border-blue-200',
+  Departed: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+  Arrived: 'bg-teal-100 text-teal-700 border-teal-200',
+  Delivered: 'bg-green-100 text-green-700 border-green-200',
+  Cancelled: 'bg-red-100 text-red-700 border-red-200',
+};
+
+export const isShipmentStatus = (value: unknown): value is ShipmentStatus =>
+  typeof value === 'string' && (SHIPMENT_STATUSES as string[]).includes(value);
+
+export const canTransitionShipment = (from: ShipmentStatus, to: ShipmentStatus): boolean =>
+  SHIPMENT_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Throws unless the state machine allows moving a shipment from one status to
+ * another. Staying in the same status is not a transition and is not checked.
+ * @param from The shipment's current status.
+ * @param to The requested status.
+ */
+export const assertShipmentTransition = (from: ShipmentStatus, to: ShipmentStatus): void => {
+  if (from !== to && !canTransitionShipment(from, to)) {
+    throw new Error(`A ${from} shipment cannot be moved to ${to}.`);
+  }
+};
+
+// Items and totals can only change while the shipment is still being loaded.
+// From Sealed on, the shipment and its details are locked until an admin reopens it.
+export const isShipmentLoadEditable = (status: ShipmentStatus): boolean =>
+  status === 'Draft' || status === 'Loading';
+
+// Reopening is outside the state machine: an admin moves a locked shipment back to Loading
+export const REOPENED_SHIPMENT_STATUS: ShipmentStatus = 'Loading';
+
+/**
+ * Maps a stored status onto the lifecycle. Shipments saved before it existed
+ * are Pending (being loaded) or Completed (documents generated): Completed
+ * counts as Departed once the departure date has passed, otherwise Sealed.
+ * Must match legacyShipmentStatus in functions/src/statusMigration.ts, which
+ * rewrites the stored documents.
+ * @param status The stored status field.
+ * @param departureDate The shipment's departure date, if any.
+ * @param now The time to compare the departure date with.
+ * @returns The lifecycle status.
+ */
+export const normalizeShipmentStatus = (status: unknown, departureDate: Date | null, now: Date = new Date()): ShipmentStatus => {
+  if (isShipmentStatus(status)) return status;
+  if (status === 'Completed') {
+    return departureDate && departureDate.getTime() <= now.getTime() ? 'Departed' : 'Sealed';
+  }
+  return 'Loading';
+};
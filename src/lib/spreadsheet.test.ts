@@ -0,0 +1,120 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { parseCsv, readXlsxRows } from './spreadsheet';
+
+// A zip archive of the given text files, deflated like a spreadsheet saves them
+// unless `stored` lists them. readXlsxRows checks no CRCs, so they are left 0.
+const zip = (files: Record<string, string>, stored: string[] = []): ArrayBuffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, text]) => {
+    const nameBytes = Buffer.from(name);
+    const method = stored.includes(name) ? 0 : 8;
+    const data = method === 8 ? deflateRawSync(Buffer.from(text)) : Buffer.from(text);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(text), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(text), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    localParts.push(local, nameBytes, data);
+    centralParts.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centralParts.length / 2, 8);
+  end.writeUInt16LE(centralParts.length / 2, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  const bytes = Buffer.concat([...localParts, centralDirectory, end]);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+};
+
+// A manifest as a spreadsheet saves it: the sheet is not sheet1.xml, the title
+// is an inline string, row 2 is left out and the header uses shared strings
+const WORKBOOK_FILES: Record<string, string> = {
+  '[Content_Types].xml': '<?xml version="1.0"?><Types/>',
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Manifest" sheetId="1" r:id="rId3"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="styles.xml"/><Relationship Id="rId3" Target="worksheets/manifest.xml"/></Relationships>',
+  'xl/sharedStrings.xml': '<sst><si><t>Dispatch</t></si><si><r><t>Gross </t></r><r><t xml:space="preserve">weight</t></r></si><si><t>Receptacle</t></si><si><t>GBLONAFRCDGAAUN50123001100123</t></si></sst>',
+  'xl/worksheets/manifest.xml': '<worksheet><sheetData>'
+    + '<row r="1"><c r="A1" t="inlineStr"><is><t>Asendia &amp; Co &#8211; March</t></is></c></row>'
+    + '<row r="3"><c r="A3" t="s"><v>0</v></c><c r="B3" t="s"><v>1</v></c><c r="C3" t="s"><v>2</v></c></row>'
+    + '<row r="4"><c r="A4"><v>123</v></c><c r="B4"><v>12.3</v></c><c r="C4" t="s"><v>3</v></c></row>'
+    + '<row r="5"><c r="A5"><v>124</v></c><c r="C5"/><c r="B5"><v>7</v></c></row>'
+    + '</sheetData></worksheet>',
+};
+
+describe('parseCsv', () => {
+  it('splits comma-separated rows and keeps blank lines', () => {
+    expect(parseCsv('Dispatch,Weight\r\n123,12.3\n\n124,7')).toEqual([
+      ['Dispatch', 'Weight'],
+      ['123', '12.3'],
+      [''],
+      ['124', '7'],
+    ]);
+  });
+
+  it('reads quoted cells with delimiters, line breaks and doubled quotes', () => {
+    expect(parseCsv('Note,Weight\n"Bag, ""red""\nseal",12.3\n')).toEqual([
+      ['Note', 'Weight'],
+      ['Bag, "red"\nseal', '12.3'],
+    ]);
+  });
+
+  it('reads semicolon files with decimal commas, after a byte order mark', () => {
+    expect(parseCsv('\uFEFFDispatch;Weight\n123;12,3')).toEqual([
+      ['Dispatch', 'Weight'],
+      ['123', '12,3'],
+    ]);
+  });
+
+  it('reads tab-separated files', () => {
+    expect(parseCsv('Dispatch\tWeight\n123\t12.3')).toEqual([['Dispatch', 'Weight'], ['123', '12.3']]);
+  });
+
+  it('guesses the delimiter from the lines below a title line', () => {
+    expect(parseCsv('Manifest, March 2026\n\nDispatch;DOE;Weight\n123;UN;12,3')).toEqual([
+      ['Manifest, March 2026'],
+      [''],
+      ['Dispatch', 'DOE', 'Weight'],
+      ['123', 'UN', '12,3'],
+    ]);
+  });
+});
+
+describe('readXlsxRows', () => {
+  it('reads the first sheet, with shared, inline and rich text strings', async () => {
+    expect(await readXlsxRows(zip(WORKBOOK_FILES))).toEqual([
+      ['Asendia & Co – March'],
+      [],
+      ['Dispatch', 'Gross weight', 'Receptacle'],
+      ['123', '12.3', 'GBLONAFRCDGAAUN50123001100123'],
+      ['124', '7', ''],
+    ]);
+  });
+
+  it('reads entries stored without compression', async () => {
+    const rows = await readXlsxRows(zip(WORKBOOK_FILES, Object.keys(WORKBOOK_FILES)));
+    expect(rows[3]).toEqual(['123', '12.3', 'GBLONAFRCDGAAUN50123001100123']);
+  });
+
+  it('falls back to sheet1.xml without a workbook relationship', async () => {
+    const rows = await readXlsxRows(zip({ 'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row><c><v>1</v></c><c><v>2</v></c></row></sheetData></worksheet>' }));
+    expect(rows).toEqual([['1', '2']]);
+  });
+
+  it('refuses a file that is not a zip archive', async () => {
+    await expect(readXlsxRows(new TextEncoder().encode('Dispatch,Weight').buffer)).rejects.toThrow('not a valid XLSX workbook');
+  });
+});
@@ -0,0 +1,174 @@
+// Reads the rows of the CSV and XLSX files customers send, without a spreadsheet
+// library: CSV is plain text, and an XLSX file is a zip of XML parts.
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// Non-blank lines the delimiter is guessed from, as a title line above the header may have none
+const DELIMITER_SAMPLE_LINES = 5;
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may hold delimiters, line
+ * breaks and doubled quotes. The delimiter is the one of comma, semicolon and
+ * tab found most often in the first few non-blank lines, as exports from
+ * European spreadsheets use semicolons.
+ * @param text The file's text.
+ * @returns The rows; blank lines are kept, so row numbers match the file.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const sample = content.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES);
+  const occurrences = (candidate: string) => sample.reduce((count, line) => count + line.split(candidate).length - 1, 0);
+  const delimiter = CSV_DELIMITERS.reduce((best, candidate) => occurrences(candidate) > occurrences(best) ? candidate : best);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char !== '"') cell += char;
+      else if (content[i + 1] === '"') { cell += '"'; i++; }
+      else inQuotes = false;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow(); // The last line may lack a line break
+  return rows;
+};
+
+// --- XLSX ---
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+// Inflates one zip entry with the browser's own DecompressionStream
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// The text of every entry of a zip archive, by path. Zip64 archives, which only
+// files over 4 GB need, are not supported.
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, string>> => {
+  const view = new DataView(buffer);
+  let end = view.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== ZIP_END_OF_CENTRAL_DIRECTORY) end--;
+  if (end < 0) throw new Error("The file is not a valid XLSX workbook.");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) throw new Error("The XLSX workbook is damaged.");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+    if (view.getUint32(localOffset, true) !== ZIP_LOCAL_FILE_HEADER) throw new Error("The XLSX workbook is damaged.");
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`The XLSX workbook uses an unsupported compression (${method}).`);
+    entries.set(name, decoder.decode(method === 8 ? await inflateRaw(data) : data));
+  }
+  return entries;
+};
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' };
+
+const decodeXml = (text: string): string =>
+  text.replace(/&(lt|gt|quot|apos|amp|#x[0-9a-fA-F]+|#\d+);/g, (_, entity: string) => {
+    if (entity[0] === '#') return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity];
+  });
+
+const xmlAttribute = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// The text of a shared or inline string, joining the runs of rich text
+const stringItemText = (xml: string): string =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+
+// Column letters of a cell reference, e.g. "AB12" is column 27 (0-based)
+const columnIndex = (reference: string): number =>
+  reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// The path of the workbook's first sheet, e.g. "xl/worksheets/sheet1.xml"
+const firstSheetPath = (entries: Map<string, string>): string => {
+  const sheetTag = entries.get('xl/workbook.xml')?.match(/<sheet\s[^>]*>/)?.[0];
+  const relationId = sheetTag && xmlAttribute(sheetTag, 'r:id');
+  const relation = relationId && Array.from((entries.get('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\s[^>]*>/g))
+    .map(match => match[0])
+    .find(tag => xmlAttribute(tag, 'Id') === relationId);
+  const target = relation && xmlAttribute(relation, 'Target');
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Reads the cells of the first sheet of an XLSX workbook as text. Numbers are
+ * kept as stored, so dates are Excel serial numbers.
+ * @param buffer The file's content.
+ * @returns The rows; missing rows are empty, so row numbers match the sheet.
+ */
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = await readZipEntries(buffer);
+  const sheet = entries.get(firstSheetPath(entries));
+  if (!sheet) throw new Error("The XLSX workbook has no sheet.");
+  const sharedStrings = Array.from((entries.get('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g), match => stringItemText(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const [, rowAttributes, cellsXml = ''] = rowMatch;
+    const rowNumber = Number(xmlAttribute(rowAttributes, 'r')) || rows.length + 1;
+    while (rows.length < rowNumber - 1) rows.push([]);
+    const row: string[] = [];
+    for (const cellMatch of cellsXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const [, attributes, content = ''] = cellMatch;
+      const reference = xmlAttribute(attributes, 'r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = xmlAttribute(attributes, 't');
+      const value = decodeXml(content.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+      row[index] = type === 's' ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? stringItemText(content)
+        : value;
+    }
+    rows.push(Array.from(row, cell => cell ?? ''));
+  }
+  return rows;
+};
+
+/**
+ * Reads an uploaded CSV or XLSX file, told apart by its extension.
+ * @param file The uploaded file.
+ * @returns The rows of the file, or of the first sheet of a workbook.
+ */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'xlsx') return readXlsxRows(await file.arrayBuffer());
+  if (extension === 'csv' || extension === 'txt') return parseCsv(await file.text());
+  throw new Error("Upload a CSV or XLSX file. Older XLS workbooks have to be saved as XLSX first.");
+};
@@ -1,21 +1,39 @@
 
 import type { Timestamp } from 'firebase/firestore';
                                                                                                           
-export type ShipmentStatus = 'Pending' | 'Completed';
+export type ShipmentStatus = 'Draft' | 'Loading' | 'Sealed' | 'Departed' | 'Arrived' | 'Delivered' | 'Cancelled';
+
+// One step of a shipment's lifecycle, appended to Shipment.statusHistory
+export interface ShipmentStatusChange {
+  from: ShipmentStatus | null; // null when the shipment was created
+  to: ShipmentStatus;
+  at: Timestamp;
+  by: string; // uid of the user, or 'system' for migrations
+  byEmail: string | null;
+  reason?: string; // Given when an admin reopens a locked shipment
+}
 
 // Main Shipment document
 export interface Shipment {
-  truckRegNo: string;
   descriptionOfGoods: string;
   id: string; // Firestore document ID
   carrierId: string; // Reference to /carriers/{id} -> value field
   subcarrierId: string | null | undefined; // Reference to /subcarriers/{id} -> value field
-  driverName: string;
+  driverId?: string | null; // Reference to /drivers/{id}; null for a driver not in the registry
+  driverName: string; // Name as printed on the documents, kept even if the driver record changes later
   departureDate: Timestamp;
   arrivalDate: Timestamp;
-  status: ShipmentStatus;
+  status: ShipmentStatus; // See SHIPMENT_STATUS_TRANSITIONS for the allowed changes
+  statusHistory?: ShipmentStatusChange[]; // Oldest first; missing on shipments created before the lifecycle
+  statusChangedBy?: string; // uid of the user who made the latest status change
+  reopenedBy?: string; // uid of the admin who last reopened the shipment
+  reopenedAt?: Timestamp;
+  reopenReason?: string;
+  scheduleId?: string; // Departure schedule the shipment was planned from by the scheduler, if any
   sealNumber?: string;
-  truckRegistration?: string;
+  truckId?: string | null; // Reference to /vehicles/{id}; null for a plate not in the registry
+  trailerId?: string | null;
+  truckRegistration?: string; // Plate text as printed on the documents, kept even if the vehicle changes later
   trailerRegistration?: string;
   senderAddress: string; // Editable only by admin, defaults from settings
   consigneeAddress: string; // Editable only by admin, defaults from settings
@@ -29,25 +47,330 @@ export interface Shipment {
   totalTareWeight?: number;  // Sum of tare weights of all details
   totalNetWeight?: number;   // Sum of net weights of all details (totalGrossWeight - totalTareWeight)
 
-  // Specific customer net weights for dashboard breakdown
-  asendiaACNetWeight?: number;   // Net weight for customer specified by PRIMARY_ASENDIA_CUSTOMER_ID_FOR_DASHBOARD_BREAKDOWN
-  asendiaUKNetWeight?: number;   // Net weight for customer specified by ASENDIA_UK_CUSTOMER_ID
-  transitLightNetWeight?: number; // Net weight for customer specified by TRANSIT_LIGHT_CUSTOMER_ID
-  remainingCustomersNetWeight?: number; // Net weight for all other customers
+  // Net weight per customer breakdown bucket (see AppSettings.weightBuckets),
+  // keyed by bucket id. Customers in no bucket are summed under OTHER_WEIGHT_BUCKET_ID.
+  netWeightByBucket?: Record<string, number>;
+  customerIds?: string[]; // Distinct customers across the details, kept by the totals function for customer search
+
+  pdfUrls?: Partial<Record<ShipmentDocumentType, string>>; // Download URL of the newest generated version
+  documents?: ShipmentDocument[]; // Every generated document version, oldest first
+  details?: ShipmentDetail[]; // Optional: Include details when fetched with shipment
+  scannedDocuments?: string[]; // Placeholder for mobile camera upload
+  emailAttempts?: EmailAttempt[]; // Pre-Alert/CMR emails sent by the onShipmentSealedSendDocuments function
+  cmr?: CmrData; // Structured consignment note data; older shipments only have the free-text addresses
+  loadVerification?: LoadVerification; // Required to seal; missing on shipments sealed before load verification
+}
+
+// The check that the items recorded for a shipment are the ones on the truck,
+// stored when it is sealed, or earlier when an admin overrides a check that has not passed
+export interface LoadVerification {
+  result: 'passed' | 'overridden';
+  expected: number; // Items recorded
+  verified: number; // Items scanned on the truck or confirmed by hand
+  missing: number;
+  unexpected: number; // Scans matching no item
+  checkedBy: string; // uid
+  checkedAt: Timestamp;
+  reason?: string; // Why the admin overrode the check
+}
+
+// A receptacle scanned on the truck (/shipments/{shipmentId}/load_scans/{scanId}),
+// or an item confirmed as loaded by hand, e.g. a pallet without a label
+export interface LoadScan {
+  id: string;
+  barcode: string; // '' for an item confirmed by hand
+  receptacleId: string;
+  detailId: string | null; // The item confirmed by hand
+  scannedBy: string; // uid
+  scannedAt?: Timestamp;
+}
+
+// A customer's list of the receptacles it will hand over (pre-advice), uploaded
+// against the customer and the day they are due to leave (/manifests/{id})
+export interface Manifest {
+  id: string;
+  customerId: string; // Reference to /customers/{id} -> value field
+  manifestDate: Timestamp; // Midnight (local time) of the day the receptacles are due to leave
+  fileName: string;
+  receptacleCount: number;
+  totalGrossWeight: number;
+  uploadedBy: string; // uid
+  createdAt?: Timestamp;
+}
+
+// One line of a manifest (/manifests/{manifestId}/receptacles/{id})
+export interface PreAdvisedReceptacle {
+  id: string;
+  manifestId: string;
+  customerId: string; // Copied from the manifest for collection group queries
+  manifestDate: Timestamp;
+  dispatchNumber: string; // As on the manifest; stored with dispatchKey (see normalizeDispatchNumber) for lookups
+  doeId: string; // Upper case; '' when the manifest has no DOE column
+  barcode: string; // '' when the manifest lists no receptacle IDs
+  receptacleId: string;
+  grossWeight: number;
+  line: number; // Row of the uploaded file, to find the line again
+}
+
+// The lane a truck runs: the shipment fields that repeat from one trip to the
+// next. Duplicating a shipment and shipment templates copy these.
+export type ShipmentHeader = Pick<Shipment,
+  'carrierId' | 'subcarrierId' | 'driverId' | 'driverName' | 'truckId' | 'trailerId' | 'truckRegistration' | 'trailerRegistration' |
+  'senderAddress' | 'consigneeAddress' | 'cmr' | 'descriptionOfGoods'>;
+
+// Groups of header fields offered when duplicating a shipment
+export type ShipmentHeaderGroup = 'carrier' | 'driver' | 'vehicle' | 'addresses' | 'descriptionOfGoods';
+
+// Named header for a recurring lane (/shipment_templates/{templateId}); pre-fills /shipments/new
+export interface ShipmentTemplate extends ShipmentHeader {
+  id: string;
+  name: string;
+  createdAt?: Timestamp;
+  lastUpdated?: Timestamp;
+}
+
+// A weekly departure on the timetable (/departure_schedules/{scheduleId}).
+// The createPlannedShipments function creates a Draft shipment for each one
+// ahead of its departure.
+export interface DepartureSchedule {
+  id: string;
+  lane: string; // Name shown in the timetable, e.g. "Fareham - Dublin"
+  carrierId: string;
+  subcarrierId: string | null;
+  senderAddress: string;
+  consigneeAddress: string;
+  weekday: number; // 0 = Sunday ... 6 = Saturday, as Date.getDay()
+  departureTime: string; // "HH:mm", local time of the depot
+  active: boolean;
+  plannedThrough?: string; // "YYYY-MM-DD": last day the scheduler has planned; set by the function only
+  createdAt?: Timestamp;
+  lastUpdated?: Timestamp;
+}
+
+// --- Drivers ---
 
-  // Gross and Tare for Asendia A/C (if needed for other reports, otherwise can be derived if only net is stored)
-  asendiaACGrossWeight?: number;
-  asendiaACTareWeight?: number;
+// A registered driver (/drivers/{id}). Personal data: admins can export and
+// erase it on request, see exportDriverData and eraseDriverData.
+export interface Driver {
+  id: string;
+  name: string;
+  carrierId: string; // Employing carrier, reference to /carriers/{id} -> value field
+  phone: string;
+  idNumber: string; // Driving licence or identity document number
+  nationality: string; // ISO 3166-1 alpha-2, '' if unknown
+  active: boolean;
+  erasedAt?: Timestamp; // Set once the personal data has been erased; the record is kept as a placeholder
+  createdAt?: Timestamp;
+  lastUpdated?: Timestamp;
+}
+
+// --- Vehicles ---
+
+export type VehicleType = 'truck' | 'trailer';
+
+// A registered truck or trailer (/vehicles/{countryCode}-{plate})
+export interface Vehicle {
+  id: string;
+  plate: string; // Normalized, see normalizePlate
+  countryCode: string; // ISO 3166-1 alpha-2 of the registration
+  type: VehicleType;
+  carrierId: string; // Owning carrier, reference to /carriers/{id} -> value field
+  maxPayloadKg: number | null;
+  maxPalletPositions: number | null;
+  active: boolean;
+  createdAt?: Timestamp;
+  lastUpdated?: Timestamp;
+}
 
-  otherNetWeight?: number;
-  asendiaACNet?: number;
+// --- Seals ---
+
+export type SealStatus = 'in_stock' | 'issued' | 'used' | 'voided';
+
+// A numbered security seal (/seals/{number}); the document ID is the normalized
+// number, so each seal exists once. shipmentId is the one shipment it is attached to.
+export interface Seal {
+  id: string;
+  number: string;
+  batchId: string;
+  status: SealStatus;
+  shipmentId: string | null;
+  issuedAt?: Timestamp;
+  issuedBy?: string;
+  usedAt?: Timestamp;
+  voidedAt?: Timestamp;
+  voidedBy?: string;
+  voidReason?: string;
+  createdAt?: Timestamp;
+  lastUpdated?: Timestamp;
+}
+
+// A delivery of seals imported by an admin (/seal_batches/{batchId})
+export interface SealBatch {
+  id: string;
+  reference: string; // Supplier delivery note or box label
+  count: number;
+  firstNumber: string;
+  lastNumber: string;
+  importedBy: string;
+  createdAt?: Timestamp;
+}
 
-  pdfUrls?: { // Placeholder for PDF generation feature
-    preAlert?: string;
-    cmr?: string;
+// --- CMR (international consignment note) ---
+
+// A party named on the CMR. senderAddress/consigneeAddress are kept as the
+// formatted text of the sender and consignee for existing readers.
+export interface CmrParty {
+  name: string;
+  addressLines: string[];
+  postcode: string;
+  city: string;
+  countryCode: string; // ISO 3166-1 alpha-2, e.g. 'GB'
+  vatNumber?: string;
+  eoriNumber?: string;
+}
+
+export interface CmrPlace {
+  place: string;
+  countryCode: string;
+}
+
+export type CmrPaymentInstruction = 'carriage_paid' | 'carriage_forward';
+
+export interface CmrMoney {
+  amount: number;
+  currency: string; // ISO 4217, e.g. 'GBP'
+}
+
+// Fields of the 24 CMR boxes that are not already on the shipment. Boxes 6-12
+// (marks, packages, goods, weights) come from the shipment and its details;
+// the taking-over and delivery dates are the departure and arrival dates.
+export interface CmrData {
+  sender: CmrParty; // Box 1
+  consignee: CmrParty; // Box 2
+  deliveryPlace: CmrPlace; // Box 3
+  takingOverPlace: CmrPlace; // Box 4
+  documentsAttached: string[]; // Box 5
+  statisticalNumber: string; // Box 10, e.g. an HS code
+  volumeM3: number | null; // Box 12
+  senderInstructions: string; // Box 13
+  paymentInstruction: CmrPaymentInstruction; // Box 14
+  cashOnDelivery: CmrMoney | null; // Box 15
+  carrier: CmrParty; // Box 16
+  successiveCarrier: CmrParty | null; // Box 17
+  carrierReservations: string; // Box 18
+  specialAgreements: string; // Box 19
+  carriageCharge: CmrMoney | null; // Box 20
+  chargesPaidBy: 'sender' | 'consignee'; // Box 20
+  establishedIn: CmrPlace; // Box 21, dated on the departure date
+}
+
+export type ShipmentDocumentType = 'preAlert' | 'cmr' | 'ecmr';
+
+// One generated document (PDF, or the e-CMR JSON), stored immutably in Storage under shipments/{id}/documents/{type}/
+export interface ShipmentDocument {
+  type: ShipmentDocumentType;
+  filename: string;
+  storagePath: string;
+  url: string; // Download URL
+  generatedAt: Timestamp;
+  generatedBy: string; // UID of the user who generated it, or 'system' when issued on sealing
+  invalidatedAt?: Timestamp; // Set when the shipment was reopened after this version was generated
+  invalidatedBy?: string; // UID of the admin who reopened it
+}
+
+// Dropdown labels keyed by collection, then by item value (see getDropdownOptionsMap)
+export type LabelMaps = Record<string, Record<string, string>>;
+
+// Everything a document builder in src/lib/documents needs; builders never read Firestore themselves
+export interface DocumentBuildInput {
+  shipment: Shipment;
+  details: ShipmentDetail[];
+  labels: LabelMaps;
+  weightBuckets: WeightBucket[];
+  driver: Driver | null; // The shipment's registered driver, for the contact details on the CMR
+  generatedAt: Date;
+}
+
+// A document rendered by a document builder, not yet downloaded or stored
+export interface BuiltDocument {
+  type: ShipmentDocumentType;
+  filename: string;
+  contentType: 'application/pdf' | 'application/json';
+  bytes: Uint8Array;
+}
+
+// --- Pre-Alert templates (/pre_alert_templates/{templateId}) ---
+
+// Shipment-level values a template can print in its header, info block or totals
+export type PreAlertFieldKey =
+  | 'carrier' | 'subcarrier' | 'driverName' | 'truckRegistration' | 'trailerRegistration' | 'sealNumber'
+  | 'consignee' | 'departureDate' | 'arrivalDate'
+  | 'totalPallets' | 'totalBags' | 'totalNetWeight' | 'totalGrossWeight';
+
+// Per-detail values a template can print as detail table columns
+export type PreAlertColumnKey =
+  | 'customer' | 'receptacleId' | 'dispatchNumber' | 'doe' | 'service' | 'format' | 'formatPrio' | 'formatEco' | 'formatS3C'
+  | 'numPallets' | 'numBags' | 'tareWeight' | 'grossWeight' | 'netWeight';
+
+export interface PreAlertField {
+  key: PreAlertFieldKey;
+  label: string;
+}
+
+export interface PreAlertColumn {
+  key: PreAlertColumnKey;
+  label: string;
+  width?: number; // mm; columns without a width share the remaining page width
+  align: 'left' | 'center' | 'right';
+}
+
+// Coloured band drawn above the detail table, spanning consecutive columns
+export interface PreAlertColumnGroup {
+  label: string;
+  span: number;
+  fillColor: string; // Hex, e.g. '#0000ff'
+  textColor: string;
+}
+
+export interface PreAlertTemplate {
+  id: string;
+  name: string;
+  isDefault: boolean; // Used when no template matches the shipment
+  customerIds: string[]; // 'value' fields from /customers, matched against Shipment.customerIds
+  consigneeKeywords: string[]; // Matched case-insensitively against Shipment.consigneeAddress
+  cellFillColor: string; // Background of the info/totals cells and table rows
+  header: {
+    title: string;
+    showLogo: boolean;
+    dateFields: PreAlertField[]; // Printed top-right as "label: value"
   };
-  details?: ShipmentDetail[]; // Optional: Include details when fetched with shipment
-  scannedDocuments?: string[]; // Placeholder for mobile camera upload
+  infoFields: PreAlertField[];
+  table: {
+    columnGroups: PreAlertColumnGroup[];
+    columns: PreAlertColumn[];
+  };
+  totals: {
+    fields: PreAlertField[];
+    showWeightBreakdown: boolean;
+    position: 'aboveTable' | 'belowTable';
+  };
+  footerNote: string;
+  createdAt?: Timestamp;
+  lastUpdated?: Timestamp;
+}
+
+export type EmailAttemptStatus = 'sent' | 'failed';
+
+// One attempt to email a shipment's documents (written server-side only)
+export interface EmailAttempt {
+  attemptedAt: Timestamp;
+  status: EmailAttemptStatus;
+  recipients: string[];
+  subject: string;
+  attachmentNames: string[];
+  messageId?: string; // SMTP message ID when sent
+  error?: string; // Transport error when failed
+  triggeredBy: string; // UID of the user who sealed the shipment
 }
 
 
@@ -62,6 +385,9 @@ export interface ShipmentDetail {
   formatId: string; // Reference to /formats.../{id} -> value field (depends on service)
   tareWeight: number;
   grossWeight: number;
+  barcode?: string; // Receptacle barcode as scanned or typed; missing or '' when none was entered
+  receptacleId?: string; // The barcode upper case without spaces or hyphens, for duplicate checks and search
+  receptacle?: ReceptacleIdentity; // Decoded from the barcode on save; missing when it could not be
   dispatchNumber?: string;
   doeId?: string; // Reference to /doe/{id} -> value field
   descriptionOfGoods?: string; // Added for CMR cell 9
@@ -71,6 +397,69 @@ export interface ShipmentDetail {
   netWeight: number; // Gross - Tare (Ensure this is always calculated on write/update)
 }
 
+// The components of a 29-character UPU S9 receptacle identifier
+export interface UpuReceptacleId {
+  originOffice: string; // Office of exchange: country, location and qualifier, e.g. GBLONA
+  destinationOffice: string;
+  mailCategory: string; // A priority, B S.A.L., C non-priority, D priority by surface
+  mailSubclass: string; // e.g. UN letters, CN parcels, EM EMS
+  year: number; // Last digit of the dispatch year
+  dispatchNumber: number;
+  receptacleSerial: number; // Position of the receptacle in its dispatch
+  lastReceptacle: boolean; // The highest-numbered receptacle of the dispatch
+  hnsIndicator: string; // Registered/insured indicator: 0 none, 1 registered, 9 insured
+  weight: number; // kg
+}
+
+export type UpuReceptacleIdField = keyof UpuReceptacleId | 'length';
+
+export interface UpuReceptacleIdError {
+  field: UpuReceptacleIdField;
+  message: string;
+}
+
+// What a receptacle barcode says about the receptacle, as decoded by parseBarcode.
+// Kept as printed on the label, even when the item's own fields are corrected.
+export interface ReceptacleIdentity {
+  format: string; // 's9' for a valid UPU S9 ID, otherwise the ID of the barcode rule that decoded it
+  doe: string;
+  dispatchNumber: string; // Without leading zeros
+  grossWeight: number; // kg
+  upu?: UpuReceptacleId; // Every component, for S9 IDs
+}
+
+// How a barcode rule reads one field: optionally a separator-delimited segment,
+// then a character range of it, then the transforms
+export interface BarcodeFieldRule {
+  segment: number | null; // 0-based segment index, or null to read the whole barcode
+  start: number; // First character; negative counts from the end
+  length: number | null; // null reads to the end
+  stripZeros: boolean; // Drop leading zeros
+  divideBy: number | null; // e.g. 10 for weights printed in tenths of a kilogram
+}
+
+export type BarcodeRuleField = 'doe' | 'dispatchNumber' | 'grossWeight';
+
+// An admin-managed barcode format (/barcode_rules)
+export interface BarcodeRule {
+  id: string;
+  name: string;
+  pattern: string; // Regular expression a barcode must match for the rule to apply
+  separator: string; // Splits the barcode into segments; '' when no field reads a segment
+  priority: number; // Rules are tried lowest first
+  active: boolean;
+  fields: Record<BarcodeRuleField, BarcodeFieldRule>;
+  createdAt?: Timestamp;
+  lastUpdated?: Timestamp;
+}
+
+// An item already on a shipment that looks like the same receptacle as one being saved
+export interface DuplicateDetail {
+  shipmentId: string;
+  detailId: string;
+  match: 'barcode' | 'dispatch'; // Same barcode, or same dispatch number, DOE and gross weight
+}
+
 export interface SelectOption {
   value: string;
   label: string;
@@ -97,10 +486,19 @@ export interface AppSettings {
   emailSubjectTemplate?: string;
   emailBodyTemplate?: string;
   logoutAfterMinutes?: number; // Duration in minutes for auto-logout
+  weightBuckets?: WeightBucket[]; // Customer net-weight breakdown buckets for dashboard and Pre-Alert
+  pendingAlertHours?: number; // Hours past departure before an undeparted shipment triggers a notification
   // Add other global settings as needed
   lastUpdated?: Timestamp;
 }
 
+// Named group of customers whose net weight is reported together
+export interface WeightBucket {
+  id: string; // Stable key used in Shipment.netWeightByBucket
+  label: string;
+  customerIds: string[]; // 'value' fields from /customers
+}
+
 // Dropdown Item document (used in /carriers, /customers, etc.)
 export interface DropdownItem {
   id: string; // Firestore document ID
@@ -110,23 +508,35 @@ export interface DropdownItem {
   lastUpdated?: Timestamp; // Optional
 }
 
-// Placeholder for Audit Log document (/audit_logs/{logId})
+export type AuditAction = 'create' | 'update' | 'delete';
+export type AuditEntity = 'shipment' | 'detail' | 'dropdown' | 'user' | 'settings' | 'template' | 'shipmentTemplate' | 'departureSchedule' | 'seal' | 'sealBatch' | 'vehicle' | 'driver' | 'barcodeRule' | 'manifest';
+
+export interface AuditFieldChange {
+    oldValue: any;
+    newValue: any;
+}
+
+// Audit Log document (/audit_logs/{logId}), written by Cloud Functions for every audited change
 export interface AuditLog {
     id: string;
     timestamp: Timestamp;
-    userId: string; // UID of the user performing the action
+    userId: string; // UID of the user performing the action ('system' for server-side writes)
     userEmail?: string; // Email for easier reading
-    action: string; // e.g., 'create_shipment', 'update_detail', 'delete_dropdown'
+    action: string; // `${AuditAction}_${AuditEntity}`, e.g. 'create_shipment', 'update_detail', 'delete_dropdown'
     collectionPath: string; // e.g., 'shipments', 'shipments/abc/details'
+    collectionName: string; // Last path segment, e.g. 'details'; used for filtering
     documentId: string;
-    changes?: Record<string, { oldValue: any; newValue: any }>; // Optional: Log specific field changes
+    changes?: Record<string, AuditFieldChange>; // Field-level diff, excluding createdAt/lastUpdated
     details?: string; // Optional: More context
 }
 
-// Placeholder for Notification document (/notifications/{notificationId})
+export type NotificationType = 'shipment_sealed' | 'shipment_completed' | 'shipment_overdue' | 'role_changed'; // shipment_completed predates the lifecycle
+
+// Notification document (/notifications/{notificationId}), created by Cloud Functions
 export interface Notification {
     id: string;
     userId: string; // Target user UID
+    type: NotificationType;
     title: string;
     body: string;
     shipmentId?: string; // Optional: Link to relevant shipment
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findDoeValue, parseBarcode } from './utils';
+
+const S9_ID = 'GBLONAFRCDGAAUN50123001100123'; // Subclass UN, dispatch 123, 12.3 kg
+const DOE_VALUES = ['UA', 'UN', 'Ux'];
+
+describe('findDoeValue', () => {
+  it('returns the value as spelled in the DOE list', () => {
+    expect(findDoeValue('UN', DOE_VALUES)).toBe('UN');
+    expect(findDoeValue('ux', DOE_VALUES)).toBe('Ux');
+    expect(findDoeValue(' ua ', DOE_VALUES)).toBe('UA');
+  });
+
+  it('finds nothing for an unknown or empty DOE', () => {
+    expect(findDoeValue('UB', DOE_VALUES)).toBeUndefined();
+    expect(findDoeValue('', ['', ...DOE_VALUES])).toBeUndefined();
+  });
+});
+
+describe('parseBarcode', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('takes the DOE of an S9 ID from its mail subclass', () => {
+    expect(parseBarcode(S9_ID, [], DOE_VALUES)).toMatchObject({ format: 's9', doe: 'UN', dispatchNumber: '123', grossWeight: 12.3 });
+    expect(parseBarcode(S9_ID.toLowerCase(), [], DOE_VALUES)?.doe).toBe('UN');
+  });
+
+  it('rejects an S9 ID whose mail subclass is not in the DOE list', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseBarcode(S9_ID.replace('AUN5', 'AUB5'), [], DOE_VALUES)).toBeNull();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"UB", which is not in the DOE list'));
+  });
+
+  it('rejects a DOE read by a barcode rule that is not in the DOE list', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // The built-in compact rule reads the DOE from the 15th character from the end
+    expect(parseBarcode('XXXXUX0420000000123', undefined, DOE_VALUES)).toMatchObject({ doe: 'Ux', dispatchNumber: '42', grossWeight: 12.3 });
+    expect(parseBarcode('XXXXZZ0420000000123', undefined, DOE_VALUES)).toBeNull();
+  });
+
+  it('leaves the DOE unchecked without a DOE list', () => {
+    expect(parseBarcode(S9_ID.replace('AUN5', 'AUB5'))?.doe).toBe('UB');
+  });
+});
@@ -1,99 +1,127 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { BarcodeRule, ReceptacleIdentity, Shipment, WeightBucket } from "./types"
+import { DEFAULT_WEIGHT_BUCKETS, OTHER_WEIGHT_BUCKET_ID, OTHER_WEIGHT_BUCKET_LABEL } from "./constants"
+import { parseUpuReceptacleId } from "./receptacles"
+import { decodeBarcodeWithRules, effectiveBarcodeRules } from "./barcodeRules"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export interface BarcodeData {
-  doe: string;
-  dispatchNumber: string;
-  grossWeight: number;
+export type BarcodeData = ReceptacleIdentity;
+
+/**
+ * The key a receptacle barcode is compared and searched by, so the same label
+ * typed with different case, spacing or hyphens is recognised.
+ * @param barcode The barcode as scanned or typed.
+ * @returns The barcode upper case without spaces or hyphens; '' for none.
+ */
+export function normalizeReceptacleId(barcode: string | undefined): string {
+  return (barcode ?? '').replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * The DOE value a decoded barcode names, as spelled in /doe.
+ * @param doe The DOE as read from the barcode, e.g. an S9 mail subclass.
+ * @param doeValues The values in /doe.
+ * @returns The matching value, compared ignoring case; undefined when /doe has none.
+ */
+export function findDoeValue(doe: string, doeValues: string[]): string | undefined {
+  const key = doe.trim().toUpperCase();
+  return key ? doeValues.find(value => value.trim().toUpperCase() === key) : undefined;
 }
 
 /**
  * Parses a barcode string to extract DOE, Dispatch Number, and Gross Weight.
- * Handles both hyphenated and non-hyphenated barcode formats based on specific rules.
+ * A valid UPU S9 receptacle ID is decoded in full, its subclass giving the DOE.
+ * Other barcodes are decoded by the first barcode rule that applies.
  *
  * @param barcode The barcode string to parse.
- * @returns An object containing doe, dispatchNumber, and grossWeight if parsing is successful, otherwise null.
+ * @param rules The rules to try, in order; the built-in rules by default.
+ * @param doeValues The values in /doe, when the DOE is saved on an item: a barcode naming any
+ *   other DOE (e.g. an S9 subclass with no DOE of its own) is rejected rather than saved with it.
+ * @returns The decoded fields and the format they were read from if parsing is successful, otherwise null.
  */
-export function parseBarcode(barcode: string): BarcodeData | null {
-  if (!barcode || barcode.length === 0) {
-    console.warn("parseBarcode: Barcode string is empty.");
+export function parseBarcode(barcode: string, rules: BarcodeRule[] = effectiveBarcodeRules([]), doeValues?: string[]): BarcodeData | null {
+  barcode = barcode?.trim() ?? '';
+  if (barcode.length === 0) {
     return null;
   }
 
-  let doe: string;
-  let dispatchNumber: string;
-  let grossWeight: number;
-
-  if (barcode.includes('-')) {
-    // --- Handle hyphenated barcode format ---
-    const segments = barcode.split('-');
-
-    // Ensure enough segments exist for the required fields
-    if (segments.length < 9) {
-      console.warn(`parseBarcode: Hyphenated barcode "${barcode}" has too few segments (${segments.length}). Expected at least 9.`);
-      return null;
+  const upuId = parseUpuReceptacleId(barcode);
+  const decoded: BarcodeData | null = upuId.ok
+    ? {
+      format: 's9',
+      doe: upuId.id.mailSubclass,
+      dispatchNumber: upuId.id.dispatchNumber.toString(),
+      grossWeight: upuId.id.weight,
+      upu: upuId.id,
     }
+    : decodeBarcodeWithRules(barcode, rules);
+  if (!decoded) {
+    console.warn(`parseBarcode: No barcode rule applies to "${barcode}".`);
+    return null;
+  }
+  if (!doeValues) return decoded;
 
-    // DOE: last 2 letters of the 3rd segment
-    const doeSegment = segments[2];
-    if (doeSegment.length < 2) {
-      console.warn(`parseBarcode: DOE segment "${doeSegment}" in hyphenated barcode "${barcode}" is too short.`);
-      return null;
-    }
-    doe = doeSegment.slice(-2);
-
-    // Dispatch Number: 5th segment, dropping leading zeros
-    const dispatchSegment = segments[4];
-    const parsedDispatch = parseInt(dispatchSegment, 10);
-    if (isNaN(parsedDispatch)) {
-      console.warn(`parseBarcode: Could not parse dispatch number from segment "${dispatchSegment}" in hyphenated barcode "${barcode}".`);
-      return null;
-    }
-    dispatchNumber = parsedDispatch.toString(); // Convert back to string to drop leading zeros
-
-    // Gross Weight: 9th segment, divided by 10
-    const grossWeightSegment = segments[8];
-    const parsedGrossWeight = parseInt(grossWeightSegment, 10);
-    if (isNaN(parsedGrossWeight)) {
-      console.warn(`parseBarcode: Could not parse gross weight from segment "${grossWeightSegment}" in hyphenated barcode "${barcode}".`);
-      return null;
-    }
-    grossWeight = parsedGrossWeight / 10;
-
-  } else {
-    // --- Handle non-hyphenated barcode format (using last 15 characters) ---
-    if (barcode.length < 15) {
-      console.warn(`parseBarcode: Non-hyphenated barcode "${barcode}" is too short (${barcode.length}). Expected at least 15 characters.`);
-      return null;
-    }
-
-    const last15Chars = barcode.slice(-15);
-
-    // DOE: first 2 characters of these 15
-    doe = last15Chars.substring(0, 2);
-
-    // Dispatch Number: characters 3-5, dropping leading zeros
-    const dispatchSegment = last15Chars.substring(2, 5);
-    const parsedDispatch = parseInt(dispatchSegment, 10);
-    if (isNaN(parsedDispatch)) {
-      console.warn(`parseBarcode: Could not parse dispatch number from "${dispatchSegment}" in non-hyphenated barcode "${barcode}".`);
-      return null;
-    }
-    dispatchNumber = parsedDispatch.toString();
+  const doe = findDoeValue(decoded.doe, doeValues);
+  if (!doe) {
+    console.warn(`parseBarcode: "${barcode}" names DOE "${decoded.doe}", which is not in the DOE list.`);
+    return null;
+  }
+  return { ...decoded, doe };
+}
 
-    // Gross Weight: last 3 digits, divided by 10
-    const grossWeightSegment = last15Chars.substring(last15Chars.length - 3);
-    const parsedGrossWeight = parseInt(grossWeightSegment, 10);
-    if (isNaN(parsedGrossWeight)) {
-      console.warn(`parseBarcode: Could not parse gross weight from "${grossWeightSegment}" in non-hyphenated barcode "${barcode}".`);
-      return null;
-    }
-    grossWeight = parsedGrossWeight / 10;
+/**
+ * Reads a shipment's stored per-bucket net weights. Shipments whose totals were
+ * stored before buckets became configurable only have the fixed Asendia A/C /
+ * remaining fields; those are mapped onto the default buckets until their
+ * totals are rebuilt.
+ */
+export function netWeightByBucketFromFirestore(data: Record<string, unknown>): Record<string, number> {
+  const byBucket: Record<string, number> = {};
+  const stored = data.netWeightByBucket;
+  if (stored && typeof stored === 'object') {
+    Object.entries(stored).forEach(([bucketId, weight]) => {
+      if (typeof weight === 'number') byBucket[bucketId] = weight;
+    });
+    return byBucket;
+  }
+  if (typeof data.asendiaACNetWeight === 'number') {
+    byBucket[DEFAULT_WEIGHT_BUCKETS[0].id] = data.asendiaACNetWeight;
   }
+  if (typeof data.remainingCustomersNetWeight === 'number') {
+    byBucket[OTHER_WEIGHT_BUCKET_ID] = data.remainingCustomersNetWeight;
+  }
+  return byBucket;
+}
 
-  return { doe, dispatchNumber, grossWeight };
+export interface NetWeightBreakdownRow {
+  id: string;
+  label: string;
+  netWeight: number;
+}
+
+/**
+ * Lists a shipment's net weight per configured bucket, followed by the
+ * catch-all "other" bucket. Buckets without a stored value show as 0.
+ */
+export function getNetWeightBreakdown(
+  shipment: Pick<Shipment, 'netWeightByBucket'>,
+  buckets: WeightBucket[]
+): NetWeightBreakdownRow[] {
+  const byBucket = shipment.netWeightByBucket ?? {};
+  return [
+    ...buckets.map((bucket) => ({
+      id: bucket.id,
+      label: bucket.label,
+      netWeight: byBucket[bucket.id] ?? 0,
+    })),
+    {
+      id: OTHER_WEIGHT_BUCKET_ID,
+      label: OTHER_WEIGHT_BUCKET_LABEL,
+      netWeight: byBucket[OTHER_WEIGHT_BUCKET_ID] ?? 0,
+    },
+  ];
 }
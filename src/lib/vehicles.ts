@@ -0,0 +1,39 @@
+import type { Vehicle, VehicleType } from '@/lib/types';
+
+export const VEHICLE_TYPES: VehicleType[] = ['truck', 'trailer'];
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  truck: 'Truck',
+  trailer: 'Trailer',
+};
+
+/**
+ * The form plates are stored and printed in: upper case letters and digits
+ * only, so "ab12 cde", "AB12-CDE" and "AB12CDE" are the same plate.
+ * @param plate The plate as typed.
+ * @returns The normalized plate.
+ */
+export const normalizePlate = (plate: string): string => plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// National formats vary too much to check; this only rules out typos like a stray character or a truncated plate
+export const isValidPlate = (plate: string): boolean => /^[A-Z0-9]{2,12}$/.test(plate);
+
+// One document per plate and country, so the same plate cannot be registered twice
+export const vehicleDocumentId = (countryCode: string, plate: string): string =>
+  `${countryCode.trim().toUpperCase()}-${normalizePlate(plate)}`;
+
+/**
+ * Finds the registered vehicle a typed plate refers to, preferring the
+ * given carrier's vehicles when another carrier has the same plate.
+ * @param vehicles The registered vehicles.
+ * @param type Truck or trailer.
+ * @param plate The plate as typed.
+ * @param carrierId The shipment's carrier, if chosen.
+ * @returns The vehicle, or undefined for an unregistered plate.
+ */
+export const findVehicleByPlate = (vehicles: Vehicle[], type: VehicleType, plate: string, carrierId?: string): Vehicle | undefined => {
+  const normalized = normalizePlate(plate);
+  if (!normalized) return undefined;
+  const matches = vehicles.filter(vehicle => vehicle.type === type && vehicle.plate === normalized);
+  return matches.find(vehicle => vehicle.carrierId === carrierId) ?? matches[0];
+};